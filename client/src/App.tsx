@@ -46,12 +46,30 @@ function Router() {
           <Dashboard />
         </ProtectedRoute>
       </Route>
+      <Route path="/orders/:id">
+        <ProtectedRoute>
+          <Navigation />
+          <Dashboard />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/settings">
+        <ProtectedRoute>
+          <Navigation />
+          <Dashboard />
+        </ProtectedRoute>
+      </Route>
       <Route path="/admin">
         <ProtectedRoute requiredRole="admin">
           <Navigation />
           <Dashboard />
         </ProtectedRoute>
       </Route>{" "}
+      <Route path="/admin/filament">
+        <ProtectedRoute requiredRole="admin">
+          <Navigation />
+          <Dashboard />
+        </ProtectedRoute>
+      </Route>
       <Route path="/superadmin">
         <ProtectedRoute requiredRole="superadmin">
           <Navigation />
@@ -9,6 +9,7 @@ import {
 } from "react";
 import { type User as FirebaseUser } from "firebase/auth";
 import { onAuthStateChange } from "@/lib/auth";
+import { connectLiveUpdates } from "@/lib/queryClient";
 import { type User } from "@shared/schema";
 import { useQuery } from "@tanstack/react-query";
 
@@ -58,6 +59,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return unsubscribe;
   }, [refetchUser]);
 
+  // Guests have no account to stream updates for
+  useEffect(() => {
+    if (!user || guestUser) return;
+    return connectLiveUpdates();
+  }, [user?.id, guestUser]);
+
   const handleSetGuestUser = (user: User | null) => {
     setFirebaseUser(null);
     setGuestUser(user);
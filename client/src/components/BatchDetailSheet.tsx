@@ -0,0 +1,272 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, X } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { OrderStatusBadge } from "@/components/OrderStatusBadge";
+import { PrinterSelect } from "@/components/PrinterSelect";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { BatchStatus, OrderStatus, type Batch, type Club, type Order } from "@shared/schema";
+import {
+  canEditBatchOrders,
+  getAllowedBatchTransitions,
+  type BatchOrderFailure,
+  type BatchStatusValue,
+} from "@shared/batchStatus";
+
+type BatchDetail = Batch & { orders: (Order & { club: Club | null })[] };
+
+interface BatchDetailSheetProps {
+  batchId: number | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const transitionLabels: Record<BatchStatusValue, string> = {
+  [BatchStatus.CREATED]: "Withdraw approval",
+  [BatchStatus.APPROVED]: "Approve batch",
+  [BatchStatus.STARTED]: "Start printing",
+  [BatchStatus.FINISHED]: "Finish batch",
+};
+
+function formatTime(value: Date | string | null) {
+  return value ? format(new Date(value), "MMM dd, HH:mm") : "—";
+}
+
+export function BatchDetailSheet({ batchId, onOpenChange }: BatchDetailSheetProps) {
+  // Orders that failed, keyed by order id, with the reason entered
+  const [failures, setFailures] = useState<Record<number, string>>({});
+  const [finishing, setFinishing] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    setFailures({});
+    setFinishing(false);
+  }, [batchId]);
+
+  const { data: batch, isLoading } = useQuery<BatchDetail>({
+    queryKey: ["/api/batches", batchId],
+    queryFn: async () => (await apiRequest("GET", `/api/batches/${batchId}`)).json(),
+    enabled: batchId !== null,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Batch update failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/batches"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stats/admin"] });
+  };
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async (updates: { status: BatchStatusValue; failures?: BatchOrderFailure[] }) => {
+      const response = await apiRequest("PATCH", `/api/batches/${batchId}/status`, updates);
+      return response.json();
+    },
+    onSuccess: (_, { status }) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/filament/spools"] });
+      setFinishing(false);
+      setFailures({});
+      toast({
+        title: "Batch updated",
+        description:
+          status === BatchStatus.STARTED || status === BatchStatus.FINISHED
+            ? "Every order in the batch was updated."
+            : `The batch is now ${status}.`,
+      });
+    },
+    onError,
+  });
+
+  const removeOrderMutation = useMutation({
+    mutationFn: async (orderId: number) => {
+      const response = await apiRequest("DELETE", `/api/batches/${batchId}/orders/${orderId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Order removed from batch" });
+    },
+    onError,
+  });
+
+  const printing = batch?.orders.filter((order) => order.status === OrderStatus.STARTED) ?? [];
+  const failureList = Object.entries(failures).map(([orderId, failureReason]) => ({
+    orderId: Number(orderId),
+    failureReason: failureReason.trim(),
+  }));
+  const failuresValid = failureList.every((failure) => failure.failureReason);
+
+  const handleTransition = (status: BatchStatusValue) => {
+    // Finishing asks which orders failed first
+    if (status === BatchStatus.FINISHED && !finishing) {
+      setFinishing(true);
+      return;
+    }
+    updateStatusMutation.mutate({
+      status,
+      failures: status === BatchStatus.FINISHED ? failureList : undefined,
+    });
+  };
+
+  const toggleFailure = (orderId: number, failed: boolean) => {
+    setFailures((current) => {
+      const { [orderId]: _removed, ...rest } = current;
+      return failed ? { ...current, [orderId]: "" } : rest;
+    });
+  };
+
+  return (
+    <Sheet open={batchId !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full overflow-y-auto bg-slate-800 border-slate-700 sm:max-w-xl">
+        {isLoading || !batch ? (
+          <div className="flex h-40 items-center justify-center text-gray-400">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Loading batch…
+          </div>
+        ) : (
+          <>
+            <SheetHeader>
+              <SheetTitle className="text-white">{batch.name || batch.batchNumber}</SheetTitle>
+              <SheetDescription className="font-mono text-cyan-400">{batch.batchNumber}</SheetDescription>
+            </SheetHeader>
+
+            <div className="mt-6 space-y-6">
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div>
+                  <p className="text-gray-400">Status</p>
+                  <Badge variant="secondary" className="capitalize">{batch.status}</Badge>
+                </div>
+                <div>
+                  <p className="text-gray-400">Started</p>
+                  <p className="text-white">{formatTime(batch.startedAt)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-400">Completed</p>
+                  <p className="text-white">{formatTime(batch.completedAt)}</p>
+                </div>
+              </div>
+
+              <div className="space-y-2 text-sm">
+                <p className="text-gray-400">Printer</p>
+                <PrinterSelect
+                  target={{ type: "batch", id: batch.id }}
+                  value={batch.printerId}
+                  orders={batch.orders}
+                />
+              </div>
+
+              <div className="space-y-3">
+                <h3 className="font-semibold text-white">Orders ({batch.orders.length})</h3>
+                {batch.orders.length === 0 ? (
+                  <p className="text-sm text-gray-400">This batch has no orders.</p>
+                ) : (
+                  batch.orders.map((order) => (
+                    <div key={order.id} className="space-y-2 rounded-lg bg-slate-900 p-3">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="font-mono text-sm text-cyan-400">{order.orderId}</p>
+                          <p className="text-sm text-white">{order.projectName}</p>
+                          <p className="text-xs text-gray-400">
+                            {order.club?.name || "Personal"} · {order.material} {order.color}
+                            {order.estimatedCompletionTime &&
+                              ` · done ~${formatTime(order.estimatedCompletionTime)}`}
+                          </p>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <OrderStatusBadge status={order.status} size="sm" />
+                          {canEditBatchOrders(batch) && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => removeOrderMutation.mutate(order.id)}
+                              disabled={removeOrderMutation.isPending}
+                              className="text-red-400 hover:text-red-300"
+                              title="Remove from batch"
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                      {finishing && order.status === OrderStatus.STARTED && (
+                        <div className="flex items-center space-x-3">
+                          <label className="flex items-center space-x-2 text-sm text-gray-300">
+                            <Checkbox
+                              checked={order.id in failures}
+                              onCheckedChange={(checked) => toggleFailure(order.id, checked === true)}
+                            />
+                            <span>Failed</span>
+                          </label>
+                          {order.id in failures && (
+                            <Input
+                              value={failures[order.id]}
+                              onChange={(e) =>
+                                setFailures((current) => ({ ...current, [order.id]: e.target.value }))
+                              }
+                              placeholder="What went wrong?"
+                              className="h-8 bg-slate-800 border-slate-600 text-white"
+                            />
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+
+              {finishing && (
+                <p className="text-xs text-gray-400">
+                  {printing.length - failureList.length} of {printing.length} orders will be marked
+                  finished. Failed orders leave the batch so they can be requeued.
+                </p>
+              )}
+
+              <div className="flex flex-wrap justify-end gap-2">
+                {finishing && (
+                  <Button variant="outline" onClick={() => setFinishing(false)}>
+                    Cancel
+                  </Button>
+                )}
+                {getAllowedBatchTransitions(batch.status).map((status) => (
+                  <Button
+                    key={status}
+                    variant={status === BatchStatus.CREATED ? "outline" : "default"}
+                    onClick={() => handleTransition(status)}
+                    disabled={
+                      updateStatusMutation.isPending ||
+                      (status === BatchStatus.FINISHED && finishing && !failuresValid)
+                    }
+                    className={status === BatchStatus.CREATED ? undefined : "bg-cyan-500 hover:bg-cyan-600"}
+                  >
+                    {finishing && status === BatchStatus.FINISHED
+                      ? "Confirm finish"
+                      : transitionLabels[status]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Layers, Sparkles } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { type BatchSuggestion } from "@shared/batchSuggestions";
+import { isPrinterAvailable } from "@shared/printers";
+import { type Printer } from "@shared/schema";
+
+// Top-down view of where each part goes on the build plate
+function PlatePreview({ suggestion }: { suggestion: BatchSuggestion }) {
+  const { plate, placements, orderIds } = suggestion;
+  const colors = ["#22d3ee", "#a78bfa", "#34d399", "#fbbf24", "#f472b6", "#60a5fa"];
+  return (
+    <svg
+      viewBox={`0 0 ${plate.x} ${plate.y}`}
+      className="h-24 w-24 shrink-0 rounded bg-slate-950"
+      aria-label="Build plate layout"
+    >
+      {placements.map((placement, index) => (
+        <rect
+          key={index}
+          x={placement.x}
+          // SVG y grows downwards; the plate's front edge is at the bottom
+          y={plate.y - placement.y - placement.depth}
+          width={placement.width}
+          height={placement.depth}
+          fill={colors[orderIds.indexOf(placement.orderId) % colors.length]}
+          fillOpacity={0.7}
+        >
+          <title>{placement.fileName}</title>
+        </rect>
+      ))}
+    </svg>
+  );
+}
+
+const ANY_PRINTER = "any";
+
+export function BatchSuggestions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [printerId, setPrinterId] = useState<number | null>(null);
+
+  const { data: printers = [] } = useQuery<Printer[]>({
+    queryKey: ["/api/printers"],
+  });
+
+  const { data: suggestions = [], isLoading } = useQuery<BatchSuggestion[]>({
+    queryKey: ["/api/batches/suggestions", printerId],
+    queryFn: async () =>
+      (
+        await apiRequest(
+          "GET",
+          printerId === null ? "/api/batches/suggestions" : `/api/batches/suggestions?printerId=${printerId}`
+        )
+      ).json(),
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (suggestion: BatchSuggestion) => {
+      const response = await apiRequest("POST", "/api/batches/suggestions/accept", {
+        name: suggestion.name,
+        orderIds: suggestion.orderIds,
+        printerId: printerId ?? undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (batch) => {
+      // Also refreshes the suggestions, which share the prefix
+      queryClient.invalidateQueries({ queryKey: ["/api/batches"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Batch created",
+        description: `${batch.name} is ready to approve.`,
+      });
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/batches/suggestions"] });
+      toast({
+        title: "Could not create batch",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="bg-slate-800 border-slate-700">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-white flex items-center">
+              <Sparkles className="mr-2 h-5 w-5 text-cyan-400" />
+              Suggested Batches
+            </CardTitle>
+            <CardDescription>
+              Approved orders sharing a material and color that fit on one plate.
+            </CardDescription>
+          </div>
+          <Select
+            value={printerId?.toString() ?? ANY_PRINTER}
+            onValueChange={(selected) => setPrinterId(selected === ANY_PRINTER ? null : parseInt(selected))}
+          >
+            <SelectTrigger className="w-48 bg-slate-900 border-slate-600 text-white">
+              <SelectValue placeholder="Any printer" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_PRINTER}>Any printer</SelectItem>
+              {printers.map((printer) => (
+                <SelectItem
+                  key={printer.id}
+                  value={printer.id.toString()}
+                  disabled={!isPrinterAvailable(printer)}
+                >
+                  {printer.name}
+                  {isPrinterAvailable(printer) ? "" : ` (${printer.status})`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="h-24 animate-pulse rounded-lg bg-slate-700"></div>
+        ) : suggestions.length === 0 ? (
+          <p className="text-sm text-gray-400">No batches to suggest right now.</p>
+        ) : (
+          suggestions.map((suggestion) => (
+            <div
+              key={suggestion.orderIds.join(",")}
+              className="flex items-center space-x-4 rounded-lg bg-slate-900 p-3"
+            >
+              <PlatePreview suggestion={suggestion} />
+              <div className="min-w-0 flex-1 space-y-1">
+                <p className="text-sm font-medium text-white">{suggestion.name}</p>
+                <p className="truncate font-mono text-xs text-cyan-400">
+                  {suggestion.orderCodes.join(", ")}
+                </p>
+                <div className="flex flex-wrap gap-2 text-xs text-gray-400">
+                  <Badge variant="secondary">{suggestion.printerName ?? "Any printer"}</Badge>
+                  <span>~{suggestion.estimatedHours} h</span>
+                  <span>~{Math.round(suggestion.estimatedGrams)} g</span>
+                  <span>{Math.round(suggestion.plateUsage * 100)}% of plate</span>
+                </div>
+              </div>
+              <Button
+                size="sm"
+                onClick={() => acceptMutation.mutate(suggestion)}
+                disabled={acceptMutation.isPending}
+                className="bg-cyan-500 hover:bg-cyan-600"
+              >
+                <Layers className="mr-1 h-4 w-4" />
+                Create
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, Undo2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  diffLines,
+  formatConfigValue,
+  type ConfigDefinition,
+  type SystemConfigRevisionView,
+} from "@shared/systemConfig";
+
+interface ConfigHistoryDialogProps {
+  configKey: string;
+  definition: ConfigDefinition;
+  open: boolean;
+  editable: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function ValueDiff({
+  definition,
+  revision,
+}: {
+  definition: ConfigDefinition;
+  revision: SystemConfigRevisionView;
+}) {
+  const lines = diffLines(
+    formatConfigValue(definition, revision.previousValue ?? definition.default),
+    formatConfigValue(definition, revision.value)
+  );
+  return (
+    <pre className="overflow-x-auto rounded bg-slate-950 p-2 text-xs leading-5">
+      {lines.map((line, index) => (
+        <div
+          key={index}
+          className={
+            line.type === "added"
+              ? "bg-green-950/60 text-green-300"
+              : line.type === "removed"
+                ? "bg-red-950/60 text-red-300"
+                : "text-gray-400"
+          }
+        >
+          {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+          {line.text}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+// Every change to one setting, newest first. Any change can be reverted,
+// which restores the value it replaced as a new revision.
+export function ConfigHistoryDialog({
+  configKey,
+  definition,
+  open,
+  editable,
+  onOpenChange,
+}: ConfigHistoryDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reverting, setReverting] = useState<number | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data: revisions = [], isLoading } = useQuery<SystemConfigRevisionView[]>({
+    queryKey: ["/api/system/config", configKey, "history"],
+    queryFn: async () =>
+      (await apiRequest("GET", `/api/system/config/${configKey}/history`)).json(),
+    enabled: open,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const response = await apiRequest("POST", `/api/system/config/${configKey}/rollback`, {
+        version,
+        reason,
+      });
+      return response.json();
+    },
+    onSuccess: (_, version) => {
+      // Also refreshes the history, which shares the prefix
+      queryClient.invalidateQueries({ queryKey: ["/api/system/config"] });
+      setReverting(null);
+      setReason("");
+      toast({ title: `${definition.label} rolled back`, description: `Change #${version} was reverted.` });
+    },
+    onError: (error) => {
+      toast({
+        title: "Rollback failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) {
+          setReverting(null);
+          setReason("");
+        }
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-h-[85vh] overflow-y-auto bg-slate-800 border-slate-700 sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-white">{definition.label} history</DialogTitle>
+          <DialogDescription>{definition.description}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex h-24 items-center justify-center text-gray-400">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Loading history…
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            This setting has never been changed from its default.
+          </p>
+        ) : (
+          <ol className="space-y-4">
+            {revisions.map((revision, index) => (
+              <li key={revision.version} className="space-y-2 rounded-lg bg-slate-900 p-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className="text-sm text-white">
+                    #{revision.version} · {revision.changedBy?.displayName ?? "Unknown user"}
+                    {revision.createdAt && (
+                      <span className="text-gray-400">
+                        {" "}
+                        · {format(new Date(revision.createdAt), "MMM dd, yyyy HH:mm")}
+                      </span>
+                    )}
+                    {index === 0 && (
+                      <Badge variant="secondary" className="ml-2">
+                        Current
+                      </Badge>
+                    )}
+                    {revision.revertedVersion && (
+                      <Badge className="ml-2 bg-yellow-900 text-yellow-300">
+                        Reverts #{revision.revertedVersion}
+                      </Badge>
+                    )}
+                  </p>
+                  {editable && reverting !== revision.version && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setReverting(revision.version);
+                        setReason("");
+                      }}
+                      className="text-gray-400 hover:text-white"
+                    >
+                      <Undo2 className="mr-1 h-4 w-4" />
+                      Revert
+                    </Button>
+                  )}
+                </div>
+                {revision.reason && (
+                  <p className="text-sm italic text-gray-300">“{revision.reason}”</p>
+                )}
+                <ValueDiff definition={definition} revision={revision} />
+
+                {reverting === revision.version && (
+                  <div className="flex items-center space-x-2">
+                    <Input
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      placeholder="Why is this being rolled back?"
+                      className="bg-slate-900 border-slate-600 text-white"
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => setReverting(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => rollbackMutation.mutate(revision.version)}
+                      disabled={!reason.trim() || rollbackMutation.isPending}
+                      className="bg-cyan-500 hover:bg-cyan-600"
+                    >
+                      Roll back
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
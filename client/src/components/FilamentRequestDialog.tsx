@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { type Order } from "@shared/schema";
+import { getOrderPrintEstimate } from "@shared/printEstimates";
+import { type FilamentRequestCreate } from "@shared/filamentRequest";
+
+interface FilamentRequestDialogProps {
+  order: Order | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function FilamentRequestDialog({ order, onOpenChange }: FilamentRequestDialogProps) {
+  const [material, setMaterial] = useState("");
+  const [color, setColor] = useState("");
+  const [grams, setGrams] = useState("");
+  const [note, setNote] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!order) return;
+    // Ask for the estimate plus a margin for purging and supports
+    const estimate = getOrderPrintEstimate(order.files).estimatedGrams;
+    setMaterial(order.material || "PLA");
+    setColor(order.color || "");
+    setGrams(estimate ? String(Math.ceil((estimate * 1.2) / 10) * 10) : "");
+    setNote("");
+  }, [order]);
+
+  const requestFilamentMutation = useMutation({
+    mutationFn: async ({ orderId, request }: { orderId: number; request: FilamentRequestCreate }) => {
+      const response = await apiRequest("POST", `/api/orders/${orderId}/filament-request`, request);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Filament requested",
+        description: "The student has been asked to drop off filament.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Request failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const quantity = Number(grams);
+  const valid = !!material.trim() && !!color.trim() && quantity > 0;
+
+  const handleSubmit = () => {
+    if (!order || !valid) return;
+    requestFilamentMutation.mutate({
+      orderId: order.id,
+      request: {
+        material: material.trim(),
+        color: color.trim(),
+        grams: quantity,
+        note: note.trim() || undefined,
+      },
+    });
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-800 border-slate-700">
+        <DialogHeader>
+          <DialogTitle className="text-white">Request filament</DialogTitle>
+          <DialogDescription>
+            {order?.orderId} – the order can't be approved until the filament is received.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="filament-material" className="text-gray-300">Material</Label>
+              <Input
+                id="filament-material"
+                value={material}
+                onChange={(e) => setMaterial(e.target.value)}
+                className="bg-slate-900 border-slate-600 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="filament-color" className="text-gray-300">Color</Label>
+              <Input
+                id="filament-color"
+                value={color}
+                onChange={(e) => setColor(e.target.value)}
+                className="bg-slate-900 border-slate-600 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="filament-grams" className="text-gray-300">Quantity (g)</Label>
+              <Input
+                id="filament-grams"
+                type="number"
+                min="1"
+                value={grams}
+                onChange={(e) => setGrams(e.target.value)}
+                className="bg-slate-900 border-slate-600 text-white"
+              />
+            </div>
+          </div>
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Anything the student should know, e.g. where to drop it off"
+            className="bg-slate-900 border-slate-600 text-white placeholder-gray-400 resize-none"
+            rows={3}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!valid || requestFilamentMutation.isPending}
+            className="bg-cyan-500 hover:bg-cyan-600"
+          >
+            Send request
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
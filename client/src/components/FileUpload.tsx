@@ -1,15 +1,22 @@
-import { useState, useCallback } from "react";
-import { Upload, X, FileCode, AlertCircle } from "lucide-react";
+import { useState, useCallback, useEffect } from "react";
+import { Upload, X, FileCode, AlertCircle, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { type FileAnalysis, type GcodeAnalysis, type StlAnalysis } from "@shared/schema";
+import { analyzeStl, parseStl, withMaterial, DEFAULT_BUILD_VOLUME, type StlMesh } from "@shared/stl";
+import { analyzeGcode } from "@shared/gcode";
 
-interface FileData {
+export interface FileData {
   id: string;
   name: string;
   size: number;
   type: string;
   file: File;
+  analysis?: FileAnalysis;
+  // Kept for the 3D preview; never sent to the server
+  mesh?: StlMesh;
+  analysisError?: string;
 }
 
 interface FileUploadProps {
@@ -17,18 +24,111 @@ interface FileUploadProps {
   maxFiles?: number;
   maxFileSize?: number;
   acceptedTypes?: string[];
+  retentionDays?: number;
+  material?: string;
+}
+
+function StlSummary({ analysis }: { analysis: StlAnalysis }) {
+  const { size } = analysis.boundingBox;
+  return (
+    <div className="text-xs text-gray-400 space-y-0.5 mt-1">
+      <p>
+        {size.x.toFixed(1)} × {size.y.toFixed(1)} × {size.z.toFixed(1)} mm ·{" "}
+        {analysis.triangleCount.toLocaleString()} triangles
+      </p>
+      <p>
+        {analysis.volumeCm3} cm³ · ~{analysis.estimatedGrams} g · ~{analysis.estimatedHours} h
+      </p>
+      {!analysis.fitsBuildVolume && (
+        <p className="flex items-center text-yellow-400">
+          <AlertTriangle className="mr-1 h-3 w-3" />
+          Larger than the build volume ({DEFAULT_BUILD_VOLUME.x} × {DEFAULT_BUILD_VOLUME.y} ×{" "}
+          {DEFAULT_BUILD_VOLUME.z} mm)
+        </p>
+      )}
+    </div>
+  );
+}
+
+const slicerNames: Record<GcodeAnalysis["slicer"], string> = {
+  cura: "Cura",
+  prusaslicer: "PrusaSlicer",
+  orcaslicer: "OrcaSlicer",
+  unknown: "Unknown slicer",
+};
+
+function GcodeSummary({ analysis, material }: { analysis: GcodeAnalysis; material: string }) {
+  const { size } = analysis.boundingBox;
+  const temperatures = [
+    analysis.nozzleTempC !== null && `nozzle ${analysis.nozzleTempC}°C`,
+    analysis.bedTempC !== null && `bed ${analysis.bedTempC}°C`,
+  ].filter(Boolean);
+  return (
+    <div className="text-xs text-gray-400 space-y-0.5 mt-1">
+      <p>
+        {slicerNames[analysis.slicer]}
+        {analysis.material && ` · ${analysis.material}`}
+        {analysis.layerHeightMm !== null && ` · ${analysis.layerHeightMm} mm layers`}
+        {temperatures.length > 0 && ` · ${temperatures.join(", ")}`}
+      </p>
+      <p>
+        {(analysis.filamentLengthMm / 1000).toFixed(2)} m · ~{analysis.estimatedGrams} g · ~
+        {analysis.estimatedHours} h
+        {analysis.estimateSource === "simulated" && " (estimated from moves)"}
+      </p>
+      {analysis.material && analysis.material !== material.toUpperCase() && (
+        <p className="flex items-center text-yellow-400">
+          <AlertTriangle className="mr-1 h-3 w-3" />
+          Sliced for {analysis.material}, but {material} is selected
+        </p>
+      )}
+      {!analysis.fitsBuildVolume && (
+        <p className="flex items-center text-yellow-400">
+          <AlertTriangle className="mr-1 h-3 w-3" />
+          Moves outside the build volume ({size.x.toFixed(0)} × {size.y.toFixed(0)} ×{" "}
+          {size.z.toFixed(0)} mm)
+        </p>
+      )}
+    </div>
+  );
 }
 
 export function FileUpload({ 
   onFilesChange, 
   maxFiles = 10, 
   maxFileSize = 50 * 1024 * 1024, // 50MB
-  acceptedTypes = ['.stl', '.gcode']
+  acceptedTypes = ['.stl', '.gcode'],
+  retentionDays = 90,
+  material = "PLA"
 }: FileUploadProps) {
   const [files, setFiles] = useState<FileData[]>([]);
   const [dragActive, setDragActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  useEffect(() => {
+    onFilesChange(files);
+  }, [files, onFilesChange]);
+
+  // Meshes and G-code are parsed in the browser so students see size and
+  // cost estimates before submitting; the server repeats the analysis on submit.
+  const analyzeFile = async (fileData: FileData) => {
+    const name = fileData.name.toLowerCase();
+    let updates: Partial<FileData>;
+    try {
+      if (name.endsWith('.stl')) {
+        const mesh = parseStl(await fileData.file.arrayBuffer());
+        updates = { mesh, analysis: analyzeStl(mesh) };
+      } else if (name.endsWith('.gcode')) {
+        updates = { analysis: analyzeGcode(await fileData.file.text()) };
+      } else {
+        return;
+      }
+    } catch (err: any) {
+      updates = { analysisError: err.message || "Could not read file" };
+    }
+    setFiles(current => current.map(f => (f.id === fileData.id ? { ...f, ...updates } : f)));
+  };
+
   const validateFile = (file: File): string | null => {
     // Check file size
     if (file.size > maxFileSize) {
@@ -78,15 +178,12 @@ export function FileUpload({
       return;
     }
 
-    const updatedFiles = [...files, ...validFiles];
-    setFiles(updatedFiles);
-    onFilesChange(updatedFiles);
-  }, [files, maxFiles, maxFileSize, acceptedTypes, onFilesChange]);
+    setFiles(current => [...current, ...validFiles]);
+    validFiles.forEach(analyzeFile);
+  }, [files, maxFiles, maxFileSize, acceptedTypes]);
 
   const removeFile = (fileId: string) => {
-    const updatedFiles = files.filter(f => f.id !== fileId);
-    setFiles(updatedFiles);
-    onFilesChange(updatedFiles);
+    setFiles(current => current.filter(f => f.id !== fileId));
     setError(null);
   };
 
@@ -182,6 +279,15 @@ export function FileUpload({
                 <div>
                   <span className="text-sm font-medium text-white">{file.name}</span>
                   <p className="text-xs text-gray-400">{formatFileSize(file.size)}</p>
+                  {file.analysis?.kind === "stl" && (
+                    <StlSummary analysis={withMaterial(file.analysis, material)} />
+                  )}
+                  {file.analysis?.kind === "gcode" && (
+                    <GcodeSummary analysis={file.analysis} material={material} />
+                  )}
+                  {file.analysisError && (
+                    <p className="text-xs text-red-400">{file.analysisError}</p>
+                  )}
                 </div>
               </div>
               <Button
@@ -207,7 +313,7 @@ export function FileUpload({
           </div>
           <Progress value={(files.length / maxFiles) * 100} className="w-full" />
           <p className="text-xs text-gray-400">
-            Limit resets every 30 days. Files are automatically deleted after 90 days.
+            Limit resets every 30 days. Files are automatically deleted after {retentionDays} days.
           </p>
         </div>
       </div>
@@ -0,0 +1,160 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Box, Grid3x3, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  createModelRenderer,
+  getDefaultView,
+  prepareScene,
+  type ModelRenderer,
+  type ModelView,
+} from "@/lib/modelRenderer";
+import { DEFAULT_BUILD_VOLUME, type BuildVolume, type StlMesh } from "@shared/stl";
+
+interface ModelViewerProps {
+  mesh: StlMesh;
+  buildVolume?: BuildVolume;
+  className?: string;
+}
+
+const ORBIT_SPEED = 0.01;
+const MAX_PITCH = Math.PI / 2 - 0.01;
+
+export function ModelViewer({
+  mesh,
+  buildVolume = DEFAULT_BUILD_VOLUME,
+  className = "h-72",
+}: ModelViewerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rendererRef = useRef<ModelRenderer | null>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const scene = useMemo(() => prepareScene(mesh, buildVolume), [mesh, buildVolume]);
+  const [view, setView] = useState<ModelView>(() => getDefaultView(scene));
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [rendererKind, setRendererKind] = useState<ModelRenderer["kind"] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    try {
+      const renderer = createModelRenderer(canvas, scene);
+      rendererRef.current = renderer;
+      setRendererKind(renderer.kind);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || "Could not display this model");
+    }
+    setView((current) => ({ ...getDefaultView(scene), wireframe: current.wireframe }));
+    return () => {
+      rendererRef.current?.dispose();
+      rendererRef.current = null;
+    };
+  }, [scene]);
+
+  // Keep the drawing buffer matched to the element's size on screen
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(() => {
+      const ratio = window.devicePixelRatio || 1;
+      const width = Math.round(canvas.clientWidth * ratio);
+      const height = Math.round(canvas.clientHeight * ratio);
+      canvas.width = width;
+      canvas.height = height;
+      setSize({ width, height });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!size.width || !size.height) return;
+    const frame = requestAnimationFrame(() =>
+      rendererRef.current?.render(view, size.width, size.height)
+    );
+    return () => cancelAnimationFrame(frame);
+  }, [view, size, rendererKind]);
+
+  // React registers wheel listeners as passive, so zoom needs a native one
+  // to stop the page from scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setView((current) => ({
+        ...current,
+        distance: Math.min(
+          Math.max(current.distance * Math.exp(e.deltaY * 0.001), scene.radius * 0.5),
+          scene.radius * 20
+        ),
+      }));
+    };
+    canvas.addEventListener("wheel", handleWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", handleWheel);
+  }, [scene]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const last = dragRef.current;
+    if (!last) return;
+    const dx = e.clientX - last.x;
+    const dy = e.clientY - last.y;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    setView((current) => ({
+      ...current,
+      yaw: current.yaw - dx * ORBIT_SPEED,
+      pitch: Math.min(Math.max(current.pitch + dy * ORBIT_SPEED, -MAX_PITCH), MAX_PITCH),
+    }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div className={`relative overflow-hidden rounded-lg bg-slate-900 ${className}`}>
+      <canvas
+        ref={canvasRef}
+        className="h-full w-full cursor-grab touch-none active:cursor-grabbing"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+      {error && (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-red-400">
+          {error}
+        </div>
+      )}
+      <div className="absolute right-2 top-2 flex gap-1">
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          onClick={() => setView((current) => ({ ...current, wireframe: !current.wireframe }))}
+          title={view.wireframe ? "Show solid" : "Show wireframe"}
+        >
+          {view.wireframe ? <Box className="h-4 w-4" /> : <Grid3x3 className="h-4 w-4" />}
+        </Button>
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          onClick={() => setView((current) => ({ ...getDefaultView(scene), wireframe: current.wireframe }))}
+          title="Reset view"
+        >
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+      </div>
+      <p className="pointer-events-none absolute bottom-2 left-2 text-xs text-gray-500">
+        Drag to orbit · scroll to zoom · {buildVolume.x} × {buildVolume.y} mm plate
+        {rendererKind === "canvas" && " · simplified preview"}
+      </p>
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import {
   DropdownMenuSeparator,
 } from "@/components/ui/dropdown-menu";
 import { useAuth } from "./AuthProvider";
+import { NotificationBell } from "./NotificationBell";
 import { logout } from "@/lib/auth";
 import { UserRole } from "@shared/schema";
 import {
@@ -23,6 +24,8 @@ import {
   LogOut,
   Menu,
   ChevronDown,
+  Package,
+  Settings,
 } from "lucide-react";
 import { useState } from "react";
 
@@ -43,6 +46,7 @@ export function Navigation() {
     { path: "/queue", label: "Queue Status", icon: List },
     { path: "/guidelines", label: "Guidelines", icon: Book },
     { path: "/contact", label: "Contact", icon: Mail },
+    { path: "/settings", label: "Settings", icon: Settings },
   ];
 
   // For elevated users - core navigation items (always visible as tabs)
@@ -53,6 +57,7 @@ export function Navigation() {
     { path: "/submit", label: "Submit Print", icon: Plus },
     { path: "/guidelines", label: "Guidelines", icon: Book },
     { path: "/contact", label: "Contact", icon: Mail },
+    { path: "/settings", label: "Settings", icon: Settings },
   ];
 
   // Add admin panel for admin/superadmin/guest users
@@ -77,6 +82,11 @@ export function Navigation() {
       label: "Admin Dashboard",
       icon: List,
     });
+    coreNavItems.push({
+      path: "/admin/filament",
+      label: "Filament",
+      icon: Package,
+    });
   }
 
   // Get first name only
@@ -153,6 +163,7 @@ export function Navigation() {
           </nav>{" "}
           {/* User Profile */}
           <div className="flex items-center space-x-4">
+            {user?.role !== UserRole.enum.GUEST && <NotificationBell />}
             {isElevatedUser ? (
               // Elevated users - dropdown menu layout
               <div className="flex items-center space-x-3">
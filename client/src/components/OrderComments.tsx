@@ -0,0 +1,320 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Loader2, Lock, Paperclip, Pencil, Trash2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/components/AuthProvider";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { downloadCommentAttachment } from "@/lib/files";
+import { type CommentAttachment } from "@shared/schema";
+import { isStaff } from "@shared/users";
+import {
+  MAX_COMMENT_ATTACHMENTS,
+  MAX_COMMENT_LENGTH,
+  commentAttachmentTypes,
+  type OrderCommentView,
+} from "@shared/comments";
+
+interface OrderCommentsProps {
+  orderId: number;
+}
+
+// The conversation between a student and staff about one order. Staff can
+// also leave internal notes that students never see.
+export function OrderComments({ orderId }: OrderCommentsProps) {
+  const { user } = useAuth();
+  const staff = isStaff(user);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const [body, setBody] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [internal, setInternal] = useState(false);
+  const [editing, setEditing] = useState<{ id: number; body: string } | null>(null);
+
+  const queryKey = ["/api/orders", orderId, "comments"];
+  const { data: comments = [], isLoading } = useQuery<OrderCommentView[]>({
+    queryKey,
+    queryFn: async () => (await apiRequest("GET", `/api/orders/${orderId}/comments`)).json(),
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Comment failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const postMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("body", body);
+      formData.append("internal", String(internal));
+      files.forEach((file) => formData.append("attachments", file));
+      const response = await apiRequest("POST", `/api/orders/${orderId}/comments`, formData);
+      return response.json();
+    },
+    onSuccess: () => {
+      setBody("");
+      setFiles([]);
+      setInternal(false);
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError,
+  });
+
+  const editMutation = useMutation({
+    mutationFn: async (update: { id: number; body: string }) => {
+      const response = await apiRequest(
+        "PATCH",
+        `/api/orders/${orderId}/comments/${update.id}`,
+        { body: update.body }
+      );
+      return response.json();
+    },
+    onSuccess: () => {
+      setEditing(null);
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (commentId: number) => {
+      await apiRequest("DELETE", `/api/orders/${orderId}/comments/${commentId}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError,
+  });
+
+  const handleDownload = async (
+    commentId: number,
+    index: number,
+    attachment: CommentAttachment
+  ) => {
+    try {
+      await downloadCommentAttachment(orderId, commentId, index, attachment.name);
+    } catch (error: any) {
+      toast({
+        title: "Download failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleFiles = (selected: FileList | null) => {
+    const next = [...files, ...Array.from(selected ?? [])];
+    if (next.length > MAX_COMMENT_ATTACHMENTS) {
+      toast({
+        title: "Too many files",
+        description: `Attach at most ${MAX_COMMENT_ATTACHMENTS} files to a comment.`,
+        variant: "destructive",
+      });
+    }
+    setFiles(next.slice(0, MAX_COMMENT_ATTACHMENTS));
+    if (fileInput.current) fileInput.current.value = "";
+  };
+
+  return (
+    <div className="space-y-4">
+      {isLoading ? (
+        <div className="h-16 animate-pulse rounded-lg bg-slate-700"></div>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          No comments yet. Ask a question or share details about this print.
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {comments.map((comment) => {
+            const attachments = (comment.attachments ?? []) as CommentAttachment[];
+            return (
+              <li
+                key={comment.id}
+                className={`rounded-lg p-3 ${
+                  comment.internal
+                    ? "border border-dashed border-yellow-700 bg-yellow-950/30"
+                    : "bg-slate-900"
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium text-white">
+                    {comment.author.name}
+                    {comment.author.staff && (
+                      <Badge variant="secondary" className="ml-2">
+                        Staff
+                      </Badge>
+                    )}
+                    {comment.internal && (
+                      <Badge className="ml-2 bg-yellow-900 text-yellow-300">
+                        <Lock className="mr-1 h-3 w-3" />
+                        Internal
+                      </Badge>
+                    )}
+                  </p>
+                  <div className="flex items-center">
+                    {comment.own && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0 text-gray-400 hover:text-white"
+                        onClick={() => setEditing({ id: comment.id, body: comment.body })}
+                        aria-label="Edit comment"
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                    {(comment.own || staff) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0 text-gray-400 hover:text-red-400"
+                        onClick={() => deleteMutation.mutate(comment.id)}
+                        disabled={deleteMutation.isPending}
+                        aria-label="Delete comment"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {editing?.id === comment.id ? (
+                  <div className="mt-2 space-y-2">
+                    <Textarea
+                      value={editing.body}
+                      onChange={(e) => setEditing({ ...editing, body: e.target.value })}
+                      maxLength={MAX_COMMENT_LENGTH}
+                      className="bg-slate-900 border-slate-600 text-white"
+                    />
+                    <div className="flex justify-end space-x-2">
+                      <Button variant="ghost" size="sm" onClick={() => setEditing(null)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => editMutation.mutate(editing)}
+                        disabled={!editing.body.trim() || editMutation.isPending}
+                        className="bg-cyan-500 hover:bg-cyan-600"
+                      >
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  comment.body && (
+                    <p className="mt-1 whitespace-pre-wrap text-sm text-gray-200">{comment.body}</p>
+                  )
+                )}
+
+                {attachments.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {attachments.map((attachment, index) => (
+                      <Button
+                        key={attachment.storageKey}
+                        variant="outline"
+                        size="sm"
+                        className="h-7 border-slate-600 text-cyan-400"
+                        onClick={() => handleDownload(comment.id, index, attachment)}
+                      >
+                        <Paperclip className="mr-1 h-3.5 w-3.5" />
+                        <span className="max-w-[12rem] truncate">{attachment.name}</span>
+                      </Button>
+                    ))}
+                  </div>
+                )}
+
+                {comment.createdAt && (
+                  <p
+                    className="mt-2 text-xs text-gray-400"
+                    title={format(new Date(comment.createdAt), "MMM dd, yyyy HH:mm")}
+                  >
+                    {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+                    {comment.editedAt && " · edited"}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="space-y-2">
+        <Textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          placeholder={internal ? "Note for staff only…" : "Write a comment…"}
+          maxLength={MAX_COMMENT_LENGTH}
+          className="bg-slate-900 border-slate-600 text-white"
+        />
+        {files.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {files.map((file, index) => (
+              <Badge key={index} variant="secondary" className="max-w-full">
+                <span className="truncate">{file.name}</span>
+                <button
+                  type="button"
+                  className="ml-1"
+                  onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                  aria-label={`Remove ${file.name}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center space-x-4">
+            <input
+              ref={fileInput}
+              type="file"
+              multiple
+              accept={commentAttachmentTypes.join(",")}
+              className="hidden"
+              onChange={(e) => handleFiles(e.target.files)}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-gray-400 hover:text-white"
+              onClick={() => fileInput.current?.click()}
+              disabled={files.length >= MAX_COMMENT_ATTACHMENTS}
+            >
+              <Paperclip className="mr-1 h-4 w-4" />
+              Attach
+            </Button>
+            {staff && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`internal-${orderId}`}
+                  checked={internal}
+                  onCheckedChange={(checked) => setInternal(checked === true)}
+                />
+                <Label htmlFor={`internal-${orderId}`} className="text-sm text-gray-300">
+                  Internal note
+                </Label>
+              </div>
+            )}
+          </div>
+          <Button
+            size="sm"
+            onClick={() => postMutation.mutate()}
+            disabled={(!body.trim() && files.length === 0) || postMutation.isPending}
+            className="bg-cyan-500 hover:bg-cyan-600"
+          >
+            {postMutation.isPending && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+            Post
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { FileCode, Loader2 } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { ModelViewer } from "@/components/ModelViewer";
+import { OrderComments } from "@/components/OrderComments";
+import { OrderFilesMenu } from "@/components/OrderFilesMenu";
+import { OrderStatusBadge } from "@/components/OrderStatusBadge";
+import { PrinterSelect } from "@/components/PrinterSelect";
+import { fetchOrderFile } from "@/lib/files";
+import { orderLink } from "@/lib/links";
+import { parseStl } from "@shared/stl";
+import { type Order, type OrderFile } from "@shared/schema";
+
+interface OrderDetailSheetProps {
+  order: Order | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+function isPreviewable(file: OrderFile) {
+  return !file.purgedAt && file.name.toLowerCase().endsWith(".stl");
+}
+
+function StoredModelPreview({ orderId, fileIndex }: { orderId: number; fileIndex: number }) {
+  const { data: mesh, isLoading, error } = useQuery({
+    // Not under ["/api/orders"], which live updates invalidate on every queue change
+    queryKey: [`/api/orders/${orderId}/files/${fileIndex}`, "mesh"],
+    queryFn: async () => parseStl(await (await fetchOrderFile(orderId, fileIndex)).arrayBuffer()),
+    staleTime: Infinity,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex h-72 items-center justify-center rounded-lg bg-slate-900 text-gray-400">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Loading model…
+      </div>
+    );
+  }
+  if (error || !mesh) {
+    return (
+      <div className="flex h-72 items-center justify-center rounded-lg bg-slate-900 text-sm text-red-400">
+        {(error as Error | null)?.message || "Could not load this model"}
+      </div>
+    );
+  }
+  return <ModelViewer mesh={mesh} />;
+}
+
+export function OrderDetailSheet({ order, onOpenChange }: OrderDetailSheetProps) {
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const files = Array.isArray(order?.files) ? (order.files as OrderFile[]) : [];
+  const previewIndexes = files
+    .map((file, index) => (isPreviewable(file) ? index : -1))
+    .filter((index) => index >= 0);
+  const previewIndex =
+    selectedIndex !== null && previewIndexes.includes(selectedIndex)
+      ? selectedIndex
+      : previewIndexes[0];
+
+  return (
+    <Sheet
+      open={!!order}
+      onOpenChange={(open) => {
+        if (!open) setSelectedIndex(null);
+        onOpenChange(open);
+      }}
+    >
+      <SheetContent className="w-full overflow-y-auto bg-slate-800 border-slate-700 sm:max-w-xl">
+        {order && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="text-white">{order.projectName}</SheetTitle>
+              <SheetDescription className="font-mono text-cyan-400">
+                <Link href={orderLink(order.id)} className="hover:underline">
+                  {order.orderId} · full history
+                </Link>
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="mt-6 space-y-6">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <p className="text-gray-400">Status</p>
+                  <OrderStatusBadge status={order.status} size="sm" />
+                </div>
+                <div>
+                  <p className="text-gray-400">Submitted</p>
+                  <p className="text-white">
+                    {order.submittedAt ? format(new Date(order.submittedAt), "MMM dd, yyyy HH:mm") : "—"}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-400">Material</p>
+                  <p className="text-white">
+                    {order.material} · {order.color}
+                    {order.providingFilament && " (own filament)"}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-400">Deadline</p>
+                  <p className="text-white">
+                    {order.eventDeadline ? format(new Date(order.eventDeadline), "MMM dd, yyyy") : "—"}
+                  </p>
+                </div>
+              </div>
+
+              <div className="space-y-2 text-sm">
+                <p className="text-gray-400">Printer</p>
+                <PrinterSelect
+                  target={{ type: "order", id: order.id }}
+                  value={order.printerId}
+                  orders={[order]}
+                />
+                {order.batchId && (
+                  <p className="text-xs text-gray-500">
+                    Batched orders print on their batch's printer when it has one.
+                  </p>
+                )}
+              </div>
+
+              {order.specialInstructions && (
+                <div className="text-sm">
+                  <p className="text-gray-400">Special instructions</p>
+                  <p className="whitespace-pre-wrap text-white">{order.specialInstructions}</p>
+                </div>
+              )}
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold text-white">Model</h3>
+                  <OrderFilesMenu orderId={order.id} files={order.files} />
+                </div>
+                {previewIndexes.length > 1 && (
+                  <div className="flex flex-wrap gap-2">
+                    {previewIndexes.map((index) => (
+                      <Button
+                        key={index}
+                        size="sm"
+                        variant={index === previewIndex ? "secondary" : "ghost"}
+                        onClick={() => setSelectedIndex(index)}
+                      >
+                        <FileCode className="mr-1 h-4 w-4" />
+                        {files[index].name}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+                {previewIndex !== undefined ? (
+                  <StoredModelPreview orderId={order.id} fileIndex={previewIndex} />
+                ) : (
+                  <p className="text-sm text-gray-400">No STL files available to preview.</p>
+                )}
+              </div>
+
+              <div className="space-y-3">
+                <h3 className="font-semibold text-white">Comments</h3>
+                <OrderComments orderId={order.id} />
+              </div>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,69 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { downloadOrderFile } from "@/lib/files";
+import { type OrderFile } from "@shared/schema";
+import { Download, FileCode } from "lucide-react";
+
+interface OrderFilesMenuProps {
+  orderId: number;
+  files: unknown;
+  label?: string;
+}
+
+export function OrderFilesMenu({ orderId, files, label = "Download" }: OrderFilesMenuProps) {
+  const { toast } = useToast();
+  const orderFiles = Array.isArray(files) ? (files as OrderFile[]) : [];
+
+  const handleDownload = async (index: number, file: OrderFile) => {
+    try {
+      await downloadOrderFile(orderId, index, file.name);
+    } catch (error: any) {
+      toast({
+        title: "Download failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-cyan-400 hover:text-cyan-300"
+          disabled={orderFiles.length === 0}
+        >
+          <Download className="mr-1 h-4 w-4" />
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>Files</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {orderFiles.map((file, index) => (
+          <DropdownMenuItem
+            key={file.storageKey || index}
+            disabled={!file.storageKey || !!file.purgedAt}
+            onClick={() => handleDownload(index, file)}
+          >
+            <FileCode className="mr-2 h-4 w-4" />
+            <span className="truncate">{file.name}</span>
+            {file.purgedAt && (
+              <span className="ml-auto text-xs text-gray-500">deleted</span>
+            )}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
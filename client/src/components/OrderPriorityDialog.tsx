@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { type Order } from "@shared/schema";
+import {
+  MANUAL_PRIORITY_MAX,
+  MANUAL_PRIORITY_MIN,
+  type OrderPriority,
+  type OrderPriorityUpdate,
+} from "@shared/priority";
+
+interface OrderPriorityDialogProps {
+  order: (Order & { priority?: OrderPriority }) | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const manualPriorityLevels = Array.from(
+  { length: MANUAL_PRIORITY_MAX - MANUAL_PRIORITY_MIN + 1 },
+  (_, i) => MANUAL_PRIORITY_MAX - i
+);
+
+export function OrderPriorityDialog({ order, onOpenChange }: OrderPriorityDialogProps) {
+  const [manualPriority, setManualPriority] = useState(0);
+  const [pinned, setPinned] = useState(false);
+  const [expedited, setExpedited] = useState(false);
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!order) return;
+    setManualPriority(order.manualPriority ?? 0);
+    setPinned(!!order.pinned);
+    setExpedited(!!order.expedited);
+    setReason("");
+  }, [order]);
+
+  const updatePriorityMutation = useMutation({
+    mutationFn: async ({ orderId, updates }: { orderId: number; updates: OrderPriorityUpdate }) => {
+      const response = await apiRequest("PATCH", `/api/orders/${orderId}/priority`, updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Priority updated",
+        description: "The queue order has been recalculated.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unchanged =
+    !!order &&
+    manualPriority === (order.manualPriority ?? 0) &&
+    pinned === !!order.pinned &&
+    expedited === !!order.expedited;
+
+  const handleSave = () => {
+    if (!order || unchanged || !reason.trim()) return;
+    updatePriorityMutation.mutate({
+      orderId: order.id,
+      updates: { manualPriority, pinned, expedited, reason: reason.trim() },
+    });
+  };
+
+  const breakdown = order?.priority;
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-800 border-slate-700">
+        <DialogHeader>
+          <DialogTitle className="text-white">Adjust priority</DialogTitle>
+          <DialogDescription>
+            {order?.orderId} – overrides are recorded in the audit log.
+          </DialogDescription>
+        </DialogHeader>
+
+        {breakdown && (
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1 rounded-lg bg-slate-900 p-3 text-sm">
+            <span className="text-gray-400">Deadline</span>
+            <span className="text-right text-white">+{breakdown.deadlinePoints}</span>
+            <span className="text-gray-400">Waiting time</span>
+            <span className="text-right text-white">+{breakdown.waitPoints}</span>
+            <span className="text-gray-400">Club fairness</span>
+            <span className="text-right text-white">{breakdown.fairnessPoints}</span>
+            <span className="text-gray-400">Manual</span>
+            <span className="text-right text-white">{breakdown.manualPoints}</span>
+            <span className="font-medium text-gray-300">Score</span>
+            <span className="text-right font-medium text-cyan-400">{breakdown.score}</span>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="text-gray-300">Manual priority</Label>
+            <Select
+              value={manualPriority.toString()}
+              onValueChange={(value) => setManualPriority(parseInt(value))}
+            >
+              <SelectTrigger className="bg-slate-900 border-slate-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {manualPriorityLevels.map((level) => (
+                  <SelectItem key={level} value={level.toString()}>
+                    {level > 0 ? `+${level}` : level}
+                    {level === 0 && " (none)"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="priority-pinned"
+              checked={pinned}
+              onCheckedChange={(checked) => setPinned(checked === true)}
+            />
+            <Label htmlFor="priority-pinned" className="text-gray-300">
+              Pin to the top of the queue
+            </Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="priority-expedited"
+              checked={expedited}
+              onCheckedChange={(checked) => setExpedited(checked === true)}
+            />
+            <Label htmlFor="priority-expedited" className="text-gray-300">
+              Expedite
+            </Label>
+          </div>
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Why is this order's priority changing?"
+            className="bg-slate-900 border-slate-600 text-white placeholder-gray-400 resize-none"
+            rows={3}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={unchanged || !reason.trim() || updatePriorityMutation.isPending}
+            className="bg-cyan-500 hover:bg-cyan-600"
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
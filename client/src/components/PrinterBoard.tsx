@@ -0,0 +1,411 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { type Order, type Printer, PrinterStatus } from "@shared/schema";
+import { type QueueEntry } from "@shared/queue";
+import { Pencil, Plus, Printer as PrinterIcon, Trash2 } from "lucide-react";
+
+type PrinterStatusValue = (typeof PrinterStatus)[keyof typeof PrinterStatus];
+
+const statusStyles: Record<PrinterStatusValue, { label: string; className: string }> = {
+  [PrinterStatus.IDLE]: { label: "Idle", className: "bg-green-900 text-green-300" },
+  [PrinterStatus.PRINTING]: { label: "Printing", className: "bg-cyan-900 text-cyan-300" },
+  [PrinterStatus.MAINTENANCE]: { label: "Maintenance", className: "bg-yellow-900 text-yellow-300" },
+  [PrinterStatus.OFFLINE]: { label: "Offline", className: "bg-slate-700 text-gray-300" },
+};
+
+const printerFormSchema = z.object({
+  name: z.string().trim().min(1, "Printer name is required"),
+  model: z.string().optional(),
+  buildVolumeX: z.coerce.number().int().positive("Must be positive"),
+  buildVolumeY: z.coerce.number().int().positive("Must be positive"),
+  buildVolumeZ: z.coerce.number().int().positive("Must be positive"),
+  nozzleSizeMm: z.coerce.number().positive("Must be positive"),
+  materials: z.string().trim().min(1, "List at least one material"),
+  status: z.enum(Object.values(PrinterStatus) as [PrinterStatusValue]),
+});
+
+type PrinterForm = z.infer<typeof printerFormSchema>;
+
+const emptyPrinterForm: PrinterForm = {
+  name: "",
+  model: "",
+  buildVolumeX: 220,
+  buildVolumeY: 220,
+  buildVolumeZ: 250,
+  nozzleSizeMm: 0.4,
+  materials: "PLA",
+  status: PrinterStatus.IDLE,
+};
+
+interface PrinterDialogProps {
+  open: boolean;
+  printer: Printer | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+function PrinterDialog({ open, printer, onOpenChange }: PrinterDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const form = useForm<PrinterForm>({
+    resolver: zodResolver(printerFormSchema),
+    defaultValues: emptyPrinterForm,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset(
+      printer
+        ? {
+            name: printer.name,
+            model: printer.model || "",
+            buildVolumeX: printer.buildVolumeX,
+            buildVolumeY: printer.buildVolumeY,
+            buildVolumeZ: printer.buildVolumeZ,
+            nozzleSizeMm: printer.nozzleSizeMm,
+            materials: printer.supportedMaterials.join(", "),
+            status: printer.status as PrinterStatusValue,
+          }
+        : emptyPrinterForm
+    );
+  }, [open, printer]);
+
+  const savePrinterMutation = useMutation({
+    mutationFn: async ({ materials, model, ...data }: PrinterForm) => {
+      const body = {
+        ...data,
+        model: model?.trim() || null,
+        supportedMaterials: materials.split(",").map((m) => m.trim()).filter(Boolean),
+      };
+      const response = printer
+        ? await apiRequest("PATCH", `/api/printers/${printer.id}`, body)
+        : await apiRequest("POST", "/api/printers", body);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/printers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({ title: printer ? "Printer updated" : "Printer added" });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not save printer",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const numberField = (name: "buildVolumeX" | "buildVolumeY" | "buildVolumeZ" | "nozzleSizeMm", label: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel className="text-gray-300">{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              step={name === "nozzleSizeMm" ? "0.05" : "1"}
+              {...field}
+              className="bg-slate-900 border-slate-600 text-white"
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-800 border-slate-700">
+        <DialogHeader>
+          <DialogTitle className="text-white">{printer ? "Edit printer" : "Add printer"}</DialogTitle>
+          <DialogDescription>Orders are only assigned to printers they fit.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => savePrinterMutation.mutate(data))}
+            className="space-y-4"
+          >
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-gray-300">Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} className="bg-slate-900 border-slate-600 text-white" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="model"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-gray-300">Model</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        placeholder="e.g. Prusa MK4"
+                        className="bg-slate-900 border-slate-600 text-white"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              {numberField("buildVolumeX", "Width (mm)")}
+              {numberField("buildVolumeY", "Depth (mm)")}
+              {numberField("buildVolumeZ", "Height (mm)")}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {numberField("nozzleSizeMm", "Nozzle (mm)")}
+              <FormField
+                control={form.control}
+                name="status"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-gray-300">Status</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="bg-slate-900 border-slate-600 text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.values(PrinterStatus).map((status) => (
+                          <SelectItem key={status} value={status}>
+                            {statusStyles[status].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="materials"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-gray-300">Supported materials</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      placeholder="PLA, PETG"
+                      className="bg-slate-900 border-slate-600 text-white"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={savePrinterMutation.isPending}
+                className="bg-cyan-500 hover:bg-cyan-600"
+              >
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface PrinterBoardProps {
+  orders: (Order & { queue?: QueueEntry | null })[];
+}
+
+export function PrinterBoard({ orders }: PrinterBoardProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPrinter, setEditingPrinter] = useState<Printer | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: printers = [] } = useQuery<Printer[]>({
+    queryKey: ["/api/printers"],
+  });
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ printerId, status }: { printerId: number; status: string }) => {
+      const response = await apiRequest("PATCH", `/api/printers/${printerId}`, { status });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/printers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletePrinterMutation = useMutation({
+    mutationFn: async (printerId: number) => {
+      await apiRequest("DELETE", `/api/printers/${printerId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/printers"] });
+      toast({ title: "Printer removed" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not remove printer",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (printer: Printer | null) => {
+    setEditingPrinter(printer);
+    setDialogOpen(true);
+  };
+
+  // Current and upcoming work per printer, as projected by the queue
+  const jobsFor = (printerId: number) =>
+    orders
+      .filter((order) => order.queue?.printerId === printerId)
+      .sort((a, b) => a.queue!.position - b.queue!.position);
+
+  return (
+    <Card className="bg-slate-800 border-slate-700">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-white">Printers</CardTitle>
+            <CardDescription>Status and upcoming work for each printer</CardDescription>
+          </div>
+          <Button onClick={() => openDialog(null)} className="bg-cyan-500 hover:bg-cyan-600">
+            <Plus className="mr-2 h-4 w-4" />
+            Add printer
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {printers.length === 0 ? (
+          <div className="text-center py-8">
+            <PrinterIcon className="mx-auto h-10 w-10 text-gray-400 mb-3" />
+            <p className="text-gray-400">No printers registered yet.</p>
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+            {printers.map((printer) => {
+              const jobs = jobsFor(printer.id);
+              const current = jobs.filter((order) => order.queue!.position === 0);
+              const upcoming = jobs.filter((order) => order.queue!.position > 0);
+              const style = statusStyles[printer.status as PrinterStatusValue];
+              return (
+                <div key={printer.id} className="rounded-lg border border-slate-700 bg-slate-900 p-4 space-y-3">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="font-medium text-white">{printer.name}</p>
+                      <p className="text-xs text-gray-400">{printer.model || "Unknown model"}</p>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <Button size="sm" variant="ghost" title="Edit" onClick={() => openDialog(printer)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Remove"
+                        onClick={() => deletePrinterMutation.mutate(printer.id)}
+                        disabled={deletePrinterMutation.isPending}
+                        className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <Select
+                    value={printer.status}
+                    onValueChange={(status) => updateStatusMutation.mutate({ printerId: printer.id, status })}
+                  >
+                    <SelectTrigger className={`h-8 border-0 ${style?.className || ""}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(PrinterStatus).map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {statusStyles[status].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-gray-400">
+                    {printer.buildVolumeX} × {printer.buildVolumeY} × {printer.buildVolumeZ} mm ·{" "}
+                    {printer.nozzleSizeMm} mm nozzle
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {printer.supportedMaterials.map((material) => (
+                      <Badge key={material} variant="secondary" className="text-xs">
+                        {material}
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="text-sm">
+                    {current.length > 0 ? (
+                      <p className="text-white">
+                        Printing {current.map((order) => order.orderId).join(", ")}
+                      </p>
+                    ) : (
+                      <p className="text-gray-500">Nothing printing</p>
+                    )}
+                    {upcoming.length > 0 && (
+                      <p className="text-xs text-gray-400">
+                        Next: {upcoming[0].orderId}
+                        {upcoming.length > 1 && ` +${upcoming.length - 1} more`}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+      <PrinterDialog open={dialogOpen} printer={editingPrinter} onOpenChange={setDialogOpen} />
+    </Card>
+  );
+}
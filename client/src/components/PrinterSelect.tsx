@@ -0,0 +1,81 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { type Order, type Printer } from "@shared/schema";
+import { checkPrinterFit, isPrinterAvailable } from "@shared/printers";
+
+interface PrinterSelectProps {
+  // What is being assigned: a single order or a whole batch
+  target: { type: "order" | "batch"; id: number };
+  value: number | null;
+  // Orders that will run on the printer, used to rule out ones they don't fit
+  orders: Pick<Order, "material" | "files">[];
+  className?: string;
+}
+
+const UNASSIGNED = "none";
+
+export function PrinterSelect({ target, value, orders, className = "" }: PrinterSelectProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: printers = [] } = useQuery<Printer[]>({
+    queryKey: ["/api/printers"],
+  });
+
+  const assignPrinterMutation = useMutation({
+    mutationFn: async (printerId: number | null) => {
+      const url = target.type === "order" ? `/api/orders/${target.id}/printer` : `/api/batches/${target.id}/printer`;
+      const response = await apiRequest("PATCH", url, { printerId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/batches"] });
+      toast({ title: "Printer assigned" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not assign printer",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Select
+      value={value?.toString() ?? UNASSIGNED}
+      onValueChange={(selected) =>
+        assignPrinterMutation.mutate(selected === UNASSIGNED ? null : parseInt(selected))
+      }
+      disabled={assignPrinterMutation.isPending}
+    >
+      <SelectTrigger className={`bg-slate-900 border-slate-600 text-white ${className}`}>
+        <SelectValue placeholder="Unassigned" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+        {printers.map((printer) => {
+          const problems = orders.flatMap((order) => checkPrinterFit(order, printer));
+          const unavailable = !isPrinterAvailable(printer);
+          return (
+            <SelectItem
+              key={printer.id}
+              value={printer.id.toString()}
+              disabled={unavailable || problems.length > 0}
+            >
+              {printer.name}
+              {unavailable
+                ? ` (${printer.status})`
+                : problems.length > 0
+                ? ` – ${problems[0]}`
+                : ""}
+            </SelectItem>
+          );
+        })}
+      </SelectContent>
+    </Select>
+  );
+}
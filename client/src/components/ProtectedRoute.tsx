@@ -3,6 +3,7 @@
 import { useAuth } from "./AuthProvider";
 import { useLocation } from "wouter";
 import { useEffect } from "react";
+import { hasRole, isStaff } from "@shared/users";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
@@ -48,17 +49,9 @@ export function ProtectedRoute({
   }
 
   if (requiredRole) {
-    const userRole = user.role;
-    let hasAccess = false;
-    if (requiredRole === "admin") {
-      if (userRole === "ADMIN" || userRole === "SUPERADMIN") {
-        hasAccess = true;
-      }
-    } else if (requiredRole === "superadmin") {
-      if (userRole === "SUPERADMIN") {
-        hasAccess = true;
-      }
-    }
+    const hasAccess =
+      (requiredRole === "admin" && isStaff(user)) ||
+      (requiredRole === "superadmin" && hasRole(user, "SUPERADMIN"));
 
     if (!hasAccess) {
       return (
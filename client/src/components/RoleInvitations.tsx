@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { MailPlus, X } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { RoleInvitationStatus, RoleInvitationView } from "@shared/users";
+
+const statusStyles: Record<RoleInvitationStatus, string> = {
+  pending: "bg-yellow-900 text-yellow-300",
+  accepted: "bg-green-900 text-green-300",
+  revoked: "bg-slate-700 text-gray-300",
+  expired: "bg-slate-700 text-gray-300",
+};
+
+// Grants admin or super admin to an email the next time it signs in
+export function RoleInvitations() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState("ADMIN");
+  const [expiresAt, setExpiresAt] = useState("");
+
+  const { data: invitations = [], isLoading } = useQuery<RoleInvitationView[]>({
+    queryKey: ["/api/role-invitations"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Invitation failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async () =>
+      (
+        await apiRequest("POST", "/api/role-invitations", {
+          email,
+          role,
+          expiresAt: expiresAt || null,
+        })
+      ).json(),
+    onSuccess: (invitation: RoleInvitationView) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/role-invitations"] });
+      setEmail("");
+      setExpiresAt("");
+      toast({ title: `Invited ${invitation.email}` });
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => (await apiRequest("DELETE", `/api/role-invitations/${id}`)).json(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/role-invitations"] });
+      toast({ title: "Invitation revoked" });
+    },
+    onError,
+  });
+
+  return (
+    <Card className="bg-slate-800 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center">
+          <MailPlus className="mr-2 h-5 w-5" />
+          Staff Invitations
+        </CardTitle>
+        <CardDescription>
+          The role is granted when the invitee next signs in. Permanent staff can also be listed
+          under Access in the system configuration.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex flex-wrap items-center gap-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            inviteMutation.mutate();
+          }}
+        >
+          <Input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="name@smail.iitm.ac.in"
+            className="bg-slate-900 border-slate-600 text-white w-72"
+          />
+          <Select value={role} onValueChange={setRole}>
+            <SelectTrigger className="bg-slate-900 border-slate-600 text-white w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ADMIN">Admin</SelectItem>
+              <SelectItem value="SUPERADMIN">Super Admin</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            value={expiresAt}
+            min={format(new Date(), "yyyy-MM-dd")}
+            onChange={(e) => setExpiresAt(e.target.value)}
+            title="Expires (optional)"
+            className="bg-slate-900 border-slate-600 text-white w-44"
+          />
+          <Button
+            type="submit"
+            disabled={!email.trim() || inviteMutation.isPending}
+            className="bg-cyan-500 hover:bg-cyan-600"
+          >
+            Invite
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="h-24 animate-pulse rounded-lg bg-slate-700"></div>
+        ) : invitations.length === 0 ? (
+          <p className="text-sm text-gray-400">No invitations yet.</p>
+        ) : (
+          <ul className="divide-y divide-slate-700">
+            {invitations.map((invitation) => (
+              <li key={invitation.id} className="flex items-center justify-between gap-4 py-3">
+                <div>
+                  <p className="text-sm text-white">
+                    {invitation.email}
+                    <span className="ml-2 text-xs text-gray-400">
+                      {invitation.role === "SUPERADMIN" ? "Super Admin" : "Admin"}
+                    </span>
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    Invited by {invitation.invitedByName ?? "unknown"}
+                    {invitation.createdAt && ` · ${format(new Date(invitation.createdAt), "MMM dd, yyyy")}`}
+                    {invitation.expiresAt &&
+                      ` · expires ${format(new Date(invitation.expiresAt), "MMM dd, yyyy")}`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Badge className={statusStyles[invitation.status]}>{invitation.status}</Badge>
+                  {invitation.status === "pending" && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title="Revoke"
+                      onClick={() => revokeMutation.mutate(invitation.id)}
+                      disabled={revokeMutation.isPending}
+                      className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
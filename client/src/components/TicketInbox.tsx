@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Inbox } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { TicketStatusBadge } from "@/components/TicketStatusBadge";
+import { TicketThread } from "@/components/TicketThread";
+import { apiRequest } from "@/lib/queryClient";
+import { TicketStatus } from "@shared/schema";
+import { getTicketSubjectLabel, type TicketView } from "@shared/tickets";
+
+const filters = [
+  { value: TicketStatus.OPEN, label: "Open" },
+  { value: TicketStatus.ANSWERED, label: "Answered" },
+  { value: TicketStatus.CLOSED, label: "Closed" },
+  { value: "all", label: "All" },
+];
+
+// Support requests sent from the Contact page, newest activity first
+export function TicketInbox() {
+  const [status, setStatus] = useState<string>(TicketStatus.OPEN);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data: tickets = [], isLoading } = useQuery<TicketView[]>({
+    queryKey: ["/api/tickets", "inbox", status],
+    queryFn: async () =>
+      (
+        await apiRequest("GET", status === "all" ? "/api/tickets" : `/api/tickets?status=${status}`)
+      ).json(),
+  });
+
+  return (
+    <Card className="bg-slate-800 border-slate-700">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-white flex items-center">
+              <Inbox className="mr-2 h-5 w-5 text-cyan-400" />
+              Support Tickets
+            </CardTitle>
+            <CardDescription>Questions and requests sent from the Contact page</CardDescription>
+          </div>
+          <div className="flex space-x-1">
+            {filters.map((filter) => (
+              <Button
+                key={filter.value}
+                size="sm"
+                variant={status === filter.value ? "secondary" : "ghost"}
+                onClick={() => setStatus(filter.value)}
+              >
+                {filter.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-24 animate-pulse rounded-lg bg-slate-700"></div>
+        ) : tickets.length === 0 ? (
+          <p className="text-sm text-gray-400">No tickets here.</p>
+        ) : (
+          <ul className="divide-y divide-slate-700">
+            {tickets.map((ticket) => (
+              <li key={ticket.id}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedId(ticket.id)}
+                  className="flex w-full items-center justify-between gap-4 py-3 text-left hover:bg-slate-700/40"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-white">
+                      #{ticket.id} · {getTicketSubjectLabel(ticket.subject)}
+                      {ticket.order && (
+                        <span className="ml-2 font-mono text-xs text-cyan-400">
+                          {ticket.order.orderId}
+                        </span>
+                      )}
+                    </p>
+                    <p className="truncate text-xs text-gray-400">
+                      {ticket.user?.displayName} · {ticket.message}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center space-x-3 text-xs text-gray-400">
+                    <span>{ticket.assignedTo?.displayName ?? "Unassigned"}</span>
+                    {ticket.updatedAt && (
+                      <span>{formatDistanceToNow(new Date(ticket.updatedAt), { addSuffix: true })}</span>
+                    )}
+                    <TicketStatusBadge status={ticket.status} />
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <TicketThread ticketId={selectedId} onOpenChange={(open) => !open && setSelectedId(null)} />
+    </Card>
+  );
+}
@@ -0,0 +1,26 @@
+import { Badge } from "@/components/ui/badge";
+import { TicketStatus } from "@shared/schema";
+
+const statusConfig: Record<string, { label: string; className: string }> = {
+  [TicketStatus.OPEN]: {
+    label: "Open",
+    className: "bg-yellow-900 text-yellow-300 hover:bg-yellow-800",
+  },
+  [TicketStatus.ANSWERED]: {
+    label: "Answered",
+    className: "bg-cyan-900 text-cyan-300 hover:bg-cyan-800",
+  },
+  [TicketStatus.CLOSED]: {
+    label: "Closed",
+    className: "bg-gray-900 text-gray-300 hover:bg-gray-800",
+  },
+};
+
+export function TicketStatusBadge({ status }: { status: string }) {
+  const config = statusConfig[status] ?? { label: status, className: "" };
+  return (
+    <Badge variant="secondary" className={`text-xs ${config.className}`}>
+      {config.label}
+    </Badge>
+  );
+}
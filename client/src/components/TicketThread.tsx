@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TicketStatusBadge } from "@/components/TicketStatusBadge";
+import { useAuth } from "@/components/AuthProvider";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { orderLink } from "@/lib/links";
+import { TicketStatus } from "@shared/schema";
+import { isStaff } from "@shared/users";
+import { getTicketSubjectLabel, type TicketView } from "@shared/tickets";
+import type { UserListResponse } from "@shared/users";
+
+interface TicketThreadProps {
+  ticketId: number | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+function formatTime(value: Date | string | null) {
+  return value ? format(new Date(value), "MMM dd, yyyy HH:mm") : "—";
+}
+
+// One support ticket with its replies. Staff can also assign and close it.
+export function TicketThread({ ticketId, onOpenChange }: TicketThreadProps) {
+  const { user } = useAuth();
+  const staff = isStaff(user);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reply, setReply] = useState("");
+
+  const { data: ticket, isLoading } = useQuery<TicketView>({
+    queryKey: ["/api/tickets", ticketId],
+    queryFn: async () => (await apiRequest("GET", `/api/tickets/${ticketId}`)).json(),
+    enabled: ticketId !== null,
+  });
+
+  const { data: staffList } = useQuery<UserListResponse>({
+    queryKey: ["/api/users", "staff"],
+    queryFn: async () =>
+      (await apiRequest("GET", "/api/users?role=ADMIN,SUPERADMIN&pageSize=100")).json(),
+    enabled: staff && ticketId !== null,
+  });
+  const staffUsers = staffList?.users ?? [];
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Ticket update failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const replyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/tickets/${ticketId}/replies`, {
+        body: reply,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setReply("");
+      queryClient.invalidateQueries({ queryKey: ["/api/tickets"] });
+    },
+    onError,
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async (assignedToId: number | null) => {
+      const response = await apiRequest("PATCH", `/api/tickets/${ticketId}/assign`, {
+        assignedToId,
+      });
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/tickets"] }),
+    onError,
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PATCH", `/api/tickets/${ticketId}/close`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tickets"] });
+      toast({ title: "Ticket closed" });
+    },
+    onError,
+  });
+
+  const closed = ticket?.status === TicketStatus.CLOSED;
+
+  return (
+    <Sheet
+      open={ticketId !== null}
+      onOpenChange={(open) => {
+        if (!open) setReply("");
+        onOpenChange(open);
+      }}
+    >
+      <SheetContent className="w-full overflow-y-auto bg-slate-800 border-slate-700 sm:max-w-xl">
+        {isLoading || !ticket ? (
+          <div className="flex h-40 items-center justify-center text-gray-400">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Loading ticket…
+          </div>
+        ) : (
+          <>
+            <SheetHeader>
+              <SheetTitle className="text-white">{getTicketSubjectLabel(ticket.subject)}</SheetTitle>
+              <SheetDescription>
+                Ticket #{ticket.id} · opened {formatTime(ticket.createdAt)}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="mt-6 space-y-6">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <p className="text-gray-400">Status</p>
+                  <TicketStatusBadge status={ticket.status} />
+                </div>
+                <div>
+                  <p className="text-gray-400">Order</p>
+                  {ticket.order ? (
+                    <Link
+                      href={orderLink(ticket.order.id)}
+                      className="font-mono text-cyan-400 hover:underline"
+                    >
+                      {ticket.order.orderId}
+                    </Link>
+                  ) : (
+                    <p className="text-white">—</p>
+                  )}
+                </div>
+                {staff && ticket.user && (
+                  <div>
+                    <p className="text-gray-400">From</p>
+                    <p className="text-white">{ticket.user.displayName}</p>
+                    <p className="text-xs text-gray-400">{ticket.user.email}</p>
+                  </div>
+                )}
+                {staff && (
+                  <div>
+                    <p className="text-gray-400">Assigned to</p>
+                    <Select
+                      value={ticket.assignedToId ? String(ticket.assignedToId) : "none"}
+                      onValueChange={(value) =>
+                        assignMutation.mutate(value === "none" ? null : Number(value))
+                      }
+                      disabled={assignMutation.isPending}
+                    >
+                      <SelectTrigger className="h-8 bg-slate-900 border-slate-600 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Unassigned</SelectItem>
+                        {staffUsers.map((member) => (
+                          <SelectItem key={member.id} value={String(member.id)}>
+                            {member.displayName}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-3">
+                <div className="rounded-lg bg-slate-900 p-3">
+                  <p className="whitespace-pre-wrap text-sm text-gray-200">{ticket.message}</p>
+                  <p className="mt-2 text-xs text-gray-400">
+                    {staff && ticket.user ? ticket.user.displayName : "You"} ·{" "}
+                    {formatTime(ticket.createdAt)}
+                  </p>
+                </div>
+                {(ticket.replies ?? []).map((entry) => (
+                  <div
+                    key={entry.id}
+                    className={`rounded-lg p-3 ${
+                      entry.author.staff ? "ml-6 bg-cyan-950/40" : "bg-slate-900"
+                    }`}
+                  >
+                    <p className="whitespace-pre-wrap text-sm text-gray-200">{entry.body}</p>
+                    <p className="mt-2 text-xs text-gray-400">
+                      {entry.author.name} · {formatTime(entry.createdAt)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              {closed ? (
+                <p className="text-sm text-gray-400">
+                  This ticket was closed {formatTime(ticket.closedAt)}.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  <Textarea
+                    value={reply}
+                    onChange={(e) => setReply(e.target.value)}
+                    placeholder={staff ? "Reply to the student…" : "Add more details…"}
+                    className="bg-slate-900 border-slate-600 text-white"
+                  />
+                  <div className="flex justify-end space-x-2">
+                    {staff && (
+                      <Button
+                        variant="outline"
+                        onClick={() => closeMutation.mutate()}
+                        disabled={closeMutation.isPending}
+                        className="border-slate-600 text-gray-300"
+                      >
+                        Close ticket
+                      </Button>
+                    )}
+                    <Button
+                      onClick={() => replyMutation.mutate()}
+                      disabled={!reply.trim() || replyMutation.isPending}
+                      className="bg-cyan-500 hover:bg-cyan-600"
+                    >
+                      {replyMutation.isPending && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+                      Send reply
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
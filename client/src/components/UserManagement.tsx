@@ -0,0 +1,477 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Ban, ChevronLeft, ChevronRight, RotateCcw, Search, ShieldCheck, Users } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/components/AuthProvider";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { UserRole, type User as AppUser } from "@shared/schema";
+import {
+  USERS_PAGE_SIZE,
+  describeSuspension,
+  hasRole,
+  isSuspended,
+  type BulkSuspendResult,
+  type UserListResponse,
+} from "@shared/users";
+
+const roleLabels: Record<UserRole, string> = {
+  USER: "Student",
+  ADMIN: "Admin",
+  SUPERADMIN: "Super Admin",
+  GUEST: "Guest",
+};
+
+interface SuspendDialogProps {
+  users: AppUser[];
+  onOpenChange: (open: boolean) => void;
+  onSuspended: () => void;
+}
+
+// Suspends one user or every selected user with the same reason and expiry
+function SuspendDialog({ users, onOpenChange, onSuspended }: SuspendDialogProps) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+  const [until, setUntil] = useState("");
+
+  useEffect(() => {
+    setReason("");
+    setUntil("");
+  }, [users.length]);
+
+  const suspendMutation = useMutation({
+    mutationFn: async () => {
+      const body = { reason, until: until || null };
+      if (users.length === 1) {
+        await apiRequest("POST", `/api/users/${users[0].id}/suspend`, body);
+        return { suspended: users, skipped: [] } as BulkSuspendResult;
+      }
+      const response = await apiRequest("POST", "/api/users/bulk-suspend", {
+        ...body,
+        userIds: users.map((user) => user.id),
+      });
+      return (await response.json()) as BulkSuspendResult;
+    },
+    onSuccess: (result) => {
+      onSuspended();
+      toast({
+        title: `Suspended ${result.suspended.length} user${result.suspended.length === 1 ? "" : "s"}`,
+        description: result.skipped.length
+          ? `Skipped ${result.skipped.length}: ${result.skipped[0].message}`
+          : undefined,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Suspension failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={users.length > 0} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-800 border-slate-700">
+        <DialogHeader>
+          <DialogTitle className="text-white">
+            Suspend {users.length === 1 ? users[0].displayName : `${users.length} users`}
+          </DialogTitle>
+          <DialogDescription>
+            Suspended users can't sign in to submit or manage prints.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="suspend-reason" className="text-white">
+              Reason
+            </Label>
+            <Textarea
+              id="suspend-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="bg-slate-900 border-slate-600 text-white"
+              placeholder="Shown to the user when they try to sign in"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="suspend-until" className="text-white">
+              Suspended until
+            </Label>
+            <Input
+              id="suspend-until"
+              type="date"
+              value={until}
+              min={format(new Date(), "yyyy-MM-dd")}
+              onChange={(e) => setUntil(e.target.value)}
+              className="bg-slate-900 border-slate-600 text-white max-w-[12rem]"
+            />
+            <p className="text-xs text-gray-400">Leave empty to suspend until lifted.</p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => suspendMutation.mutate()}
+            disabled={!reason.trim() || suspendMutation.isPending}
+            className="bg-red-600 hover:bg-red-700"
+          >
+            Suspend
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Searchable user table for changing roles, suspending accounts and resetting
+// upload quotas
+export function UserManagement() {
+  const { user: currentUser } = useAuth();
+  const superAdmin = hasRole(currentUser, "SUPERADMIN");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [role, setRole] = useState("all");
+  const [status, setStatus] = useState("all");
+  const [page, setPage] = useState(1);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [suspending, setSuspending] = useState<AppUser[]>([]);
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  useEffect(() => {
+    setPage(1);
+    setSelectedIds([]);
+  }, [search, role, status]);
+
+  const { data, isLoading } = useQuery<UserListResponse>({
+    queryKey: ["/api/users", { search, role, status, page }],
+    queryFn: async () => {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(USERS_PAGE_SIZE) });
+      if (search) params.set("search", search);
+      if (role !== "all") params.set("role", role);
+      if (status !== "all") params.set("status", status);
+      return (await apiRequest("GET", `/api/users?${params}`)).json();
+    },
+  });
+  const users = data?.users ?? [];
+  const pageCount = Math.max(1, Math.ceil((data?.total ?? 0) / USERS_PAGE_SIZE));
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "User update failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: number; role: string }) =>
+      (await apiRequest("PATCH", `/api/users/${id}/role`, { role })).json(),
+    onSuccess: (user: AppUser) => {
+      refresh();
+      toast({ title: `${user.displayName} is now ${roleLabels[user.role as UserRole] ?? user.role}` });
+    },
+    onError,
+  });
+
+  const unsuspendMutation = useMutation({
+    mutationFn: async (id: number) => (await apiRequest("POST", `/api/users/${id}/unsuspend`)).json(),
+    onSuccess: (user: AppUser) => {
+      refresh();
+      toast({ title: `${user.displayName} can sign in again` });
+    },
+    onError,
+  });
+
+  const resetUploadsMutation = useMutation({
+    mutationFn: async (id: number) => (await apiRequest("POST", `/api/users/${id}/reset-uploads`)).json(),
+    onSuccess: (user: AppUser) => {
+      refresh();
+      toast({ title: `Upload quota reset for ${user.displayName}` });
+    },
+    onError,
+  });
+
+  const allSelected = users.length > 0 && users.every((user) => selectedIds.includes(user.id));
+
+  return (
+    <Card className="bg-slate-800 border-slate-700">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-white flex items-center">
+              <Users className="mr-2 h-5 w-5" />
+              Users
+            </CardTitle>
+            <CardDescription>
+              {data ? `${data.total} user${data.total === 1 ? "" : "s"}` : "Accounts, roles and suspensions"}
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+              <Input
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search name or email"
+                className="bg-slate-900 border-slate-600 text-white w-64 pl-9"
+              />
+            </div>
+            <Select value={role} onValueChange={setRole}>
+              <SelectTrigger className="bg-slate-900 border-slate-600 text-white w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All roles</SelectItem>
+                {UserRole.options.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {roleLabels[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger className="bg-slate-900 border-slate-600 text-white w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All accounts</SelectItem>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="suspended">Suspended</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {selectedIds.length > 0 && (
+          <div className="flex items-center justify-between rounded-lg bg-slate-900 px-4 py-2">
+            <p className="text-sm text-white">{selectedIds.length} selected</p>
+            <div className="flex space-x-2">
+              <Button variant="ghost" size="sm" onClick={() => setSelectedIds([])}>
+                Clear
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => setSuspending(users.filter((user) => selectedIds.includes(user.id)))}
+                className="bg-red-600 hover:bg-red-700"
+              >
+                <Ban className="mr-1 h-4 w-4" />
+                Suspend selected
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="h-48 animate-pulse rounded-lg bg-slate-700"></div>
+        ) : users.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-400">No users match these filters.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-slate-900">
+                <tr>
+                  <th className="px-4 py-3 text-left">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) =>
+                        setSelectedIds(checked ? users.map((user) => user.id) : [])
+                      }
+                    />
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    User
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Role
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Uploads
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Last login
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700">
+                {users.map((user) => {
+                  const self = user.id === currentUser?.id;
+                  const suspended = isSuspended(user);
+                  return (
+                    <tr key={user.id} className="hover:bg-slate-700 transition-colors">
+                      <td className="px-4 py-3">
+                        <Checkbox
+                          checked={selectedIds.includes(user.id)}
+                          disabled={self}
+                          onCheckedChange={(checked) =>
+                            setSelectedIds((ids) =>
+                              checked ? [...ids, user.id] : ids.filter((id) => id !== user.id)
+                            )
+                          }
+                        />
+                      </td>
+                      <td className="px-4 py-3">
+                        <p className="text-sm font-medium text-white">
+                          {user.displayName}
+                          {self && <span className="ml-1 text-xs text-gray-400">(you)</span>}
+                        </p>
+                        <p className="text-xs text-gray-400">{user.email}</p>
+                      </td>
+                      <td className="px-4 py-3">
+                        {superAdmin && !self ? (
+                          <Select
+                            value={user.role}
+                            onValueChange={(role) => roleMutation.mutate({ id: user.id, role })}
+                            disabled={roleMutation.isPending}
+                          >
+                            <SelectTrigger className="bg-slate-900 border-slate-600 text-white w-36">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {UserRole.options.map((option) => (
+                                <SelectItem key={option} value={option}>
+                                  {roleLabels[option]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <span className="text-sm text-white">
+                            {roleLabels[user.role as UserRole] ?? user.role}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        {suspended ? (
+                          <Badge className="bg-red-900 text-red-300" title={describeSuspension(user)}>
+                            {user.suspendedUntil
+                              ? `Suspended until ${format(new Date(user.suspendedUntil), "MMM dd")}`
+                              : "Suspended"}
+                          </Badge>
+                        ) : (
+                          <Badge className="bg-green-900 text-green-300">Active</Badge>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-white">{user.fileUploadsUsed ?? 0}</td>
+                      <td className="px-4 py-3 text-sm text-gray-400">
+                        {user.lastLogin ? format(new Date(user.lastLogin), "MMM dd, yyyy") : "—"}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center space-x-2">
+                          {!self &&
+                            (suspended ? (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                title="Lift suspension"
+                                onClick={() => unsuspendMutation.mutate(user.id)}
+                                disabled={unsuspendMutation.isPending}
+                                className="text-green-400 hover:text-green-300 hover:bg-green-900/20"
+                              >
+                                <ShieldCheck className="h-4 w-4" />
+                              </Button>
+                            ) : (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                title="Suspend"
+                                onClick={() => setSuspending([user])}
+                                className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                              >
+                                <Ban className="h-4 w-4" />
+                              </Button>
+                            ))}
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            title="Reset upload quota"
+                            onClick={() => resetUploadsMutation.mutate(user.id)}
+                            disabled={!user.fileUploadsUsed || resetUploadsMutation.isPending}
+                            className="text-gray-400 hover:text-white"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-400">
+            Page {page} of {pageCount}
+          </p>
+          <div className="flex space-x-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+            >
+              <ChevronLeft className="h-4 w-4" />
+              Previous
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pageCount}
+            >
+              Next
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+
+      <SuspendDialog
+        users={suspending}
+        onOpenChange={(open) => !open && setSuspending([])}
+        onSuspended={() => {
+          setSuspending([]);
+          setSelectedIds([]);
+          refresh();
+        }}
+      />
+    </Card>
+  );
+}
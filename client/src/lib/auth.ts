@@ -38,6 +38,8 @@ export function signInAsGuest(): User {
     photoURL: null,
     role: UserRole.enum.GUEST,
     suspended: false,
+    suspendedReason: null,
+    suspendedUntil: null,
     fileUploadsUsed: 0,
     notificationPreferences: {},
     lastLogin: new Date(),
@@ -67,23 +69,11 @@ export async function registerUser(firebaseUser: FirebaseUser) {
       throw new Error("Only @smail.iitm.ac.in email addresses are allowed");
     }
 
-    const adminEmails = (import.meta.env.VITE_ADMIN_EMAILS || "").split(",");
-    const superAdminEmails = (
-      import.meta.env.VITE_SUPERADMIN_EMAILS || ""
-    ).split(",");
-    let role = "USER";
-    if (superAdminEmails.includes(firebaseUser.email!)) {
-      role = "SUPERADMIN";
-    } else if (adminEmails.includes(firebaseUser.email!)) {
-      role = "ADMIN";
-    }
-
+    // The server takes the email from the ID token and assigns the role
     const userData = {
-      email: firebaseUser.email!,
       displayName:
         firebaseUser.displayName || firebaseUser.email!.split("@")[0],
       photoURL: firebaseUser.photoURL,
-      role,
     };
 
     console.log("Sending registration data:", userData);
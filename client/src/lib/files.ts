@@ -0,0 +1,53 @@
+/** @format */
+
+import { apiRequest } from "./queryClient";
+import { type OrderFile } from "@shared/schema";
+
+export async function uploadFiles(files: File[]): Promise<OrderFile[]> {
+  const formData = new FormData();
+  files.forEach((file) => formData.append("files", file));
+  const response = await apiRequest("POST", "/api/uploads", formData);
+  return response.json();
+}
+
+// Stored files go through fetch so the Firebase token is attached
+export async function fetchOrderFile(orderId: number, fileIndex: number) {
+  const response = await apiRequest(
+    "GET",
+    `/api/orders/${orderId}/files/${fileIndex}`
+  );
+  return response.blob();
+}
+
+function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// Hands a stored file to the browser as a regular file download
+export async function downloadOrderFile(
+  orderId: number,
+  fileIndex: number,
+  fileName: string
+) {
+  saveBlob(await fetchOrderFile(orderId, fileIndex), fileName);
+}
+
+export async function downloadCommentAttachment(
+  orderId: number,
+  commentId: number,
+  index: number,
+  fileName: string
+) {
+  const response = await apiRequest(
+    "GET",
+    `/api/orders/${orderId}/comments/${commentId}/attachments/${index}`
+  );
+  saveBlob(await response.blob(), fileName);
+}
@@ -0,0 +1,6 @@
+/** @format */
+
+// The order's own page, for students and staff alike
+export function orderLink(orderId: number) {
+  return `/orders/${orderId}`;
+}
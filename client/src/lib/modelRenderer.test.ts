@@ -0,0 +1,69 @@
+/** @format */
+
+import { describe, expect, it } from "vitest";
+import {
+  createModelRenderer,
+  getDefaultView,
+  prepareScene,
+} from "./modelRenderer";
+import type { StlMesh } from "@shared/stl";
+
+// One triangle standing up on the XZ plane, away from the origin
+const triangle: StlMesh = {
+  positions: new Float32Array([100, 50, 10, 120, 50, 10, 100, 50, 40]),
+  triangleCount: 1,
+};
+
+describe("prepareScene", () => {
+  it("centres the mesh on the plate, resting on z = 0", () => {
+    const scene = prepareScene(triangle);
+    expect(Array.from(scene.positions)).toEqual([
+      -10, 0, 0, 10, 0, 0, -10, 0, 30,
+    ]);
+    expect(scene.height).toBe(30);
+    expect(scene.radius).toBeCloseTo(Math.hypot(20, 0, 30) / 2);
+  });
+
+  it("gives every vertex its face normal and every edge a line", () => {
+    const scene = prepareScene(triangle);
+    expect(Array.from(scene.normals)).toEqual([0, -1, 0, 0, -1, 0, 0, -1, 0]);
+    // a-b, b-c, c-a as line segments
+    expect(scene.edges).toHaveLength(18);
+    expect(Array.from(scene.edges.slice(0, 6))).toEqual([-10, 0, 0, 10, 0, 0]);
+  });
+
+  it("draws the plate grid and printable volume of the printer", () => {
+    const scene = prepareScene(triangle, { x: 20, y: 10, z: 30 });
+    // 3 lines across x, 2 across y, then 4 top and 4 upright outline edges
+    expect(scene.plate).toHaveLength((3 + 2 + 8) * 6);
+    expect(Math.max(...Array.from(scene.plate))).toBe(30);
+  });
+
+  it("handles empty meshes", () => {
+    const scene = prepareScene({
+      positions: new Float32Array(),
+      triangleCount: 0,
+    });
+    expect(scene.height).toBe(0);
+    expect(scene.radius).toBe(1);
+  });
+});
+
+describe("getDefaultView", () => {
+  it("frames the whole model", () => {
+    const scene = prepareScene(triangle);
+    expect(getDefaultView(scene)).toMatchObject({
+      distance: scene.radius * 3,
+      wireframe: false,
+    });
+  });
+});
+
+describe("createModelRenderer", () => {
+  it("fails when the canvas offers no rendering context", () => {
+    const canvas = { getContext: () => null } as unknown as HTMLCanvasElement;
+    expect(() => createModelRenderer(canvas, prepareScene(triangle))).toThrow(
+      "Canvas rendering is not supported"
+    );
+  });
+});
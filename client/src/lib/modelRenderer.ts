@@ -0,0 +1,394 @@
+/** @format */
+
+import { DEFAULT_BUILD_VOLUME, type BuildVolume, type StlMesh } from "@shared/stl";
+
+export interface ModelView {
+  // Radians around the vertical axis and above the build plate
+  yaw: number;
+  pitch: number;
+  distance: number;
+  wireframe: boolean;
+}
+
+export interface ModelRenderer {
+  kind: "webgl" | "canvas";
+  render(view: ModelView, width: number, height: number): void;
+  dispose(): void;
+}
+
+export interface ModelScene {
+  positions: Float32Array;
+  normals: Float32Array;
+  edges: Float32Array;
+  plate: Float32Array;
+  triangleCount: number;
+  height: number;
+  radius: number;
+}
+
+type Mat4 = Float32Array;
+
+const MODEL_COLOR: [number, number, number] = [0.13, 0.83, 0.93];
+const PLATE_COLOR: [number, number, number] = [0.28, 0.33, 0.41];
+const GRID_SPACING_MM = 10;
+// The 2D fallback sorts and fills every triangle on the CPU each frame
+const MAX_CANVAS_TRIANGLES = 20000;
+
+function perspective(fovY: number, aspect: number, near: number, far: number): Mat4 {
+  const f = 1 / Math.tan(fovY / 2);
+  const out = new Float32Array(16);
+  out[0] = f / aspect;
+  out[5] = f;
+  out[10] = (far + near) / (near - far);
+  out[11] = -1;
+  out[14] = (2 * far * near) / (near - far);
+  return out;
+}
+
+function lookAt(eye: number[], target: number[], up: number[]): Mat4 {
+  const normalize = (v: number[]) => {
+    const length = Math.hypot(v[0], v[1], v[2]) || 1;
+    return v.map((value) => value / length);
+  };
+  const cross = (a: number[], b: number[]) => [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0],
+  ];
+  const dot = (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+  const z = normalize(eye.map((value, i) => value - target[i]));
+  const x = normalize(cross(up, z));
+  const y = cross(z, x);
+  return new Float32Array([
+    x[0], y[0], z[0], 0,
+    x[1], y[1], z[1], 0,
+    x[2], y[2], z[2], 0,
+    -dot(x, eye), -dot(y, eye), -dot(z, eye), 1,
+  ]);
+}
+
+function multiply(a: Mat4, b: Mat4): Mat4 {
+  const out = new Float32Array(16);
+  for (let column = 0; column < 4; column++) {
+    for (let row = 0; row < 4; row++) {
+      let sum = 0;
+      for (let k = 0; k < 4; k++) sum += a[k * 4 + row] * b[column * 4 + k];
+      out[column * 4 + row] = sum;
+    }
+  }
+  return out;
+}
+
+function getCamera(scene: ModelScene, view: ModelView, aspect: number) {
+  const target = [0, 0, scene.height / 2];
+  const direction = [
+    Math.cos(view.pitch) * Math.cos(view.yaw),
+    Math.cos(view.pitch) * Math.sin(view.yaw),
+    Math.sin(view.pitch),
+  ];
+  const eye = target.map((value, i) => value + direction[i] * view.distance);
+  const far = view.distance * 4 + scene.radius * 4;
+  return {
+    viewProjection: multiply(
+      perspective(Math.PI / 4, aspect, view.distance / 100, far),
+      lookAt(eye, target, [0, 0, 1])
+    ),
+    // Headlight: lit from the camera's direction
+    lightDirection: direction,
+  };
+}
+
+// Centres the mesh on the build plate, resting on z = 0, and builds the line
+// geometry for wireframe and plate overlays.
+export function prepareScene(
+  mesh: StlMesh,
+  buildVolume: BuildVolume = DEFAULT_BUILD_VOLUME
+): ModelScene {
+  const source = mesh.positions;
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < source.length; i += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], source[i + axis]);
+      max[axis] = Math.max(max[axis], source[i + axis]);
+    }
+  }
+  if (source.length === 0) {
+    min.fill(0);
+    max.fill(0);
+  }
+  const offset = [-(min[0] + max[0]) / 2, -(min[1] + max[1]) / 2, -min[2]];
+
+  const positions = new Float32Array(source.length);
+  for (let i = 0; i < source.length; i++) positions[i] = source[i] + offset[i % 3];
+
+  const normals = new Float32Array(source.length);
+  const edges = new Float32Array(mesh.triangleCount * 18);
+  for (let t = 0; t < mesh.triangleCount; t++) {
+    const i = t * 9;
+    const u = [0, 1, 2].map((axis) => positions[i + 3 + axis] - positions[i + axis]);
+    const v = [0, 1, 2].map((axis) => positions[i + 6 + axis] - positions[i + axis]);
+    const n = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+    const length = Math.hypot(n[0], n[1], n[2]) || 1;
+    for (let vertex = 0; vertex < 3; vertex++) {
+      for (let axis = 0; axis < 3; axis++) normals[i + vertex * 3 + axis] = n[axis] / length;
+    }
+    // a-b, b-c, c-a
+    [0, 1, 1, 2, 2, 0].forEach((vertex, k) => {
+      for (let axis = 0; axis < 3; axis++) {
+        edges[t * 18 + k * 3 + axis] = positions[i + vertex * 3 + axis];
+      }
+    });
+  }
+
+  const plate: number[] = [];
+  const halfX = buildVolume.x / 2;
+  const halfY = buildVolume.y / 2;
+  for (let x = -halfX; x <= halfX + 0.001; x += GRID_SPACING_MM) {
+    plate.push(x, -halfY, 0, x, halfY, 0);
+  }
+  for (let y = -halfY; y <= halfY + 0.001; y += GRID_SPACING_MM) {
+    plate.push(-halfX, y, 0, halfX, y, 0);
+  }
+  // Outline of the printable volume above the plate
+  const corners = [
+    [-halfX, -halfY], [halfX, -halfY], [halfX, halfY], [-halfX, halfY],
+  ];
+  corners.forEach(([x, y], i) => {
+    const [nextX, nextY] = corners[(i + 1) % 4];
+    plate.push(x, y, buildVolume.z, nextX, nextY, buildVolume.z);
+    plate.push(x, y, 0, x, y, buildVolume.z);
+  });
+
+  const height = max[2] - min[2];
+  return {
+    positions,
+    normals,
+    edges,
+    plate: new Float32Array(plate),
+    triangleCount: mesh.triangleCount,
+    height,
+    radius: Math.max(Math.hypot(max[0] - min[0], max[1] - min[1], height) / 2, 1),
+  };
+}
+
+const VERTEX_SHADER = `
+attribute vec3 position;
+attribute vec3 normal;
+uniform mat4 viewProjection;
+varying vec3 vNormal;
+void main() {
+  vNormal = normal;
+  gl_Position = viewProjection * vec4(position, 1.0);
+}`;
+
+const FRAGMENT_SHADER = `
+precision mediump float;
+uniform vec3 color;
+uniform vec3 lightDirection;
+uniform bool lit;
+varying vec3 vNormal;
+void main() {
+  // abs() keeps meshes with flipped normals readable
+  float light = lit ? 0.35 + 0.65 * abs(dot(normalize(vNormal), lightDirection)) : 1.0;
+  gl_FragColor = vec4(color * light, 1.0);
+}`;
+
+function createWebGLRenderer(
+  gl: WebGLRenderingContext,
+  scene: ModelScene
+): ModelRenderer {
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type)!;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(gl.getShaderInfoLog(shader) || "Shader failed to compile");
+    }
+    return shader;
+  };
+  const program = gl.createProgram()!;
+  gl.attachShader(program, compile(gl.VERTEX_SHADER, VERTEX_SHADER));
+  gl.attachShader(program, compile(gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(gl.getProgramInfoLog(program) || "Shader program failed to link");
+  }
+
+  const createBuffer = (data: Float32Array) => {
+    const buffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, data, gl.STATIC_DRAW);
+    return buffer;
+  };
+  const buffers = {
+    positions: createBuffer(scene.positions),
+    normals: createBuffer(scene.normals),
+    edges: createBuffer(scene.edges),
+    plate: createBuffer(scene.plate),
+  };
+
+  const positionLocation = gl.getAttribLocation(program, "position");
+  const normalLocation = gl.getAttribLocation(program, "normal");
+  const uniforms = {
+    viewProjection: gl.getUniformLocation(program, "viewProjection"),
+    color: gl.getUniformLocation(program, "color"),
+    lightDirection: gl.getUniformLocation(program, "lightDirection"),
+    lit: gl.getUniformLocation(program, "lit"),
+  };
+
+  const bindAttribute = (location: number, buffer: WebGLBuffer) => {
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.enableVertexAttribArray(location);
+    gl.vertexAttribPointer(location, 3, gl.FLOAT, false, 0, 0);
+  };
+
+  const drawLines = (buffer: WebGLBuffer, count: number, color: number[]) => {
+    bindAttribute(positionLocation, buffer);
+    gl.disableVertexAttribArray(normalLocation);
+    gl.vertexAttrib3f(normalLocation, 0, 0, 1);
+    gl.uniform1i(uniforms.lit, 0);
+    gl.uniform3fv(uniforms.color, color);
+    gl.drawArrays(gl.LINES, 0, count);
+  };
+
+  return {
+    kind: "webgl",
+    render(view, width, height) {
+      const camera = getCamera(scene, view, width / height);
+      gl.viewport(0, 0, width, height);
+      gl.clearColor(0.06, 0.09, 0.16, 1);
+      gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+      gl.enable(gl.DEPTH_TEST);
+      gl.useProgram(program);
+      gl.uniformMatrix4fv(uniforms.viewProjection, false, camera.viewProjection);
+      gl.uniform3fv(uniforms.lightDirection, camera.lightDirection);
+
+      drawLines(buffers.plate, scene.plate.length / 3, PLATE_COLOR);
+      if (view.wireframe) {
+        drawLines(buffers.edges, scene.edges.length / 3, MODEL_COLOR);
+      } else {
+        bindAttribute(positionLocation, buffers.positions);
+        bindAttribute(normalLocation, buffers.normals);
+        gl.uniform1i(uniforms.lit, 1);
+        gl.uniform3fv(uniforms.color, MODEL_COLOR);
+        gl.drawArrays(gl.TRIANGLES, 0, scene.triangleCount * 3);
+      }
+    },
+    dispose() {
+      Object.values(buffers).forEach((buffer) => gl.deleteBuffer(buffer));
+      gl.deleteProgram(program);
+    },
+  };
+}
+
+// Painter's-algorithm renderer for browsers without WebGL. Large meshes are
+// thinned to every nth triangle to keep dragging responsive.
+function createCanvasRenderer(
+  context: CanvasRenderingContext2D,
+  scene: ModelScene
+): ModelRenderer {
+  const stride = Math.ceil(scene.triangleCount / MAX_CANVAS_TRIANGLES);
+  const toRgb = (color: number[], light = 1) =>
+    `rgb(${color.map((value) => Math.round(value * light * 255)).join(",")})`;
+
+  return {
+    kind: "canvas",
+    render(view, width, height) {
+      const { viewProjection: m, lightDirection } = getCamera(scene, view, width / height);
+      const project = (data: Float32Array, i: number) => {
+        const [x, y, z] = [data[i], data[i + 1], data[i + 2]];
+        const w = m[3] * x + m[7] * y + m[11] * z + m[15];
+        return {
+          x: ((m[0] * x + m[4] * y + m[8] * z + m[12]) / w + 1) * (width / 2),
+          y: (1 - (m[1] * x + m[5] * y + m[9] * z + m[13]) / w) * (height / 2),
+          w,
+        };
+      };
+
+      context.fillStyle = toRgb([0.06, 0.09, 0.16]);
+      context.fillRect(0, 0, width, height);
+
+      // Lines come in groups (one per segment, or three per triangle for
+      // edges); `step` skips whole groups when thinning large meshes
+      const strokeLines = (data: Float32Array, color: number[], groupSize = 6, step = 1) => {
+        context.strokeStyle = toRgb(color);
+        context.lineWidth = 1;
+        context.beginPath();
+        for (let group = 0; group < data.length; group += groupSize * step) {
+          for (let i = group; i < group + groupSize; i += 6) {
+            const a = project(data, i);
+            const b = project(data, i + 3);
+            if (a.w <= 0 || b.w <= 0) continue;
+            context.moveTo(a.x, a.y);
+            context.lineTo(b.x, b.y);
+          }
+        }
+        context.stroke();
+      };
+
+      strokeLines(scene.plate, PLATE_COLOR);
+      if (view.wireframe) {
+        strokeLines(scene.edges, MODEL_COLOR, 18, stride);
+        return;
+      }
+
+      const triangles: { points: { x: number; y: number }[]; depth: number; light: number }[] = [];
+      for (let t = 0; t < scene.triangleCount; t += stride) {
+        const i = t * 9;
+        const points = [project(scene.positions, i), project(scene.positions, i + 3), project(scene.positions, i + 6)];
+        if (points.some((point) => point.w <= 0)) continue;
+        const normal = [scene.normals[i], scene.normals[i + 1], scene.normals[i + 2]];
+        const facing =
+          normal[0] * lightDirection[0] + normal[1] * lightDirection[1] + normal[2] * lightDirection[2];
+        triangles.push({
+          points,
+          depth: (points[0].w + points[1].w + points[2].w) / 3,
+          light: 0.35 + 0.65 * Math.abs(facing),
+        });
+      }
+      triangles.sort((a, b) => b.depth - a.depth);
+
+      for (const { points, light } of triangles) {
+        context.fillStyle = context.strokeStyle = toRgb(MODEL_COLOR, light);
+        context.beginPath();
+        context.moveTo(points[0].x, points[0].y);
+        context.lineTo(points[1].x, points[1].y);
+        context.lineTo(points[2].x, points[2].y);
+        context.closePath();
+        context.fill();
+        // Hides the hairline gaps between neighbouring filled triangles
+        context.stroke();
+      }
+    },
+    dispose() {},
+  };
+}
+
+// WebGL when the browser offers it, otherwise the 2D canvas fallback
+export function createModelRenderer(
+  canvas: HTMLCanvasElement,
+  scene: ModelScene
+): ModelRenderer {
+  const gl = canvas.getContext("webgl", { antialias: true });
+  if (gl) {
+    try {
+      return createWebGLRenderer(gl, scene);
+    } catch (error) {
+      console.warn("WebGL model preview unavailable:", error);
+    }
+  }
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas rendering is not supported");
+  return createCanvasRenderer(context, scene);
+}
+
+export function getDefaultView(scene: ModelScene): ModelView {
+  return {
+    yaw: -Math.PI / 4,
+    pitch: Math.PI / 6,
+    distance: scene.radius * 3,
+    wireframe: false,
+  };
+}
@@ -30,7 +30,10 @@ export async function apiRequest(
     }
   }
 
-  const headers: Record<string, string> = data ? { "Content-Type": "application/json" } : {};
+  // FormData bodies (file uploads) set their own multipart Content-Type
+  const isFormData = data instanceof FormData;
+  const headers: Record<string, string> =
+    data && !isFormData ? { "Content-Type": "application/json" } : {};
   
   // Add Firebase ID token if user is authenticated
   if (user) {
@@ -41,7 +44,7 @@ export async function apiRequest(
   const res = await fetch(url, {
     method,
     headers,
-    body: data ? JSON.stringify(data) : undefined,
+    body: isFormData ? data : data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
@@ -95,3 +98,125 @@ export const queryClient = new QueryClient({
     },
   },
 });
+
+// Live updates: the server pushes order, batch and queue changes over
+// Server-Sent Events. EventSource can't send the Authorization header, so the
+// stream is read with fetch instead.
+type LiveEventHandler = (data: any) => void;
+
+// Invalidations are coalesced so a burst of events (e.g. a bulk approve)
+// refetches each query once
+const pendingInvalidations = new Set<string>();
+let invalidationTimer: ReturnType<typeof setTimeout> | undefined;
+
+function invalidateSoon(...keys: string[]) {
+  keys.forEach((key) => pendingInvalidations.add(key));
+  clearTimeout(invalidationTimer);
+  invalidationTimer = setTimeout(() => {
+    pendingInvalidations.forEach((key) =>
+      queryClient.invalidateQueries({ queryKey: [key] })
+    );
+    pendingInvalidations.clear();
+  }, 300);
+}
+
+// Patches an order in place so the change shows before the refetch lands,
+// keeping the club, user and queue details the list endpoint adds
+function patchOrder(order: { id: number }) {
+  queryClient.setQueryData<{ id: number }[]>(["/api/orders"], (orders) =>
+    orders?.map((existing) =>
+      existing.id === order.id ? { ...existing, ...order } : existing
+    )
+  );
+  queryClient.setQueryData<{ id: number }>(["/api/orders", order.id], (existing) =>
+    existing ? { ...existing, ...order } : existing
+  );
+}
+
+const liveEventHandlers: Record<string, LiveEventHandler> = {
+  "order.created": () =>
+    invalidateSoon("/api/orders", "/api/stats/user", "/api/stats/admin"),
+  "order.updated": (order) => {
+    patchOrder(order);
+    invalidateSoon("/api/stats/user", "/api/stats/admin");
+  },
+  "batch.created": () => invalidateSoon("/api/batches"),
+  "batch.updated": () => invalidateSoon("/api/batches"),
+  // Queue positions are embedded in the order list, and batch details list
+  // their orders
+  "queue.updated": () => invalidateSoon("/api/orders", "/api/queue", "/api/batches"),
+  "comment.created": ({ orderId }) =>
+    queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId, "comments"] }),
+  "comment.updated": ({ orderId }) =>
+    queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId, "comments"] }),
+  "ticket.created": () => invalidateSoon("/api/tickets"),
+  "ticket.updated": () => invalidateSoon("/api/tickets"),
+  "notification.created": () => invalidateSoon("/api/notifications"),
+};
+
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (type: string, data: string) => void
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+    const messages = buffer.split("\n\n");
+    buffer = messages.pop() ?? "";
+    for (const message of messages) {
+      let type = "message";
+      const data: string[] = [];
+      for (const line of message.split("\n")) {
+        if (line.startsWith("event:")) type = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).trim());
+      }
+      if (data.length > 0) onEvent(type, data.join("\n"));
+    }
+  }
+}
+
+// Streams live updates into the query cache until the returned function is
+// called, reconnecting after dropped connections
+export function connectLiveUpdates(): () => void {
+  const controller = new AbortController();
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const connect = async (reconnecting: boolean) => {
+    try {
+      const { auth } = await import("./firebase");
+      if (!auth.currentUser) return;
+      const idToken = await auth.currentUser.getIdToken();
+      const res = await fetch("/api/events", {
+        headers: { Authorization: `Bearer ${idToken}` },
+        credentials: "include",
+        signal: controller.signal,
+      });
+      await throwIfResNotOk(res);
+      if (!res.body) return;
+
+      // Anything may have changed while disconnected
+      if (reconnecting) {
+        invalidateSoon("/api/orders", "/api/batches", "/api/queue", "/api/notifications");
+      }
+      await readEventStream(res.body, (type, data) => {
+        liveEventHandlers[type]?.(JSON.parse(data));
+      });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.warn("Live updates disconnected:", error);
+    }
+    if (!controller.signal.aborted) {
+      retryTimer = setTimeout(() => connect(true), 5000);
+    }
+  };
+
+  connect(false);
+  return () => {
+    controller.abort();
+    clearTimeout(retryTimer);
+  };
+}
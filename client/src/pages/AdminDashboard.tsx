@@ -1,13 +1,50 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { OrderStatusBadge } from "@/components/OrderStatusBadge";
+import { OrderFilesMenu } from "@/components/OrderFilesMenu";
+import { OrderDetailSheet } from "@/components/OrderDetailSheet";
+import { BatchDetailSheet } from "@/components/BatchDetailSheet";
+import { BatchSuggestions } from "@/components/BatchSuggestions";
+import { OrderPriorityDialog } from "@/components/OrderPriorityDialog";
+import { FilamentRequestDialog } from "@/components/FilamentRequestDialog";
+import { PrinterBoard } from "@/components/PrinterBoard";
+import { TicketInbox } from "@/components/TicketInbox";
+import { PrinterSelect } from "@/components/PrinterSelect";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { type Order, type Club, type User as AppUser, OrderStatus } from "@shared/schema";
+import { orderLink } from "@/lib/links";
+import {
+  type Order,
+  type Club,
+  type User as AppUser,
+  type Batch,
+  BatchStatus,
+  FilamentRequestStatus,
+  OrderStatus,
+} from "@shared/schema";
+import {
+  canTransitionOrder,
+  getAllowedTransitions,
+  getReasonField,
+  type OrderTransitionTarget,
+} from "@shared/orderStatus";
 import { 
   Layers, 
   Download, 
@@ -20,18 +57,101 @@ import {
   CheckCircle,
   AlertTriangle,
   FileCode,
-  Users
+  Users,
+  Pin,
+  Zap,
+  Flag,
+  CalendarClock,
+  Package,
+  PackageCheck
 } from "lucide-react";
 import { format } from "date-fns";
+import { getOrderPrintEstimate } from "@shared/printEstimates";
+import { comparePriority, type OrderPriority } from "@shared/priority";
+import { type QueueEntry } from "@shared/queue";
+import { canRequestFilament, isAwaitingFilament } from "@shared/filamentRequest";
+import { type SpoolWithStock } from "./FilamentInventory";
 
 interface OrderWithDetails extends Order {
   club?: Club;
   user?: AppUser;
+  priority?: OrderPriority;
+  queue?: QueueEntry | null;
 }
 
+function PriorityIndicator({ priority }: { priority?: OrderPriority }) {
+  if (!priority) return <span className="text-xs text-gray-500">—</span>;
+  const { daysToDeadline } = priority;
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center space-x-1">
+        {priority.pinned && <Pin className="h-4 w-4 text-cyan-400" aria-label="Pinned" />}
+        {priority.expedited && <Zap className="h-4 w-4 text-yellow-400" aria-label="Expedited" />}
+        <span className="text-sm font-medium text-white">{priority.score}</span>
+      </div>
+      {daysToDeadline !== null && daysToDeadline <= 7 && (
+        <p
+          className={`flex items-center text-xs ${
+            daysToDeadline <= 2 ? "text-red-400" : "text-yellow-400"
+          }`}
+        >
+          <CalendarClock className="mr-1 h-3 w-3" />
+          {daysToDeadline < 0
+            ? "Deadline passed"
+            : daysToDeadline < 1
+            ? "Due today"
+            : `Due in ${Math.floor(daysToDeadline)}d`}
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface PendingStatusChange {
+  order: OrderWithDetails;
+  status: OrderTransitionTarget;
+}
+
+// Button styling for each action in the orders table, keyed by target status
+const statusActions: Record<OrderTransitionTarget, { label: string; icon: typeof Check; className: string }> = {
+  [OrderStatus.APPROVED]: {
+    label: "Approve",
+    icon: Check,
+    className: "text-green-400 hover:text-green-300 hover:bg-green-900/20",
+  },
+  [OrderStatus.CANCELLED]: {
+    label: "Cancel",
+    icon: X,
+    className: "text-red-400 hover:text-red-300 hover:bg-red-900/20",
+  },
+  [OrderStatus.STARTED]: {
+    label: "Start print",
+    icon: Play,
+    className: "text-cyan-400 hover:text-cyan-300 hover:bg-cyan-900/20",
+  },
+  [OrderStatus.FINISHED]: {
+    label: "Mark finished",
+    icon: CheckCircle,
+    className: "text-green-400 hover:text-green-300 hover:bg-green-900/20",
+  },
+  [OrderStatus.FAILED]: {
+    label: "Mark failed",
+    icon: AlertTriangle,
+    className: "text-red-400 hover:text-red-300 hover:bg-red-900/20",
+  },
+};
+
 export function AdminDashboard() {
   const [selectedOrders, setSelectedOrders] = useState<number[]>([]);
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [sortBy, setSortBy] = useState<string>("priority");
+  const [pendingChange, setPendingChange] = useState<PendingStatusChange | null>(null);
+  const [statusReason, setStatusReason] = useState("");
+  const [filamentUsed, setFilamentUsed] = useState("");
+  const [detailOrder, setDetailOrder] = useState<OrderWithDetails | null>(null);
+  const [priorityOrder, setPriorityOrder] = useState<OrderWithDetails | null>(null);
+  const [filamentRequestOrder, setFilamentRequestOrder] = useState<OrderWithDetails | null>(null);
+  const [detailBatchId, setDetailBatchId] = useState<number | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -39,22 +159,29 @@ export function AdminDashboard() {
     queryKey: ["/api/orders"],
   });
 
-  const { data: batches = [] } = useQuery({
+  const { data: batches = [] } = useQuery<Batch[]>({
     queryKey: ["/api/batches"],
   });
+  const activeBatches = batches.filter(batch => batch.status !== BatchStatus.FINISHED);
 
   const { data: adminStats } = useQuery({
     queryKey: ["/api/stats/admin"],
   });
 
-  const updateOrderMutation = useMutation({
-    mutationFn: async ({ orderId, updates }: { orderId: number; updates: any }) => {
-      const response = await apiRequest("PATCH", `/api/orders/${orderId}`, updates);
+  const { data: spools = [] } = useQuery<SpoolWithStock[]>({
+    queryKey: ["/api/filament/spools"],
+  });
+  const lowStockSpools = spools.filter(spool => spool.lowStock);
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ orderId, updates }: { orderId: number; updates: Record<string, unknown> }) => {
+      const response = await apiRequest("PATCH", `/api/orders/${orderId}/status`, updates);
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stats/admin"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/filament/spools"] });
       toast({
         title: "Order updated successfully",
         description: "The order status has been updated.",
@@ -69,6 +196,27 @@ export function AdminDashboard() {
     },
   });
 
+  const receiveFilamentMutation = useMutation({
+    mutationFn: async (orderId: number) => {
+      const response = await apiRequest("POST", `/api/orders/${orderId}/filament-request/receive`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Filament received",
+        description: "The order can now be approved.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const createBatchMutation = useMutation({
     mutationFn: async (data: { name: string; orderIds: number[] }) => {
       const response = await apiRequest("POST", "/api/batches", {
@@ -77,12 +225,10 @@ export function AdminDashboard() {
       });
       const batch = await response.json();
       
-      // Update selected orders to be part of this batch
-      await Promise.all(
-        data.orderIds.map(orderId =>
-          apiRequest("PATCH", `/api/orders/${orderId}`, { batchId: batch.id })
-        )
-      );
+      // Add the selected orders to this batch
+      await apiRequest("POST", `/api/batches/${batch.id}/orders`, {
+        orderIds: data.orderIds,
+      });
       
       return batch;
     },
@@ -104,10 +250,34 @@ export function AdminDashboard() {
     },
   });
 
-  const filteredOrders = orders.filter(order => {
-    if (statusFilter === "all") return true;
-    return order.status === statusFilter;
-  });
+  const filteredOrders = orders
+    .filter(order => {
+      if (statusFilter === "all") return true;
+      return order.status === statusFilter;
+    })
+    .map(order => ({ order, estimate: getOrderPrintEstimate(order.files) }))
+    .sort((a, b) => {
+      if (sortBy === "print-time") return b.estimate.estimatedHours - a.estimate.estimatedHours;
+      if (sortBy === "filament") return b.estimate.estimatedGrams - a.estimate.estimatedGrams;
+      if (sortBy === "priority" && a.order.priority && b.order.priority) {
+        return comparePriority(
+          { priority: a.order.priority, submittedAt: a.order.submittedAt },
+          { priority: b.order.priority, submittedAt: b.order.submittedAt }
+        );
+      }
+      return 0; // API already returns newest first
+    });
+
+  const selectedEstimate = orders
+    .filter(order => selectedOrders.includes(order.id))
+    .map(order => getOrderPrintEstimate(order.files))
+    .reduce(
+      (total, estimate) => ({
+        hours: total.hours + estimate.estimatedHours,
+        grams: total.grams + estimate.estimatedGrams,
+      }),
+      { hours: 0, grams: 0 }
+    );
 
   const handleOrderSelection = (orderId: number, checked: boolean) => {
     if (checked) {
@@ -119,35 +289,42 @@ export function AdminDashboard() {
 
   const handleSelectAll = (checked: boolean) => {
     if (checked) {
-      setSelectedOrders(filteredOrders.map(order => order.id));
+      setSelectedOrders(filteredOrders.map(({ order }) => order.id));
     } else {
       setSelectedOrders([]);
     }
   };
 
-  const handleApproveOrder = (orderId: number) => {
-    updateOrderMutation.mutate({
-      orderId,
-      updates: { status: OrderStatus.APPROVED, reason: "Approved by admin" }
+  const handleStatusChange = (order: OrderWithDetails, status: OrderTransitionTarget) => {
+    // Cancelling and failing need a reason, so ask for one first
+    if (getReasonField(status)) {
+      setStatusReason("");
+      setFilamentUsed("");
+      setPendingChange({ order, status });
+      return;
+    }
+    updateStatusMutation.mutate({
+      orderId: order.id,
+      updates: { status, reason: `${statusActions[status].label} by admin` },
     });
   };
 
-  const handleRejectOrder = (orderId: number) => {
-    updateOrderMutation.mutate({
-      orderId,
-      updates: { 
-        status: OrderStatus.CANCELLED, 
-        cancellationReason: "Rejected by admin",
-        reason: "Order rejected"
-      }
-    });
-  };
+  const handleConfirmStatusChange = () => {
+    if (!pendingChange) return;
+    const reasonField = getReasonField(pendingChange.status);
+    if (!reasonField || !statusReason.trim()) return;
 
-  const handleStartOrder = (orderId: number) => {
-    updateOrderMutation.mutate({
-      orderId,
-      updates: { status: OrderStatus.STARTED, reason: "Print started" }
+    // Left blank, the server deducts the file estimate
+    const grams = filamentUsed.trim() === "" ? undefined : Number(filamentUsed);
+    updateStatusMutation.mutate({
+      orderId: pendingChange.order.id,
+      updates: {
+        status: pendingChange.status,
+        [reasonField]: statusReason.trim(),
+        ...(grams !== undefined && { filamentUsedGrams: grams }),
+      },
     });
+    setPendingChange(null);
   };
 
   const handleCreateBatch = () => {
@@ -177,9 +354,22 @@ export function AdminDashboard() {
       return;
     }
 
-    selectedOrders.forEach(orderId => {
-      updateOrderMutation.mutate({
-        orderId,
+    const approvable = orders.filter(
+      order =>
+        selectedOrders.includes(order.id) &&
+        canTransitionOrder(order.status, OrderStatus.APPROVED) &&
+        !isAwaitingFilament(order)
+    );
+    if (approvable.length < selectedOrders.length) {
+      toast({
+        title: "Some orders skipped",
+        description: `${selectedOrders.length - approvable.length} selected order(s) cannot be approved from their current status or are waiting for filament.`,
+      });
+    }
+
+    approvable.forEach(order => {
+      updateStatusMutation.mutate({
+        orderId: order.id,
         updates: { status: OrderStatus.APPROVED, reason: "Bulk approved by admin" }
       });
     });
@@ -212,6 +402,22 @@ export function AdminDashboard() {
         <p className="text-gray-400">Manage print queue, process orders, and handle batch operations.</p>
       </div>
 
+      {lowStockSpools.length > 0 && (
+        <Alert className="bg-yellow-900/20 border-yellow-600 text-yellow-300">
+          <AlertTriangle className="h-4 w-4 !text-yellow-400" />
+          <AlertDescription>
+            Low filament:{" "}
+            {lowStockSpools
+              .map(spool => `${spool.material} ${spool.color} (${Math.round(spool.remainingGrams)} g)`)
+              .join(", ")}
+            .{" "}
+            <Link href="/admin/filament" className="underline">
+              Manage inventory
+            </Link>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Admin Quick Actions */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card className="bg-slate-800 border-slate-700">
@@ -235,6 +441,11 @@ export function AdminDashboard() {
               <CheckSquare className="mr-2 h-4 w-4" />
               Bulk Approve ({selectedOrders.length})
             </Button>
+            {selectedOrders.length > 0 && (
+              <p className="text-xs text-gray-400 text-center">
+                Selected: ~{selectedEstimate.hours.toFixed(1)} h · ~{Math.round(selectedEstimate.grams)} g filament
+              </p>
+            )}
             <Button 
               variant="outline" 
               className="w-full border-yellow-600 text-yellow-400 hover:bg-yellow-600 hover:text-white"
@@ -276,16 +487,32 @@ export function AdminDashboard() {
             <CardTitle className="text-white text-lg">Active Batches</CardTitle>
           </CardHeader>
           <CardContent className="space-y-3">
-            {batches.length === 0 ? (
+            {activeBatches.length === 0 ? (
               <p className="text-gray-400 text-sm">No active batches</p>
             ) : (
-              batches.slice(0, 3).map((batch: any) => (
+              activeBatches.slice(0, 3).map(batch => (
                 <div key={batch.id} className="flex items-center justify-between bg-slate-900 rounded-lg p-3">
                   <div>
                     <p className="text-sm font-medium text-white">{batch.name}</p>
                     <p className="text-xs text-gray-400">Status: {batch.status}</p>
                   </div>
-                  <Play className="text-cyan-500 h-4 w-4" />
+                  <div className="flex items-center space-x-1">
+                    <PrinterSelect
+                      target={{ type: "batch", id: batch.id }}
+                      value={batch.printerId ?? null}
+                      orders={orders.filter(order => order.batchId === batch.id)}
+                      className="h-8 w-36"
+                    />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setDetailBatchId(batch.id)}
+                      className="text-gray-400 hover:text-white"
+                      title="View batch"
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </div>
               ))
             )}
@@ -293,6 +520,10 @@ export function AdminDashboard() {
         </Card>
       </div>
 
+      <PrinterBoard orders={orders} />
+
+      <BatchSuggestions />
+
       {/* Admin Queue Table */}
       <Card className="bg-slate-800 border-slate-700">
         <CardHeader>
@@ -316,6 +547,17 @@ export function AdminDashboard() {
                   <SelectItem value="cancelled">Cancelled</SelectItem>
                 </SelectContent>
               </Select>
+              <Select value={sortBy} onValueChange={setSortBy}>
+                <SelectTrigger className="bg-slate-900 border-slate-600 text-white w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="priority">Priority</SelectItem>
+                  <SelectItem value="newest">Newest first</SelectItem>
+                  <SelectItem value="print-time">Longest print time</SelectItem>
+                  <SelectItem value="filament">Most filament</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
           </div>
         </CardHeader>
@@ -346,6 +588,12 @@ export function AdminDashboard() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
                       Status
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                      Priority
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                      Estimate
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
                       Submitted
                     </th>
@@ -355,7 +603,7 @@ export function AdminDashboard() {
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-700">
-                  {filteredOrders.map((order) => (
+                  {filteredOrders.map(({ order, estimate }) => (
                     <tr key={order.id} className="hover:bg-slate-700 transition-colors">
                       <td className="px-6 py-4 whitespace-nowrap">
                         <Checkbox
@@ -366,7 +614,9 @@ export function AdminDashboard() {
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div>
                           <p className="text-sm font-medium text-white">{order.projectName}</p>
-                          <p className="text-xs text-cyan-400 font-mono">{order.orderId}</p>
+                          <Link href={orderLink(order.id)} className="text-xs text-cyan-400 font-mono hover:underline">
+                            {order.orderId}
+                          </Link>
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
@@ -377,45 +627,110 @@ export function AdminDashboard() {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <OrderStatusBadge status={order.status} />
+                        {isAwaitingFilament(order) && (
+                          <p className="mt-1 flex items-center text-xs text-yellow-400">
+                            <Package className="mr-1 h-3 w-3" />
+                            {order.filamentRequest?.status === FilamentRequestStatus.DROPPED_OFF
+                              ? "Filament dropped off"
+                              : `Awaiting ${order.filamentRequest?.grams} g filament`}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <PriorityIndicator priority={order.priority} />
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {estimate.analyzedFiles > 0 ? (
+                          <div>
+                            <p className="text-sm text-white">~{estimate.estimatedHours} h</p>
+                            <p className="text-xs text-gray-400">~{estimate.estimatedGrams} g</p>
+                            {estimate.exceedsBuildVolume && (
+                              <p className="flex items-center text-xs text-yellow-400">
+                                <AlertTriangle className="mr-1 h-3 w-3" />
+                                Too large
+                              </p>
+                            )}
+                            {estimate.gcodeMaterials.some(
+                              (material) => material !== (order.material || "PLA").toUpperCase()
+                            ) && (
+                              <p className="flex items-center text-xs text-yellow-400">
+                                <AlertTriangle className="mr-1 h-3 w-3" />
+                                Sliced for {estimate.gcodeMaterials.join(", ")}
+                              </p>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-xs text-gray-500">No estimate</span>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-400">
-                        {format(new Date(order.submittedAt), "MMM dd, yyyy")}
+                        {order.submittedAt ? format(new Date(order.submittedAt), "MMM dd, yyyy") : "—"}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="flex items-center space-x-2">
-                          {order.status === OrderStatus.SUBMITTED && (
-                            <>
-                              <Button
-                                size="sm"
-                                variant="ghost"
-                                onClick={() => handleApproveOrder(order.id)}
-                                className="text-green-400 hover:text-green-300 hover:bg-green-900/20"
-                              >
-                                <Check className="h-4 w-4" />
-                              </Button>
+                          {getAllowedTransitions(order.status).map((status) => {
+                            const action = statusActions[status];
+                            const Icon = action.icon;
+                            // Batched orders start and finish with their batch
+                            const batched =
+                              !!order.batchId &&
+                              (status === OrderStatus.STARTED || status === OrderStatus.FINISHED);
+                            return (
                               <Button
+                                key={status}
                                 size="sm"
                                 variant="ghost"
-                                onClick={() => handleRejectOrder(order.id)}
-                                className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                                title={batched ? "Part of a batch; use the batch page" : action.label}
+                                onClick={() => handleStatusChange(order, status)}
+                                disabled={
+                                  updateStatusMutation.isPending ||
+                                  batched ||
+                                  (status === OrderStatus.APPROVED && isAwaitingFilament(order))
+                                }
+                                className={action.className}
                               >
-                                <X className="h-4 w-4" />
+                                <Icon className="h-4 w-4" />
                               </Button>
-                            </>
+                            );
+                          })}
+                          {canRequestFilament(order) && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              title="Request filament"
+                              onClick={() => setFilamentRequestOrder(order)}
+                              className="text-yellow-400 hover:text-yellow-300 hover:bg-yellow-900/20"
+                            >
+                              <Package className="h-4 w-4" />
+                            </Button>
                           )}
-                          {order.status === OrderStatus.APPROVED && (
+                          {isAwaitingFilament(order) && (
                             <Button
                               size="sm"
                               variant="ghost"
-                              onClick={() => handleStartOrder(order.id)}
-                              className="text-cyan-400 hover:text-cyan-300 hover:bg-cyan-900/20"
+                              title="Mark filament received"
+                              onClick={() => receiveFilamentMutation.mutate(order.id)}
+                              disabled={receiveFilamentMutation.isPending}
+                              className="text-green-400 hover:text-green-300 hover:bg-green-900/20"
                             >
-                              <Play className="h-4 w-4" />
+                              <PackageCheck className="h-4 w-4" />
                             </Button>
                           )}
+                          <OrderFilesMenu orderId={order.id} files={order.files} label="Files" />
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            title="Priority"
+                            onClick={() => setPriorityOrder(order)}
+                            className="text-gray-400 hover:text-white"
+                          >
+                            <Flag className="h-4 w-4" />
+                          </Button>
                           <Button
                             size="sm"
                             variant="ghost"
+                            title="Details"
+                            onClick={() => setDetailOrder(order)}
                             className="text-cyan-400 hover:text-cyan-300"
                           >
                             <Eye className="h-4 w-4" />
@@ -430,6 +745,81 @@ export function AdminDashboard() {
           )}
         </CardContent>
       </Card>
+
+      <TicketInbox />
+
+      <FilamentRequestDialog
+        order={filamentRequestOrder}
+        onOpenChange={(open) => !open && setFilamentRequestOrder(null)}
+      />
+
+      <OrderPriorityDialog
+        order={priorityOrder}
+        onOpenChange={(open) => !open && setPriorityOrder(null)}
+      />
+
+      <OrderDetailSheet
+        order={detailOrder}
+        onOpenChange={(open) => !open && setDetailOrder(null)}
+      />
+
+      <BatchDetailSheet
+        batchId={detailBatchId}
+        onOpenChange={(open) => !open && setDetailBatchId(null)}
+      />
+
+      {/* Reason prompt for cancellations and failures */}
+      <Dialog open={!!pendingChange} onOpenChange={(open) => !open && setPendingChange(null)}>
+        <DialogContent className="bg-slate-800 border-slate-700">
+          <DialogHeader>
+            <DialogTitle className="text-white">
+              {pendingChange?.status === OrderStatus.CANCELLED ? "Cancel order" : "Mark print as failed"}
+            </DialogTitle>
+            <DialogDescription>
+              {pendingChange?.order.orderId} – the student will see this reason.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={statusReason}
+            onChange={(e) => setStatusReason(e.target.value)}
+            placeholder={
+              pendingChange?.status === OrderStatus.CANCELLED
+                ? "Why is this order being cancelled?"
+                : "What went wrong, and how can the model be improved?"
+            }
+            className="bg-slate-900 border-slate-600 text-white placeholder-gray-400 resize-none"
+            rows={4}
+          />
+          {pendingChange?.status === OrderStatus.FAILED && (
+            <div className="space-y-2">
+              <Label htmlFor="filament-used" className="text-gray-300">
+                Filament used (g)
+              </Label>
+              <Input
+                id="filament-used"
+                type="number"
+                min="0"
+                value={filamentUsed}
+                onChange={(e) => setFilamentUsed(e.target.value)}
+                placeholder={`${getOrderPrintEstimate(pendingChange.order.files).estimatedGrams} g estimated`}
+                className="bg-slate-900 border-slate-600 text-white placeholder-gray-400"
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingChange(null)}>
+              Back
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleConfirmStatusChange}
+              disabled={!statusReason.trim()}
+            >
+              Confirm
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
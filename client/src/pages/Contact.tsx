@@ -1,9 +1,10 @@
 /** @format */
 
 import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
+import { formatDistanceToNow } from "date-fns";
 import {
   Card,
   CardContent,
@@ -29,20 +30,37 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
+import { TicketStatusBadge } from "@/components/TicketStatusBadge";
+import { TicketThread } from "@/components/TicketThread";
 import { useToast } from "@/hooks/use-toast";
-import { Mail, MapPin, Clock, HelpCircle, Layers, Phone } from "lucide-react";
-
-const contactSchema = z.object({
-  subject: z.string().min(1, "Subject is required"),
-  orderId: z.string().optional(),
-  message: z.string().min(10, "Message must be at least 10 characters"),
-});
-
-type ContactForm = z.infer<typeof contactSchema>;
+import { apiRequest } from "@/lib/queryClient";
+import {
+  contactSchema,
+  getTicketSubjectLabel,
+  ticketSubjects,
+  type ContactForm,
+  type TicketView,
+} from "@shared/tickets";
+import {
+  Mail,
+  MapPin,
+  Clock,
+  HelpCircle,
+  Layers,
+  Phone,
+  MessageSquare,
+} from "lucide-react";
 
 export function Contact() {
   const { toast } = useToast();
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const queryClient = useQueryClient();
+  const [selectedTicketId, setSelectedTicketId] = useState<number | null>(null);
+
+  const { data: tickets = [] } = useQuery<TicketView[]>({
+    queryKey: ["/api/tickets", "mine"],
+    queryFn: async () =>
+      (await apiRequest("GET", "/api/tickets?mine=true")).json(),
+  });
 
   const form = useForm<ContactForm>({
     resolver: zodResolver(contactSchema),
@@ -53,28 +71,29 @@ export function Contact() {
     },
   });
 
-  const onSubmit = async (data: ContactForm) => {
-    setIsSubmitting(true);
-    try {
-      // Simulate form submission
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
+  const submitMutation = useMutation({
+    mutationFn: async (data: ContactForm) => {
+      const response = await apiRequest("POST", "/api/tickets", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tickets"] });
       toast({
         title: "Message sent successfully!",
         description: "We'll get back to you within 24 hours.",
       });
-
       form.reset();
-    } catch (error) {
+    },
+    onError: (error) => {
       toast({
         title: "Failed to send message",
-        description: "Please try again later or contact us directly.",
+        description: error.message,
         variant: "destructive",
       });
-    } finally {
-      setIsSubmitting(false);
-    }
-  };
+    },
+  });
+
+  const onSubmit = (data: ContactForm) => submitMutation.mutate(data);
 
   const faqItems = [
     {
@@ -242,25 +261,13 @@ export function Contact() {
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          <SelectItem value="general">
-                            General Question
-                          </SelectItem>
-                          <SelectItem value="print-quality">
-                            Print Quality Issue
-                          </SelectItem>
-                          <SelectItem value="file-upload">
-                            File Upload Problem
-                          </SelectItem>
-                          <SelectItem value="account">
-                            Account Access
-                          </SelectItem>
-                          <SelectItem value="cancellation">
-                            Cancel Print Request
-                          </SelectItem>
-                          <SelectItem value="rush">
-                            Rush Order Request
-                          </SelectItem>
-                          <SelectItem value="other">Other</SelectItem>
+                          {Object.entries(ticketSubjects).map(
+                            ([value, label]) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
+                              </SelectItem>
+                            )
+                          )}
                         </SelectContent>
                       </Select>
                       <FormMessage />
@@ -309,10 +316,10 @@ export function Contact() {
                 <Button
                   type="submit"
                   className="w-full bg-cyan-500 hover:bg-cyan-600 text-white"
-                  disabled={isSubmitting}
+                  disabled={submitMutation.isPending}
                 >
                   <Layers className="mr-2 h-4 w-4" />
-                  {isSubmitting ? "Sending..." : "Send Message"}
+                  {submitMutation.isPending ? "Sending..." : "Send Message"}
                 </Button>
               </form>
             </Form>
@@ -330,6 +337,67 @@ export function Contact() {
           </CardContent>
         </Card>
       </div>
+
+      {/* Previous requests and staff replies */}
+      <Card className="bg-slate-800 border-slate-700">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center">
+            <MessageSquare className="mr-2 h-5 w-5" />
+            My Tickets
+          </CardTitle>
+          <CardDescription>
+            Messages you've sent us and our replies
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {tickets.length === 0 ? (
+            <p className="text-sm text-gray-400">
+              You haven't contacted us yet.
+            </p>
+          ) : (
+            <ul className="divide-y divide-slate-700">
+              {tickets.map((ticket) => (
+                <li key={ticket.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedTicketId(ticket.id)}
+                    className="flex w-full items-center justify-between gap-4 py-3 text-left hover:bg-slate-700/40"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-white">
+                        {getTicketSubjectLabel(ticket.subject)}
+                        {ticket.order && (
+                          <span className="ml-2 font-mono text-xs text-cyan-400">
+                            {ticket.order.orderId}
+                          </span>
+                        )}
+                      </p>
+                      <p className="truncate text-xs text-gray-400">
+                        {ticket.message}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 items-center space-x-3 text-xs text-gray-400">
+                      {ticket.updatedAt && (
+                        <span>
+                          {formatDistanceToNow(new Date(ticket.updatedAt), {
+                            addSuffix: true,
+                          })}
+                        </span>
+                      )}
+                      <TicketStatusBadge status={ticket.status} />
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <TicketThread
+        ticketId={selectedTicketId}
+        onOpenChange={(open) => !open && setSelectedTicketId(null)}
+      />
     </div>
   );
 }
@@ -1,18 +1,26 @@
 /** @format */
 
-import { useLocation } from "wouter";
+import { useLocation, useRoute } from "wouter";
 import { SubmitPrint } from "./SubmitPrint";
 import { QueueStatus } from "./QueueStatus";
 import { Guidelines } from "./Guidelines";
 import { Contact } from "./Contact";
 import { AdminDashboard } from "./AdminDashboard";
+import { FilamentInventory } from "./FilamentInventory";
+import { NotificationSettings } from "./NotificationSettings";
+import { OrderDetail } from "./OrderDetail";
 import { useAuth } from "@/components/AuthProvider";
+import { isStaff } from "@shared/users";
 
 export function Dashboard() {
   const [location] = useLocation();
+  const [isOrderPage, orderParams] = useRoute("/orders/:id");
   const { user } = useAuth();
 
   const renderContent = () => {
+    if (isOrderPage) {
+      return <OrderDetail orderId={Number(orderParams.id)} />;
+    }
     switch (location) {
       case "/submit":
         return <SubmitPrint />;
@@ -22,11 +30,18 @@ export function Dashboard() {
         return <Guidelines />;
       case "/contact":
         return <Contact />;
+      case "/settings":
+        return <NotificationSettings />;
       case "/admin":
-        if (user?.role === "admin" || user?.role === "superadmin") {
+        if (isStaff(user)) {
           return <AdminDashboard />;
         }
         return <QueueStatus />; // Fallback for unauthorized users
+      case "/admin/filament":
+        if (isStaff(user)) {
+          return <FilamentInventory />;
+        }
+        return <QueueStatus />;
       default:
         return <SubmitPrint />; // Default to submit print
     }
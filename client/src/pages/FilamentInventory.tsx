@@ -0,0 +1,371 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { type Club, type FilamentSpool } from "@shared/schema";
+import { AlertTriangle, Package, Pencil, Plus, Trash2 } from "lucide-react";
+
+export type SpoolWithStock = FilamentSpool & { lowStock: boolean };
+
+const LAB_STOCK = "lab";
+
+const spoolFormSchema = z.object({
+  material: z.string().trim().min(1, "Material is required"),
+  color: z.string().trim().min(1, "Color is required"),
+  brand: z.string().optional(),
+  initialGrams: z.coerce.number().positive("Must be positive"),
+  remainingGrams: z.coerce.number().min(0, "Cannot be negative"),
+  owner: z.string(),
+  location: z.string().optional(),
+});
+
+type SpoolForm = z.infer<typeof spoolFormSchema>;
+
+const emptySpoolForm: SpoolForm = {
+  material: "PLA",
+  color: "",
+  brand: "",
+  initialGrams: 1000,
+  remainingGrams: 1000,
+  owner: LAB_STOCK,
+  location: "",
+};
+
+interface SpoolDialogProps {
+  open: boolean;
+  spool: FilamentSpool | null;
+  clubs: Club[];
+  onOpenChange: (open: boolean) => void;
+}
+
+function SpoolDialog({ open, spool, clubs, onOpenChange }: SpoolDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const form = useForm<SpoolForm>({
+    resolver: zodResolver(spoolFormSchema),
+    defaultValues: emptySpoolForm,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset(
+      spool
+        ? {
+            material: spool.material,
+            color: spool.color,
+            brand: spool.brand || "",
+            initialGrams: spool.initialGrams,
+            remainingGrams: spool.remainingGrams,
+            owner: spool.ownerClubId?.toString() ?? LAB_STOCK,
+            location: spool.location || "",
+          }
+        : emptySpoolForm
+    );
+  }, [open, spool]);
+
+  const saveSpoolMutation = useMutation({
+    mutationFn: async ({ owner, brand, location, ...data }: SpoolForm) => {
+      const body = {
+        ...data,
+        brand: brand?.trim() || null,
+        location: location?.trim() || null,
+        ownerClubId: owner === LAB_STOCK ? null : parseInt(owner),
+      };
+      const response = spool
+        ? await apiRequest("PATCH", `/api/filament/spools/${spool.id}`, body)
+        : await apiRequest("POST", "/api/filament/spools", body);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/filament/spools"] });
+      toast({ title: spool ? "Spool updated" : "Spool added" });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not save spool",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const textField = (name: "material" | "color" | "brand" | "location", label: string, placeholder?: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel className="text-gray-300">{label}</FormLabel>
+          <FormControl>
+            <Input {...field} placeholder={placeholder} className="bg-slate-900 border-slate-600 text-white" />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const gramsField = (name: "initialGrams" | "remainingGrams", label: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel className="text-gray-300">{label}</FormLabel>
+          <FormControl>
+            <Input type="number" step="1" {...field} className="bg-slate-900 border-slate-600 text-white" />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-800 border-slate-700">
+        <DialogHeader>
+          <DialogTitle className="text-white">{spool ? "Edit spool" : "Add spool"}</DialogTitle>
+          <DialogDescription>
+            Finished and failed prints are deducted from a spool of the same material and color.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => saveSpoolMutation.mutate(data))}
+            className="space-y-4"
+          >
+            <div className="grid grid-cols-3 gap-4">
+              {textField("material", "Material", "PLA")}
+              {textField("color", "Color", "White")}
+              {textField("brand", "Brand", "e.g. Prusament")}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {gramsField("initialGrams", "Spool size (g)")}
+              {gramsField("remainingGrams", "Remaining (g)")}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="owner"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-gray-300">Owner</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="bg-slate-900 border-slate-600 text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={LAB_STOCK}>Lab stock</SelectItem>
+                        {clubs.map((club) => (
+                          <SelectItem key={club.id} value={club.id.toString()}>
+                            {club.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {textField("location", "Location", "e.g. Shelf B")}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveSpoolMutation.isPending}
+                className="bg-cyan-500 hover:bg-cyan-600"
+              >
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function FilamentInventory() {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingSpool, setEditingSpool] = useState<FilamentSpool | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: spools = [], isLoading } = useQuery<SpoolWithStock[]>({
+    queryKey: ["/api/filament/spools"],
+  });
+
+  const { data: clubs = [] } = useQuery<Club[]>({
+    queryKey: ["/api/clubs"],
+  });
+
+  const deleteSpoolMutation = useMutation({
+    mutationFn: async (spoolId: number) => {
+      await apiRequest("DELETE", `/api/filament/spools/${spoolId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/filament/spools"] });
+      toast({ title: "Spool removed" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not remove spool",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (spool: FilamentSpool | null) => {
+    setEditingSpool(spool);
+    setDialogOpen(true);
+  };
+
+  const clubName = (clubId: number | null) =>
+    clubId ? clubs.find((club) => club.id === clubId)?.name || "Unknown club" : "Lab stock";
+
+  const lowStockCount = spools.filter((spool) => spool.lowStock).length;
+  const totalGrams = spools.reduce((total, spool) => total + spool.remainingGrams, 0);
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-end justify-between">
+        <div>
+          <h2 className="text-3xl font-bold text-white mb-2">Filament Inventory</h2>
+          <p className="text-gray-400">
+            {spools.length} spool(s) · {(totalGrams / 1000).toFixed(1)} kg on hand
+            {lowStockCount > 0 && ` · ${lowStockCount} running low`}
+          </p>
+        </div>
+        <Button onClick={() => openDialog(null)} className="bg-cyan-500 hover:bg-cyan-600">
+          <Plus className="mr-2 h-4 w-4" />
+          Add spool
+        </Button>
+      </div>
+
+      <Card className="bg-slate-800 border-slate-700">
+        <CardHeader>
+          <CardTitle className="text-white">Spools</CardTitle>
+          <CardDescription>
+            Student-provided spools are only used for their own club's orders.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="animate-pulse space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-10 bg-slate-700 rounded"></div>
+              ))}
+            </div>
+          ) : spools.length === 0 ? (
+            <div className="text-center py-12">
+              <Package className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <h3 className="text-lg font-medium text-white mb-2">No spools yet</h3>
+              <p className="text-gray-400">Add the spools on hand to start tracking usage.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-slate-900">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                      Filament
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                      Owner
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                      Location
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                      Remaining
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700">
+                  {spools.map((spool) => (
+                    <tr key={spool.id} className="hover:bg-slate-700 transition-colors">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <p className="text-sm font-medium text-white">
+                          {spool.material} · {spool.color}
+                        </p>
+                        <p className="text-xs text-gray-400">{spool.brand || "Unknown brand"}</p>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                        {clubName(spool.ownerClubId)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                        {spool.location || "—"}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="w-40 space-y-1">
+                          <div className="flex items-center justify-between text-sm">
+                            <span className="text-white">{Math.round(spool.remainingGrams)} g</span>
+                            {spool.lowStock && (
+                              <Badge className="bg-yellow-900 text-yellow-300">
+                                <AlertTriangle className="mr-1 h-3 w-3" />
+                                Low
+                              </Badge>
+                            )}
+                          </div>
+                          <Progress value={(spool.remainingGrams / spool.initialGrams) * 100} className="h-2" />
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center space-x-1">
+                          <Button size="sm" variant="ghost" title="Edit" onClick={() => openDialog(spool)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            title="Remove"
+                            onClick={() => deleteSpoolMutation.mutate(spool.id)}
+                            disabled={deleteSpoolMutation.isPending}
+                            className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <SpoolDialog open={dialogOpen} spool={editingSpool} clubs={clubs} onOpenChange={setDialogOpen} />
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { type NotificationPreferences } from "@shared/schema";
+import {
+  isChannelEnabled,
+  notificationChannels,
+  notificationTypes,
+  type NotificationChannel,
+  type NotificationTypeValue,
+} from "@shared/notifications";
+import { Lock } from "lucide-react";
+
+const emptyPreferences: NotificationPreferences = { email: {}, inApp: {} };
+
+const channels = Object.keys(notificationChannels) as NotificationChannel[];
+const types = Object.keys(notificationTypes) as NotificationTypeValue[];
+
+export function NotificationSettings() {
+  const [preferences, setPreferences] = useState<NotificationPreferences>(emptyPreferences);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: saved, isLoading } = useQuery<NotificationPreferences>({
+    queryKey: ["/api/user/preferences"],
+  });
+
+  useEffect(() => {
+    if (saved) setPreferences(saved);
+  }, [saved]);
+
+  const savePreferencesMutation = useMutation({
+    mutationFn: async (updates: NotificationPreferences) => {
+      const response = await apiRequest("PUT", "/api/user/preferences", updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/preferences"] });
+      toast({ title: "Preferences saved" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not save preferences",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Only opt-outs are stored; turning a type back on removes its entry
+  const setEnabled = (channel: NotificationChannel, type: NotificationTypeValue, enabled: boolean) => {
+    setPreferences((current) => {
+      const { [type]: _previous, ...rest } = current[channel];
+      return { ...current, [channel]: enabled ? rest : { ...rest, [type]: false } };
+    });
+  };
+
+  const unchanged = JSON.stringify(preferences) === JSON.stringify(saved ?? emptyPreferences);
+
+  return (
+    <div className="space-y-8">
+      <div className="mb-8">
+        <h2 className="text-3xl font-bold text-white mb-2">Settings</h2>
+        <p className="text-gray-400">Choose how you hear about your print requests.</p>
+      </div>
+
+      <Card className="bg-slate-800 border-slate-700">
+        <CardHeader>
+          <CardTitle className="text-white">Notifications</CardTitle>
+          <CardDescription>
+            Locked notifications need your attention and are always sent.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="animate-pulse space-y-3">
+              {[...Array(4)].map((_, i) => (
+                <div key={i} className="h-10 bg-slate-700 rounded"></div>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-slate-900">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Notification
+                      </th>
+                      {channels.map((channel) => (
+                        <th
+                          key={channel}
+                          className="px-6 py-3 text-center text-xs font-medium text-gray-400 uppercase tracking-wider"
+                        >
+                          {notificationChannels[channel]}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-700">
+                    {types.map((type) => {
+                      const { label, mandatory } = notificationTypes[type];
+                      return (
+                        <tr key={type}>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="flex items-center space-x-2">
+                              <span className="text-sm text-white">{label}</span>
+                              {mandatory && (
+                                <Badge variant="secondary" className="text-xs">
+                                  <Lock className="mr-1 h-3 w-3" />
+                                  Required
+                                </Badge>
+                              )}
+                            </div>
+                          </td>
+                          {channels.map((channel) => (
+                            <td key={channel} className="px-6 py-4 text-center">
+                              <Switch
+                                checked={isChannelEnabled(preferences, type, channel)}
+                                onCheckedChange={(checked) => setEnabled(channel, type, checked)}
+                                disabled={mandatory}
+                                aria-label={`${label} (${notificationChannels[channel]})`}
+                              />
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  onClick={() => savePreferencesMutation.mutate(preferences)}
+                  disabled={unchanged || savePreferencesMutation.isPending}
+                  className="bg-cyan-500 hover:bg-cyan-600"
+                >
+                  Save preferences
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
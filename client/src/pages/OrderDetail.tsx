@@ -0,0 +1,304 @@
+import { type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format, formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { OrderStatusBadge } from "@/components/OrderStatusBadge";
+import { OrderComments } from "@/components/OrderComments";
+import { OrderFilesMenu } from "@/components/OrderFilesMenu";
+import { useAuth } from "@/components/AuthProvider";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  type Batch,
+  type Club,
+  type Order,
+  type OrderFile,
+  type Printer,
+  type User as AppUser,
+} from "@shared/schema";
+import { type QueueEntry } from "@shared/queue";
+import { isStaff } from "@shared/users";
+import { getOrderPrintEstimate } from "@shared/printEstimates";
+import { describeTimelineEntry, type OrderTimelineEntry } from "@shared/orderTimeline";
+import {
+  ArrowLeft,
+  FileCode,
+  History,
+  Layers,
+  MessageSquare,
+  Printer as PrinterIcon,
+} from "lucide-react";
+
+type OrderDetails = Order & {
+  club: Club | null;
+  user?: AppUser;
+  batch: Pick<Batch, "id" | "batchNumber" | "name" | "status"> | null;
+  printer: Pick<Printer, "id" | "name"> | null;
+  queue: QueueEntry | null;
+};
+
+function formatDate(value: Date | string | null | undefined, pattern = "MMM dd, yyyy HH:mm") {
+  return value ? format(new Date(value), pattern) : "—";
+}
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div>
+      <p className="text-sm text-gray-400">{label}</p>
+      <div className="text-white">{children}</div>
+    </div>
+  );
+}
+
+export function OrderDetail({ orderId }: { orderId: number }) {
+  const { user } = useAuth();
+  const staff = isStaff(user);
+
+  const { data: order, isLoading, error } = useQuery<OrderDetails>({
+    queryKey: ["/api/orders", orderId],
+    queryFn: async () => (await apiRequest("GET", `/api/orders/${orderId}`)).json(),
+  });
+
+  const { data: timeline = [] } = useQuery<OrderTimelineEntry[]>({
+    queryKey: ["/api/orders", orderId, "timeline"],
+    queryFn: async () => (await apiRequest("GET", `/api/orders/${orderId}/timeline`)).json(),
+    enabled: !!order,
+  });
+
+  const backLink = (
+    <Link href={staff ? "/admin" : "/queue"}>
+      <Button variant="ghost" className="text-gray-400 hover:text-white">
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        {staff ? "Back to dashboard" : "Back to your queue"}
+      </Button>
+    </Link>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="space-y-8">
+        <div className="animate-pulse space-y-4">
+          <div className="h-10 w-1/3 bg-slate-700 rounded"></div>
+          <div className="h-48 bg-slate-800 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !order) {
+    return (
+      <div className="space-y-6">
+        {backLink}
+        <Card className="bg-slate-800 border-slate-700">
+          <CardContent className="py-12 text-center">
+            <FileCode className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+            <h3 className="text-lg font-medium text-white mb-2">Order not available</h3>
+            <p className="text-gray-400">
+              {(error as Error | null)?.message || "This order doesn't exist or isn't yours."}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const files = Array.isArray(order.files) ? (order.files as OrderFile[]) : [];
+  const estimate = getOrderPrintEstimate(order.files);
+
+  return (
+    <div className="space-y-8">
+      {backLink}
+
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-white mb-2">{order.projectName}</h2>
+          <p className="font-mono text-cyan-400">{order.orderId}</p>
+        </div>
+        <OrderStatusBadge status={order.status} size="lg" />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="space-y-8 lg:col-span-2">
+          <Card className="bg-slate-800 border-slate-700">
+            <CardHeader>
+              <CardTitle className="text-white">Details</CardTitle>
+            </CardHeader>
+            <CardContent className="grid grid-cols-2 gap-6">
+              <Field label="Submitted">{formatDate(order.submittedAt)}</Field>
+              <Field label="Event deadline">{formatDate(order.eventDeadline, "MMM dd, yyyy")}</Field>
+              <Field label="Club">{order.club?.name || "No club"}</Field>
+              {staff && order.user && (
+                <Field label="Requested by">
+                  {order.user.displayName}
+                  <p className="text-xs text-gray-400">{order.user.email}</p>
+                </Field>
+              )}
+              <Field label="Material">
+                {order.material} · {order.color}
+                {order.providingFilament && " (own filament)"}
+              </Field>
+              <Field label="Estimate">
+                {estimate.analyzedFiles > 0
+                  ? `~${estimate.estimatedHours} h · ~${Math.round(estimate.estimatedGrams)} g`
+                  : "—"}
+              </Field>
+              {order.startedAt && <Field label="Started">{formatDate(order.startedAt)}</Field>}
+              {order.queue && (
+                <Field label={order.queue.position === 0 ? "Expected to finish" : "Queue position"}>
+                  {order.queue.position === 0
+                    ? formatDate(order.queue.projectedFinish)
+                    : `#${order.queue.position} · finishes ~${formatDate(order.queue.projectedFinish)}`}
+                </Field>
+              )}
+              {order.actualCompletionTime && (
+                <Field label="Completed">{formatDate(order.actualCompletionTime)}</Field>
+              )}
+              {order.filamentUsedGrams != null && (
+                <Field label="Filament used">{Math.round(order.filamentUsedGrams)} g</Field>
+              )}
+              {order.failureReason && (
+                <div className="col-span-2">
+                  <Field label="Failure reason">
+                    <p className="text-red-300">{order.failureReason}</p>
+                  </Field>
+                </div>
+              )}
+              {order.cancellationReason && (
+                <div className="col-span-2">
+                  <Field label="Cancellation reason">
+                    <p className="text-red-300">{order.cancellationReason}</p>
+                  </Field>
+                </div>
+              )}
+              {order.specialInstructions && (
+                <div className="col-span-2">
+                  <Field label="Special instructions">
+                    <p className="whitespace-pre-wrap">{order.specialInstructions}</p>
+                  </Field>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-slate-800 border-slate-700">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-white">Files</CardTitle>
+                <OrderFilesMenu orderId={order.id} files={order.files} />
+              </div>
+            </CardHeader>
+            <CardContent>
+              {files.length === 0 ? (
+                <p className="text-sm text-gray-400">No files were uploaded.</p>
+              ) : (
+                <ul className="divide-y divide-slate-700">
+                  {files.map((file, index) => (
+                    <li key={index} className="flex items-center justify-between py-3">
+                      <div className="flex items-center space-x-3">
+                        <FileCode className="h-5 w-5 text-gray-400" />
+                        <div>
+                          <p className="text-sm text-white">{file.name}</p>
+                          <p className="text-xs text-gray-400">
+                            {(file.size / 1024 / 1024).toFixed(1)} MB
+                            {file.analysis &&
+                              ` · ~${file.analysis.estimatedHours} h · ~${Math.round(file.analysis.estimatedGrams)} g`}
+                          </p>
+                        </div>
+                      </div>
+                      {file.purgedAt ? (
+                        <Badge variant="secondary">Deleted {formatDate(file.purgedAt, "MMM dd")}</Badge>
+                      ) : file.expiresAt ? (
+                        <Badge className="bg-yellow-900 text-yellow-300">
+                          Expires {formatDate(file.expiresAt, "MMM dd")}
+                        </Badge>
+                      ) : null}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-slate-800 border-slate-700">
+            <CardHeader>
+              <CardTitle className="text-white flex items-center">
+                <MessageSquare className="mr-2 h-5 w-5" />
+                Comments
+              </CardTitle>
+              <CardDescription>
+                {staff
+                  ? "Talk to the requester. Internal notes are only visible to staff."
+                  : "Questions or changes? The print lab staff will reply here."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <OrderComments orderId={order.id} />
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-8">
+          <Card className="bg-slate-800 border-slate-700">
+            <CardHeader>
+              <CardTitle className="text-white">Assignment</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center space-x-3">
+                <Layers className="h-5 w-5 text-gray-400" />
+                <div>
+                  <p className="text-sm text-gray-400">Batch</p>
+                  <p className="text-white">
+                    {order.batch ? `${order.batch.name || order.batch.batchNumber} (${order.batch.status})` : "Not batched"}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-3">
+                <PrinterIcon className="h-5 w-5 text-gray-400" />
+                <div>
+                  <p className="text-sm text-gray-400">Printer</p>
+                  <p className="text-white">{order.printer?.name || "Not assigned yet"}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-slate-800 border-slate-700">
+            <CardHeader>
+              <CardTitle className="text-white flex items-center">
+                <History className="mr-2 h-5 w-5" />
+                Timeline
+              </CardTitle>
+              <CardDescription>Every change to this order, oldest first.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {timeline.length === 0 ? (
+                <p className="text-sm text-gray-400">Nothing has happened yet.</p>
+              ) : (
+                <ol className="relative space-y-6 border-l border-slate-700 pl-6">
+                  {timeline.map((entry) => (
+                    <li key={entry.id} className="relative">
+                      <span className="absolute -left-[29px] top-1.5 h-2.5 w-2.5 rounded-full bg-cyan-500"></span>
+                      <p className="text-sm text-white">{describeTimelineEntry(entry)}</p>
+                      {entry.reason && (
+                        <p className="mt-1 text-sm text-gray-300 italic">“{entry.reason}”</p>
+                      )}
+                      <p
+                        className="mt-1 text-xs text-gray-400"
+                        title={formatDate(entry.timestamp)}
+                      >
+                        {entry.actor ? entry.actor.name : "System"} ·{" "}
+                        {formatDistanceToNow(new Date(entry.timestamp), { addSuffix: true })}
+                      </p>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,147 @@
-import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { OrderStatusBadge } from "@/components/OrderStatusBadge";
+import { OrderFilesMenu } from "@/components/OrderFilesMenu";
 import { useAuth } from "@/components/AuthProvider";
-import { type Order, type Club, type User as AppUser } from "@shared/schema";
-import { Clock, Play, CheckCircle, AlertTriangle, FileCode, Download } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { orderLink } from "@/lib/links";
+import {
+  type Order,
+  type Club,
+  type User as AppUser,
+  type OrderFile,
+  FilamentRequestStatus,
+  OrderStatus,
+} from "@shared/schema";
+import { type QueueEntry } from "@shared/queue";
+import { isAwaitingFilament } from "@shared/filamentRequest";
+import { Clock, Play, CheckCircle, AlertTriangle, FileCode, Package } from "lucide-react";
 import { format } from "date-fns";
 
 interface OrderWithDetails extends Order {
   club?: Club;
   user?: AppUser;
+  queue?: QueueEntry | null;
+}
+
+function QueuePosition({ order }: { order: OrderWithDetails }) {
+  const { queue } = order;
+  if (!queue) {
+    return (
+      <span className="text-sm text-gray-500">
+        {order.status === OrderStatus.SUBMITTED ? "Awaiting approval" : "—"}
+      </span>
+    );
+  }
+  const finish = format(new Date(queue.projectedFinish), "MMM dd, HH:mm");
+  if (queue.position === 0) {
+    return (
+      <div>
+        <p className="text-sm text-white">Printing now</p>
+        <p className="text-xs text-gray-400">Done ~{finish}</p>
+      </div>
+    );
+  }
+  return (
+    <div>
+      <p className="text-sm text-white">
+        #{queue.position} · {queue.jobsAhead === 0 ? "next up" : `${queue.jobsAhead} ahead`}
+      </p>
+      <p className="text-xs text-gray-400">Ready ~{finish}</p>
+    </div>
+  );
+}
+
+// Advance warning before the retention job deletes an order's files
+function FileRetentionNotice({ files }: { files: unknown }) {
+  const orderFiles = Array.isArray(files) ? (files as OrderFile[]) : [];
+  const purged = orderFiles.filter((f) => f.purgedAt).length;
+  const nextExpiry = orderFiles
+    .filter((f) => f.expiresAt && !f.purgedAt)
+    .map((f) => f.expiresAt!)
+    .sort()[0];
+
+  return (
+    <>
+      {nextExpiry && (
+        <p className="text-xs text-yellow-400 mt-1">
+          Expires {format(new Date(nextExpiry), "MMM dd, yyyy")}
+        </p>
+      )}
+      {purged > 0 && (
+        <p className="text-xs text-gray-500 mt-1">
+          {purged === orderFiles.length ? "Files deleted" : `${purged} deleted`}
+        </p>
+      )}
+    </>
+  );
+}
+
+// Filament staff have asked for before they can approve an order
+function FilamentRequestNotice({ order }: { order: OrderWithDetails }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const request = order.filamentRequest;
+
+  const dropOffMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/orders/${order.id}/filament-request/drop-off`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Drop-off confirmed",
+        description: "Staff will approve your order once they have the filament.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not confirm drop-off",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!request) return null;
+  const droppedOff = request.status === FilamentRequestStatus.DROPPED_OFF;
+
+  return (
+    <Alert className="bg-yellow-900/20 border-yellow-600 text-yellow-300">
+      <Package className="h-4 w-4 !text-yellow-400" />
+      <AlertTitle>
+        {order.orderId}: {droppedOff ? "filament dropped off" : "filament needed"}
+      </AlertTitle>
+      <AlertDescription className="space-y-2">
+        <p>
+          {droppedOff
+            ? `Waiting for staff to confirm they have your ${request.grams} g of ${request.color} ${request.material}.`
+            : `Please bring ${request.grams} g of ${request.color} ${request.material} to the club room. Your order will be approved once it arrives.`}
+        </p>
+        {request.note && <p className="text-yellow-200">{request.note}</p>}
+        {!droppedOff && (
+          <Button
+            size="sm"
+            onClick={() => dropOffMutation.mutate()}
+            disabled={dropOffMutation.isPending}
+            className="bg-yellow-600 hover:bg-yellow-700 text-white"
+          >
+            I've dropped it off
+          </Button>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
 }
 
 export function QueueStatus() {
   const { user } = useAuth();
-  
   const { data: orders = [], isLoading } = useQuery<OrderWithDetails[]>({
     queryKey: ["/api/orders"],
   });
@@ -101,6 +227,12 @@ export function QueueStatus() {
         </Card>
       </div>
 
+      {orders
+        .filter((order) => order.userId === user?.id && isAwaitingFilament(order))
+        .map((order) => (
+          <FilamentRequestNotice key={order.id} order={order} />
+        ))}
+
       {/* Print Orders Table */}
       <Card className="bg-slate-800 border-slate-700">
         <CardHeader>
@@ -131,6 +263,9 @@ export function QueueStatus() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
                       Status
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                      Queue
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
                       Submitted
                     </th>
@@ -146,7 +281,9 @@ export function QueueStatus() {
                   {orders.map((order) => (
                     <tr key={order.id} className="hover:bg-slate-700 transition-colors">
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <span className="text-cyan-400 font-mono text-sm">{order.orderId}</span>
+                        <Link href={orderLink(order.id)} className="text-cyan-400 font-mono text-sm hover:underline">
+                          {order.orderId}
+                        </Link>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div>
@@ -157,8 +294,11 @@ export function QueueStatus() {
                       <td className="px-6 py-4 whitespace-nowrap">
                         <OrderStatusBadge status={order.status} />
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <QueuePosition order={order} />
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-400">
-                        {format(new Date(order.submittedAt), "MMM dd, yyyy")}
+                        {order.submittedAt ? format(new Date(order.submittedAt), "MMM dd, yyyy") : "—"}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="flex items-center space-x-2">
@@ -167,18 +307,10 @@ export function QueueStatus() {
                             {Array.isArray(order.files) ? order.files.length : 0} files
                           </span>
                         </div>
+                        <FileRetentionNotice files={order.files} />
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <Button variant="ghost" size="sm" className="text-cyan-400 hover:text-cyan-300">
-                          {order.status === "finished" ? (
-                            <>
-                              <Download className="mr-1 h-4 w-4" />
-                              Download
-                            </>
-                          ) : (
-                            "View Details"
-                          )}
-                        </Button>
+                        <OrderFilesMenu orderId={order.id} files={order.files} />
                       </td>
                     </tr>
                   ))}
@@ -10,10 +10,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { FileUpload } from "@/components/FileUpload";
+import { FileUpload, type FileData } from "@/components/FileUpload";
+import { ModelViewer } from "@/components/ModelViewer";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { type Club } from "@shared/schema";
+import { uploadFiles } from "@/lib/files";
+import { type Club, type SystemConfig } from "@shared/schema";
 import { Layers, Users, User, Calendar, Palette, FileText } from "lucide-react";
 
 const submitPrintSchema = z.object({
@@ -29,11 +31,16 @@ const submitPrintSchema = z.object({
 type SubmitPrintForm = z.infer<typeof submitPrintSchema>;
 
 export function SubmitPrint() {
-  const [files, setFiles] = useState<any[]>([]);
+  const [files, setFiles] = useState<FileData[]>([]);
   const [clubSearch, setClubSearch] = useState("");
+  const [previewFileId, setPreviewFileId] = useState<string | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const previewableFiles = files.filter((file) => file.mesh);
+  const previewFile =
+    previewableFiles.find((file) => file.id === previewFileId) ?? previewableFiles[0];
+
   const form = useForm<SubmitPrintForm>({
     resolver: zodResolver(submitPrintSchema),
     defaultValues: {
@@ -48,9 +55,28 @@ export function SubmitPrint() {
     enabled: clubSearch.length > 0,
   });
 
+  // Upload limits are enforced by the server too; these just give early feedback
+  const { data: maxFileSizeConfig } = useQuery<SystemConfig>({
+    queryKey: ["/api/system/config/max_file_size_mb"],
+  });
+  const { data: allowedTypesConfig } = useQuery<SystemConfig>({
+    queryKey: ["/api/system/config/allowed_file_types"],
+  });
+  const { data: uploadLimitConfig } = useQuery<SystemConfig>({
+    queryKey: ["/api/system/config/file_upload_limit"],
+  });
+  const { data: retentionConfig } = useQuery<SystemConfig>({
+    queryKey: ["/api/system/config/file_retention_days"],
+  });
+
   const submitMutation = useMutation({
-    mutationFn: async (data: SubmitPrintForm & { files: any[] }) => {
-      const response = await apiRequest("POST", "/api/orders", data);
+    mutationFn: async ({ files, ...data }: SubmitPrintForm & { files: FileData[] }) => {
+      const uploadedFiles = await uploadFiles(files.map((f) => f.file));
+      const response = await apiRequest("POST", "/api/orders", {
+        ...data,
+        // The server re-reads each file and computes its own estimates
+        files: uploadedFiles.map(({ storageKey, name }) => ({ storageKey, name })),
+      });
       return response.json();
     },
     onSuccess: () => {
@@ -81,13 +107,7 @@ export function SubmitPrint() {
       return;
     }
 
-    const fileMetadata = files.map(f => ({
-      name: f.name,
-      size: f.size,
-      type: f.type,
-    }));
-
-    submitMutation.mutate({ ...data, files: fileMetadata });
+    submitMutation.mutate({ ...data, files });
   };
 
   return (
@@ -319,9 +339,46 @@ export function SubmitPrint() {
               <CardDescription>Upload your 3D model files for printing</CardDescription>
             </CardHeader>
             <CardContent>
-              <FileUpload onFilesChange={setFiles} />
+              <FileUpload
+                onFilesChange={setFiles}
+                maxFiles={uploadLimitConfig?.value as number | undefined}
+                maxFileSize={
+                  maxFileSizeConfig
+                    ? (maxFileSizeConfig.value as number) * 1024 * 1024
+                    : undefined
+                }
+                acceptedTypes={allowedTypesConfig?.value as string[] | undefined}
+                retentionDays={retentionConfig?.value as number | undefined}
+                material={form.watch("material")}
+              />
             </CardContent>
           </Card>
+
+          {previewFile?.mesh && (
+            <Card className="bg-slate-800 border-slate-700">
+              <CardHeader>
+                <CardTitle className="text-white">Model Preview</CardTitle>
+                <CardDescription>Check the orientation and size on the build plate</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {previewableFiles.length > 1 && (
+                  <Select value={previewFile.id} onValueChange={setPreviewFileId}>
+                    <SelectTrigger className="bg-slate-900 border-slate-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {previewableFiles.map((file) => (
+                        <SelectItem key={file.id} value={file.id}>
+                          {file.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <ModelViewer mesh={previewFile.mesh} />
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
     </div>
@@ -1,35 +1,277 @@
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { History, Loader2, RotateCcw, Settings } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/components/AuthProvider";
+import { ConfigHistoryDialog } from "@/components/ConfigHistoryDialog";
+import { RoleInvitations } from "@/components/RoleInvitations";
+import { UserManagement } from "@/components/UserManagement";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { templateVariables, type EmailTemplate } from "@shared/notifications";
+import {
+  canEditConfig,
+  systemConfigRegistry,
+  type ConfigDefinition,
+  type SystemConfigView,
+} from "@shared/systemConfig";
+
+const definitions = Object.entries(systemConfigRegistry) as [string, ConfigDefinition][];
+const categories = Array.from(new Set(definitions.map(([, definition]) => definition.category)));
+
+// Form state for each input kind: numbers and lists are edited as text
+type Draft = string | EmailTemplate;
+
+function toDraft(definition: ConfigDefinition, value: unknown): Draft {
+  switch (definition.input) {
+    case "number":
+      return String(value ?? "");
+    case "list":
+      return Array.isArray(value) ? value.join(", ") : "";
+    case "template":
+      return { ...(value as EmailTemplate) };
+  }
+}
+
+function fromDraft(definition: ConfigDefinition, draft: Draft): unknown {
+  switch (definition.input) {
+    case "number":
+      return (draft as string).trim() === "" ? undefined : Number(draft);
+    case "list":
+      return (draft as string)
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean);
+    case "template":
+      return draft;
+  }
+}
+
+interface ConfigFieldProps {
+  configKey: string;
+  definition: ConfigDefinition;
+  stored: SystemConfigView | undefined;
+  editable: boolean;
+}
+
+function ConfigField({ configKey, definition, stored, editable }: ConfigFieldProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const current = stored?.value ?? definition.default;
+  const [draft, setDraft] = useState<Draft>(() => toDraft(definition, current));
+  const [reason, setReason] = useState("");
+  const [historyOpen, setHistoryOpen] = useState(false);
+
+  useEffect(() => {
+    setDraft(toDraft(definition, current));
+    setReason("");
+    // Reset when the saved value changes, e.g. after another admin's edit
+  }, [JSON.stringify(current)]);
+
+  // Same schema the server checks against
+  const parsed = definition.schema.safeParse(fromDraft(definition, draft));
+  const dirty = JSON.stringify(fromDraft(definition, draft)) !== JSON.stringify(current);
+
+  const saveMutation = useMutation({
+    mutationFn: async (value: unknown) => {
+      const response = await apiRequest("POST", "/api/system/config", {
+        key: configKey,
+        value,
+        reason: reason.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/system/config"] });
+      toast({ title: `${definition.label} saved` });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not save setting",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const inputClass = "bg-slate-900 border-slate-600 text-white";
 
-export default function SuperAdminDashboard() {
   return (
-    <div className="container mx-auto py-8">
-      <h1 className="text-3xl font-bold mb-6">Super Admin Dashboard</h1>
-      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-        <Card>
-          <CardHeader>
-            <CardTitle>System Configuration</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p>Manage file upload limits, retention policies, and more.</p>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardHeader>
-            <CardTitle>User Management</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p>Suspend users, assign admin roles, and manage user data.</p>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardHeader>
-            <CardTitle>Analytics</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p>View system-wide analytics and generate reports.</p>
-          </CardContent>
-        </Card>
+    <div className="space-y-3 rounded-lg bg-slate-900/50 p-4">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <Label htmlFor={configKey} className="text-white">
+            {definition.label}
+          </Label>
+          <p className="text-sm text-gray-400">{definition.description}</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <p className="text-xs text-gray-500">
+            {stored?.updatedBy
+              ? `Changed by ${stored.updatedBy.displayName}`
+              : "Default value"}
+            {stored?.updatedBy && stored.updatedAt &&
+              ` · ${format(new Date(stored.updatedAt), "MMM dd, yyyy HH:mm")}`}
+          </p>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setHistoryOpen(true)}
+            className="text-gray-400 hover:text-white"
+          >
+            <History className="mr-1 h-4 w-4" />
+            History
+          </Button>
+        </div>
       </div>
+
+      {definition.input === "template" ? (
+        <div className="space-y-2">
+          <Input
+            id={configKey}
+            value={(draft as EmailTemplate).subject}
+            onChange={(e) => setDraft({ ...(draft as EmailTemplate), subject: e.target.value })}
+            disabled={!editable}
+            className={inputClass}
+            placeholder="Subject"
+          />
+          <Textarea
+            value={(draft as EmailTemplate).body}
+            onChange={(e) => setDraft({ ...(draft as EmailTemplate), body: e.target.value })}
+            disabled={!editable}
+            className={`${inputClass} min-h-[140px] font-mono text-sm`}
+          />
+        </div>
+      ) : (
+        <div className="flex items-center space-x-2">
+          <Input
+            id={configKey}
+            type={definition.input === "number" ? "number" : "text"}
+            value={draft as string}
+            onChange={(e) => setDraft(e.target.value)}
+            disabled={!editable}
+            className={`${inputClass} ${definition.input === "number" ? "max-w-[10rem]" : ""}`}
+            placeholder={definition.placeholder}
+          />
+          {definition.unit && <span className="text-sm text-gray-400">{definition.unit}</span>}
+        </div>
+      )}
+
+      {!parsed.success && (
+        <p className="text-sm text-red-400">{parsed.error.errors[0]?.message}</p>
+      )}
+
+      {editable && (
+        <div className="flex items-center justify-end space-x-2">
+          {dirty && (
+            <Input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reason for the change (optional)"
+              className={`${inputClass} max-w-sm`}
+            />
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setDraft(toDraft(definition, definition.default))}
+            className="text-gray-400 hover:text-white"
+          >
+            <RotateCcw className="mr-1 h-4 w-4" />
+            Default
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => parsed.success && saveMutation.mutate(parsed.data)}
+            disabled={!dirty || !parsed.success || saveMutation.isPending}
+            className="bg-cyan-500 hover:bg-cyan-600"
+          >
+            {saveMutation.isPending && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      )}
+
+      <ConfigHistoryDialog
+        configKey={configKey}
+        definition={definition}
+        open={historyOpen}
+        editable={editable}
+        onOpenChange={setHistoryOpen}
+      />
     </div>
   );
 }
+
+export default function SuperAdminDashboard() {
+  const { user } = useAuth();
+  const role = user?.role ?? "";
+
+  const { data: configs = [], isLoading } = useQuery<SystemConfigView[]>({
+    queryKey: ["/api/system/config"],
+  });
+  const storedByKey = new Map(configs.map((config) => [config.key, config]));
+
+  return (
+    <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 min-h-screen bg-slate-900">
+      <div className="mb-8">
+        <h2 className="text-3xl font-bold text-white mb-2">Super Admin Dashboard</h2>
+        <p className="text-gray-400">User accounts and system-wide settings for uploads, the queue and notifications.</p>
+      </div>
+
+      <div className="mb-8 space-y-8">
+        <UserManagement />
+        <RoleInvitations />
+      </div>
+
+      <Card className="bg-slate-800 border-slate-700">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center">
+            <Settings className="mr-2 h-5 w-5" />
+            System Configuration
+          </CardTitle>
+          <CardDescription>
+            Changes apply immediately. Email templates can use{" "}
+            {templateVariables.map((name) => `{{${name}}}`).join(", ")}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-48 animate-pulse rounded-lg bg-slate-700"></div>
+          ) : (
+            <Tabs defaultValue={categories[0]}>
+              <TabsList className="bg-slate-900">
+                {categories.map((category) => (
+                  <TabsTrigger key={category} value={category}>
+                    {category}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+              {categories.map((category) => (
+                <TabsContent key={category} value={category} className="mt-4 space-y-4">
+                  {definitions
+                    .filter(([, definition]) => definition.category === category)
+                    .map(([key, definition]) => (
+                      <ConfigField
+                        key={key}
+                        configKey={key}
+                        definition={definition}
+                        stored={storedByKey.get(key)}
+                        editable={canEditConfig(definition, role)}
+                      />
+                    ))}
+                </TabsContent>
+              ))}
+            </Tabs>
+          )}
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
@@ -0,0 +1,161 @@
+/** @format */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  finishBatch,
+  getBatchFinishProblems,
+  getBatchStartProblems,
+  startBatch,
+} from "./batches";
+import { MemStorage, type Batch } from "./storage";
+import { BatchStatus, OrderStatus } from "../shared/schema";
+
+const current = vi.hoisted(() => ({ storage: undefined as any }));
+vi.mock("./storage", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./storage")>()),
+  get storage() {
+    return current.storage;
+  },
+}));
+
+const HOUR_MS = 60 * 60 * 1000;
+
+let storage: MemStorage;
+let batch: Batch;
+
+beforeEach(async () => {
+  storage = current.storage = new MemStorage();
+  batch = await storage.createBatch({
+    name: "Plate",
+    createdById: 1,
+    status: BatchStatus.APPROVED,
+  });
+});
+
+const member = (status: string) =>
+  storage.createOrder({
+    userId: 1,
+    projectName: "Member",
+    status,
+    batchId: batch.id,
+  });
+
+describe("getBatchStartProblems", () => {
+  it("needs every order approved", async () => {
+    const approved = await member(OrderStatus.APPROVED);
+    const submitted = await member(OrderStatus.SUBMITTED);
+
+    expect(getBatchStartProblems([])).toEqual(["The batch has no orders"]);
+    expect(getBatchStartProblems([approved])).toEqual([]);
+    expect(getBatchStartProblems([approved, submitted])).toEqual([
+      `${submitted.orderId} is submitted, not approved`,
+    ]);
+  });
+});
+
+describe("getBatchFinishProblems", () => {
+  it("only accepts one failure report per printing member", async () => {
+    const printing = await member(OrderStatus.STARTED);
+    const approved = await member(OrderStatus.APPROVED);
+    const failure = (orderId: number) => ({ orderId, failureReason: "Warped" });
+
+    expect(getBatchFinishProblems([printing], [failure(printing.id)])).toEqual(
+      []
+    );
+    expect(
+      getBatchFinishProblems(
+        [printing, approved],
+        [
+          failure(printing.id),
+          failure(printing.id),
+          failure(approved.id),
+          failure(999),
+        ]
+      )
+    ).toEqual([
+      `${printing.orderId} is reported as failed more than once`,
+      `${approved.orderId} is approved, not printing`,
+      "Order 999 is not in this batch",
+    ]);
+  });
+});
+
+describe("startBatch", () => {
+  it("starts every order together with the batch's projected finish", async () => {
+    const orders = [
+      await member(OrderStatus.APPROVED),
+      await member(OrderStatus.APPROVED),
+    ];
+
+    const started = await startBatch(batch, orders);
+
+    expect(started.batch.status).toBe(BatchStatus.STARTED);
+    const startedAt = started.batch.startedAt!;
+    for (const order of started.orders) {
+      expect(order.status).toBe(OrderStatus.STARTED);
+      expect(order.startedAt).toEqual(startedAt);
+      // Two orders without files at the default 3 hours each
+      expect(order.estimatedCompletionTime).toEqual(
+        new Date(startedAt.getTime() + 6 * HOUR_MS)
+      );
+    }
+  });
+
+  it("prefers the batch's own estimate", async () => {
+    const estimated = await storage.updateBatch(batch.id, {
+      estimatedDuration: 2,
+    });
+    const started = await startBatch(estimated, [
+      await member(OrderStatus.APPROVED),
+    ]);
+    const [order] = started.orders;
+    expect(order.estimatedCompletionTime!.getTime()).toBe(
+      order.startedAt!.getTime() + 2 * HOUR_MS
+    );
+  });
+});
+
+describe("finishBatch", () => {
+  it("finishes the batch, failing the reported orders out of it", async () => {
+    const good = await member(OrderStatus.STARTED);
+    const bad = await member(OrderStatus.STARTED);
+    const spool = await storage.createFilamentSpool({
+      material: "PLA",
+      color: "White",
+      initialGrams: 1000,
+    });
+
+    const finished = await finishBatch(
+      batch,
+      [good, bad],
+      [{ orderId: bad.id, failureReason: "Warped", filamentUsedGrams: 30 }]
+    );
+
+    expect(finished.batch.status).toBe(BatchStatus.FINISHED);
+    const [goodResult, badResult] = finished.results;
+    expect(goodResult.order).toMatchObject({
+      status: OrderStatus.FINISHED,
+      batchId: batch.id,
+    });
+    expect(goodResult.consumption).toBeNull();
+    expect(badResult.order).toMatchObject({
+      status: OrderStatus.FAILED,
+      failureReason: "Warped",
+      batchId: null,
+      spoolId: spool.id,
+      filamentUsedGrams: 30,
+    });
+    expect((await storage.getFilamentSpool(spool.id))?.remainingGrams).toBe(
+      970
+    );
+  });
+
+  it("leaves members that weren't printing alone", async () => {
+    const approved = await member(OrderStatus.APPROVED);
+    const finished = await finishBatch(batch, [approved], []);
+    expect(finished.results).toEqual([]);
+    expect((await storage.getOrder(approved.id))?.status).toBe(
+      OrderStatus.APPROVED
+    );
+  });
+});
@@ -0,0 +1,161 @@
+/** @format */
+
+import { storage, type Batch, type Order } from "./storage";
+import { consumeOrderFilament, type FilamentConsumption } from "./filament";
+import { getDefaultPrintHours, getOrderPrintHours } from "./queue";
+import { getConfigValue } from "./systemConfig";
+import { BatchStatus, OrderStatus } from "../shared/schema";
+import type { BatchOrderFailure } from "../shared/batchStatus";
+import {
+  comparePriority,
+  computeOrderPriorities,
+  type OrderPriority,
+} from "../shared/priority";
+import { suggestBatches, type BatchSuggestion } from "../shared/batchSuggestions";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface BatchOrderResult {
+  order: Order;
+  consumption: FilamentConsumption | null;
+}
+
+// Orders that stop a batch from starting, as messages for the admin
+export function getBatchStartProblems(orders: Order[]) {
+  if (orders.length === 0) return ["The batch has no orders"];
+  return orders
+    .filter((order) => order.status !== OrderStatus.APPROVED)
+    .map((order) => `${order.orderId} is ${order.status}, not approved`);
+}
+
+// Failure reports that don't name a printing order of the batch, as
+// messages for the admin. finishBatch expects these to be checked first.
+export function getBatchFinishProblems(
+  orders: Order[],
+  failures: BatchOrderFailure[]
+) {
+  const reported = new Set<number>();
+  const problems: string[] = [];
+  for (const failure of failures) {
+    const order = orders.find((member) => member.id === failure.orderId);
+    if (!order) {
+      problems.push(`Order ${failure.orderId} is not in this batch`);
+    } else if (order.status !== OrderStatus.STARTED) {
+      problems.push(`${order.orderId} is ${order.status}, not printing`);
+    } else if (reported.has(order.id)) {
+      problems.push(`${order.orderId} is reported as failed more than once`);
+    }
+    reported.add(failure.orderId);
+  }
+  return problems;
+}
+
+// Starts every order in the batch, sharing the batch's start time and the
+// completion time projected for the whole batch
+export async function startBatch(batch: Batch, orders: Order[]) {
+  const startedAt = new Date();
+  // Same estimate the queue projects with
+  const defaultHours = await getDefaultPrintHours();
+  const hours =
+    batch.estimatedDuration ||
+    orders.reduce(
+      (total, order) => total + getOrderPrintHours(order, defaultHours),
+      0
+    );
+  const estimatedCompletionTime = new Date(startedAt.getTime() + hours * HOUR_MS);
+
+  const updatedBatch = await storage.updateBatch(batch.id, {
+    status: BatchStatus.STARTED,
+    startedAt,
+  });
+  const updatedOrders: Order[] = [];
+  for (const order of orders) {
+    updatedOrders.push(
+      await storage.updateOrder(order.id, {
+        status: OrderStatus.STARTED,
+        startedAt,
+        estimatedCompletionTime,
+      })
+    );
+  }
+  return { batch: updatedBatch, orders: updatedOrders };
+}
+
+// Finishes every printing order in the batch except the listed failures,
+// which fail and leave the batch so they can be requeued on their own. Both
+// outcomes deduct filament, as for single orders.
+export async function finishBatch(
+  batch: Batch,
+  orders: Order[],
+  failures: BatchOrderFailure[]
+) {
+  const completedAt = new Date();
+  const failuresByOrder = new Map(
+    failures.map((failure) => [failure.orderId, failure])
+  );
+
+  const updatedBatch = await storage.updateBatch(batch.id, {
+    status: BatchStatus.FINISHED,
+    completedAt,
+  });
+  const results: BatchOrderResult[] = [];
+  for (const order of orders) {
+    if (order.status !== OrderStatus.STARTED) continue;
+    const failure = failuresByOrder.get(order.id);
+    const consumption = await consumeOrderFilament(order, {
+      grams: failure?.filamentUsedGrams,
+    });
+    const updates: Partial<Order> = failure
+      ? {
+          status: OrderStatus.FAILED,
+          failureReason: failure.failureReason,
+          batchId: null,
+        }
+      : { status: OrderStatus.FINISHED, actualCompletionTime: completedAt };
+    if (consumption) {
+      updates.spoolId = consumption.spool.id;
+      updates.filamentUsedGrams =
+        (order.filamentUsedGrams || 0) + consumption.grams;
+    }
+    results.push({
+      order: await storage.updateOrder(order.id, updates),
+      consumption,
+    });
+  }
+  return { batch: updatedBatch, results };
+}
+
+export async function getBatchMaxHours() {
+  return getConfigValue("batch_max_print_hours");
+}
+
+// Proposals built from approved orders that aren't batched yet. Orders an
+// admin already put on a printer of their own are left alone. Given a
+// printer, only proposals for its plate are made.
+export async function getBatchSuggestions(
+  printerId?: number
+): Promise<BatchSuggestion[]> {
+  const [orders, printers, defaultHours, maxHours] = await Promise.all([
+    storage.getAllOrders(),
+    storage.getAllPrinters(),
+    getDefaultPrintHours(),
+    getBatchMaxHours(),
+  ]);
+  const priorities = computeOrderPriorities(orders);
+  const candidates = orders
+    .filter(
+      (order) =>
+        order.status === OrderStatus.APPROVED && !order.batchId && !order.printerId
+    )
+    .sort((a, b) =>
+      comparePriority(
+        { priority: priorities.get(a.id) as OrderPriority, submittedAt: a.submittedAt },
+        { priority: priorities.get(b.id) as OrderPriority, submittedAt: b.submittedAt }
+      )
+    );
+  return suggestBatches(candidates, printers, {
+    maxHours,
+    getOrderHours: (order) => getOrderPrintHours(order, defaultHours),
+    printer: printers.find((printer) => printer.id === printerId),
+  });
+}
@@ -0,0 +1,52 @@
+/** @format */
+
+import { createRequire } from "module";
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { drizzle as drizzlePglite } from "drizzle-orm/pglite";
+import { PGlite } from "@electric-sql/pglite";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// memory: MemStorage (default when no DATABASE_URL is set)
+// postgres: Neon/Postgres via DATABASE_URL
+// pglite: embedded in-process Postgres, in memory or in PGLITE_DATA_DIR
+export type StorageDriver = "memory" | "postgres" | "pglite";
+
+export function getStorageDriver(): StorageDriver {
+  const driver = process.env.STORAGE_DRIVER?.toLowerCase();
+  if (driver === "memory" || driver === "postgres" || driver === "pglite") {
+    return driver;
+  }
+  if (driver) {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+  }
+  return process.env.DATABASE_URL ? "postgres" : "memory";
+}
+
+export function createDatabase(driver: Exclude<StorageDriver, "memory">) {
+  if (driver === "pglite") {
+    const client = new PGlite(process.env.PGLITE_DATA_DIR);
+    return drizzlePglite({ client, schema }) as unknown as Database;
+  }
+
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL, ensure the database is provisioned");
+  }
+  neonConfig.webSocketConstructor = ws;
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  return drizzleNeon({ client: pool, schema }) as unknown as Database;
+}
+
+// Embedded databases start out empty, so apply the schema the same way
+// `npm run db:push` would. drizzle-kit's ESM bundle can't be imported
+// directly, hence the CommonJS require.
+export async function pushSchema(db: Database) {
+  const require = createRequire(import.meta.url);
+  const { pushSchema } = require("drizzle-kit/api");
+  const { apply } = await pushSchema(schema, db);
+  await apply();
+}
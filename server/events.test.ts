@@ -0,0 +1,96 @@
+/** @format */
+
+import { describe, expect, it, vi } from "vitest";
+import {
+  canReceiveEvent,
+  onAccountChange,
+  publishAccountChange,
+  publishCommentChange,
+  publishOrderChange,
+  subscribeToLiveEvents,
+  type LiveEvent,
+} from "./events";
+import type { Order, OrderComment } from "../shared/schema";
+
+const student = { userId: 1, staff: false };
+const classmate = { userId: 2, staff: false };
+const admin = { userId: 3, staff: true };
+
+describe("canReceiveEvent", () => {
+  it("keeps staff events and other students' orders from students", () => {
+    expect(canReceiveEvent(student, { kind: "everyone" })).toBe(true);
+    expect(canReceiveEvent(student, { kind: "staff" })).toBe(false);
+    expect(canReceiveEvent(admin, { kind: "staff" })).toBe(true);
+
+    const owner = { kind: "owner", userId: 1 } as const;
+    expect(canReceiveEvent(student, owner)).toBe(true);
+    expect(canReceiveEvent(classmate, owner)).toBe(false);
+    expect(canReceiveEvent(admin, owner)).toBe(true);
+  });
+
+  it("sends personal notifications to their recipient only, even over staff", () => {
+    const user = { kind: "user", userId: 1 } as const;
+    expect(canReceiveEvent(student, user)).toBe(true);
+    expect(canReceiveEvent(admin, user)).toBe(false);
+  });
+});
+
+describe("subscribeToLiveEvents", () => {
+  const listen = (subscriber: typeof student) => {
+    const events: LiveEvent["type"][] = [];
+    const unsubscribe = subscribeToLiveEvents(subscriber, (event) =>
+      events.push(event.type)
+    );
+    return { events, unsubscribe };
+  };
+
+  it("delivers an order change to its owner and staff, and a queue refresh to all", () => {
+    const streams = [student, classmate, admin].map(listen);
+    publishOrderChange({ id: 9, userId: 1 } as Order);
+    streams.forEach(({ unsubscribe }) => unsubscribe());
+
+    expect(streams.map(({ events }) => events)).toEqual([
+      ["order.updated", "queue.updated"],
+      ["queue.updated"],
+      ["order.updated", "queue.updated"],
+    ]);
+  });
+
+  it("keeps internal notes with staff", () => {
+    const streams = [student, admin].map(listen);
+    publishCommentChange(
+      { id: 9, userId: 1 } as Order,
+      { id: 4, internal: true } as OrderComment,
+      true
+    );
+    streams.forEach(({ unsubscribe }) => unsubscribe());
+
+    expect(streams.map(({ events }) => events)).toEqual([
+      [],
+      ["comment.created"],
+    ]);
+  });
+
+  it("stops delivering after unsubscribing", () => {
+    const { events, unsubscribe } = listen(student);
+    unsubscribe();
+    publishOrderChange({ id: 9, userId: 1 } as Order);
+    expect(events).toEqual([]);
+  });
+});
+
+describe("onAccountChange", () => {
+  it("fires for the changed account only", () => {
+    const listener = vi.fn();
+    const stop = onAccountChange(1, listener);
+
+    publishAccountChange(2);
+    expect(listener).not.toHaveBeenCalled();
+    publishAccountChange(1);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    stop();
+    publishAccountChange(1);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
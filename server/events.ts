@@ -0,0 +1,149 @@
+/** @format */
+
+import { EventEmitter } from "events";
+import type {
+  Batch,
+  Notification,
+  Order,
+  OrderComment,
+  SupportTicket,
+} from "../shared/schema";
+
+export type LiveEventType =
+  | "order.created"
+  | "order.updated"
+  | "batch.created"
+  | "batch.updated"
+  | "queue.updated"
+  | "comment.created"
+  | "comment.updated"
+  | "ticket.created"
+  | "ticket.updated"
+  | "notification.created";
+
+// Who may receive an event. Staff receive everything except notifications
+// addressed to someone else; students only hear about their own orders.
+export type LiveEventAudience =
+  | { kind: "everyone" }
+  | { kind: "staff" }
+  | { kind: "owner"; userId: number }
+  | { kind: "user"; userId: number };
+
+export interface LiveEvent {
+  type: LiveEventType;
+  audience: LiveEventAudience;
+  data?: unknown;
+}
+
+export interface LiveEventSubscriber {
+  userId: number;
+  staff: boolean;
+}
+
+const emitter = new EventEmitter();
+// One listener per open connection
+emitter.setMaxListeners(0);
+
+export function canReceiveEvent(
+  subscriber: LiveEventSubscriber,
+  audience: LiveEventAudience
+) {
+  switch (audience.kind) {
+    case "everyone":
+      return true;
+    case "staff":
+      return subscriber.staff;
+    case "owner":
+      return subscriber.staff || subscriber.userId === audience.userId;
+    case "user":
+      return subscriber.userId === audience.userId;
+  }
+}
+
+export function publishLiveEvent(event: LiveEvent) {
+  emitter.emit("event", event);
+}
+
+// Calls `listener` with every event the subscriber may see. Returns a
+// function that unsubscribes.
+export function subscribeToLiveEvents(
+  subscriber: LiveEventSubscriber,
+  listener: (event: LiveEvent) => void
+) {
+  const handler = (event: LiveEvent) => {
+    if (canReceiveEvent(subscriber, event.audience)) listener(event);
+  };
+  emitter.on("event", handler);
+  return () => {
+    emitter.off("event", handler);
+  };
+}
+
+// A subscriber's staff flag is fixed when its stream opens, so streams close
+// when the account's role changes or it is suspended; the client reconnects
+// and is subscribed again with its current role.
+export function publishAccountChange(userId: number) {
+  emitter.emit("account", userId);
+}
+
+export function onAccountChange(userId: number, listener: () => void) {
+  const handler = (changedId: number) => {
+    if (changedId === userId) listener();
+  };
+  emitter.on("account", handler);
+  return () => {
+    emitter.off("account", handler);
+  };
+}
+
+// Any order change can move other orders in the queue, so everyone is told
+// to refresh their positions; the queue itself is never broadcast.
+export function publishOrderChange(order: Order, created = false) {
+  publishLiveEvent({
+    type: created ? "order.created" : "order.updated",
+    audience: { kind: "owner", userId: order.userId },
+    data: order,
+  });
+  publishLiveEvent({ type: "queue.updated", audience: { kind: "everyone" } });
+}
+
+export function publishBatchChange(batch: Batch, created = false) {
+  publishLiveEvent({
+    type: created ? "batch.created" : "batch.updated",
+    audience: { kind: "staff" },
+    data: batch,
+  });
+  publishLiveEvent({ type: "queue.updated", audience: { kind: "everyone" } });
+}
+
+// Internal notes stay with staff. Clients refetch the thread, so only the
+// ids are sent and an edited or deleted comment counts as an update.
+export function publishCommentChange(
+  order: Order,
+  comment: OrderComment,
+  created = false
+) {
+  publishLiveEvent({
+    type: created ? "comment.created" : "comment.updated",
+    audience: comment.internal
+      ? { kind: "staff" }
+      : { kind: "owner", userId: order.userId },
+    data: { id: comment.id, orderId: order.id },
+  });
+}
+
+export function publishTicketChange(ticket: SupportTicket, created = false) {
+  publishLiveEvent({
+    type: created ? "ticket.created" : "ticket.updated",
+    audience: { kind: "owner", userId: ticket.userId },
+    data: { id: ticket.id },
+  });
+}
+
+export function publishNotification(notification: Notification) {
+  publishLiveEvent({
+    type: "notification.created",
+    audience: { kind: "user", userId: notification.userId },
+    data: notification,
+  });
+}
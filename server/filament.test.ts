@@ -0,0 +1,129 @@
+/** @format */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { consumeOrderFilament } from "./filament";
+import { MemStorage, type Order } from "./storage";
+import { OrderStatus, type OrderFile } from "../shared/schema";
+
+const current = vi.hoisted(() => ({ storage: undefined as any }));
+vi.mock("./storage", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./storage")>()),
+  get storage() {
+    return current.storage;
+  },
+}));
+
+let storage: MemStorage;
+
+beforeEach(() => {
+  storage = current.storage = new MemStorage();
+});
+
+const estimatedFile = (grams: number) =>
+  ({
+    name: "part.stl",
+    size: 1,
+    type: "model/stl",
+    storageKey: "1/part.stl",
+    checksum: "",
+    uploadedAt: new Date().toISOString(),
+    analysis: {
+      kind: "stl",
+      triangleCount: 12,
+      volumeCm3: 8,
+      surfaceAreaCm2: 24,
+      boundingBox: {
+        min: [0, 0, 0],
+        max: [20, 20, 20],
+        size: { x: 20, y: 20, z: 20 },
+      },
+      fitsBuildVolume: true,
+      estimatedGrams: grams,
+      estimatedHours: 1,
+    },
+  }) as OrderFile;
+
+async function finishedOrder(updates: Partial<Order> = {}) {
+  const order = await storage.createOrder({
+    userId: 1,
+    projectName: "Bracket",
+    status: OrderStatus.FINISHED,
+    material: "PLA",
+    color: "White",
+  });
+  return storage.updateOrder(order.id, {
+    files: [estimatedFile(40)],
+    ...updates,
+  });
+}
+
+describe("consumeOrderFilament", () => {
+  it("deducts the file estimate from the fullest matching spool", async () => {
+    await storage.createFilamentSpool({
+      material: "PLA",
+      color: "White",
+      initialGrams: 1000,
+      remainingGrams: 200,
+    });
+    const fullest = await storage.createFilamentSpool({
+      material: "PLA",
+      color: "White",
+      initialGrams: 1000,
+    });
+
+    const consumed = await consumeOrderFilament(await finishedOrder());
+    expect(consumed).toMatchObject({
+      spool: { id: fullest.id, remainingGrams: 960 },
+      grams: 40,
+      lowStock: false,
+    });
+  });
+
+  it("prefers the grams and spool staff entered", async () => {
+    const chosen = await storage.createFilamentSpool({
+      material: "PETG",
+      color: "Blue",
+      initialGrams: 1000,
+      remainingGrams: 300,
+    });
+
+    const consumed = await consumeOrderFilament(await finishedOrder(), {
+      grams: 75.25,
+      spoolId: chosen.id,
+    });
+    expect(consumed).toMatchObject({ grams: 75.25, lowStock: true });
+    expect((await storage.getFilamentSpool(chosen.id))?.remainingGrams).toBe(
+      224.8
+    );
+  });
+
+  it("never takes a spool below zero", async () => {
+    const spool = await storage.createFilamentSpool({
+      material: "PLA",
+      color: "White",
+      initialGrams: 1000,
+      remainingGrams: 10,
+    });
+
+    await consumeOrderFilament(await finishedOrder());
+    expect((await storage.getFilamentSpool(spool.id))?.remainingGrams).toBe(0);
+  });
+
+  it("leaves inventory alone without an estimate or a matching spool", async () => {
+    const spool = await storage.createFilamentSpool({
+      material: "ABS",
+      color: "White",
+      initialGrams: 1000,
+    });
+
+    expect(await consumeOrderFilament(await finishedOrder())).toBeNull();
+    expect(
+      await consumeOrderFilament(await finishedOrder({ files: [] }), {
+        spoolId: spool.id,
+      })
+    ).toBeNull();
+    expect((await storage.getFilamentSpool(spool.id))?.remainingGrams).toBe(
+      1000
+    );
+  });
+});
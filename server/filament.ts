@@ -0,0 +1,43 @@
+/** @format */
+
+import { storage, type FilamentSpool, type Order } from "./storage";
+import { getConfigValue } from "./systemConfig";
+import { getOrderPrintEstimate } from "../shared/printEstimates";
+import { getMatchingSpools, isLowStock } from "../shared/filament";
+
+export interface FilamentConsumption {
+  spool: FilamentSpool;
+  grams: number;
+  lowStock: boolean;
+}
+
+export async function getLowStockThreshold() {
+  return getConfigValue("filament_low_stock_grams");
+}
+
+// Deducts a finished or failed print from inventory. Uses the entered grams
+// when given, otherwise the file estimate, and the given spool or else the
+// fullest matching one. Returns null when there is nothing to deduct or no
+// spool to take it from, which leaves inventory untouched.
+export async function consumeOrderFilament(
+  order: Order,
+  options: { grams?: number; spoolId?: number } = {}
+): Promise<FilamentConsumption | null> {
+  const grams =
+    options.grams ?? getOrderPrintEstimate(order.files).estimatedGrams;
+  if (!grams) return null;
+
+  const spool = options.spoolId
+    ? await storage.getFilamentSpool(options.spoolId)
+    : getMatchingSpools(order, await storage.getAllFilamentSpools())[0];
+  if (!spool) return null;
+
+  const updated = await storage.updateFilamentSpool(spool.id, {
+    remainingGrams: Math.max(0, Math.round((spool.remainingGrams - grams) * 10) / 10),
+  });
+  return {
+    spool: updated,
+    grams,
+    lowStock: isLowStock(updated, await getLowStockThreshold()),
+  };
+}
@@ -0,0 +1,87 @@
+/** @format */
+
+import path from "path";
+import { Worker } from "worker_threads";
+import { analyzeGcode } from "../shared/gcode";
+import { type FileAnalysis } from "../shared/schema";
+import { analyzeStl, parseStl } from "../shared/stl";
+
+// Works out the estimates the browser showed on the submit form. A file that
+// can't be parsed is still accepted and simply has no analysis. This is CPU
+// bound on large meshes and long G-code files, so the server only calls it
+// through analyzeInWorker.
+export function analyzeFile(
+  name: string,
+  data: Uint8Array
+): FileAnalysis | undefined {
+  try {
+    const extension = path.extname(name).toLowerCase();
+    if (extension === ".stl") {
+      const buffer = data.buffer.slice(
+        data.byteOffset,
+        data.byteOffset + data.byteLength
+      ) as ArrayBuffer;
+      return analyzeStl(parseStl(buffer));
+    }
+    if (extension === ".gcode") {
+      return analyzeGcode(new TextDecoder().decode(data));
+    }
+  } catch {
+    return undefined;
+  }
+  return undefined;
+}
+
+let worker: Worker | undefined;
+let nextJobId = 1;
+const jobs = new Map<number, (analysis: FileAnalysis | undefined) => void>();
+
+function getWorker() {
+  if (worker) return worker;
+
+  // The server runs under tsx, which worker threads don't inherit, so the
+  // worker registers it before loading its TypeScript entry point
+  const entry = new URL("./fileAnalysisWorker.ts", import.meta.url).href;
+  const started = new Worker(
+    `import("tsx/esm/api").then(({ register }) => {
+      register();
+      return import(${JSON.stringify(entry)});
+    });`,
+    { eval: true }
+  );
+  // Idle between uploads; don't keep the process alive for it
+  started.unref();
+  started.on(
+    "message",
+    ({ id, analysis }: { id: number; analysis?: FileAnalysis }) => {
+      jobs.get(id)?.(analysis);
+      jobs.delete(id);
+    }
+  );
+  started.on("error", (error) =>
+    console.error("File analysis worker failed:", error)
+  );
+  // Files still waiting when the worker dies go without an analysis; the
+  // next upload starts a fresh worker
+  started.on("exit", () => {
+    if (worker === started) worker = undefined;
+    jobs.forEach((resolve) => resolve(undefined));
+    jobs.clear();
+  });
+
+  worker = started;
+  return started;
+}
+
+// Runs analyzeFile on a worker thread so parsing a large upload doesn't hold
+// up other requests
+export function analyzeInWorker(
+  name: string,
+  data: Buffer
+): Promise<FileAnalysis | undefined> {
+  const id = nextJobId++;
+  return new Promise((resolve) => {
+    jobs.set(id, resolve);
+    getWorker().postMessage({ id, name, data: new Uint8Array(data) });
+  });
+}
@@ -0,0 +1,12 @@
+/** @format */
+
+import { parentPort } from "worker_threads";
+import { analyzeFile } from "./fileAnalysis";
+
+// Entry point of the worker started by analyzeInWorker
+parentPort!.on(
+  "message",
+  ({ id, name, data }: { id: number; name: string; data: Uint8Array }) => {
+    parentPort!.postMessage({ id, analysis: analyzeFile(name, data) });
+  }
+);
@@ -0,0 +1,121 @@
+/** @format */
+
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { planFileRetention, runFileRetention } from "./fileRetention";
+import { storage, type User } from "./storage";
+import { OrderStatus, type OrderFile } from "../shared/schema";
+
+vi.mock("./blobStore", () => ({
+  blobStore: { delete: vi.fn(async () => undefined) },
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// The defaults: files are kept 90 days, with a warning 7 days before
+const now = new Date("2026-06-01T00:00:00.000Z");
+const daysAgo = (days: number) =>
+  new Date(now.getTime() - days * DAY_MS).toISOString();
+
+let student: User;
+
+beforeAll(async () => {
+  student = await storage.createUser({
+    email: "keeper@smail.iitm.ac.in",
+    displayName: "Keeper",
+  });
+});
+
+async function orderWithFile(status: string, file: Partial<OrderFile>) {
+  const order = await storage.createOrder({
+    userId: student.id,
+    projectName: "Retained",
+    status,
+  });
+  return storage.updateOrder(order.id, {
+    files: [
+      {
+        name: "part.stl",
+        size: 1,
+        type: "model/stl",
+        storageKey: `${student.id}/${order.id}.stl`,
+        checksum: "",
+        uploadedAt: daysAgo(0),
+        ...file,
+      },
+    ],
+  });
+}
+
+const actionsFor = async (orderId: number, at = now) =>
+  (await planFileRetention(at)).filter((action) => action.orderId === orderId);
+
+describe("planFileRetention", () => {
+  it("leaves files alone until the warning window", async () => {
+    const order = await orderWithFile(OrderStatus.FINISHED, {
+      uploadedAt: daysAgo(80),
+    });
+    expect(await actionsFor(order.id)).toEqual([]);
+  });
+
+  it("warns before purging, then purges once the warning has run", async () => {
+    const order = await orderWithFile(OrderStatus.FINISHED, {
+      uploadedAt: daysAgo(83),
+    });
+
+    const [warning] = await actionsFor(order.id);
+    expect(warning).toMatchObject({
+      action: "warn",
+      fileIndex: 0,
+      expiresAt: daysAgo(-7),
+    });
+
+    await runFileRetention({ now });
+    const [file] = (await storage.getOrder(order.id))!.files as OrderFile[];
+    expect(file).toMatchObject({
+      warnedAt: now.toISOString(),
+      expiresAt: daysAgo(-7),
+    });
+
+    const almost = new Date(now.getTime() + 6 * DAY_MS);
+    expect(await actionsFor(order.id, almost)).toEqual([]);
+
+    const later = new Date(now.getTime() + 7 * DAY_MS);
+    expect(await actionsFor(order.id, later)).toMatchObject([
+      { action: "purge", expiresAt: later.toISOString() },
+    ]);
+  });
+
+  it("pushes the purge back when the warning comes late", async () => {
+    const order = await orderWithFile(OrderStatus.CANCELLED, {
+      uploadedAt: daysAgo(200),
+    });
+
+    expect(await actionsFor(order.id)).toMatchObject([
+      { action: "warn", expiresAt: daysAgo(-7) },
+    ]);
+
+    const warned = await orderWithFile(OrderStatus.CANCELLED, {
+      uploadedAt: daysAgo(200),
+      warnedAt: daysAgo(3),
+      expiresAt: daysAgo(-4),
+    });
+    expect(await actionsFor(warned.id)).toEqual([]);
+  });
+
+  it("skips purged files and the files of active and failed orders", async () => {
+    const purged = await orderWithFile(OrderStatus.FINISHED, {
+      uploadedAt: daysAgo(200),
+      purgedAt: daysAgo(100),
+    });
+    expect(await actionsFor(purged.id)).toEqual([]);
+
+    for (const status of [
+      OrderStatus.SUBMITTED,
+      OrderStatus.APPROVED,
+      OrderStatus.STARTED,
+      OrderStatus.FAILED,
+    ]) {
+      const order = await orderWithFile(status, { uploadedAt: daysAgo(200) });
+      expect(await actionsFor(order.id)).toEqual([]);
+    }
+  });
+});
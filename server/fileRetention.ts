@@ -0,0 +1,200 @@
+/** @format */
+
+import { blobStore } from "./blobStore";
+import { storage } from "./storage";
+import { getConfigValue } from "./systemConfig";
+import { OrderStatus, type OrderFile } from "../shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const JOB_INTERVAL_MS = 6 * 60 * 60 * 1000;
+// Uploads no order claimed within this window are treated as abandoned
+const PENDING_UPLOAD_TTL_MS = DAY_MS;
+
+// Files of orders still moving through the queue are never purged. A failed
+// print can be requeued (see shared/orderStatus.ts) and needs its files again.
+const activeStatuses: string[] = [
+  OrderStatus.SUBMITTED,
+  OrderStatus.APPROVED,
+  OrderStatus.STARTED,
+  OrderStatus.FAILED,
+];
+
+export interface RetentionAction {
+  action: "warn" | "purge";
+  orderId: number;
+  orderCode: string;
+  fileIndex: number;
+  fileName: string;
+  storageKey: string;
+  uploadedAt: string;
+  expiresAt: string;
+}
+
+async function getRetentionSettings() {
+  return {
+    retentionDays: await getConfigValue("file_retention_days"),
+    warningDays: await getConfigValue("file_expiry_warning_days"),
+  };
+}
+
+export async function planFileRetention(
+  now = new Date()
+): Promise<RetentionAction[]> {
+  const { retentionDays, warningDays } = await getRetentionSettings();
+  const orders = await storage.getAllOrders();
+  const actions: RetentionAction[] = [];
+
+  for (const order of orders) {
+    if (activeStatuses.includes(order.status)) continue;
+
+    const files = (order.files as OrderFile[] | null) || [];
+    files.forEach((file, fileIndex) => {
+      if (file.purgedAt || !file.uploadedAt) return;
+
+      const retentionEnds = Date.parse(file.uploadedAt) + retentionDays * DAY_MS;
+      const base = {
+        orderId: order.id,
+        orderCode: order.orderId,
+        fileIndex,
+        fileName: file.name,
+        storageKey: file.storageKey,
+        uploadedAt: file.uploadedAt,
+      };
+
+      // Never purge before the student has seen the warning for the full
+      // warning period; a late warning pushes the purge date back instead.
+      if (!file.warnedAt) {
+        if (retentionEnds - now.getTime() <= warningDays * DAY_MS) {
+          const expiresAt = Math.max(
+            retentionEnds,
+            now.getTime() + warningDays * DAY_MS
+          );
+          actions.push({
+            ...base,
+            action: "warn",
+            expiresAt: new Date(expiresAt).toISOString(),
+          });
+        }
+        return;
+      }
+
+      const expiresAt = new Date(
+        Math.max(
+          retentionEnds,
+          Date.parse(file.warnedAt) + warningDays * DAY_MS
+        )
+      );
+      if (expiresAt <= now) {
+        actions.push({
+          ...base,
+          action: "purge",
+          expiresAt: expiresAt.toISOString(),
+        });
+      } else if (file.expiresAt !== expiresAt.toISOString()) {
+        // The retention settings changed since the warning was shown
+        actions.push({
+          ...base,
+          action: "warn",
+          expiresAt: expiresAt.toISOString(),
+        });
+      }
+    });
+  }
+
+  return actions;
+}
+
+// Marks files entering the warning window as expiring, deletes the blobs of
+// expired ones and records a files_purged audit entry per order.
+export async function runFileRetention(
+  options: { dryRun?: boolean; now?: Date } = {}
+): Promise<RetentionAction[]> {
+  const now = options.now ?? new Date();
+  const actions = await planFileRetention(now);
+  if (options.dryRun || actions.length === 0) return actions;
+
+  const byOrder = new Map<number, RetentionAction[]>();
+  actions.forEach((action) => {
+    byOrder.set(action.orderId, [...(byOrder.get(action.orderId) || []), action]);
+  });
+
+  for (const [orderId, orderActions] of Array.from(byOrder)) {
+    const order = await storage.getOrder(orderId);
+    if (!order) continue;
+
+    const files = [...((order.files as OrderFile[] | null) || [])];
+    const purged: RetentionAction[] = [];
+
+    for (const action of orderActions) {
+      const file = files[action.fileIndex];
+      if (!file) continue;
+
+      if (action.action === "purge") {
+        await blobStore.delete(file.storageKey);
+        files[action.fileIndex] = {
+          ...file,
+          expiresAt: action.expiresAt,
+          purgedAt: now.toISOString(),
+        };
+        purged.push(action);
+      } else {
+        files[action.fileIndex] = {
+          ...file,
+          expiresAt: action.expiresAt,
+          warnedAt: file.warnedAt ?? now.toISOString(),
+        };
+      }
+    }
+
+    await storage.updateOrder(orderId, { files });
+
+    if (purged.length > 0) {
+      await storage.createAuditLog({
+        userId: null,
+        action: "files_purged",
+        entityType: "order",
+        entityId: orderId.toString(),
+        details: {
+          orderId: order.orderId,
+          files: purged.map((action) => ({
+            name: action.fileName,
+            storageKey: action.storageKey,
+            uploadedAt: action.uploadedAt,
+          })),
+        },
+        reason: "File retention period elapsed",
+      });
+    }
+  }
+
+  return actions;
+}
+
+// Deletes the blobs of uploads that were never attached to an order, e.g.
+// when the student closed the submit form after uploading.
+export async function sweepPendingUploads(now = new Date()) {
+  const stale = await storage.getPendingUploads({
+    createdBefore: new Date(now.getTime() - PENDING_UPLOAD_TTL_MS),
+  });
+  // Deleting the record first means an order submitted meanwhile either
+  // claims the upload or finds it gone, never a record without its blob
+  const removed = await storage.deletePendingUploads(
+    stale.map((upload) => upload.storageKey)
+  );
+  for (const upload of removed) {
+    await blobStore.delete(upload.storageKey);
+  }
+  return removed.length;
+}
+
+export function startFileRetentionJob(intervalMs = JOB_INTERVAL_MS) {
+  const run = () =>
+    Promise.all([runFileRetention(), sweepPendingUploads()]).catch((error) =>
+      console.error("File retention job failed:", error)
+    );
+
+  run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,208 @@
+/** @format */
+
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  claimPendingUploads,
+  releasePendingUploads,
+  resolveOrderFiles,
+  storePendingUpload,
+} from "./files";
+import { analyzeFile } from "./fileAnalysis";
+import { storage, type User } from "./storage";
+import { type StlAnalysis } from "../shared/schema";
+
+// Keep uploads in memory instead of writing to ./uploads
+vi.mock("./blobStore", () => {
+  const blobs = new Map<string, Buffer>();
+  return {
+    blobStore: {
+      put: async (key: string, data: Buffer) => void blobs.set(key, data),
+      get: async (key: string) => blobs.get(key),
+      exists: async (key: string) => blobs.has(key),
+      delete: async (key: string) => void blobs.delete(key),
+    },
+  };
+});
+
+// An ASCII STL of a `size` mm cube, two facets per face
+function cubeStl(size: number) {
+  const corners = [0, 1, 2, 3, 4, 5, 6, 7].map((i) => [
+    (i & 1) * size,
+    ((i >> 1) & 1) * size,
+    ((i >> 2) & 1) * size,
+  ]);
+  const faces = [
+    [0, 2, 3, 1],
+    [4, 5, 7, 6],
+    [0, 1, 5, 4],
+    [2, 6, 7, 3],
+    [0, 4, 6, 2],
+    [1, 3, 7, 5],
+  ];
+  const facets = faces.flatMap(([a, b, c, d]) => [
+    [a, b, c],
+    [a, c, d],
+  ]);
+  const body = facets
+    .map(
+      (facet) =>
+        `facet normal 0 0 0\nouter loop\n${facet
+          .map((i) => `vertex ${corners[i].join(" ")}`)
+          .join("\n")}\nendloop\nendfacet`
+    )
+    .join("\n");
+  return Buffer.from(`solid cube\n${body}\nendsolid cube\n`);
+}
+
+const upload = (name: string, buffer: Buffer) => ({
+  originalname: name,
+  mimetype: "application/octet-stream",
+  buffer,
+});
+
+let student: User;
+let other: User;
+
+beforeAll(async () => {
+  student = await storage.createUser({
+    email: "maker@smail.iitm.ac.in",
+    displayName: "Maker",
+  });
+  other = await storage.createUser({
+    email: "other@smail.iitm.ac.in",
+    displayName: "Other",
+  });
+});
+
+describe("analyzeFile", () => {
+  it("measures STL meshes", () => {
+    const analysis = analyzeFile("cube.STL", cubeStl(20)) as StlAnalysis;
+    expect(analysis.kind).toBe("stl");
+    expect(analysis.triangleCount).toBe(12);
+    expect(analysis.volumeCm3).toBe(8);
+    expect(analysis.boundingBox.size).toEqual({ x: 20, y: 20, z: 20 });
+  });
+
+  it("reads G-code slicer comments", () => {
+    const gcode = Buffer.from(";FLAVOR:Marlin\n;TIME:5400\nG1 X10 Y10 E5\n");
+    expect(analyzeFile("part.gcode", gcode)).toMatchObject({
+      kind: "gcode",
+      slicer: "cura",
+      estimatedHours: 1.5,
+    });
+  });
+
+  it("leaves unreadable and unknown files without an analysis", () => {
+    expect(
+      analyzeFile("broken.stl", Buffer.from("solid nope"))
+    ).toBeUndefined();
+    expect(analyzeFile("photo.jpg", cubeStl(20))).toBeUndefined();
+  });
+});
+
+describe("storePendingUpload", () => {
+  it("analyses the file on a worker thread and keeps the result", async () => {
+    const stored = await storePendingUpload(
+      student.id,
+      upload("cube.stl", cubeStl(20))
+    );
+
+    const [pending] = await storage.getPendingUploads({
+      storageKeys: [stored.storageKey],
+    });
+    expect(pending.userId).toBe(student.id);
+    expect(pending.analysis).toMatchObject({ kind: "stl", volumeCm3: 8 });
+  }, 30000);
+});
+
+describe("resolveOrderFiles", () => {
+  const pendingStl = async (userId: number) => {
+    const stored = await storePendingUpload(
+      userId,
+      upload("cube.stl", cubeStl(20))
+    );
+    return stored.storageKey;
+  };
+
+  it("prices the stored analysis for the order's material", async () => {
+    const storageKey = await pendingStl(student.id);
+
+    const pla = await resolveOrderFiles(student.id, [{ storageKey }], "PLA");
+    const abs = await resolveOrderFiles(student.id, [{ storageKey }], "ABS");
+    if ("error" in pla || "error" in abs) throw new Error("not resolved");
+
+    const [plaFile] = pla.files;
+    expect(plaFile.name).toBe("cube.stl");
+    expect(plaFile.analysis).toMatchObject({ kind: "stl", volumeCm3: 8 });
+    expect(abs.files[0].analysis!.estimatedGrams).toBeLessThan(
+      plaFile.analysis!.estimatedGrams
+    );
+  }, 30000);
+
+  it("only accepts the user's own pending uploads, once each", async () => {
+    const storageKey = await pendingStl(other.id);
+    const mine = await pendingStl(student.id);
+
+    expect(
+      await resolveOrderFiles(student.id, [{ storageKey, name: "theirs.stl" }])
+    ).toEqual({
+      error:
+        'File "theirs.stl" was not uploaded by you or is already attached to an order',
+    });
+    expect(
+      await resolveOrderFiles(student.id, [
+        { storageKey: mine, name: "cube.stl" },
+        { storageKey: mine, name: "cube.stl" },
+      ])
+    ).toEqual({ error: 'File "cube.stl" is listed more than once' });
+    expect(await resolveOrderFiles(student.id, [])).toEqual({
+      error: "At least one file is required",
+    });
+  }, 30000);
+
+  it("rejects uploads another order already claimed", async () => {
+    const storageKey = await pendingStl(student.id);
+    const resolved = await resolveOrderFiles(student.id, [{ storageKey }]);
+    if ("error" in resolved) throw new Error(resolved.error);
+
+    expect(await claimPendingUploads(resolved.files)).toHaveLength(1);
+    expect(await claimPendingUploads(resolved.files)).toBeUndefined();
+    expect(await resolveOrderFiles(student.id, [{ storageKey }])).toHaveProperty(
+      "error"
+    );
+  }, 30000);
+});
+
+describe("claimPendingUploads", () => {
+  it("claims all of an order's files or none of them", async () => {
+    const first = await storePendingUpload(
+      student.id,
+      upload("a.stl", cubeStl(10))
+    );
+    const second = await storePendingUpload(
+      student.id,
+      upload("b.stl", cubeStl(10))
+    );
+    await claimPendingUploads([second]);
+
+    expect(await claimPendingUploads([first, second])).toBeUndefined();
+    expect(
+      await storage.getPendingUploads({ storageKeys: [first.storageKey] })
+    ).toHaveLength(1);
+  }, 30000);
+
+  it("puts released uploads back on the pending list", async () => {
+    const stored = await storePendingUpload(
+      student.id,
+      upload("c.stl", cubeStl(10))
+    );
+    const claimed = await claimPendingUploads([stored]);
+    await releasePendingUploads(claimed!);
+
+    const [pending] = await storage.getPendingUploads({
+      storageKeys: [stored.storageKey],
+    });
+    expect(pending.userId).toBe(student.id);
+    expect(pending.analysis).toMatchObject({ kind: "stl" });
+  }, 30000);
+});
@@ -0,0 +1,166 @@
+/** @format */
+
+import { createHash, randomUUID } from "crypto";
+import path from "path";
+import { z } from "zod";
+import { blobStore } from "./blobStore";
+import { analyzeInWorker } from "./fileAnalysis";
+import { storage } from "./storage";
+import { getConfigValue } from "./systemConfig";
+import {
+  type FileAnalysis,
+  type OrderFile,
+  type PendingUpload,
+} from "../shared/schema";
+import { withMaterial } from "../shared/stl";
+
+export async function getUploadLimits() {
+  return {
+    maxFileSizeMb: await getConfigValue("max_file_size_mb"),
+    allowedFileTypes: await getConfigValue("allowed_file_types"),
+    uploadLimit: await getConfigValue("file_upload_limit"),
+  };
+}
+
+export function getFileExtension(fileName: string) {
+  return path.extname(fileName).toLowerCase();
+}
+
+export function checksum(data: Buffer) {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+export async function storeUpload(
+  userId: number,
+  file: { originalname: string; mimetype: string; buffer: Buffer }
+): Promise<OrderFile> {
+  const storageKey = `${userId}/${randomUUID()}${getFileExtension(
+    file.originalname
+  )}`;
+  await blobStore.put(storageKey, file.buffer);
+
+  return {
+    name: file.originalname,
+    size: file.buffer.length,
+    type: file.mimetype,
+    storageKey,
+    checksum: checksum(file.buffer),
+    uploadedAt: new Date().toISOString(),
+  };
+}
+
+// Stores a file uploaded ahead of an order submission and records it as
+// pending until an order claims it (see claimPendingUploads). The file is
+// analysed here, off the request thread, rather than when the order is
+// submitted.
+export async function storePendingUpload(
+  userId: number,
+  file: { originalname: string; mimetype: string; buffer: Buffer }
+): Promise<OrderFile> {
+  const [stored, analysis] = await Promise.all([
+    storeUpload(userId, file),
+    analyzeInWorker(file.originalname, file.buffer),
+  ]);
+  const pending = await storage.createPendingUpload({
+    userId,
+    storageKey: stored.storageKey,
+    name: stored.name,
+    size: stored.size,
+    type: stored.type,
+    checksum: stored.checksum,
+    analysis: analysis ?? null,
+  });
+  return { ...stored, uploadedAt: pending.createdAt.toISOString() };
+}
+
+// Prices an upload for the order's material. Files were parsed when they
+// were uploaded, so only the STL estimate is redone here.
+function getOrderFileAnalysis(
+  upload: PendingUpload,
+  material: string | null | undefined
+): FileAnalysis | undefined {
+  const { analysis } = upload;
+  if (analysis?.kind === "stl" && material) {
+    return withMaterial(analysis, material);
+  }
+  return analysis ?? undefined;
+}
+
+// Only the storage key is taken from the client. Every other field comes
+// from the pending upload record and the stored blob.
+const orderFileRefSchema = z.object({
+  storageKey: z.string().min(1),
+  name: z.string().optional(), // only used in error messages
+});
+
+// Checks the file list a client submits with an order against what was
+// actually uploaded: every key must be one of the user's pending uploads,
+// i.e. uploaded by them and not yet attached to an order or comment.
+export async function resolveOrderFiles(
+  userId: number,
+  files: unknown,
+  material?: string | null
+): Promise<{ files: OrderFile[] } | { error: string }> {
+  const parsed = z
+    .array(orderFileRefSchema)
+    .min(1, "At least one file is required")
+    .safeParse(files);
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0]?.message || "Invalid file list" };
+  }
+
+  const keys = parsed.data.map((file) => file.storageKey);
+  const pending = await storage.getPendingUploads({ userId, storageKeys: keys });
+
+  const seen = new Set<string>();
+  const resolved: OrderFile[] = [];
+  for (const file of parsed.data) {
+    const label = file.name || file.storageKey;
+    if (seen.has(file.storageKey)) {
+      return { error: `File "${label}" is listed more than once` };
+    }
+    seen.add(file.storageKey);
+    const upload = pending.find((item) => item.storageKey === file.storageKey);
+    if (!upload) {
+      return {
+        error: `File "${label}" was not uploaded by you or is already attached to an order`,
+      };
+    }
+    const data = await blobStore.get(upload.storageKey);
+    if (!data) {
+      return { error: `File "${upload.name}" has not been uploaded` };
+    }
+    resolved.push({
+      name: upload.name,
+      size: data.length,
+      type: upload.type,
+      storageKey: upload.storageKey,
+      checksum: checksum(data),
+      uploadedAt: upload.createdAt.toISOString(),
+      analysis: getOrderFileAnalysis(upload, material),
+    });
+  }
+
+  return { files: resolved };
+}
+
+// Takes the files of a new order off the pending list. Fails when another
+// request claimed any of them first, in which case nothing stays claimed.
+export async function claimPendingUploads(
+  files: OrderFile[]
+): Promise<PendingUpload[] | undefined> {
+  const claimed = await storage.deletePendingUploads(
+    files.map((file) => file.storageKey)
+  );
+  if (claimed.length === files.length) return claimed;
+
+  await releasePendingUploads(claimed);
+  return undefined;
+}
+
+// Puts claimed uploads back, e.g. when creating the order failed
+export async function releasePendingUploads(uploads: PendingUpload[]) {
+  for (const { id: _id, createdAt: _createdAt, ...upload } of uploads) {
+    await storage.createPendingUpload(upload);
+  }
+}
@@ -4,7 +4,8 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import path from "path";
 import admin from './firebaseAdmin';
-import { storage } from "./storage";
+import { storage, initStorage } from "./storage";
+import { startFileRetentionJob } from "./fileRetention";
 
 const app = express();
 app.use(express.json());
@@ -16,6 +17,8 @@ app.use(async (req: Request, res: Response, next: NextFunction) => {
   if (token) {
     try {
       const decodedToken = await admin.auth().verifyIdToken(token);
+      // Registration trusts this, never an email from the request body
+      req.authEmail = decodedToken.email;
       const user = await storage.getUserByEmail(decodedToken.email!)
       if (user) {
         (req as any).user = user;
@@ -70,6 +73,8 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await initStorage();
+  startFileRetentionJob();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
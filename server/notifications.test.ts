@@ -0,0 +1,99 @@
+/** @format */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { emailTransport } from "./email";
+import { notifyOrderEvent } from "./notifications";
+import { MemStorage, type Order, type User } from "./storage";
+import { updateSystemConfig } from "./systemConfig";
+import { NotificationType } from "../shared/notifications";
+
+const current = vi.hoisted(() => ({ storage: undefined as any }));
+vi.mock("./storage", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./storage")>()),
+  get storage() {
+    return current.storage;
+  },
+}));
+vi.mock("./email", () => ({ emailTransport: { send: vi.fn() } }));
+
+const send = vi.mocked(emailTransport.send);
+
+let storage: MemStorage;
+let student: User;
+let order: Order;
+
+beforeEach(async () => {
+  storage = current.storage = new MemStorage();
+  send.mockReset();
+
+  student = await storage.createUser({
+    email: "asha@smail.iitm.ac.in",
+    displayName: "Asha Rao",
+  });
+  order = await storage.createOrder({
+    userId: student.id,
+    projectName: "Bracket",
+    status: "cancelled",
+  });
+});
+
+describe("notifyOrderEvent", () => {
+  it("emails the owner, threaded by order", async () => {
+    await notifyOrderEvent(NotificationType.ORDER_FAILED, order, {
+      reason: "Nozzle clog",
+    });
+
+    expect(send).toHaveBeenCalledTimes(1);
+    const [message] = send.mock.calls[0];
+    expect(message).toMatchObject({
+      to: student.email,
+      subject: `[${order.orderId}] Your print failed`,
+      headers: { "In-Reply-To": `<order-${order.id}@3dpc>` },
+    });
+    expect(message.text).toMatch(/^Hi Asha,/);
+    expect(message.text).toContain("Nozzle clog");
+    expect(message.text).toContain(`/orders/${order.id}`);
+  });
+
+  it("uses the template edited by a super admin", async () => {
+    await updateSystemConfig(
+      "email_template_order_cancelled",
+      { subject: "Cancelled: {{projectName}}", body: "{{reason}}" },
+      { userId: 1 }
+    );
+
+    await notifyOrderEvent(NotificationType.ORDER_CANCELLED, order, {
+      reason: "Duplicate",
+    });
+    expect(send.mock.calls[0][0]).toMatchObject({
+      subject: "Cancelled: Bracket",
+      text: "Duplicate",
+    });
+  });
+
+  it("never fails the change that triggered it", async () => {
+    send.mockRejectedValueOnce(new Error("SMTP down"));
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    await expect(
+      notifyOrderEvent(NotificationType.ORDER_CANCELLED, order)
+    ).resolves.toBeUndefined();
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it("respects the owner's preferences, except for mandatory types", async () => {
+    await storage.updateUser(student.id, {
+      notificationPreferences: {
+        email: { order_started: false },
+        inApp: { order_started: false },
+      },
+    });
+
+    await notifyOrderEvent(NotificationType.ORDER_STARTED, order);
+    expect(send).not.toHaveBeenCalled();
+    expect(await storage.getUserNotifications(student.id)).toHaveLength(0);
+
+    await notifyOrderEvent(NotificationType.ORDER_FAILED, order);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
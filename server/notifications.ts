@@ -0,0 +1,223 @@
+/** @format */
+
+import { emailTransport } from "./email";
+import { publishNotification } from "./events";
+import { getConfigValue } from "./systemConfig";
+import {
+  storage,
+  type Order,
+  type OrderComment,
+  type SupportTicket,
+  type TicketReply,
+  type User,
+} from "./storage";
+import { OrderStatus } from "../shared/schema";
+import {
+  NotificationType,
+  emailTemplateKey,
+  fillTemplate,
+  inAppTemplates,
+  isChannelEnabled,
+  notificationTypes,
+  renderTemplate,
+  type EmailTemplate,
+  type NotificationTypeValue,
+  type TemplateVariables,
+} from "../shared/notifications";
+import { getTicketSubjectLabel } from "../shared/tickets";
+import { isStaff } from "../shared/users";
+
+// Emails sent when an order moves into a status
+export const orderStatusNotifications: Partial<
+  Record<string, NotificationTypeValue>
+> = {
+  [OrderStatus.APPROVED]: NotificationType.ORDER_APPROVED,
+  [OrderStatus.CANCELLED]: NotificationType.ORDER_CANCELLED,
+  [OrderStatus.STARTED]: NotificationType.ORDER_STARTED,
+  [OrderStatus.FINISHED]: NotificationType.ORDER_FINISHED,
+  [OrderStatus.FAILED]: NotificationType.ORDER_FAILED,
+};
+
+const appUrl = (process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "");
+
+// Templates edited in the super admin panel, falling back to the built-in
+// copy when the stored value is missing or malformed
+export async function getEmailTemplate(
+  type: NotificationTypeValue
+): Promise<EmailTemplate> {
+  return getConfigValue(emailTemplateKey(type));
+}
+
+// Sends one notification, in the app and by email, as the recipient's
+// preferences allow. `about` names what it concerns: the title prefix, the
+// order to link to, and the mail thread to file it under.
+async function notifyUser(
+  user: User,
+  type: NotificationTypeValue,
+  variables: TemplateVariables,
+  about: { label: string; orderId: number | null; thread: string }
+): Promise<void> {
+  if (isChannelEnabled(user.notificationPreferences, type, "inApp")) {
+    const notification = await storage.createNotification({
+      userId: user.id,
+      type,
+      title: `${about.label}: ${notificationTypes[type].label}`,
+      body: fillTemplate(inAppTemplates[type], variables),
+      orderId: about.orderId,
+    });
+    publishNotification(notification);
+  }
+
+  if (isChannelEnabled(user.notificationPreferences, type, "email")) {
+    const { subject, body } = renderTemplate(
+      await getEmailTemplate(type),
+      variables
+    );
+    // Mail clients group everything about one order into a single thread
+    await emailTransport.send({
+      to: user.email,
+      subject,
+      text: body,
+      headers: { "In-Reply-To": about.thread, References: about.thread },
+    });
+  }
+}
+
+function aboutOrder(order: Order) {
+  return {
+    label: order.orderId,
+    orderId: order.id,
+    thread: `<order-${order.id}@3dpc>`,
+  };
+}
+
+function orderUrl(order: Order) {
+  return `${appUrl}/orders/${order.id}`;
+}
+
+// Notifies the order's owner about a lifecycle event. Never throws: a failed
+// notification is logged and must not undo or fail the change that
+// triggered it.
+export async function notifyOrderEvent(
+  type: NotificationTypeValue,
+  order: Order,
+  details: { reason?: string | null; batchName?: string | null } = {}
+): Promise<void> {
+  try {
+    const user = await storage.getUser(order.userId);
+    if (!user) return;
+
+    const request = order.filamentRequest;
+    await notifyUser(
+      user,
+      type,
+      {
+        name: user.displayName.split(" ")[0],
+        orderId: order.orderId,
+        projectName: order.projectName,
+        reason: details.reason ?? request?.note ?? undefined,
+        batchName: details.batchName ?? undefined,
+        filament: request
+          ? `${request.grams} g of ${request.color} ${request.material}`
+          : undefined,
+        orderUrl: orderUrl(order),
+      },
+      aboutOrder(order)
+    );
+  } catch (error) {
+    console.error(
+      `Failed to send ${type} notification for order ${order.id}:`,
+      error
+    );
+  }
+}
+
+// Tells the other side of the conversation about a new comment. Student
+// comments go to the staff already in the thread, or to every admin when
+// nobody has replied yet; staff comments go to the owner unless they are
+// internal notes. Never throws, like notifyOrderEvent.
+export async function notifyOrderComment(
+  order: Order,
+  comment: OrderComment,
+  author: User
+): Promise<void> {
+  try {
+    const authorStaff = isStaff(author);
+    let recipients: User[] = [];
+    if (!authorStaff) {
+      const staff = (await storage.getAllUsers()).filter(
+        (user) => isStaff(user) && user.id !== author.id
+      );
+      const participants = new Set(
+        (await storage.getOrderComments(order.id)).map((c) => c.authorId)
+      );
+      const involved = staff.filter((user) => participants.has(user.id));
+      recipients = involved.length > 0 ? involved : staff;
+    } else if (!comment.internal && order.userId !== author.id) {
+      const owner = await storage.getUser(order.userId);
+      if (owner) recipients = [owner];
+    }
+
+    // Students see staff as the print lab rather than by name
+    const authorName = authorStaff ? "Print lab staff" : author.displayName;
+    const text =
+      comment.body.length > 200
+        ? `${comment.body.slice(0, 200)}…`
+        : comment.body;
+    for (const user of recipients) {
+      await notifyUser(
+        user,
+        NotificationType.ORDER_COMMENT,
+        {
+          name: user.displayName.split(" ")[0],
+          orderId: order.orderId,
+          projectName: order.projectName,
+          author: authorName,
+          comment: text || "(attachment)",
+          orderUrl: orderUrl(order),
+        },
+        aboutOrder(order)
+      );
+    }
+  } catch (error) {
+    console.error(
+      `Failed to send comment notification for order ${order.id}:`,
+      error
+    );
+  }
+}
+
+// Tells a student that staff replied to their support ticket. Never throws,
+// like notifyOrderEvent.
+export async function notifyTicketReply(
+  ticket: SupportTicket,
+  reply: TicketReply
+): Promise<void> {
+  try {
+    const user = await storage.getUser(ticket.userId);
+    if (!user) return;
+
+    await notifyUser(
+      user,
+      NotificationType.TICKET_REPLY,
+      {
+        name: user.displayName.split(" ")[0],
+        ticketId: `#${ticket.id}`,
+        ticketSubject: getTicketSubjectLabel(ticket.subject),
+        comment:
+          reply.body.length > 200 ? `${reply.body.slice(0, 200)}…` : reply.body,
+        ticketUrl: `${appUrl}/contact`,
+      },
+      {
+        label: `Ticket #${ticket.id}`,
+        orderId: ticket.orderId,
+        thread: `<ticket-${ticket.id}@3dpc>`,
+      }
+    );
+  } catch (error) {
+    console.error(
+      `Failed to send reply notification for ticket ${ticket.id}:`,
+      error
+    );
+  }
+}
@@ -0,0 +1,149 @@
+/** @format */
+
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { getOrderTimeline, toTimelineActor } from "./orderTimeline";
+import { storage, type InsertAuditLog, type Order, type User } from "./storage";
+import { OrderStatus } from "../shared/schema";
+
+let student: User;
+let classmate: User;
+let admin: User;
+let order: Order;
+
+// Each entry a minute after the last, so the timeline order is certain
+let minute = 0;
+const log = (entry: InsertAuditLog) => {
+  vi.setSystemTime(new Date(Date.UTC(2026, 5, 1, 9, minute++)));
+  return storage.createAuditLog(entry);
+};
+
+beforeAll(async () => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  student = await storage.createUser({
+    email: "timeline@smail.iitm.ac.in",
+    displayName: "Student",
+  });
+  classmate = await storage.createUser({
+    email: "timeline-peer@smail.iitm.ac.in",
+    displayName: "Classmate",
+  });
+  admin = await storage.createUser({
+    email: "timeline-admin@smail.iitm.ac.in",
+    displayName: "Lab Admin",
+    role: "ADMIN",
+  });
+  order = await storage.createOrder({
+    userId: student.id,
+    projectName: "Timeline",
+    status: OrderStatus.STARTED,
+  });
+  const entity = { entityType: "order", entityId: order.id.toString() };
+
+  await log({ ...entity, userId: student.id, action: "order_submitted" });
+  await log({
+    ...entity,
+    userId: admin.id,
+    action: "order_printer_assigned",
+    details: { printerId: 2 },
+  });
+  await log({
+    entityType: "batch",
+    entityId: "7",
+    userId: admin.id,
+    action: "batch_created",
+    details: { batchNumber: "B-7", orderIds: [order.id] },
+  });
+  await log({
+    entityType: "batch",
+    entityId: "8",
+    userId: admin.id,
+    action: "batch_created",
+    details: { batchNumber: "B-8", orderIds: [order.id + 1] },
+  });
+  await log({
+    ...entity,
+    userId: admin.id,
+    action: "order_status_updated",
+    reason: "Plate is free",
+    details: {
+      status: OrderStatus.STARTED,
+      previousStatus: OrderStatus.APPROVED,
+      printerId: 2,
+    },
+  });
+  await log({
+    entityType: "filament_spool",
+    entityId: "3",
+    userId: admin.id,
+    action: "filament_consumed",
+    details: { orderId: order.id, grams: 12, spoolId: 3 },
+  });
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+describe("toTimelineActor", () => {
+  it("hides staff names from students only", () => {
+    expect(toTimelineActor(admin.id, admin, student)).toEqual({
+      id: null,
+      name: "Print lab staff",
+      staff: true,
+    });
+    expect(toTimelineActor(admin.id, admin, admin)).toEqual({
+      id: admin.id,
+      name: "Lab Admin",
+      staff: true,
+    });
+    expect(toTimelineActor(classmate.id, classmate, student)).toEqual({
+      id: classmate.id,
+      name: "Classmate",
+      staff: false,
+    });
+    expect(toTimelineActor(99, undefined, admin).name).toBe("Unknown user");
+  });
+});
+
+describe("getOrderTimeline", () => {
+  it("gathers the order's own, batch and filament entries in order", async () => {
+    const timeline = await getOrderTimeline(order, admin);
+    expect(timeline.map((entry) => entry.action)).toEqual([
+      "order_submitted",
+      "order_printer_assigned",
+      "batch_created",
+      "order_status_updated",
+      "filament_consumed",
+    ]);
+    expect(timeline[3]).toMatchObject({
+      actor: { id: admin.id, name: "Lab Admin" },
+      reason: "Plate is free",
+      details: { printerId: 2 },
+    });
+  });
+
+  it("gives students a privacy-filtered copy", async () => {
+    const timeline = await getOrderTimeline(order, student);
+    expect(timeline.map((entry) => entry.action)).toEqual([
+      "order_submitted",
+      "batch_created",
+      "order_status_updated",
+      "filament_consumed",
+    ]);
+    expect(timeline[0].actor).toEqual({
+      id: student.id,
+      name: "Student",
+      staff: false,
+    });
+    expect(timeline[2]).toMatchObject({
+      actor: { id: null, name: "Print lab staff" },
+      reason: "Plate is free",
+      details: {
+        status: OrderStatus.STARTED,
+        previousStatus: OrderStatus.APPROVED,
+      },
+    });
+    expect(timeline[2].details).not.toHaveProperty("printerId");
+    expect(timeline[3].details).toEqual({ grams: 12 });
+  });
+});
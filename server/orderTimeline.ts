@@ -0,0 +1,90 @@
+/** @format */
+
+import { storage, type AuditLog, type Order, type User } from "./storage";
+import {
+  staffOnlyTimelineActions,
+  studentTimelineDetails,
+  type OrderTimelineActor,
+  type OrderTimelineEntry,
+} from "../shared/orderTimeline";
+import { isStaff } from "../shared/users";
+
+// How a user appears to `viewer`: students see staff as "Print lab staff"
+// rather than by name
+export function toTimelineActor(
+  userId: number,
+  user: User | undefined,
+  viewer: { id: number; role: string }
+): OrderTimelineActor {
+  const staff = isStaff(user);
+  return staff && !isStaff(viewer) && userId !== viewer.id
+    ? { id: null, name: "Print lab staff", staff: true }
+    : { id: userId, name: user?.displayName ?? "Unknown user", staff };
+}
+
+// Batch entries name their orders in the details rather than the entity
+function mentionsOrder(log: AuditLog, orderId: number) {
+  const details = (log.details ?? {}) as Record<string, unknown>;
+  return (
+    details.orderId === orderId ||
+    (Array.isArray(details.orderIds) && details.orderIds.includes(orderId))
+  );
+}
+
+// Everything the audit log records about an order, oldest first. Students
+// get a privacy-filtered copy: staff-only actions and details are dropped,
+// and staff appear as "Print lab staff" rather than by name.
+export async function getOrderTimeline(
+  order: Order,
+  viewer: { id: number; role: string }
+): Promise<OrderTimelineEntry[]> {
+  const [orderLogs, batchLogs, filamentLogs] = await Promise.all([
+    storage.getAuditLogs({ entityType: "order", entityId: order.id.toString() }),
+    storage.getAuditLogs({ entityType: "batch" }),
+    storage.getAuditLogs({ entityType: "filament_spool", action: "filament_consumed" }),
+  ]);
+  const logs: AuditLog[] = [
+    ...orderLogs,
+    ...batchLogs.filter(
+      (log) =>
+        ["batch_created", "batch_orders_added", "batch_order_removed"].includes(
+          log.action
+        ) && mentionsOrder(log, order.id)
+    ),
+    ...filamentLogs.filter((log) => mentionsOrder(log, order.id)),
+  ].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  const staffViewer = isStaff(viewer);
+  const actors = new Map<number, User | undefined>();
+  const entries: OrderTimelineEntry[] = [];
+  for (const log of logs) {
+    if (!staffViewer && staffOnlyTimelineActions.includes(log.action)) continue;
+
+    let actor: OrderTimelineActor | null = null;
+    if (log.userId) {
+      if (!actors.has(log.userId)) {
+        actors.set(log.userId, await storage.getUser(log.userId));
+      }
+      actor = toTimelineActor(log.userId, actors.get(log.userId), viewer);
+    }
+
+    const details = (log.details ?? {}) as Record<string, unknown>;
+    entries.push({
+      id: log.id,
+      action: log.action,
+      timestamp: new Date(log.timestamp).toISOString(),
+      actor,
+      reason: log.reason ?? null,
+      details: staffViewer
+        ? details
+        : Object.fromEntries(
+            Object.entries(details).filter(([key]) =>
+              studentTimelineDetails.includes(key)
+            )
+          ),
+    });
+  }
+  return entries;
+}
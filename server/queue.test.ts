@@ -0,0 +1,244 @@
+/** @format */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { buildQueueSnapshot, getOrderPrintHours } from "./queue";
+import { MemStorage, type Order } from "./storage";
+import { OrderStatus, type OrderFile } from "../shared/schema";
+
+// A fresh MemStorage per test, since the snapshot covers every order
+const current = vi.hoisted(() => ({ storage: undefined as any }));
+vi.mock("./storage", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./storage")>()),
+  get storage() {
+    return current.storage;
+  },
+}));
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = new Date("2026-03-02T09:00:00.000Z");
+const hoursFromNow = (hours: number) =>
+  new Date(now.getTime() + hours * HOUR_MS).toISOString();
+
+let storage: MemStorage;
+let submitted = 0;
+
+beforeEach(() => {
+  storage = current.storage = new MemStorage();
+  submitted = 0;
+});
+
+const analysedFile = (hours: number): OrderFile => ({
+  name: "part.gcode",
+  size: 1,
+  type: "text/plain",
+  storageKey: "1/part.gcode",
+  checksum: "",
+  uploadedAt: now.toISOString(),
+  analysis: {
+    kind: "gcode",
+    slicer: "cura",
+    estimateSource: "slicer",
+    estimatedHours: hours,
+    filamentLengthMm: 0,
+    estimatedGrams: 0,
+    layerHeightMm: null,
+    nozzleTempC: null,
+    bedTempC: null,
+    material: null,
+    boundingBox: { size: { x: 10, y: 10, z: 10 } },
+    fitsBuildVolume: true,
+  },
+});
+
+// Orders queue in the order they are created here
+async function order(status: string, updates: Partial<Order> = {}) {
+  const created = await storage.createOrder({
+    userId: 1,
+    projectName: "Queued",
+    status,
+  });
+  return storage.updateOrder(created.id, {
+    submittedAt: new Date(now.getTime() - 24 * HOUR_MS + submitted++ * 1000),
+    files: [analysedFile(2)],
+    ...updates,
+  });
+}
+
+const entryFor = async (order: Order) =>
+  (await buildQueueSnapshot(now)).entries.find(
+    (entry) => entry.orderId === order.id
+  )!;
+
+describe("getOrderPrintHours", () => {
+  it("counts unanalysed files and orders without files at the default", async () => {
+    const analysed = await order(OrderStatus.APPROVED);
+    expect(getOrderPrintHours(analysed, 3)).toBe(2);
+
+    const mixed = await order(OrderStatus.APPROVED, {
+      files: [analysedFile(2), { ...analysedFile(0), analysis: undefined }],
+    });
+    expect(getOrderPrintHours(mixed, 3)).toBe(5);
+
+    const empty = await order(OrderStatus.APPROVED, { files: [] });
+    expect(getOrderPrintHours(empty, 3)).toBe(3);
+  });
+});
+
+describe("buildQueueSnapshot", () => {
+  it("queues behind the configured printer count when none are registered", async () => {
+    const first = await order(OrderStatus.APPROVED);
+    const second = await order(OrderStatus.APPROVED);
+
+    const snapshot = await buildQueueSnapshot(now);
+    expect(snapshot.printerCount).toBe(1);
+    expect(snapshot.backlogHours).toBe(4);
+    expect(await entryFor(first)).toMatchObject({
+      position: 1,
+      jobsAhead: 0,
+      projectedStart: now.toISOString(),
+      projectedFinish: hoursFromNow(2),
+    });
+    expect(await entryFor(second)).toMatchObject({
+      position: 2,
+      jobsAhead: 1,
+      projectedStart: hoursFromNow(2),
+    });
+  });
+
+  it("keeps a printing job's printer busy until its estimate runs out", async () => {
+    const printer = await storage.createPrinter({
+      name: "Ender",
+      buildVolumeX: 220,
+      buildVolumeY: 220,
+      buildVolumeZ: 250,
+    });
+    const printing = await order(OrderStatus.STARTED, {
+      printerId: printer.id,
+      startedAt: new Date(now.getTime() - HOUR_MS),
+    });
+    const waiting = await order(OrderStatus.APPROVED);
+
+    expect(await entryFor(printing)).toMatchObject({
+      position: 0,
+      printerId: printer.id,
+      projectedFinish: hoursFromNow(1),
+    });
+    expect(await entryFor(waiting)).toMatchObject({
+      printerId: printer.id,
+      position: 1,
+      jobsAhead: 1,
+      projectedStart: hoursFromNow(1),
+    });
+  });
+
+  it("lets a running job without a printer hold the first free printer", async () => {
+    await storage.createPrinter({
+      name: "Ender",
+      buildVolumeX: 220,
+      buildVolumeY: 220,
+      buildVolumeZ: 250,
+    });
+    await order(OrderStatus.STARTED, { startedAt: now });
+    const waiting = await order(OrderStatus.APPROVED);
+
+    expect((await entryFor(waiting)).projectedStart).toBe(hoursFromNow(2));
+  });
+
+  it("counts positions per printer and only sends jobs where they fit", async () => {
+    const small = await storage.createPrinter({
+      name: "Mini",
+      buildVolumeX: 100,
+      buildVolumeY: 100,
+      buildVolumeZ: 100,
+    });
+    const petg = await storage.createPrinter({
+      name: "Prusa",
+      buildVolumeX: 250,
+      buildVolumeY: 210,
+      buildVolumeZ: 210,
+      supportedMaterials: ["PLA", "PETG"],
+    });
+    const first = await order(OrderStatus.APPROVED, { material: "PETG" });
+    const second = await order(OrderStatus.APPROVED, { material: "PETG" });
+    const pla = await order(OrderStatus.APPROVED);
+
+    expect(await entryFor(first)).toMatchObject({
+      printerId: petg.id,
+      position: 1,
+    });
+    expect(await entryFor(second)).toMatchObject({
+      printerId: petg.id,
+      position: 2,
+      projectedStart: hoursFromNow(2),
+    });
+    expect(await entryFor(pla)).toMatchObject({
+      printerId: small.id,
+      position: 1,
+      projectedStart: now.toISOString(),
+    });
+  });
+
+  it("waits for the assigned printer even when another is free", async () => {
+    await storage.createPrinter({
+      name: "Ender",
+      buildVolumeX: 220,
+      buildVolumeY: 220,
+      buildVolumeZ: 250,
+    });
+    const busy = await storage.createPrinter({
+      name: "Prusa",
+      buildVolumeX: 250,
+      buildVolumeY: 210,
+      buildVolumeZ: 210,
+    });
+    await order(OrderStatus.APPROVED, { printerId: busy.id });
+    const assigned = await order(OrderStatus.APPROVED, { printerId: busy.id });
+
+    expect(await entryFor(assigned)).toMatchObject({
+      printerId: busy.id,
+      position: 2,
+      projectedStart: hoursFromNow(2),
+    });
+  });
+
+  it("projects one lane when every printer is down", async () => {
+    await storage.createPrinter({
+      name: "Ender",
+      buildVolumeX: 220,
+      buildVolumeY: 220,
+      buildVolumeZ: 250,
+      status: "maintenance",
+    });
+    const waiting = await order(OrderStatus.APPROVED);
+
+    const snapshot = await buildQueueSnapshot(now);
+    expect(snapshot.printerCount).toBe(1);
+    expect(await entryFor(waiting)).toMatchObject({
+      printerId: null,
+      projectedStart: now.toISOString(),
+    });
+  });
+
+  it("queues a batch as one job", async () => {
+    const batch = await storage.createBatch({
+      name: "Plate",
+      createdById: 1,
+      estimatedDuration: 5,
+    });
+    const first = await order(OrderStatus.APPROVED, { batchId: batch.id });
+    const second = await order(OrderStatus.APPROVED, { batchId: batch.id });
+    const after = await order(OrderStatus.APPROVED);
+
+    for (const member of [first, second]) {
+      expect(await entryFor(member)).toMatchObject({
+        batchId: batch.id,
+        position: 1,
+        estimatedHours: 5,
+      });
+    }
+    expect(await entryFor(after)).toMatchObject({
+      position: 2,
+      projectedStart: hoursFromNow(5),
+    });
+  });
+});
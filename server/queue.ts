@@ -0,0 +1,212 @@
+/** @format */
+
+import { storage, type Batch, type Order, type Printer } from "./storage";
+import { getConfigValue } from "./systemConfig";
+import { OrderStatus } from "../shared/schema";
+import { getOrderPrintEstimate } from "../shared/printEstimates";
+import {
+  comparePriority,
+  computeOrderPriorities,
+  type OrderPriority,
+} from "../shared/priority";
+import { checkPrinterFit, isPrinterAvailable } from "../shared/printers";
+import type { QueueEntry, QueueSnapshot } from "../shared/queue";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Orders that print together: a batch, or a single order outside any batch
+interface QueueJob {
+  orders: Order[];
+  hours: number;
+  printerId: number | null;
+  // Only meaningful for jobs already printing
+  startedAt: Date;
+}
+
+export async function getDefaultPrintHours() {
+  return getConfigValue("queue_default_print_hours");
+}
+
+// Uses the file analyses where available; unanalysed files, and orders with
+// no files at all, count as `defaultHours` each.
+export function getOrderPrintHours(order: Order, defaultHours: number) {
+  const estimate = getOrderPrintEstimate(order.files);
+  const unanalysed = estimate.totalFiles - estimate.analyzedFiles;
+  return estimate.estimatedHours + unanalysed * defaultHours || defaultHours;
+}
+
+function groupJobs(
+  orders: Order[],
+  batchesById: Map<number, Batch>,
+  defaultHours: number,
+  compareOrders: (a: Order, b: Order) => number
+): QueueJob[] {
+  const groups = new Map<string, Order[]>();
+  for (const order of [...orders].sort(compareOrders)) {
+    const key = order.batchId ? `batch:${order.batchId}` : `order:${order.id}`;
+    groups.set(key, [...(groups.get(key) || []), order]);
+  }
+
+  return Array.from(groups.values()).map((jobOrders) => {
+    const batch = jobOrders[0].batchId
+      ? batchesById.get(jobOrders[0].batchId)
+      : undefined;
+    const orderHours = jobOrders.reduce(
+      (total, order) => total + getOrderPrintHours(order, defaultHours),
+      0
+    );
+    return {
+      orders: jobOrders,
+      hours: batch?.estimatedDuration || orderHours,
+      printerId: batch?.printerId ?? jobOrders[0].printerId ?? null,
+      startedAt: new Date(
+        batch?.startedAt ?? jobOrders[0].startedAt ?? jobOrders[0].updatedAt ?? Date.now()
+      ),
+    };
+  });
+}
+
+// A printer's queue: the time it becomes free. `printer` is undefined for
+// the anonymous printers used when none are registered.
+interface Lane {
+  printer?: Printer;
+  freeAt: number;
+  printing: number;
+  waiting: number;
+}
+
+// Projects start and finish times by handing waiting jobs, in priority order,
+// to whichever printer frees up next. Printing jobs hold their printer until
+// their estimate runs out, and those with no known printer hold whichever one
+// frees up first; jobs assigned to a printer wait for that printer, and
+// unassigned ones only go to printers they fit. Positions count per printer.
+export async function buildQueueSnapshot(now = new Date()): Promise<QueueSnapshot> {
+  const [orders, batches, printers, printerCount, defaultHours] = await Promise.all([
+    storage.getAllOrders(),
+    storage.getAllBatches(),
+    storage.getAllPrinters(),
+    getConfigValue("queue_printer_count"),
+    getConfigValue("queue_default_print_hours"),
+  ]);
+  const batchesById = new Map<number, Batch>(
+    batches.map((batch: Batch) => [batch.id, batch])
+  );
+
+  const lanes: Lane[] = printers
+    .filter(isPrinterAvailable)
+    .map((printer) => ({ printer, freeAt: now.getTime(), printing: 0, waiting: 0 }));
+  const addLane = () =>
+    lanes.push({ freeAt: now.getTime(), printing: 0, waiting: 0 });
+  if (printers.length === 0) {
+    for (let i = 0; i < printerCount; i++) addLane();
+  } else if (lanes.length === 0) {
+    // Every printer is down; project as if one comes back now
+    addLane();
+  }
+  const earliestFree = (candidates: Lane[]) =>
+    candidates.reduce((best, candidate) =>
+      candidate.freeAt < best.freeAt ? candidate : best
+    );
+  const laneFor = (printerId: number | null) =>
+    printerId !== null
+      ? lanes.find((lane) => lane.printer?.id === printerId)
+      : undefined;
+
+  const priorities = computeOrderPriorities(orders, now);
+  const compareOrders = (a: Order, b: Order) =>
+    comparePriority(
+      { priority: priorities.get(a.id) as OrderPriority, submittedAt: a.submittedAt },
+      { priority: priorities.get(b.id) as OrderPriority, submittedAt: b.submittedAt }
+    );
+
+  // Jobs on a known printer claim it before the others pick a lane
+  const running = groupJobs(
+    orders.filter((order) => order.status === OrderStatus.STARTED),
+    batchesById,
+    defaultHours,
+    compareOrders
+  ).sort((a, b) => Number(!laneFor(a.printerId)) - Number(!laneFor(b.printerId)));
+  // A batch queues at the priority of its most urgent order
+  const waiting = groupJobs(
+    orders.filter((order) => order.status === OrderStatus.APPROVED),
+    batchesById,
+    defaultHours,
+    compareOrders
+  ).sort((a, b) => compareOrders(a.orders[0], b.orders[0]));
+
+  const entries: QueueEntry[] = [];
+  const toEntry = (
+    order: Order,
+    job: QueueJob,
+    printerId: number | null,
+    position: number,
+    jobsAhead: number,
+    start: number,
+    finish: number
+  ): QueueEntry => ({
+    orderId: order.id,
+    orderCode: order.orderId,
+    status: order.status,
+    batchId: order.batchId ?? null,
+    printerId,
+    position,
+    jobsAhead,
+    estimatedHours: Math.round(job.hours * 10) / 10,
+    projectedStart: new Date(start).toISOString(),
+    projectedFinish: new Date(finish).toISOString(),
+  });
+
+  let backlogHours = 0;
+
+  for (const job of running) {
+    const start = job.startedAt.getTime();
+    const finish = Math.max(start + job.hours * HOUR_MS, now.getTime());
+    // Jobs on an unknown or unassigned printer are still using some printer
+    const lane = laneFor(job.printerId) ?? earliestFree(lanes);
+    lane.freeAt = Math.max(lane.freeAt, finish);
+    lane.printing++;
+    backlogHours += (finish - now.getTime()) / HOUR_MS;
+    job.orders.forEach((order) =>
+      entries.push(toEntry(order, job, job.printerId, 0, 0, start, finish))
+    );
+  }
+
+  for (const job of waiting) {
+    const assigned = laneFor(job.printerId);
+    const fitting = lanes.filter(
+      (lane) =>
+        !lane.printer ||
+        job.orders.every((order) => checkPrinterFit(order, lane.printer!).length === 0)
+    );
+    const lane = earliestFree(
+      assigned ? [assigned] : fitting.length > 0 ? fitting : lanes
+    );
+
+    const start = lane.freeAt;
+    const finish = start + job.hours * HOUR_MS;
+    const jobsAhead = lane.printing + lane.waiting;
+    lane.freeAt = finish;
+    lane.waiting++;
+    backlogHours += job.hours;
+    job.orders.forEach((order) =>
+      entries.push(
+        toEntry(
+          order,
+          job,
+          lane.printer?.id ?? job.printerId,
+          lane.waiting,
+          jobsAhead,
+          start,
+          finish
+        )
+      )
+    );
+  }
+
+  return {
+    generatedAt: now.toISOString(),
+    printerCount: lanes.length,
+    backlogHours: Math.round(backlogHours * 10) / 10,
+    entries,
+  };
+}
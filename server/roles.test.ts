@@ -0,0 +1,104 @@
+/** @format */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { applyProvisionedRole, getProvisionedRole } from "./roles";
+import { MemStorage, type User } from "./storage";
+import { getInvitationStatus } from "../shared/users";
+
+const current = vi.hoisted(() => ({ storage: undefined as any }));
+vi.mock("./storage", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./storage")>()),
+  get storage() {
+    return current.storage;
+  },
+}));
+
+const EMAIL = "invitee@smail.iitm.ac.in";
+
+let storage: MemStorage;
+let inviter: User;
+let invitee: User;
+
+beforeEach(async () => {
+  storage = current.storage = new MemStorage();
+  inviter = await storage.createUser({
+    email: "boss@smail.iitm.ac.in",
+    displayName: "Boss",
+    role: "SUPERADMIN",
+  });
+  invitee = await storage.createUser({ email: EMAIL, displayName: "Invitee" });
+});
+
+const invite = (role: string, overrides = {}) =>
+  storage.createRoleInvitation({
+    email: EMAIL,
+    role,
+    invitedBy: inviter.id,
+    ...overrides,
+  });
+
+describe("getProvisionedRole", () => {
+  it("grants the highest of the allow-lists and pending invitations", async () => {
+    const superadmin = await invite("SUPERADMIN");
+    await invite("ADMIN");
+    await invite("SUPERADMIN", { expiresAt: new Date(Date.now() - 1000) });
+    await storage.setSystemConfig({ key: "admin_emails", value: [EMAIL] });
+
+    const provisioned = await getProvisionedRole(" Invitee@smail.iitm.ac.in ");
+    expect(provisioned).toMatchObject({
+      role: "SUPERADMIN",
+      source: "invitation",
+      invitation: { id: superadmin.id },
+    });
+    expect(provisioned?.pendingInvitations).toHaveLength(2);
+    expect(await getProvisionedRole("nobody@smail.iitm.ac.in")).toBeNull();
+  });
+});
+
+describe("applyProvisionedRole", () => {
+  it("accepts every pending invitation for the email", async () => {
+    const admin = await invite("ADMIN");
+    const superadmin = await invite("SUPERADMIN");
+    const revoked = await storage.updateRoleInvitation(
+      (await invite("ADMIN")).id,
+      { revokedAt: new Date() }
+    );
+
+    const user = await applyProvisionedRole(invitee);
+    expect(user.role).toBe("SUPERADMIN");
+    for (const { id } of [admin, superadmin]) {
+      const invitation = await storage.getRoleInvitation(id);
+      expect(getInvitationStatus(invitation!)).toBe("accepted");
+      expect(invitation?.acceptedBy).toBe(invitee.id);
+    }
+    expect(
+      getInvitationStatus((await storage.getRoleInvitation(revoked.id))!)
+    ).toBe("revoked");
+
+    const [log] = await storage.getAuditLogs({
+      action: "user_role_provisioned",
+    });
+    expect(log).toMatchObject({
+      userId: inviter.id,
+      details: { from: "USER", to: "SUPERADMIN", invitationId: superadmin.id },
+    });
+  });
+
+  it("leaves nothing pending to promote a demoted user again", async () => {
+    await invite("ADMIN");
+    const promoted = await applyProvisionedRole(invitee);
+    const demoted = await storage.updateUser(promoted.id, { role: "USER" });
+
+    expect((await applyProvisionedRole(demoted)).role).toBe("USER");
+  });
+
+  it("uses up invitations outranked by an allow-list", async () => {
+    const admin = await invite("ADMIN");
+    await storage.setSystemConfig({ key: "superadmin_emails", value: [EMAIL] });
+
+    expect((await applyProvisionedRole(invitee)).role).toBe("SUPERADMIN");
+    expect(
+      getInvitationStatus((await storage.getRoleInvitation(admin.id))!)
+    ).toBe("accepted");
+  });
+});
@@ -0,0 +1,106 @@
+/** @format */
+
+import { storage, type User } from "./storage";
+import { publishAccountChange } from "./events";
+import { getConfigValue } from "./systemConfig";
+import type { RoleInvitation } from "../shared/schema";
+import { getInvitationStatus, getRoleRank } from "../shared/users";
+
+type RoleSource = "bootstrap" | "allow-list" | "invitation";
+
+interface RoleGrant {
+  role: string;
+  source: RoleSource;
+  invitation?: RoleInvitation;
+}
+
+interface ProvisionedRole extends RoleGrant {
+  // Every pending invitation for the email, including lower ones than the
+  // role granted
+  pendingInvitations: RoleInvitation[];
+}
+
+// SUPERADMIN_EMAILS in the server environment. Lets the first super admin
+// sign in before anyone can edit the allow-lists.
+function getBootstrapSuperadmins() {
+  return (process.env.SUPERADMIN_EMAILS || "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// The highest role an email is entitled to from the bootstrap list, the
+// allow-lists in system config and pending invitations, or null for none
+export async function getProvisionedRole(
+  email: string
+): Promise<ProvisionedRole | null> {
+  const normalized = email.trim().toLowerCase();
+  const [superadmins, admins, invitations] = await Promise.all([
+    getConfigValue("superadmin_emails"),
+    getConfigValue("admin_emails"),
+    storage.getRoleInvitations({ email: normalized }),
+  ]);
+
+  const candidates: RoleGrant[] = [];
+  if (getBootstrapSuperadmins().includes(normalized)) {
+    candidates.push({ role: "SUPERADMIN", source: "bootstrap" });
+  }
+  if (superadmins.includes(normalized)) {
+    candidates.push({ role: "SUPERADMIN", source: "allow-list" });
+  } else if (admins.includes(normalized)) {
+    candidates.push({ role: "ADMIN", source: "allow-list" });
+  }
+  const pendingInvitations = invitations.filter(
+    (invitation) => getInvitationStatus(invitation) === "pending"
+  );
+  for (const invitation of pendingInvitations) {
+    candidates.push({ role: invitation.role, source: "invitation", invitation });
+  }
+
+  const granted = candidates.reduce<RoleGrant | null>(
+    (best, candidate) =>
+      !best || getRoleRank(candidate.role) > getRoleRank(best.role)
+        ? candidate
+        : best,
+    null
+  );
+  return granted && { ...granted, pendingInvitations };
+}
+
+// Run on every sign-in. Only ever promotes, so a demotion made in the user
+// console sticks unless the email is also still on an allow-list.
+export async function applyProvisionedRole(user: User): Promise<User> {
+  const provisioned = await getProvisionedRole(user.email);
+  if (!provisioned) return user;
+
+  // Signing in uses up every pending invitation, not just the one granting
+  // the role; one left pending would promote the user again after a demotion
+  const acceptedAt = new Date();
+  for (const invitation of provisioned.pendingInvitations) {
+    await storage.updateRoleInvitation(invitation.id, {
+      acceptedAt,
+      acceptedBy: user.id,
+    });
+  }
+  if (getRoleRank(provisioned.role) <= getRoleRank(user.role)) {
+    return user;
+  }
+
+  const updated = await storage.updateUser(user.id, {
+    role: provisioned.role,
+  });
+  await storage.createAuditLog({
+    userId: provisioned.invitation?.invitedBy ?? null,
+    action: "user_role_provisioned",
+    entityType: "user",
+    entityId: user.id.toString(),
+    details: {
+      from: user.role,
+      to: provisioned.role,
+      source: provisioned.source,
+      invitationId: provisioned.invitation?.id ?? null,
+    },
+  });
+  publishAccountChange(user.id);
+  return updated;
+}
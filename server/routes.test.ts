@@ -0,0 +1,618 @@
+/** @format */
+
+import express from "express";
+import session from "express-session";
+import request from "supertest";
+import { beforeAll, describe, expect, it } from "vitest";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+
+const ROOT_EMAIL = "root@smail.iitm.ac.in";
+process.env.SUPERADMIN_EMAILS = ROOT_EMAIL;
+
+let app: express.Express;
+
+// Stands in for the Firebase middleware in server/index.ts: the header plays
+// the part of a verified ID token
+beforeAll(async () => {
+  app = express();
+  app.use(express.json());
+  app.use(async (req, _res, next) => {
+    const email = req.header("x-test-email");
+    if (email) {
+      req.authEmail = email;
+      const user = await storage.getUserByEmail(email);
+      if (user) req.user = user;
+    }
+    next();
+  });
+  app.use(
+    session({ secret: "test", resave: false, saveUninitialized: false })
+  );
+  await registerRoutes(app);
+});
+
+const register = (email: string, body: Record<string, unknown> = {}) =>
+  request(app)
+    .post("/api/user/register")
+    .set("x-test-email", email)
+    .send({ displayName: email.split("@")[0], ...body });
+
+describe("POST /api/user/register", () => {
+  it("requires a verified email", async () => {
+    const res = await request(app)
+      .post("/api/user/register")
+      .send({ email: "anyone@smail.iitm.ac.in", displayName: "Anyone" });
+    expect(res.status).toBe(401);
+  });
+
+  it("ignores the role and email sent by the client", async () => {
+    const res = await register("forger@smail.iitm.ac.in", {
+      email: ROOT_EMAIL,
+      role: "SUPERADMIN",
+    });
+    expect(res.status).toBe(201);
+    expect(res.body.email).toBe("forger@smail.iitm.ac.in");
+    expect(res.body.role).toBe("USER");
+  });
+
+  it("keeps the stored role when an existing user sends a role", async () => {
+    await register("returning@smail.iitm.ac.in");
+    const res = await register("returning@smail.iitm.ac.in", {
+      role: "ADMIN",
+    });
+    expect(res.status).toBe(200);
+    expect(res.body.role).toBe("USER");
+  });
+
+  it("grants roles from the bootstrap list and the allow-lists", async () => {
+    const root = await register(ROOT_EMAIL);
+    expect(root.body.role).toBe("SUPERADMIN");
+
+    const update = await request(app)
+      .post("/api/system/config")
+      .set("x-test-email", ROOT_EMAIL)
+      .send({ key: "admin_emails", value: ["lab@smail.iitm.ac.in"] });
+    expect(update.status).toBeLessThan(300);
+
+    const res = await register("lab@smail.iitm.ac.in");
+    expect(res.body.role).toBe("ADMIN");
+  });
+});
+
+describe("PATCH /api/users/:id/role", () => {
+  it("only lets super admins change roles", async () => {
+    const student = await register("student@smail.iitm.ac.in");
+    const admin = await register("admin@smail.iitm.ac.in");
+    await storage.updateUser(admin.body.id, { role: "ADMIN" });
+
+    const bySelf = await request(app)
+      .patch(`/api/users/${student.body.id}/role`)
+      .set("x-test-email", "student@smail.iitm.ac.in")
+      .send({ role: "SUPERADMIN" });
+    expect(bySelf.status).toBe(403);
+
+    const byAdmin = await request(app)
+      .patch(`/api/users/${student.body.id}/role`)
+      .set("x-test-email", "admin@smail.iitm.ac.in")
+      .send({ role: "ADMIN" });
+    expect(byAdmin.status).toBe(403);
+
+    expect((await storage.getUser(student.body.id))?.role).toBe("USER");
+  });
+
+  it("lets a super admin change anyone's role but their own", async () => {
+    const root = await register(ROOT_EMAIL);
+    const student = await register("promoted@smail.iitm.ac.in");
+    const change = (id: number, role: string) =>
+      request(app)
+        .patch(`/api/users/${id}/role`)
+        .set("x-test-email", ROOT_EMAIL)
+        .send({ role, reason: "Runs the lab now" });
+
+    const own = await change(root.body.id, "ADMIN");
+    expect(own.status).toBe(403);
+    expect(own.body.message).toBe("You can't change your own role");
+
+    const promoted = await change(student.body.id, "ADMIN");
+    expect(promoted.body.role).toBe("ADMIN");
+    const [log] = await storage.getAuditLogs({
+      action: "user_role_changed",
+      entityId: student.body.id.toString(),
+    });
+    expect(log).toMatchObject({
+      details: { from: "USER", to: "ADMIN" },
+      reason: "Runs the lab now",
+    });
+  });
+});
+
+describe("GET /api/system/config/:key", () => {
+  it("serves public settings to anyone", async () => {
+    const res = await request(app).get("/api/system/config/max_file_size_mb");
+    expect(res.status).toBe(200);
+  });
+
+  it("keeps the allow-lists and email templates from students", async () => {
+    await register("reader@smail.iitm.ac.in");
+    for (const key of ["superadmin_emails", "admin_emails"]) {
+      const anonymous = await request(app).get(`/api/system/config/${key}`);
+      expect(anonymous.status).toBe(401);
+
+      const student = await request(app)
+        .get(`/api/system/config/${key}`)
+        .set("x-test-email", "reader@smail.iitm.ac.in");
+      expect(student.status).toBe(403);
+    }
+
+    const template = await request(app).get(
+      "/api/system/config/email_template_order_submitted"
+    );
+    expect(template.status).toBe(401);
+  });
+});
+
+describe("/api/user/preferences", () => {
+  it("saves opt-outs but not for mandatory notifications", async () => {
+    await register("quiet@smail.iitm.ac.in");
+    const save = (body: unknown) =>
+      request(app)
+        .put("/api/user/preferences")
+        .set("x-test-email", "quiet@smail.iitm.ac.in")
+        .send(body);
+
+    const mandatory = await save({ email: { order_failed: false } });
+    expect(mandatory.status).toBe(400);
+    expect(mandatory.body.message).toBe(
+      "Print failed notifications can't be turned off"
+    );
+
+    expect((await save({ email: { order_started: false } })).status).toBe(200);
+    const res = await request(app)
+      .get("/api/user/preferences")
+      .set("x-test-email", "quiet@smail.iitm.ac.in");
+    expect(res.body).toEqual({ email: { order_started: false }, inApp: {} });
+  });
+});
+
+describe("/api/notifications", () => {
+  it("lists, and marks read, only the user's own notifications", async () => {
+    const owner = await register("inbox@smail.iitm.ac.in");
+    await register("nosy@smail.iitm.ac.in");
+    const notification = await storage.createNotification({
+      userId: owner.body.id,
+      type: "order_approved",
+      title: "#RC26001: Order approved",
+      body: "Bracket was approved and is in the queue.",
+    });
+    const as = (email: string) => ({ "x-test-email": email });
+
+    const list = await request(app)
+      .get("/api/notifications")
+      .set(as("inbox@smail.iitm.ac.in"));
+    expect(list.body.unreadCount).toBe(1);
+    expect(list.body.notifications[0].id).toBe(notification.id);
+
+    const byOther = await request(app)
+      .patch(`/api/notifications/${notification.id}/read`)
+      .set(as("nosy@smail.iitm.ac.in"));
+    expect(byOther.status).toBe(404);
+
+    const readAll = await request(app)
+      .post("/api/notifications/read-all")
+      .set(as("inbox@smail.iitm.ac.in"));
+    expect(readAll.status).toBe(204);
+    const after = await request(app)
+      .get("/api/notifications")
+      .set(as("inbox@smail.iitm.ac.in"));
+    expect(after.body.unreadCount).toBe(0);
+  });
+});
+
+describe("PATCH /api/orders/:id/status", () => {
+  it("leaves starting and finishing batched orders to the batch", async () => {
+    const admin = await register("batcher@smail.iitm.ac.in");
+    await storage.updateUser(admin.body.id, { role: "ADMIN" });
+    const batch = await storage.createBatch({
+      name: "Plate",
+      createdById: admin.body.id,
+    });
+    const order = await storage.createOrder({
+      userId: admin.body.id,
+      projectName: "Batched",
+      status: "approved",
+      batchId: batch.id,
+    });
+
+    const res = await request(app)
+      .patch(`/api/orders/${order.id}/status`)
+      .set("x-test-email", "batcher@smail.iitm.ac.in")
+      .send({ status: "started" });
+    expect(res.status).toBe(409);
+    expect(res.body.message).toMatch(/remove it from the batch first/);
+    expect((await storage.getOrder(order.id))?.status).toBe("approved");
+  });
+});
+
+describe("GET /api/batches/suggestions", () => {
+  it("packs for the requested printer only", async () => {
+    const admin = await register("planner@smail.iitm.ac.in");
+    await storage.updateUser(admin.body.id, { role: "ADMIN" });
+    const small = await storage.createPrinter({
+      name: "Mini",
+      buildVolumeX: 120,
+      buildVolumeY: 120,
+      buildVolumeZ: 120,
+      supportedMaterials: ["TPU"],
+    });
+    const large = await storage.createPrinter({
+      name: "Maxi",
+      buildVolumeX: 250,
+      buildVolumeY: 250,
+      buildVolumeZ: 250,
+      supportedMaterials: ["TPU"],
+    });
+    const orders = [];
+    for (const name of ["a.stl", "b.stl"]) {
+      orders.push(
+        await storage.createOrder({
+          userId: admin.body.id,
+          projectName: "Flexi",
+          status: "approved",
+          material: "TPU",
+          files: [
+            {
+              name,
+              size: 1,
+              type: "model/stl",
+              storageKey: `1/${name}`,
+              checksum: "",
+              uploadedAt: new Date().toISOString(),
+              analysis: {
+                kind: "stl",
+                triangleCount: 12,
+                volumeCm3: 1,
+                surfaceAreaCm2: 1,
+                boundingBox: {
+                  min: [0, 0, 0],
+                  max: [100, 100, 10],
+                  size: { x: 100, y: 100, z: 10 },
+                },
+                fitsBuildVolume: true,
+                estimatedGrams: 5,
+                estimatedHours: 1,
+              },
+            },
+          ],
+        })
+      );
+    }
+    const suggest = (query = "") =>
+      request(app)
+        .get(`/api/batches/suggestions${query}`)
+        .set("x-test-email", "planner@smail.iitm.ac.in");
+    const forOrders = (suggestions: { orderIds: number[] }[]) =>
+      suggestions.filter((suggestion) =>
+        suggestion.orderIds.includes(orders[0].id)
+      );
+
+    expect(forOrders((await suggest()).body)).toEqual([
+      expect.objectContaining({ printerId: large.id }),
+    ]);
+    // Both parts won't fit on the mini printer's plate
+    expect(forOrders((await suggest(`?printerId=${small.id}`)).body)).toEqual(
+      []
+    );
+
+    expect((await suggest("?printerId=abc")).status).toBe(400);
+    expect((await suggest("?printerId=9999")).status).toBe(404);
+  });
+});
+
+describe("/api/orders/:id/comments", () => {
+  it("keeps internal notes and other students' threads private", async () => {
+    const student = await register("asker@smail.iitm.ac.in");
+    await register("peer@smail.iitm.ac.in");
+    const admin = await register("answerer@smail.iitm.ac.in");
+    await storage.updateUser(admin.body.id, { role: "ADMIN" });
+    const order = await storage.createOrder({
+      userId: student.body.id,
+      projectName: "Questions",
+    });
+    const comments = `/api/orders/${order.id}/comments`;
+    const list = (email: string) =>
+      request(app).get(comments).set("x-test-email", email);
+    const post = (email: string, body: Record<string, unknown>) =>
+      request(app).post(comments).set("x-test-email", email).send(body);
+
+    const question = await request(app)
+      .post(comments)
+      .set("x-test-email", "asker@smail.iitm.ac.in")
+      .field("body", "Can it be red?");
+    expect(question.status).toBe(201);
+    expect(question.body).toMatchObject({ own: true, internal: false });
+    expect(
+      (await post("asker@smail.iitm.ac.in", { body: "Note", internal: true }))
+        .status
+    ).toBe(403);
+    const note = await post("answerer@smail.iitm.ac.in", {
+      body: "Check stock",
+      internal: true,
+    });
+    expect(note.status).toBe(201);
+
+    const seenByStudent = (await list("asker@smail.iitm.ac.in")).body;
+    expect(seenByStudent.map((comment: any) => comment.body)).toEqual([
+      "Can it be red?",
+    ]);
+    const seenByAdmin = (await list("answerer@smail.iitm.ac.in")).body;
+    expect(seenByAdmin.map((comment: any) => comment.body)).toEqual([
+      "Can it be red?",
+      "Check stock",
+    ]);
+    expect((await list("peer@smail.iitm.ac.in")).status).toBe(403);
+
+    const edit = (id: number, email: string) =>
+      request(app)
+        .patch(`${comments}/${id}`)
+        .set("x-test-email", email)
+        .send({ body: "Edited" });
+    expect((await edit(note.body.id, "asker@smail.iitm.ac.in")).status).toBe(
+      404
+    );
+    expect(
+      (await edit(question.body.id, "answerer@smail.iitm.ac.in")).status
+    ).toBe(403);
+    const edited = await edit(question.body.id, "asker@smail.iitm.ac.in");
+    expect(edited.body).toMatchObject({ body: "Edited" });
+    expect(edited.body.editedAt).toBeTruthy();
+
+    // Staff can moderate the student's comment
+    const removed = await request(app)
+      .delete(`${comments}/${question.body.id}`)
+      .set("x-test-email", "answerer@smail.iitm.ac.in");
+    expect(removed.status).toBe(200);
+    expect((await list("asker@smail.iitm.ac.in")).body).toEqual([]);
+  });
+});
+
+describe("/api/tickets", () => {
+  it("links the student's order and records staff replies", async () => {
+    const student = await register("helpme@smail.iitm.ac.in");
+    const classmate = await register("helpme-too@smail.iitm.ac.in");
+    const admin = await register("helpdesk@smail.iitm.ac.in");
+    await storage.updateUser(admin.body.id, { role: "ADMIN" });
+    const order = await storage.createOrder({
+      userId: student.body.id,
+      projectName: "Stuck",
+    });
+    const theirs = await storage.createOrder({
+      userId: classmate.body.id,
+      projectName: "Not mine",
+    });
+    const open = (orderId: string) =>
+      request(app)
+        .post("/api/tickets")
+        .set("x-test-email", "helpme@smail.iitm.ac.in")
+        .send({ subject: "general", orderId, message: "Where is my print?" });
+
+    expect((await open(theirs.orderId)).status).toBe(400);
+    const created = await open(order.orderId.slice(1).toLowerCase());
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({
+      status: "open",
+      order: { id: order.id, orderId: order.orderId },
+    });
+    const ticket = `/api/tickets/${created.body.id}`;
+
+    const reply = await request(app)
+      .post(`${ticket}/replies`)
+      .set("x-test-email", "helpdesk@smail.iitm.ac.in")
+      .send({ body: "It's on the shelf" });
+    expect(reply.body).toMatchObject({
+      status: "answered",
+      assignedToId: admin.body.id,
+      user: { id: student.body.id },
+    });
+
+    const seen = await request(app)
+      .get(ticket)
+      .set("x-test-email", "helpme@smail.iitm.ac.in");
+    expect(seen.body.assignedToId).toBeNull();
+    expect(seen.body).not.toHaveProperty("user");
+    expect(seen.body.replies[0].author).toEqual({
+      id: null,
+      name: "Print lab staff",
+      staff: true,
+    });
+    expect(
+      (
+        await request(app)
+          .get(ticket)
+          .set("x-test-email", "helpme-too@smail.iitm.ac.in")
+      ).status
+    ).toBe(403);
+
+    await request(app)
+      .patch(`${ticket}/close`)
+      .set("x-test-email", "helpdesk@smail.iitm.ac.in");
+    const late = await request(app)
+      .post(`${ticket}/replies`)
+      .set("x-test-email", "helpme@smail.iitm.ac.in")
+      .send({ body: "Thanks!" });
+    expect(late.status).toBe(409);
+  });
+});
+
+describe("POST /api/system/config", () => {
+  it("checks the value and who may change it", async () => {
+    const root = await register(ROOT_EMAIL);
+    expect(root.body.role).toBe("SUPERADMIN");
+    const admin = await register("tinkerer@smail.iitm.ac.in");
+    await storage.updateUser(admin.body.id, { role: "ADMIN" });
+    const update = (email: string, body: Record<string, unknown>) =>
+      request(app)
+        .post("/api/system/config")
+        .set("x-test-email", email)
+        .send(body);
+
+    const byAdmin = await update("tinkerer@smail.iitm.ac.in", {
+      key: "max_file_size_mb",
+      value: 80,
+    });
+    expect(byAdmin.status).toBe(403);
+    const invalid = await update(ROOT_EMAIL, {
+      key: "max_file_size_mb",
+      value: "lots",
+    });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.message).toMatch(/^Maximum file size: /);
+    expect(
+      (await update(ROOT_EMAIL, { key: "max_size", value: 80 })).body.message
+    ).toBe("Unknown setting");
+
+    const saved = await update(ROOT_EMAIL, {
+      key: "max_file_size_mb",
+      value: 80,
+    });
+    expect(saved.status).toBe(201);
+    const list = await request(app)
+      .get("/api/system/config")
+      .set("x-test-email", "tinkerer@smail.iitm.ac.in");
+    expect(
+      list.body.find((config: any) => config.key === "max_file_size_mb")
+    ).toMatchObject({
+      value: 80,
+      updatedBy: { id: root.body.id, displayName: "root" },
+    });
+  });
+});
+
+describe("/api/system/config/:key/rollback", () => {
+  it("restores the value an earlier revision replaced", async () => {
+    await register(ROOT_EMAIL);
+    const key = "file_retention_days";
+    for (const value of [60, 30]) {
+      await request(app)
+        .post("/api/system/config")
+        .set("x-test-email", ROOT_EMAIL)
+        .send({ key, value, reason: `Keep ${value} days` });
+    }
+    const history = async () =>
+      (
+        await request(app)
+          .get(`/api/system/config/${key}/history`)
+          .set("x-test-email", ROOT_EMAIL)
+      ).body;
+    const [latest] = await history();
+    expect(latest).toMatchObject({
+      previousValue: 60,
+      value: 30,
+      reason: "Keep 30 days",
+      changedBy: { displayName: "root" },
+    });
+
+    const rollback = (body: Record<string, unknown>) =>
+      request(app)
+        .post(`/api/system/config/${key}/rollback`)
+        .set("x-test-email", ROOT_EMAIL)
+        .send(body);
+    expect((await rollback({ version: latest.version })).status).toBe(400);
+    expect((await rollback({ version: 999, reason: "Oops" })).status).toBe(
+      404
+    );
+    const undone = await rollback({
+      version: latest.version,
+      reason: "Too short",
+    });
+    expect(undone.status).toBe(201);
+    expect(undone.body.value).toBe(60);
+    expect((await history())[0]).toMatchObject({
+      version: latest.version + 1,
+      previousValue: 30,
+      value: 60,
+      revertedVersion: latest.version,
+    });
+  });
+});
+
+describe("/api/users/:id/suspend", () => {
+  it("locks the account out until it's lifted", async () => {
+    const student = await register("rowdy@smail.iitm.ac.in");
+    const admin = await register("warden@smail.iitm.ac.in");
+    await storage.updateUser(admin.body.id, { role: "ADMIN" });
+    const other = await register("warden-two@smail.iitm.ac.in");
+    await storage.updateUser(other.body.id, { role: "ADMIN" });
+    const post = (email: string, path: string, body = {}) =>
+      request(app).post(path).set("x-test-email", email).send(body);
+
+    const suspended = await post(
+      "warden@smail.iitm.ac.in",
+      `/api/users/${student.body.id}/suspend`,
+      { reason: "Printing weapons" }
+    );
+    expect(suspended.body).toMatchObject({
+      suspended: true,
+      suspendedReason: "Printing weapons",
+    });
+    const locked = await request(app)
+      .get("/api/notifications")
+      .set("x-test-email", "rowdy@smail.iitm.ac.in");
+    expect(locked.status).toBe(403);
+    expect(locked.body).toEqual({
+      message: "Account suspended: Printing weapons",
+      suspended: true,
+    });
+
+    // Only super admins may suspend staff, and no one themselves
+    const bulk = await post(
+      "warden@smail.iitm.ac.in",
+      "/api/users/bulk-suspend",
+      {
+        reason: "Spring cleaning",
+        userIds: [admin.body.id, other.body.id, 9999],
+      }
+    );
+    expect(bulk.body).toEqual({
+      suspended: [],
+      skipped: [
+        { id: admin.body.id, message: "You can't suspend your own account" },
+        {
+          id: other.body.id,
+          message: "Only super admins can suspend staff accounts",
+        },
+        { id: 9999, message: "User not found" },
+      ],
+    });
+
+    await post(
+      "warden@smail.iitm.ac.in",
+      `/api/users/${student.body.id}/unsuspend`
+    );
+    const unlocked = await request(app)
+      .get("/api/notifications")
+      .set("x-test-email", "rowdy@smail.iitm.ac.in");
+    expect(unlocked.status).toBe(200);
+  });
+});
+
+describe("GET /api/users", () => {
+  it("searches and pages through users", async () => {
+    const admin = await register("census@smail.iitm.ac.in");
+    await storage.updateUser(admin.body.id, { role: "ADMIN" });
+    for (const name of ["lister-a", "lister-b", "lister-c"]) {
+      await register(`${name}@smail.iitm.ac.in`);
+    }
+
+    const res = await request(app)
+      .get("/api/users?search=lister&pageSize=2&page=2")
+      .set("x-test-email", "census@smail.iitm.ac.in");
+    expect(res.body).toMatchObject({ total: 3, page: 2, pageSize: 2 });
+    expect(res.body.users).toHaveLength(1);
+
+    const invalid = await request(app)
+      .get("/api/users?status=banned")
+      .set("x-test-email", "census@smail.iitm.ac.in");
+    expect(invalid.status).toBe(400);
+  });
+});
@@ -2,43 +2,258 @@
 
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import multer from "multer";
+import { storage, type Order, type User } from "./storage";
+import { blobStore } from "./blobStore";
 import {
-  insertUserSchema,
-  insertOrderSchema,
+  getFileExtension,
+  claimPendingUploads,
+  getUploadLimits,
+  releasePendingUploads,
+  resolveOrderFiles,
+  storePendingUpload,
+  storeUpload,
+} from "./files";
+import { runFileRetention } from "./fileRetention";
+import { updateSystemConfig } from "./systemConfig";
+import { applyProvisionedRole } from "./roles";
+import { buildQueueSnapshot } from "./queue";
+import {
+  consumeOrderFilament,
+  getLowStockThreshold,
+  type FilamentConsumption,
+} from "./filament";
+import {
+  finishBatch,
+  getBatchFinishProblems,
+  getBatchStartProblems,
+  getBatchSuggestions,
+  startBatch,
+} from "./batches";
+import {
+  notifyOrderComment,
+  notifyOrderEvent,
+  notifyTicketReply,
+  orderStatusNotifications,
+} from "./notifications";
+import { getOrderTimeline, toTimelineActor } from "./orderTimeline";
+import {
+  onAccountChange,
+  publishAccountChange,
+  publishBatchChange,
+  publishCommentChange,
+  publishOrderChange,
+  publishTicketChange,
+  subscribeToLiveEvents,
+} from "./events";
+import {
+  orderSubmitSchema,
+  orderUpdateSchema,
   insertBatchSchema,
   insertAuditLogSchema,
+  insertPrinterSchema,
+  insertFilamentSpoolSchema,
+  notificationPreferencesSchema,
+  BatchStatus,
+  FilamentRequestStatus,
   OrderStatus,
+  TicketStatus,
+  type CommentAttachment,
+  type OrderComment,
+  type OrderFile,
+  type RoleInvitation,
+  type SupportTicket,
 } from "../shared/schema";
+import {
+  batchOrdersSchema,
+  batchStatusUpdateSchema,
+  batchableOrderStatuses,
+  canEditBatchOrders,
+  canTransitionBatch,
+  getAllowedBatchTransitions,
+} from "../shared/batchStatus";
+import {
+  batchSuggestionAcceptSchema,
+  batchSuggestionQuerySchema,
+} from "../shared/batchSuggestions";
+import {
+  MAX_COMMENT_ATTACHMENTS,
+  commentAttachmentTypes,
+  orderCommentCreateSchema,
+  orderCommentUpdateSchema,
+  type OrderCommentView,
+} from "../shared/comments";
+import {
+  canTransitionOrder,
+  getAllowedTransitions,
+  getReasonField,
+  orderStatusUpdateSchema,
+} from "../shared/orderStatus";
+import {
+  checkPrinterFit,
+  isPrinterAvailable,
+  printerAssignmentSchema,
+} from "../shared/printers";
+import {
+  computeOrderPriorities,
+  orderPriorityUpdateSchema,
+} from "../shared/priority";
+import { isLowStock } from "../shared/filament";
+import { NotificationType } from "../shared/notifications";
+import {
+  canRequestFilament,
+  filamentRequestCreateSchema,
+  isAwaitingFilament,
+} from "../shared/filamentRequest";
+import {
+  contactSchema,
+  normalizeOrderCode,
+  ticketAssignSchema,
+  ticketReplySchema,
+  type TicketView,
+} from "../shared/tickets";
+import {
+  canEditConfig,
+  getConfigDefinition,
+  isSystemConfigKey,
+  systemConfigRollbackSchema,
+  systemConfigUpdateSchema,
+  type SystemConfigRevisionView,
+  type SystemConfigView,
+} from "../shared/systemConfig";
+import {
+  bulkUserSuspendSchema,
+  describeSuspension,
+  getInvitationStatus,
+  getRoleRank,
+  hasRole,
+  isStaff,
+  isSuspended,
+  registerUserSchema,
+  roleInvitationCreateSchema,
+  userListQuerySchema,
+  userRoleUpdateSchema,
+  userSuspendSchema,
+  type BulkSuspendResult,
+  type RoleInvitationView,
+  type UserListResponse,
+} from "../shared/users";
 import admin from "firebase-admin";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware to extract user from session or Firebase token
   const requireAuth = (req: any, res: any, next: any) => {
     if (req.user) {
+      if (isSuspended(req.user)) {
+        return res
+          .status(403)
+          .json({ message: describeSuspension(req.user), suspended: true });
+      }
       return next();
     }
     res.status(401).json({ message: "Authentication required" });
   };
 
-  // Role hierarchy for access control
-  const roleHierarchy = ["GUEST", "USER", "ADMIN", "SUPERADMIN"];
-
   const requireRole = (roles: string[]) => (req: any, res: any, next: any) => {
     if (!req.user || !req.user.role) {
       return res.status(403).json({ message: "Insufficient permissions" });
     }
     // Find the highest required role index
     const minRequiredIndex = Math.min(
-      ...roles.map((r) => roleHierarchy.indexOf(r)).filter((i) => i !== -1)
+      ...roles.map(getRoleRank).filter((i) => i !== -1)
     );
-    const userRoleIndex = roleHierarchy.indexOf(req.user.role.toUpperCase());
+    const userRoleIndex = getRoleRank(req.user.role);
     if (userRoleIndex === -1 || userRoleIndex < minRequiredIndex) {
       return res.status(403).json({ message: "Insufficient permissions" });
     }
     next();
   };
 
+  // Why the actor may not suspend the target, or null when they may. Only
+  // super admins can suspend staff.
+  const getSuspendBlocker = (
+    actor: { id: number; role: string },
+    target: User
+  ) => {
+    if (target.id === actor.id) return "You can't suspend your own account";
+    if (isStaff(target) && !hasRole(actor, "SUPERADMIN")) {
+      return "Only super admins can suspend staff accounts";
+    }
+    return null;
+  };
+
+  const suspendUser = async (
+    actorId: number,
+    target: User,
+    suspension: { reason: string; until?: Date | null }
+  ) => {
+    const user = await storage.updateUser(target.id, {
+      suspended: true,
+      suspendedReason: suspension.reason,
+      suspendedUntil: suspension.until ?? null,
+    });
+    await storage.createAuditLog({
+      userId: actorId,
+      action: "user_suspended",
+      entityType: "user",
+      entityId: target.id.toString(),
+      details: { until: suspension.until ?? null },
+      reason: suspension.reason,
+    });
+    publishAccountChange(target.id);
+    return user;
+  };
+
+  // Checks that every order can run on the printer. Returns the error
+  // response to send, or null when the assignment is fine.
+  const checkPrinterAssignment = async (
+    orders: Order[],
+    printerId: number
+  ): Promise<{ status: number; body: Record<string, unknown> } | null> => {
+    const printer = await storage.getPrinter(printerId);
+    if (!printer) {
+      return { status: 404, body: { message: "Printer not found" } };
+    }
+    if (!isPrinterAvailable(printer)) {
+      return {
+        status: 409,
+        body: { message: `${printer.name} is ${printer.status}` },
+      };
+    }
+    const problems = orders.flatMap((order) =>
+      checkPrinterFit(order, printer).map(
+        (problem) => `${order.orderId}: ${problem}`
+      )
+    );
+    if (problems.length > 0) {
+      return {
+        status: 400,
+        body: { message: problems[0], problems },
+      };
+    }
+    return null;
+  };
+
+  const auditFilamentConsumption = (
+    userId: number,
+    orderId: number,
+    consumption: FilamentConsumption,
+    estimated: boolean
+  ) =>
+    storage.createAuditLog({
+      userId,
+      action: "filament_consumed",
+      entityType: "filament_spool",
+      entityId: consumption.spool.id.toString(),
+      details: {
+        orderId,
+        grams: consumption.grams,
+        remainingGrams: consumption.spool.remainingGrams,
+        estimated,
+        lowStock: consumption.lowStock,
+      },
+    });
+
   // User routes
   app.get("/api/user/profile", requireAuth, async (req, res) => {
     try {
@@ -53,22 +268,154 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/user/preferences", requireAuth, async (req, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      // Older or hand-edited values fall back to everything on
+      const parsed = notificationPreferencesSchema.safeParse(
+        user.notificationPreferences ?? {}
+      );
+      res.json(parsed.success ? parsed.data : { email: {}, inApp: {} });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/user/preferences", requireAuth, async (req, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+      const parsed = notificationPreferencesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: parsed.error.errors[0]?.message || "Invalid preferences",
+        });
+      }
+
+      const user = await storage.updateUser(req.user.id, {
+        notificationPreferences: parsed.data,
+      });
+
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "notification_preferences_updated",
+        entityType: "user",
+        entityId: req.user.id.toString(),
+        details: parsed.data,
+      });
+
+      res.json(user.notificationPreferences);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to update preferences" });
+    }
+  });
+
+  app.get("/api/notifications", requireAuth, async (req, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+      const [notifications, unreadCount] = await Promise.all([
+        storage.getUserNotifications(req.user.id),
+        storage.getUnreadNotificationCount(req.user.id),
+      ]);
+      res.json({ notifications, unreadCount });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/notifications/:id/read", requireAuth, async (req, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+      const notification = await storage.markNotificationRead(
+        parseInt(req.params.id),
+        req.user.id
+      );
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/notifications/read-all", requireAuth, async (req, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+      await storage.markAllNotificationsRead(req.user.id);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Server-Sent Events stream of order, batch and queue changes the user is
+  // allowed to see
+  app.get("/api/events", requireAuth, (req, res) => {
+    if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      // Stops reverse proxies from buffering the stream
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    res.write("retry: 5000\n\n");
+
+    const unsubscribe = subscribeToLiveEvents(
+      { userId: req.user.id, staff: isStaff(req.user) },
+      (event) => {
+        res.write(
+          `event: ${event.type}\ndata: ${JSON.stringify(event.data ?? null)}\n\n`
+        );
+      }
+    );
+    const stopWatchingAccount = onAccountChange(req.user.id, () => res.end());
+    // Comments keep idle connections from being closed by proxies
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), 25000);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      stopWatchingAccount();
+    });
+  });
+
   app.post("/api/user/register", async (req, res) => {
     try {
       console.log("Registration request body:", req.body);
 
+      if (!req.authEmail) {
+        return res
+          .status(401)
+          .json({ message: "Sign in with Google to register" });
+      }
+
       // Check if user already exists first
-      const existingUser = await storage.getUserByEmail(req.body.email);
+      const existingUser = await storage.getUserByEmail(req.authEmail);
       if (existingUser) {
+        // Picks up allow-list changes and invitations made since last time
+        const user = await applyProvisionedRole(existingUser);
         // Store user in session and return
-        req.session.user = existingUser;
-        console.log("Existing user logged in:", existingUser.email);
-        return res.json(existingUser);
+        req.session.user = user;
+        console.log("Existing user logged in:", user.email);
+        return res.json(user);
       }
 
-      // Validate the data against schema
-      const userData = insertUserSchema.parse(req.body);
-      const user = await storage.createUser(userData);
+      // Only profile fields are read from the body; a role sent by the
+      // client is dropped here and decided by applyProvisionedRole instead
+      const profile = registerUserSchema.parse(req.body);
+      const user = await applyProvisionedRole(
+        await storage.createUser({
+          ...profile,
+          email: req.authEmail,
+          role: "USER",
+        })
+      );
 
       // Store new user in session
       req.session.user = user;
@@ -124,15 +471,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Unauthorized" });
       }
       const currentUser = req.user;
-      let orders;
-
-      if (currentUser.role === "student") {
-        orders = await storage.getUserOrders(currentUser.id);
-      } else {
-        orders = await storage.getAllOrders();
-      }
+      const staff = isStaff(currentUser);
+      const orders = staff
+        ? await storage.getAllOrders()
+        : await storage.getUserOrders(currentUser.id);
+      const queue = await buildQueueSnapshot();
+      const queueByOrder = new Map(
+        queue.entries.map((entry) => [entry.orderId, entry])
+      );
+      // Only staff see scores; their list holds every order, which the
+      // club fairness term needs
+      const priorities = staff ? computeOrderPriorities(orders) : undefined;
 
-      // Include club and user information
+      // Include club, user and queue information
       const ordersWithDetails = await Promise.all(
         orders.map(async (order) => {
           const club = order.clubId
@@ -142,7 +493,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return {
             ...order,
             club,
-            user: currentUser.role !== "student" ? user : undefined,
+            user: staff ? user : undefined,
+            queue: queueByOrder.get(order.id) ?? null,
+            priority: priorities?.get(order.id),
           };
         })
       );
@@ -153,6 +506,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Students only see their own place in the queue; staff see every entry
+  app.get("/api/queue", requireAuth, async (req, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+      const queue = await buildQueueSnapshot();
+      if (isStaff(req.user)) return res.json(queue);
+
+      const ownOrderIds = new Set(
+        (await storage.getUserOrders(req.user.id)).map((order) => order.id)
+      );
+      res.json({
+        ...queue,
+        entries: queue.entries.filter((entry) => ownOrderIds.has(entry.orderId)),
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   app.get("/api/orders/:id", requireAuth, async (req, res) => {
     try {
       if (!req.user) return res.status(401).json({ message: "Unauthorized" });
@@ -162,222 +534,2140 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Students can only view their own orders
-      if (req.user.role === "student" && order.userId !== req.user.id) {
+      if (!isStaff(req.user) && order.userId !== req.user.id) {
         return res.status(403).json({ message: "Access denied" });
       }
 
       const club = order.clubId ? await storage.getClub(order.clubId) : null;
       const user = await storage.getUser(order.userId);
+      const batch = order.batchId ? await storage.getBatch(order.batchId) : null;
+      const printerId = batch?.printerId ?? order.printerId;
+      const printer = printerId ? await storage.getPrinter(printerId) : null;
+      const queue = await buildQueueSnapshot();
+      const queueEntry = queue.entries.find((entry) => entry.orderId === order.id);
+
+      // Only what the assignment card shows; the full batch and printer
+      // records, e.g. who created the batch, stay on the staff endpoints
+      res.json({
+        ...order,
+        club,
+        user,
+        batch: batch
+          ? {
+              id: batch.id,
+              batchNumber: batch.batchNumber,
+              name: batch.name,
+              status: batch.status,
+            }
+          : null,
+        printer: printer ? { id: printer.id, name: printer.name } : null,
+        queue: queueEntry ?? null,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/orders/:id/timeline", requireAuth, async (req, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+      const order = await storage.getOrder(parseInt(req.params.id));
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (!isStaff(req.user) && order.userId !== req.user.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      res.json(await getOrderTimeline(order, req.user));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Comment threads. Students can talk to staff about their own orders;
+  // internal notes are between staff only.
+  const getCommentOrder = async (req: any, res: any) => {
+    const order = await storage.getOrder(parseInt(req.params.id));
+    if (!order) {
+      res.status(404).json({ message: "Order not found" });
+      return null;
+    }
+    if (!isStaff(req.user) && order.userId !== req.user.id) {
+      res.status(403).json({ message: "Access denied" });
+      return null;
+    }
+    return order;
+  };
+
+  const getOrderCommentFor = async (req: any, res: any, order: Order) => {
+    const comment = await storage.getOrderComment(parseInt(req.params.commentId));
+    if (
+      !comment ||
+      comment.orderId !== order.id ||
+      (comment.internal && !isStaff(req.user))
+    ) {
+      res.status(404).json({ message: "Comment not found" });
+      return null;
+    }
+    return comment;
+  };
+
+  const toCommentView = async (
+    comment: OrderComment,
+    viewer: { id: number; role: string }
+  ): Promise<OrderCommentView> => {
+    const { authorId, ...rest } = comment;
+    return {
+      ...rest,
+      author: toTimelineActor(authorId, await storage.getUser(authorId), viewer),
+      own: authorId === viewer.id,
+    };
+  };
+
+  app.get("/api/orders/:id/comments", requireAuth, async (req, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+      const order = await getCommentOrder(req, res);
+      if (!order) return;
 
-      res.json({ ...order, club, user });
+      const comments = (await storage.getOrderComments(order.id)).filter(
+        (comment) => isStaff(req.user!) || !comment.internal
+      );
+      res.json(
+        await Promise.all(
+          comments.map((comment) => toCommentView(comment, req.user!))
+        )
+      );
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
+  app.post("/api/orders/:id/comments", requireAuth, async (req, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+      const order = await getCommentOrder(req, res);
+      if (!order) return;
+
+      const { maxFileSizeMb } = await getUploadLimits();
+      const upload = multer({
+        storage: multer.memoryStorage(),
+        limits: { fileSize: maxFileSizeMb * 1024 * 1024 },
+      }).array("attachments", MAX_COMMENT_ATTACHMENTS);
+      await new Promise<void>((resolve, reject) =>
+        upload(req, res, (err) => (err ? reject(err) : resolve()))
+      );
+
+      const parsed = orderCommentCreateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: parsed.error.errors[0]?.message || "Invalid comment",
+        });
+      }
+      const { body, internal } = parsed.data;
+      if (internal && !isStaff(req.user)) {
+        return res
+          .status(403)
+          .json({ message: "Only staff can post internal notes" });
+      }
+
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+      if (!body && files.length === 0) {
+        return res
+          .status(400)
+          .json({ message: "Write a comment or attach a file" });
+      }
+      const rejected = files.find(
+        (file) =>
+          !commentAttachmentTypes.includes(getFileExtension(file.originalname))
+      );
+      if (rejected) {
+        return res.status(400).json({
+          message: `File "${
+            rejected.originalname
+          }" can't be attached. Accepted formats: ${commentAttachmentTypes.join(
+            ", "
+          )}`,
+        });
+      }
+
+      const attachments = await Promise.all(
+        files.map((file) => storeUpload(req.user!.id, file))
+      );
+      const comment = await storage.createOrderComment({
+        orderId: order.id,
+        authorId: req.user.id,
+        body,
+        internal,
+        attachments,
+      });
+
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "order_comment_added",
+        entityType: "order_comment",
+        entityId: comment.id.toString(),
+        details: { orderId: order.id, internal, attachments: attachments.length },
+      });
+
+      const author = await storage.getUser(req.user.id);
+      if (author) notifyOrderComment(order, comment, author);
+      publishCommentChange(order, comment, true);
+
+      res.status(201).json(await toCommentView(comment, req.user));
+    } catch (error) {
+      if (error instanceof multer.MulterError) {
+        const { maxFileSizeMb } = await getUploadLimits();
+        return res.status(error.code === "LIMIT_FILE_SIZE" ? 413 : 400).json({
+          message:
+            error.code === "LIMIT_FILE_SIZE"
+              ? `File is too large. Maximum size is ${maxFileSizeMb}MB.`
+              : `Attach at most ${MAX_COMMENT_ATTACHMENTS} files`,
+        });
+      }
+      res.status(400).json({ message: "Failed to post comment" });
+    }
+  });
+
+  app.patch(
+    "/api/orders/:id/comments/:commentId",
+    requireAuth,
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const order = await getCommentOrder(req, res);
+        if (!order) return;
+        const comment = await getOrderCommentFor(req, res, order);
+        if (!comment) return;
+        if (comment.authorId !== req.user.id) {
+          return res
+            .status(403)
+            .json({ message: "You can only edit your own comments" });
+        }
+
+        const parsed = orderCommentUpdateSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: parsed.error.errors[0]?.message || "Invalid comment",
+          });
+        }
+
+        const updated = await storage.updateOrderComment(comment.id, {
+          body: parsed.data.body,
+          editedAt: new Date(),
+        });
+
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "order_comment_updated",
+          entityType: "order_comment",
+          entityId: comment.id.toString(),
+          details: { orderId: order.id, internal: comment.internal },
+        });
+
+        publishCommentChange(order, updated);
+        res.json(await toCommentView(updated, req.user));
+      } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  app.delete(
+    "/api/orders/:id/comments/:commentId",
+    requireAuth,
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const order = await getCommentOrder(req, res);
+        if (!order) return;
+        const comment = await getOrderCommentFor(req, res, order);
+        if (!comment) return;
+        // Staff may remove anyone's comment, e.g. to moderate
+        if (comment.authorId !== req.user.id && !isStaff(req.user)) {
+          return res
+            .status(403)
+            .json({ message: "You can only delete your own comments" });
+        }
+
+        await storage.deleteOrderComment(comment.id);
+        await Promise.all(
+          ((comment.attachments as CommentAttachment[] | null) || []).map(
+            (attachment) => blobStore.delete(attachment.storageKey)
+          )
+        );
+
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "order_comment_deleted",
+          entityType: "order_comment",
+          entityId: comment.id.toString(),
+          details: { orderId: order.id, internal: comment.internal },
+        });
+
+        publishCommentChange(order, comment);
+        res.json({ message: "Comment deleted" });
+      } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  app.get(
+    "/api/orders/:id/comments/:commentId/attachments/:index",
+    requireAuth,
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const order = await getCommentOrder(req, res);
+        if (!order) return;
+        const comment = await getOrderCommentFor(req, res, order);
+        if (!comment) return;
+
+        const attachments =
+          (comment.attachments as CommentAttachment[] | null) || [];
+        const attachment = attachments[parseInt(req.params.index)];
+        if (!attachment) {
+          return res.status(404).json({ message: "File not found" });
+        }
+
+        const data = await blobStore.get(attachment.storageKey);
+        if (!data) {
+          return res.status(410).json({ message: "File is no longer available" });
+        }
+
+        res.attachment(attachment.name);
+        res.send(data);
+      } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
   app.post("/api/orders", requireAuth, async (req, res) => {
     try {
       if (!req.user) return res.status(401).json({ message: "Unauthorized" });
-      const orderData = insertOrderSchema.parse({
+
+      const orderData = orderSubmitSchema.parse({
         ...req.body,
         userId: req.user.id,
       });
-
-      // Check file upload limits
-      const fileUploadLimit = await storage.getSystemConfig(
-        "file_upload_limit"
+      const resolved = await resolveOrderFiles(
+        req.user.id,
+        req.body.files,
+        orderData.material
       );
-      const maxFiles = (fileUploadLimit?.value as number) || 10;
+      if ("error" in resolved) {
+        return res.status(400).json({ message: resolved.error });
+      }
 
+      // Check file upload limits
+      const { uploadLimit } = await getUploadLimits();
       const user = await storage.getUser(req.user.id);
-      if (user && (user.fileUploadsUsed || 0) >= maxFiles) {
+      if (
+        user &&
+        (user.fileUploadsUsed || 0) + resolved.files.length > uploadLimit
+      ) {
         return res.status(400).json({ message: "File upload limit exceeded" });
       }
 
-      const order = await storage.createOrder(orderData);
+      const claimed = await claimPendingUploads(resolved.files);
+      if (!claimed) {
+        return res
+          .status(409)
+          .json({ message: "These files are already attached to an order" });
+      }
 
-      // Update user's file upload count
-      if (orderData.files && Array.isArray(orderData.files)) {
-        await storage.updateUser(req.user.id, {
-          fileUploadsUsed:
-            (user?.fileUploadsUsed || 0) + orderData.files.length,
+      let order;
+      try {
+        order = await storage.createOrder({
+          ...orderData,
+          files: resolved.files,
+          status: OrderStatus.SUBMITTED,
         });
+      } catch (error) {
+        await releasePendingUploads(claimed);
+        throw error;
       }
 
-      // Create audit log
+      // Update user's file upload count
+      await storage.updateUser(req.user.id, {
+        fileUploadsUsed: (user?.fileUploadsUsed || 0) + resolved.files.length,
+      });
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "order_submitted",
+        entityType: "order",
+        entityId: order.id.toString(),
+        details: { orderId: order.orderId, projectName: order.projectName },
+      });
+
+      // Emails are sent in the background and never fail the request
+      notifyOrderEvent(NotificationType.ORDER_SUBMITTED, order);
+      publishOrderChange(order, true);
+
+      res.status(201).json(order);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid order data" });
+    }
+  });
+
+  app.get("/api/orders/:id/files/:index", requireAuth, async (req, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+      const order = await storage.getOrder(parseInt(req.params.id));
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (order.userId !== req.user.id && !isStaff(req.user)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const files = (order.files as OrderFile[] | null) || [];
+      const file = files[parseInt(req.params.index)];
+      if (!file?.storageKey) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const data = await blobStore.get(file.storageKey);
+      if (!data) {
+        return res.status(410).json({ message: "File is no longer available" });
+      }
+
+      res.attachment(file.name);
+      res.send(data);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Upload routes
+  app.post("/api/uploads", requireAuth, async (req, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+      const { maxFileSizeMb, allowedFileTypes, uploadLimit } =
+        await getUploadLimits();
+
+      // Files waiting to be submitted count against the quota too, so it
+      // can't be sidestepped by uploading without submitting
+      const user = await storage.getUser(req.user.id);
+      const pending = await storage.getPendingUploads({ userId: req.user.id });
+      const remaining =
+        uploadLimit - (user?.fileUploadsUsed || 0) - pending.length;
+      if (remaining <= 0) {
+        return res.status(400).json({ message: "File upload limit exceeded" });
+      }
+
+      const upload = multer({
+        storage: multer.memoryStorage(),
+        limits: { fileSize: maxFileSizeMb * 1024 * 1024, files: remaining },
+      }).array("files");
+      await new Promise<void>((resolve, reject) =>
+        upload(req, res, (err) => (err ? reject(err) : resolve()))
+      );
+
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No files uploaded" });
+      }
+
+      const rejected = files.find(
+        (file) => !allowedFileTypes.includes(getFileExtension(file.originalname))
+      );
+      if (rejected) {
+        return res.status(400).json({
+          message: `File "${
+            rejected.originalname
+          }" has an unsupported format. Accepted formats: ${allowedFileTypes.join(
+            ", "
+          )}`,
+        });
+      }
+
+      const stored = await Promise.all(
+        files.map((file) => storePendingUpload(req.user!.id, file))
+      );
+      res.status(201).json(stored);
+    } catch (error) {
+      if (error instanceof multer.MulterError) {
+        if (error.code === "LIMIT_FILE_SIZE") {
+          const { maxFileSizeMb } = await getUploadLimits();
+          return res.status(413).json({
+            message: `File is too large. Maximum size is ${maxFileSizeMb}MB.`,
+          });
+        }
+        if (error.code === "LIMIT_FILE_COUNT") {
+          return res.status(400).json({ message: "File upload limit exceeded" });
+        }
+      }
+      res.status(400).json({ message: "Failed to upload files" });
+    }
+  });
+
+  app.patch(
+    "/api/orders/:id",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const orderId = parseInt(req.params.id);
+        const updates = req.body;
+
+        // Status changes must go through the state machine
+        if (updates.status !== undefined) {
+          const existing = await storage.getOrder(orderId);
+          if (existing && updates.status !== existing.status) {
+            return res.status(400).json({
+              message: "Use PATCH /api/orders/:id/status to change status",
+            });
+          }
+        }
+
+        if (updates.printerId !== undefined) {
+          return res.status(400).json({
+            message: "Use PATCH /api/orders/:id/printer to assign a printer",
+          });
+        }
+
+        if (updates.batchId !== undefined) {
+          return res.status(400).json({
+            message: "Use the batch order endpoints to add or remove orders",
+          });
+        }
+
+        if (updates.filamentRequest !== undefined) {
+          return res.status(400).json({
+            message: "Use the filament request endpoints to change filament requests",
+          });
+        }
+
+        // Priority overrides need a reason, so they have their own endpoint
+        if (
+          ["manualPriority", "pinned", "expedited"].some(
+            (field) => updates[field] !== undefined
+          )
+        ) {
+          return res.status(400).json({
+            message: "Use PATCH /api/orders/:id/priority to change priority",
+          });
+        }
+
+        // A status equal to the current one is a no-op, not an edit
+        const { status: _status, ...fields } = updates;
+        const parsed = orderUpdateSchema.safeParse(fields);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: parsed.error.errors[0]?.message || "Invalid order update",
+          });
+        }
+        const { reason, ...changes } = parsed.data;
+
+        const order = await storage.updateOrder(orderId, changes);
+
+        // Create audit log
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "order_updated",
+          entityType: "order",
+          entityId: orderId.toString(),
+          details: changes,
+          reason,
+        });
+
+        publishOrderChange(order);
+
+        res.json(order);
+      } catch (error) {
+        res.status(400).json({ message: "Failed to update order" });
+      }
+    }
+  );
+  app.patch(
+    "/api/orders/:id/status",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const orderId = parseInt(req.params.id);
+        const parsed = orderStatusUpdateSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: parsed.error.errors[0]?.message || "Invalid order status",
+          });
+        }
+        const { status, reason } = parsed.data;
+
+        const existing = await storage.getOrder(orderId);
+        if (!existing) {
+          return res.status(404).json({ message: "Order not found" });
+        }
+
+        if (!canTransitionOrder(existing.status, status)) {
+          return res.status(409).json({
+            message: `Cannot change order status from ${existing.status} to ${status}`,
+            allowedStatuses: getAllowedTransitions(existing.status),
+          });
+        }
+
+        // A batch prints as one job; starting or finishing a single member
+        // would leave the batch and its other orders out of step
+        if (
+          existing.batchId &&
+          (status === OrderStatus.STARTED || status === OrderStatus.FINISHED)
+        ) {
+          return res.status(409).json({
+            message:
+              "This order is part of a batch; start or finish it from the batch, or remove it from the batch first",
+          });
+        }
+
+        if (status === OrderStatus.APPROVED && isAwaitingFilament(existing)) {
+          return res.status(409).json({
+            message: "This order is waiting for filament; mark it received before approving",
+          });
+        }
+
+        const { filamentUsedGrams, spoolId } = parsed.data;
+        if (spoolId && !(await storage.getFilamentSpool(spoolId))) {
+          return res.status(404).json({ message: "Filament spool not found" });
+        }
+
+        const updates: Record<string, unknown> = { status };
+        const reasonField = getReasonField(status);
+        if (reasonField) {
+          updates[reasonField] = parsed.data[reasonField];
+        }
+        if (
+          existing.status === OrderStatus.FAILED &&
+          status === OrderStatus.APPROVED
+        ) {
+          // Requeued after a failed print
+          updates.failureReason = null;
+        }
+        if (status === OrderStatus.STARTED) {
+          updates.startedAt = new Date();
+        }
+        if (status === OrderStatus.FINISHED) {
+          updates.actualCompletionTime = new Date();
+        }
+        if (status === OrderStatus.FAILED && existing.batchId) {
+          // Leaves its batch to be requeued on its own, as in finishBatch
+          updates.batchId = null;
+        }
+
+        // Finished and failed prints both used filament
+        const consumption =
+          status === OrderStatus.FINISHED || status === OrderStatus.FAILED
+            ? await consumeOrderFilament(existing, {
+                grams: filamentUsedGrams,
+                spoolId,
+              })
+            : null;
+        if (consumption) {
+          updates.spoolId = consumption.spool.id;
+          // A requeued print adds to what its failed attempts used
+          updates.filamentUsedGrams =
+            (existing.filamentUsedGrams || 0) + consumption.grams;
+        }
+
+        const order = await storage.updateOrder(orderId, updates);
+
+        if (consumption) {
+          await auditFilamentConsumption(
+            req.user.id,
+            orderId,
+            consumption,
+            filamentUsedGrams === undefined
+          );
+        }
+
+        // Create audit log
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "order_status_updated",
+          entityType: "order",
+          entityId: orderId.toString(),
+          details: {
+            status,
+            previousStatus: existing.status,
+            batchId: existing.batchId ?? null,
+          },
+          reason: (reasonField && parsed.data[reasonField]) || reason,
+        });
+
+        const notification = orderStatusNotifications[status];
+        if (notification) {
+          notifyOrderEvent(notification, order, {
+            reason: reasonField && parsed.data[reasonField],
+          });
+        }
+        publishOrderChange(order);
+
+        res.json(order);
+      } catch (error) {
+        res.status(400).json({ message: "Failed to update order status" });
+      }
+    }
+  );
+
+  app.patch(
+    "/api/orders/:id/printer",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const orderId = parseInt(req.params.id);
+        const parsed = printerAssignmentSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ message: "Invalid printer" });
+        }
+        const { printerId } = parsed.data;
+
+        const existing = await storage.getOrder(orderId);
+        if (!existing) {
+          return res.status(404).json({ message: "Order not found" });
+        }
+        if (printerId !== null) {
+          const error = await checkPrinterAssignment([existing], printerId);
+          if (error) return res.status(error.status).json(error.body);
+        }
+
+        const order = await storage.updateOrder(orderId, { printerId });
+
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "order_printer_assigned",
+          entityType: "order",
+          entityId: orderId.toString(),
+          details: {
+            orderId: existing.orderId,
+            printerId,
+            previousPrinterId: existing.printerId ?? null,
+          },
+        });
+        publishOrderChange(order);
+
+        res.json(order);
+      } catch (error) {
+        res.status(400).json({ message: "Failed to assign printer" });
+      }
+    }
+  );
+
+  app.patch(
+    "/api/orders/:id/priority",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const orderId = parseInt(req.params.id);
+        const parsed = orderPriorityUpdateSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: parsed.error.errors[0]?.message || "Invalid priority",
+          });
+        }
+        const { reason, ...changes } = parsed.data;
+
+        const existing = await storage.getOrder(orderId);
+        if (!existing) {
+          return res.status(404).json({ message: "Order not found" });
+        }
+
+        const order = await storage.updateOrder(orderId, changes);
+
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "order_priority_updated",
+          entityType: "order",
+          entityId: orderId.toString(),
+          details: {
+            orderId: existing.orderId,
+            previous: {
+              manualPriority: existing.manualPriority,
+              pinned: existing.pinned,
+              expedited: existing.expedited,
+            },
+            changes,
+          },
+          reason,
+        });
+        publishOrderChange(order);
+
+        res.json(order);
+      } catch (error) {
+        res.status(400).json({ message: "Failed to update order priority" });
+      }
+    }
+  );
+
+  app.post(
+    "/api/orders/:id/filament-request",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const orderId = parseInt(req.params.id);
+        const parsed = filamentRequestCreateSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: parsed.error.errors[0]?.message || "Invalid filament request",
+          });
+        }
+
+        const existing = await storage.getOrder(orderId);
+        if (!existing) {
+          return res.status(404).json({ message: "Order not found" });
+        }
+        if (!canRequestFilament(existing)) {
+          return res.status(409).json({
+            message: isAwaitingFilament(existing)
+              ? "Filament has already been requested for this order"
+              : "Filament can only be requested before an order is approved",
+          });
+        }
+
+        const order = await storage.updateOrder(orderId, {
+          providingFilament: true,
+          filamentRequest: {
+            ...parsed.data,
+            status: FilamentRequestStatus.REQUESTED,
+            requestedAt: new Date().toISOString(),
+            requestedBy: req.user.id,
+          },
+        });
+
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "filament_requested",
+          entityType: "order",
+          entityId: orderId.toString(),
+          details: { orderId: existing.orderId, ...parsed.data },
+        });
+
+        notifyOrderEvent(NotificationType.FILAMENT_REQUESTED, order);
+        publishOrderChange(order);
+
+        res.status(201).json(order);
+      } catch (error) {
+        res.status(400).json({ message: "Failed to request filament" });
+      }
+    }
+  );
+
+  // The student confirms they have handed the filament over
+  app.post(
+    "/api/orders/:id/filament-request/drop-off",
+    requireAuth,
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const orderId = parseInt(req.params.id);
+        const existing = await storage.getOrder(orderId);
+        if (!existing) {
+          return res.status(404).json({ message: "Order not found" });
+        }
+        if (existing.userId !== req.user.id) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        if (existing.filamentRequest?.status !== FilamentRequestStatus.REQUESTED) {
+          return res.status(409).json({
+            message: "There is no open filament request for this order",
+          });
+        }
+
+        const order = await storage.updateOrder(orderId, {
+          filamentRequest: {
+            ...existing.filamentRequest,
+            status: FilamentRequestStatus.DROPPED_OFF,
+            droppedOffAt: new Date().toISOString(),
+          },
+        });
+
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "filament_dropped_off",
+          entityType: "order",
+          entityId: orderId.toString(),
+          details: { orderId: existing.orderId },
+        });
+        publishOrderChange(order);
+
+        res.json(order);
+      } catch (error) {
+        res.status(400).json({ message: "Failed to confirm drop-off" });
+      }
+    }
+  );
+
+  app.post(
+    "/api/orders/:id/filament-request/receive",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const orderId = parseInt(req.params.id);
+        const existing = await storage.getOrder(orderId);
+        if (!existing) {
+          return res.status(404).json({ message: "Order not found" });
+        }
+        // Staff may receive filament the student forgot to mark as dropped off
+        if (!isAwaitingFilament(existing)) {
+          return res.status(409).json({
+            message: "There is no open filament request for this order",
+          });
+        }
+
+        const order = await storage.updateOrder(orderId, {
+          filamentRequest: {
+            ...existing.filamentRequest,
+            status: FilamentRequestStatus.RECEIVED,
+            receivedAt: new Date().toISOString(),
+          },
+        });
+
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "filament_received",
+          entityType: "order",
+          entityId: orderId.toString(),
+          details: {
+            orderId: existing.orderId,
+            previousStatus: existing.filamentRequest.status,
+          },
+        });
+        publishOrderChange(order);
+
+        res.json(order);
+      } catch (error) {
+        res.status(400).json({ message: "Failed to mark filament received" });
+      }
+    }
+  );
+
+  // Batch routes
+  app.get(
+    "/api/batches",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        const batches = await storage.getAllBatches();
+        res.json(batches);
+      } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  app.post(
+    "/api/batches",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const batchData = insertBatchSchema.parse({
+          ...req.body,
+          createdById: req.user.id,
+        });
+
+        const batch = await storage.createBatch(batchData);
+
+        // Create audit log
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "batch_created",
+          entityType: "batch",
+          entityId: batch.id.toString(),
+          details: { batchNumber: batch.batchNumber, name: batch.name },
+        });
+        publishBatchChange(batch, true);
+
+        res.status(201).json(batch);
+      } catch (error) {
+        res.status(400).json({ message: "Invalid batch data" });
+      }
+    }
+  );
+
+  app.patch(
+    "/api/batches/:id",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const batchId = parseInt(req.params.id);
+        const updates = req.body;
+
+        if (updates.printerId !== undefined) {
+          return res.status(400).json({
+            message: "Use PATCH /api/batches/:id/printer to assign a printer",
+          });
+        }
+
+        // Status changes cascade to the batch's orders
+        if (updates.status !== undefined) {
+          return res.status(400).json({
+            message: "Use PATCH /api/batches/:id/status to change status",
+          });
+        }
+
+        const batch = await storage.updateBatch(batchId, updates);
+
+        // Create audit log
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "batch_updated",
+          entityType: "batch",
+          entityId: batchId.toString(),
+          details: updates,
+        });
+        publishBatchChange(batch);
+
+        res.json(batch);
+      } catch (error) {
+        res.status(400).json({ message: "Failed to update batch" });
+      }
+    }
+  );
+
+  app.patch(
+    "/api/batches/:id/printer",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const batchId = parseInt(req.params.id);
+        const parsed = printerAssignmentSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ message: "Invalid printer" });
+        }
+        const { printerId } = parsed.data;
+
+        const existing = await storage.getBatch(batchId);
+        if (!existing) {
+          return res.status(404).json({ message: "Batch not found" });
+        }
+        if (printerId !== null) {
+          const batchOrders = await storage.getBatchOrders(batchId);
+          const error = await checkPrinterAssignment(batchOrders, printerId);
+          if (error) return res.status(error.status).json(error.body);
+        }
+
+        const batch = await storage.updateBatch(batchId, { printerId });
+
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "batch_printer_assigned",
+          entityType: "batch",
+          entityId: batchId.toString(),
+          details: {
+            batchNumber: existing.batchNumber,
+            printerId,
+            previousPrinterId: existing.printerId ?? null,
+          },
+        });
+        publishBatchChange(batch);
+
+        res.json(batch);
+      } catch (error) {
+        res.status(400).json({ message: "Failed to assign printer" });
+      }
+    }
+  );
+
+  app.get(
+    "/api/batches/suggestions",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        const query = batchSuggestionQuerySchema.safeParse(req.query);
+        if (!query.success) {
+          return res.status(400).json({ message: "Invalid printer" });
+        }
+        const { printerId } = query.data;
+        if (printerId !== undefined) {
+          const error = await checkPrinterAssignment([], printerId);
+          if (error) return res.status(error.status).json(error.body);
+        }
+        res.json(await getBatchSuggestions(printerId));
+      } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  // Turns a proposal into a real batch on its printer. Proposals are
+  // recomputed first, so one that orders or printers have moved on from
+  // is refused rather than half applied.
+  app.post(
+    "/api/batches/suggestions/accept",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const parsed = batchSuggestionAcceptSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: parsed.error.errors[0]?.message || "Invalid suggestion",
+          });
+        }
+        const { printerId } = parsed.data;
+        if (printerId !== undefined) {
+          const error = await checkPrinterAssignment([], printerId);
+          if (error) return res.status(error.status).json(error.body);
+        }
+        const orderIds = [...parsed.data.orderIds].sort((a, b) => a - b);
+        const suggestion = (await getBatchSuggestions(printerId)).find(
+          (candidate) =>
+            candidate.orderIds.length === orderIds.length &&
+            [...candidate.orderIds]
+              .sort((a, b) => a - b)
+              .every((id, index) => id === orderIds[index])
+        );
+        if (!suggestion) {
+          return res.status(409).json({
+            message: "This suggestion is out of date; refresh the suggestions",
+          });
+        }
+
+        const created = await storage.createBatch({
+          name: parsed.data.name || suggestion.name,
+          status: BatchStatus.CREATED,
+          createdById: req.user.id,
+        });
+        const batch = suggestion.printerId
+          ? await storage.updateBatch(created.id, {
+              printerId: suggestion.printerId,
+            })
+          : created;
+        const orders: Order[] = [];
+        for (const orderId of suggestion.orderIds) {
+          orders.push(await storage.updateOrder(orderId, { batchId: batch.id }));
+        }
+
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "batch_created",
+          entityType: "batch",
+          entityId: batch.id.toString(),
+          details: {
+            batchNumber: batch.batchNumber,
+            name: batch.name,
+            suggested: true,
+            orderIds: suggestion.orderIds,
+            printerId: suggestion.printerId,
+          },
+        });
+
+        for (const order of orders) {
+          notifyOrderEvent(NotificationType.ORDER_BATCHED, order, {
+            batchName: batch.name || batch.batchNumber,
+          });
+          publishOrderChange(order);
+        }
+        publishBatchChange(batch, true);
+
+        res.status(201).json({ ...batch, orders });
+      } catch (error) {
+        res.status(400).json({ message: "Failed to create batch" });
+      }
+    }
+  );
+
+  app.get(
+    "/api/batches/:id",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        const batch = await storage.getBatch(parseInt(req.params.id));
+        if (!batch) {
+          return res.status(404).json({ message: "Batch not found" });
+        }
+        const orders = await storage.getBatchOrders(batch.id);
+        const ordersWithDetails = await Promise.all(
+          orders.map(async (order) => ({
+            ...order,
+            club: order.clubId ? await storage.getClub(order.clubId) : null,
+            user: await storage.getUser(order.userId),
+          }))
+        );
+        res.json({ ...batch, orders: ordersWithDetails });
+      } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  app.patch(
+    "/api/batches/:id/status",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const batchId = parseInt(req.params.id);
+        const parsed = batchStatusUpdateSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: parsed.error.errors[0]?.message || "Invalid batch status",
+          });
+        }
+        const { status, failures, reason } = parsed.data;
+
+        const existing = await storage.getBatch(batchId);
+        if (!existing) {
+          return res.status(404).json({ message: "Batch not found" });
+        }
+        if (!canTransitionBatch(existing.status, status)) {
+          return res.status(409).json({
+            message: `Cannot change batch status from ${existing.status} to ${status}`,
+            allowedStatuses: getAllowedBatchTransitions(existing.status),
+          });
+        }
+
+        const batchOrders = await storage.getBatchOrders(batchId);
+        if (status === BatchStatus.STARTED) {
+          const problems = getBatchStartProblems(batchOrders);
+          if (problems.length > 0) {
+            return res.status(409).json({ message: problems[0], problems });
+          }
+          if (existing.printerId) {
+            const error = await checkPrinterAssignment(
+              batchOrders,
+              existing.printerId
+            );
+            if (error) return res.status(error.status).json(error.body);
+          }
+        }
+        const failureProblems = getBatchFinishProblems(batchOrders, failures);
+        if (failureProblems.length > 0) {
+          return res
+            .status(400)
+            .json({ message: failureProblems[0], problems: failureProblems });
+        }
+
+        let batch;
+        let changed: {
+          order: Order;
+          consumption?: FilamentConsumption | null;
+        }[] = [];
+        if (status === BatchStatus.STARTED) {
+          const started = await startBatch(existing, batchOrders);
+          batch = started.batch;
+          changed = started.orders.map((order) => ({ order }));
+        } else if (status === BatchStatus.FINISHED) {
+          const finished = await finishBatch(existing, batchOrders, failures);
+          batch = finished.batch;
+          changed = finished.results;
+        } else {
+          batch = await storage.updateBatch(batchId, { status });
+        }
+
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "batch_status_updated",
+          entityType: "batch",
+          entityId: batchId.toString(),
+          details: {
+            status,
+            previousStatus: existing.status,
+            orderIds: changed.map(({ order }) => order.id),
+            failedOrderIds: failures.map((failure) => failure.orderId),
+          },
+          reason,
+        });
+
+        for (const { order, consumption } of changed) {
+          const previous = batchOrders.find((member) => member.id === order.id);
+          await storage.createAuditLog({
+            userId: req.user.id,
+            action: "order_status_updated",
+            entityType: "order",
+            entityId: order.id.toString(),
+            details: {
+              status: order.status,
+              previousStatus: previous?.status,
+              batchId,
+            },
+            reason: order.status === OrderStatus.FAILED ? order.failureReason : reason,
+          });
+          if (consumption) {
+            const failure = failures.find((entry) => entry.orderId === order.id);
+            await auditFilamentConsumption(
+              req.user.id,
+              order.id,
+              consumption,
+              failure?.filamentUsedGrams === undefined
+            );
+          }
+
+          const notification = orderStatusNotifications[order.status];
+          if (notification) {
+            notifyOrderEvent(notification, order, {
+              reason: order.status === OrderStatus.FAILED ? order.failureReason : null,
+            });
+          }
+          publishOrderChange(order);
+        }
+        publishBatchChange(batch);
+
+        res.json({ ...batch, orders: changed.map(({ order }) => order) });
+      } catch (error) {
+        res.status(400).json({ message: "Failed to update batch status" });
+      }
+    }
+  );
+
+  app.post(
+    "/api/batches/:id/orders",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const batchId = parseInt(req.params.id);
+        const parsed = batchOrdersSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: parsed.error.errors[0]?.message || "Invalid orders",
+          });
+        }
+
+        const batch = await storage.getBatch(batchId);
+        if (!batch) {
+          return res.status(404).json({ message: "Batch not found" });
+        }
+        if (!canEditBatchOrders(batch)) {
+          return res.status(409).json({
+            message: `Orders can't be added to a ${batch.status} batch`,
+          });
+        }
+
+        const existing: Order[] = [];
+        for (const id of parsed.data.orderIds) {
+          const order = await storage.getOrder(id);
+          if (!order) {
+            return res.status(404).json({ message: `Order ${id} not found` });
+          }
+          if (!batchableOrderStatuses.includes(order.status)) {
+            return res.status(409).json({
+              message: `${order.orderId} is ${order.status} and can't be batched`,
+            });
+          }
+          if (order.batchId && order.batchId !== batchId) {
+            return res.status(409).json({
+              message: `${order.orderId} is already in another batch`,
+            });
+          }
+          existing.push(order);
+        }
+        // Orders joining a batch must fit the batch's printer
+        if (batch.printerId) {
+          const error = await checkPrinterAssignment(existing, batch.printerId);
+          if (error) return res.status(error.status).json(error.body);
+        }
+
+        const added = existing.filter((order) => order.batchId !== batchId);
+        const orders: Order[] = [];
+        for (const order of added) {
+          orders.push(await storage.updateOrder(order.id, { batchId }));
+        }
+
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "batch_orders_added",
+          entityType: "batch",
+          entityId: batchId.toString(),
+          details: {
+            batchNumber: batch.batchNumber,
+            orderIds: orders.map((order) => order.id),
+          },
+        });
+
+        for (const order of orders) {
+          notifyOrderEvent(NotificationType.ORDER_BATCHED, order, {
+            batchName: batch.name || batch.batchNumber,
+          });
+          publishOrderChange(order);
+        }
+        publishBatchChange(batch);
+
+        res.status(201).json(orders);
+      } catch (error) {
+        res.status(400).json({ message: "Failed to add orders to batch" });
+      }
+    }
+  );
+
+  app.delete(
+    "/api/batches/:id/orders/:orderId",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const batchId = parseInt(req.params.id);
+        const orderId = parseInt(req.params.orderId);
+
+        const batch = await storage.getBatch(batchId);
+        if (!batch) {
+          return res.status(404).json({ message: "Batch not found" });
+        }
+        const existing = await storage.getOrder(orderId);
+        if (!existing || existing.batchId !== batchId) {
+          return res.status(404).json({ message: "Order not found in batch" });
+        }
+        if (!canEditBatchOrders(batch)) {
+          return res.status(409).json({
+            message: `Orders can't be removed from a ${batch.status} batch`,
+          });
+        }
+
+        const order = await storage.updateOrder(orderId, { batchId: null });
+
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "batch_order_removed",
+          entityType: "batch",
+          entityId: batchId.toString(),
+          details: { batchNumber: batch.batchNumber, orderId },
+        });
+        publishOrderChange(order);
+        publishBatchChange(batch);
+
+        res.json(order);
+      } catch (error) {
+        res.status(400).json({ message: "Failed to remove order from batch" });
+      }
+    }
+  );
+
+  // Printer routes
+  app.get(
+    "/api/printers",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        const printers = await storage.getAllPrinters();
+        res.json(printers);
+      } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  app.post(
+    "/api/printers",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const parsed = insertPrinterSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: parsed.error.errors[0]?.message || "Invalid printer data",
+          });
+        }
+
+        const printer = await storage.createPrinter(parsed.data);
+
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "printer_created",
+          entityType: "printer",
+          entityId: printer.id.toString(),
+          details: { name: printer.name },
+        });
+
+        res.status(201).json(printer);
+      } catch (error) {
+        res.status(400).json({ message: "Invalid printer data" });
+      }
+    }
+  );
+
+  app.patch(
+    "/api/printers/:id",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const printerId = parseInt(req.params.id);
+        const parsed = insertPrinterSchema.partial().safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: parsed.error.errors[0]?.message || "Invalid printer data",
+          });
+        }
+
+        const existing = await storage.getPrinter(printerId);
+        if (!existing) {
+          return res.status(404).json({ message: "Printer not found" });
+        }
+
+        const printer = await storage.updatePrinter(printerId, parsed.data);
+
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "printer_updated",
+          entityType: "printer",
+          entityId: printerId.toString(),
+          details: parsed.data,
+        });
+
+        res.json(printer);
+      } catch (error) {
+        res.status(400).json({ message: "Failed to update printer" });
+      }
+    }
+  );
+
+  app.delete(
+    "/api/printers/:id",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const printerId = parseInt(req.params.id);
+        const existing = await storage.getPrinter(printerId);
+        if (!existing) {
+          return res.status(404).json({ message: "Printer not found" });
+        }
+
+        // Assignments reference the printer, so it must be cleared first
+        const [orders, batches] = await Promise.all([
+          storage.getAllOrders(),
+          storage.getAllBatches(),
+        ]);
+        const assigned =
+          orders.some((order) => order.printerId === printerId) ||
+          batches.some((batch) => batch.printerId === printerId);
+        if (assigned) {
+          return res.status(409).json({
+            message: `${existing.name} still has orders or batches assigned; set it offline instead`,
+          });
+        }
+
+        await storage.deletePrinter(printerId);
+
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "printer_deleted",
+          entityType: "printer",
+          entityId: printerId.toString(),
+          details: { name: existing.name },
+        });
+
+        res.status(204).end();
+      } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  app.get(
+    "/api/filament/spools",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        const [spools, threshold] = await Promise.all([
+          storage.getAllFilamentSpools(),
+          getLowStockThreshold(),
+        ]);
+        res.json(
+          spools.map((spool) => ({
+            ...spool,
+            lowStock: isLowStock(spool, threshold),
+          }))
+        );
+      } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  app.post(
+    "/api/filament/spools",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const parsed = insertFilamentSpoolSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: parsed.error.errors[0]?.message || "Invalid spool data",
+          });
+        }
+
+        const spool = await storage.createFilamentSpool(parsed.data);
+
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "filament_spool_created",
+          entityType: "filament_spool",
+          entityId: spool.id.toString(),
+          details: {
+            material: spool.material,
+            color: spool.color,
+            grams: spool.remainingGrams,
+          },
+        });
+
+        res.status(201).json(spool);
+      } catch (error) {
+        res.status(400).json({ message: "Invalid spool data" });
+      }
+    }
+  );
+
+  app.patch(
+    "/api/filament/spools/:id",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const spoolId = parseInt(req.params.id);
+        const parsed = insertFilamentSpoolSchema.partial().safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: parsed.error.errors[0]?.message || "Invalid spool data",
+          });
+        }
+
+        const existing = await storage.getFilamentSpool(spoolId);
+        if (!existing) {
+          return res.status(404).json({ message: "Filament spool not found" });
+        }
+
+        const spool = await storage.updateFilamentSpool(spoolId, parsed.data);
+
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "filament_spool_updated",
+          entityType: "filament_spool",
+          entityId: spoolId.toString(),
+          details: { previousRemainingGrams: existing.remainingGrams, ...parsed.data },
+        });
+
+        res.json(spool);
+      } catch (error) {
+        res.status(400).json({ message: "Failed to update spool" });
+      }
+    }
+  );
+
+  app.delete(
+    "/api/filament/spools/:id",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const spoolId = parseInt(req.params.id);
+        const existing = await storage.getFilamentSpool(spoolId);
+        if (!existing) {
+          return res.status(404).json({ message: "Filament spool not found" });
+        }
+
+        // Orders keep a reference to the spool they printed from
+        const orders = await storage.getAllOrders();
+        if (orders.some((order) => order.spoolId === spoolId)) {
+          return res.status(409).json({
+            message: "Orders have printed from this spool; set its remaining grams to 0 instead",
+          });
+        }
+
+        await storage.deleteFilamentSpool(spoolId);
+
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "filament_spool_deleted",
+          entityType: "filament_spool",
+          entityId: spoolId.toString(),
+          details: { material: existing.material, color: existing.color },
+        });
+
+        res.status(204).end();
+      } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  // Support ticket routes. Students see their own tickets; staff work the
+  // inbox of everyone's.
+  const toTicketView = async (
+    ticket: SupportTicket,
+    viewer: { id: number; role: string },
+    withReplies = false
+  ): Promise<TicketView> => {
+    const order = ticket.orderId ? await storage.getOrder(ticket.orderId) : null;
+    const view: TicketView = {
+      ...ticket,
+      order: order
+        ? { id: order.id, orderId: order.orderId, projectName: order.projectName }
+        : null,
+    };
+
+    if (isStaff(viewer)) {
+      const user = await storage.getUser(ticket.userId);
+      const assignee = ticket.assignedToId
+        ? await storage.getUser(ticket.assignedToId)
+        : undefined;
+      view.user = user && {
+        id: user.id,
+        displayName: user.displayName,
+        email: user.email,
+      };
+      view.assignedTo = assignee
+        ? { id: assignee.id, displayName: assignee.displayName }
+        : null;
+    } else {
+      // Who picked the ticket up is staff business
+      view.assignedToId = null;
+    }
+
+    if (withReplies) {
+      const replies = await storage.getTicketReplies(ticket.id);
+      view.replies = await Promise.all(
+        replies.map(async ({ authorId, ...reply }) => ({
+          ...reply,
+          author: toTimelineActor(
+            authorId,
+            await storage.getUser(authorId),
+            viewer
+          ),
+        }))
+      );
+    }
+    return view;
+  };
+
+  const getVisibleTicket = async (req: any, res: any) => {
+    const ticket = await storage.getSupportTicket(parseInt(req.params.id));
+    if (!ticket) {
+      res.status(404).json({ message: "Ticket not found" });
+      return null;
+    }
+    if (!isStaff(req.user) && ticket.userId !== req.user.id) {
+      res.status(403).json({ message: "Access denied" });
+      return null;
+    }
+    return ticket;
+  };
+
+  app.get("/api/tickets", requireAuth, async (req, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+      const status =
+        typeof req.query.status === "string" ? req.query.status : undefined;
+      // Staff get the inbox unless they ask for their own tickets
+      const mine = !isStaff(req.user) || req.query.mine === "true";
+      const tickets = await storage.getSupportTickets({
+        userId: mine ? req.user.id : undefined,
+        status,
+      });
+      res.json(
+        await Promise.all(
+          tickets.map((ticket) => toTicketView(ticket, req.user!))
+        )
+      );
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/tickets/:id", requireAuth, async (req, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+      const ticket = await getVisibleTicket(req, res);
+      if (!ticket) return;
+      res.json(await toTicketView(ticket, req.user, true));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/tickets", requireAuth, async (req, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+      const parsed = contactSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: parsed.error.errors[0]?.message || "Invalid ticket",
+        });
+      }
+      const { subject, orderId: orderCode, message } = parsed.data;
+
+      // The order is optional, but one that's named must be the student's
+      let order: Order | undefined;
+      if (orderCode?.trim()) {
+        order = await storage.getOrderByOrderId(normalizeOrderCode(orderCode));
+        if (!order || (order.userId !== req.user.id && !isStaff(req.user))) {
+          return res.status(400).json({
+            message: `No order ${normalizeOrderCode(orderCode)} was found on your account`,
+          });
+        }
+      }
+
+      const ticket = await storage.createSupportTicket({
+        userId: req.user.id,
+        subject,
+        orderId: order?.id ?? null,
+        message: message.trim(),
+      });
+
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "ticket_created",
+        entityType: "support_ticket",
+        entityId: ticket.id.toString(),
+        details: { subject, orderId: order?.id ?? null },
+      });
+
+      publishTicketChange(ticket, true);
+      res.status(201).json(await toTicketView(ticket, req.user));
+    } catch (error) {
+      res.status(400).json({ message: "Failed to create ticket" });
+    }
+  });
+
+  app.post("/api/tickets/:id/replies", requireAuth, async (req, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+      const ticket = await getVisibleTicket(req, res);
+      if (!ticket) return;
+      if (ticket.status === TicketStatus.CLOSED) {
+        return res.status(409).json({
+          message: "This ticket is closed. Open a new one if you still need help.",
+        });
+      }
+
+      const parsed = ticketReplySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: parsed.error.errors[0]?.message || "Invalid reply",
+        });
+      }
+
+      const staffReply = isStaff(req.user) && ticket.userId !== req.user.id;
+      const reply = await storage.createTicketReply({
+        ticketId: ticket.id,
+        authorId: req.user.id,
+        body: parsed.data.body,
+      });
+      // Replying picks up an unassigned ticket
+      const updated = await storage.updateSupportTicket(ticket.id, {
+        status: staffReply ? TicketStatus.ANSWERED : TicketStatus.OPEN,
+        assignedToId:
+          staffReply && !ticket.assignedToId ? req.user.id : ticket.assignedToId,
+      });
+
       await storage.createAuditLog({
         userId: req.user.id,
-        action: "order_submitted",
-        entityType: "order",
-        entityId: order.id.toString(),
-        details: { orderId: order.orderId, projectName: order.projectName },
+        action: "ticket_replied",
+        entityType: "support_ticket",
+        entityId: ticket.id.toString(),
+        details: { replyId: reply.id },
       });
 
-      res.status(201).json(order);
+      if (staffReply) notifyTicketReply(updated, reply);
+      publishTicketChange(updated);
+      res.status(201).json(await toTicketView(updated, req.user, true));
     } catch (error) {
-      res.status(400).json({ message: "Invalid order data" });
+      res.status(500).json({ message: "Internal server error" });
     }
   });
+
   app.patch(
-    "/api/orders/:id",
+    "/api/tickets/:id/assign",
     requireAuth,
     requireRole(["ADMIN", "SUPERADMIN"]),
     async (req, res) => {
       try {
         if (!req.user) return res.status(401).json({ message: "Unauthorized" });
-        const orderId = parseInt(req.params.id);
-        const updates = req.body;
+        const ticket = await storage.getSupportTicket(parseInt(req.params.id));
+        if (!ticket) {
+          return res.status(404).json({ message: "Ticket not found" });
+        }
 
-        const order = await storage.updateOrder(orderId, updates);
+        const parsed = ticketAssignSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: parsed.error.errors[0]?.message || "Invalid assignee",
+          });
+        }
+        const { assignedToId } = parsed.data;
+        if (assignedToId !== null) {
+          const assignee = await storage.getUser(assignedToId);
+          if (!assignee || !isStaff(assignee)) {
+            return res
+              .status(400)
+              .json({ message: "Tickets can only be assigned to staff" });
+          }
+        }
+
+        const updated = await storage.updateSupportTicket(ticket.id, {
+          assignedToId,
+        });
 
-        // Create audit log
         await storage.createAuditLog({
           userId: req.user.id,
-          action: "order_updated",
-          entityType: "order",
-          entityId: orderId.toString(),
-          details: updates,
-          reason: updates.reason,
+          action: "ticket_assigned",
+          entityType: "support_ticket",
+          entityId: ticket.id.toString(),
+          details: { assignedToId, previousAssignedToId: ticket.assignedToId },
         });
 
-        res.json(order);
+        publishTicketChange(updated);
+        res.json(await toTicketView(updated, req.user));
       } catch (error) {
-        res.status(400).json({ message: "Failed to update order" });
+        res.status(500).json({ message: "Internal server error" });
       }
     }
   );
+
   app.patch(
-    "/api/orders/:id/status",
+    "/api/tickets/:id/close",
     requireAuth,
     requireRole(["ADMIN", "SUPERADMIN"]),
     async (req, res) => {
       try {
         if (!req.user) return res.status(401).json({ message: "Unauthorized" });
-        const orderId = parseInt(req.params.id);
-        const { status } = req.body;
-
-        // Validate status
-        if (!Object.values(OrderStatus).includes(status)) {
-          return res.status(400).json({ message: "Invalid order status" });
+        const ticket = await storage.getSupportTicket(parseInt(req.params.id));
+        if (!ticket) {
+          return res.status(404).json({ message: "Ticket not found" });
+        }
+        if (ticket.status === TicketStatus.CLOSED) {
+          return res.status(409).json({ message: "Ticket is already closed" });
         }
 
-        const order = await storage.updateOrder(orderId, { status });
+        const updated = await storage.updateSupportTicket(ticket.id, {
+          status: TicketStatus.CLOSED,
+          closedAt: new Date(),
+        });
 
-        // Create audit log
         await storage.createAuditLog({
           userId: req.user.id,
-          action: "order_status_updated",
-          entityType: "order",
-          entityId: orderId.toString(),
-          details: { status },
+          action: "ticket_closed",
+          entityType: "support_ticket",
+          entityId: ticket.id.toString(),
+          details: { previousStatus: ticket.status },
+          reason: typeof req.body?.reason === "string" ? req.body.reason : null,
         });
 
-        res.json(order);
+        publishTicketChange(updated);
+        res.json(await toTicketView(updated, req.user));
       } catch (error) {
-        res.status(400).json({ message: "Failed to update order status" });
+        res.status(500).json({ message: "Internal server error" });
       }
     }
   );
 
-  // Batch routes
+  // Admin routes
   app.get(
-    "/api/batches",
+    "/api/users",
     requireAuth,
     requireRole(["ADMIN", "SUPERADMIN"]),
     async (req, res) => {
       try {
-        const batches = await storage.getAllBatches();
-        res.json(batches);
+        const query = userListQuerySchema.safeParse(req.query);
+        if (!query.success) {
+          return res.status(400).json({
+            message: query.error.errors[0]?.message || "Invalid filters",
+          });
+        }
+        const { search, role, status, page, pageSize } = query.data;
+        const { users, total } = await storage.searchUsers({
+          search: search || undefined,
+          roles: role,
+          status,
+          limit: pageSize,
+          offset: (page - 1) * pageSize,
+        });
+        const response: UserListResponse = { users, total, page, pageSize };
+        res.json(response);
       } catch (error) {
         res.status(500).json({ message: "Internal server error" });
       }
     }
   );
 
-  app.post(
-    "/api/batches",
+  app.get(
+    "/api/users/:id",
     requireAuth,
     requireRole(["ADMIN", "SUPERADMIN"]),
     async (req, res) => {
       try {
         if (!req.user) return res.status(401).json({ message: "Unauthorized" });
-        const batchData = insertBatchSchema.parse({
-          ...req.body,
-          createdById: req.user.id,
-        });
+        const user = await storage.getUser(parseInt(req.params.id));
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
+        }
+        res.json(user);
+      } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
 
-        const batch = await storage.createBatch(batchData);
+  app.patch(
+    "/api/users/:id/role",
+    requireAuth,
+    requireRole(["SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const parsed = userRoleUpdateSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: parsed.error.errors[0]?.message || "Invalid role",
+          });
+        }
+        const target = await storage.getUser(parseInt(req.params.id));
+        if (!target) {
+          return res.status(404).json({ message: "User not found" });
+        }
+        // Also guarantees there is always at least one super admin left
+        if (target.id === req.user.id) {
+          return res
+            .status(403)
+            .json({ message: "You can't change your own role" });
+        }
+        if (target.role === parsed.data.role) return res.json(target);
 
-        // Create audit log
+        const user = await storage.updateUser(target.id, {
+          role: parsed.data.role,
+        });
         await storage.createAuditLog({
           userId: req.user.id,
-          action: "batch_created",
-          entityType: "batch",
-          entityId: batch.id.toString(),
-          details: { batchNumber: batch.batchNumber, name: batch.name },
+          action: "user_role_changed",
+          entityType: "user",
+          entityId: target.id.toString(),
+          details: { from: target.role, to: parsed.data.role },
+          reason: parsed.data.reason || null,
         });
-
-        res.status(201).json(batch);
+        publishAccountChange(target.id);
+        res.json(user);
       } catch (error) {
-        res.status(400).json({ message: "Invalid batch data" });
+        res.status(500).json({ message: "Internal server error" });
       }
     }
   );
 
-  app.patch(
-    "/api/batches/:id",
+  app.post(
+    "/api/users/bulk-suspend",
     requireAuth,
     requireRole(["ADMIN", "SUPERADMIN"]),
     async (req, res) => {
       try {
         if (!req.user) return res.status(401).json({ message: "Unauthorized" });
-        const batchId = parseInt(req.params.id);
-        const updates = req.body;
-
-        const batch = await storage.updateBatch(batchId, updates);
-
-        // Create audit log
-        await storage.createAuditLog({
-          userId: req.user.id,
-          action: "batch_updated",
-          entityType: "batch",
-          entityId: batchId.toString(),
-          details: updates,
-        });
+        const parsed = bulkUserSuspendSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: parsed.error.errors[0]?.message || "Invalid suspension",
+          });
+        }
 
-        res.json(batch);
+        const result: BulkSuspendResult = { suspended: [], skipped: [] };
+        for (const id of Array.from(new Set(parsed.data.userIds))) {
+          const target = await storage.getUser(id);
+          const blocker = target
+            ? getSuspendBlocker(req.user, target)
+            : "User not found";
+          if (blocker) {
+            result.skipped.push({ id, message: blocker });
+            continue;
+          }
+          result.suspended.push(
+            await suspendUser(req.user.id, target!, parsed.data)
+          );
+        }
+        res.json(result);
       } catch (error) {
-        res.status(400).json({ message: "Failed to update batch" });
+        res.status(500).json({ message: "Internal server error" });
       }
     }
   );
 
-  // Admin routes
-  app.get(
-    "/api/users",
+  app.post(
+    "/api/users/:id/suspend",
     requireAuth,
     requireRole(["ADMIN", "SUPERADMIN"]),
     async (req, res) => {
       try {
-        const users = await storage.getAllUsers();
-        res.json(users);
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const parsed = userSuspendSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: parsed.error.errors[0]?.message || "Invalid suspension",
+          });
+        }
+        const target = await storage.getUser(parseInt(req.params.id));
+        if (!target) {
+          return res.status(404).json({ message: "User not found" });
+        }
+        const blocker = getSuspendBlocker(req.user, target);
+        if (blocker) return res.status(403).json({ message: blocker });
+
+        res.json(await suspendUser(req.user.id, target, parsed.data));
       } catch (error) {
         res.status(500).json({ message: "Internal server error" });
       }
     }
   );
 
-  app.get(
-    "/api/users/:id",
+  app.post(
+    "/api/users/:id/unsuspend",
     requireAuth,
     requireRole(["ADMIN", "SUPERADMIN"]),
     async (req, res) => {
       try {
         if (!req.user) return res.status(401).json({ message: "Unauthorized" });
-        const user = await storage.getUser(parseInt(req.params.id));
-        if (!user) {
+        const target = await storage.getUser(parseInt(req.params.id));
+        if (!target) {
           return res.status(404).json({ message: "User not found" });
         }
+        const blocker = getSuspendBlocker(req.user, target);
+        if (blocker) return res.status(403).json({ message: blocker });
+
+        const user = await storage.updateUser(target.id, {
+          suspended: false,
+          suspendedReason: null,
+          suspendedUntil: null,
+        });
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "user_unsuspended",
+          entityType: "user",
+          entityId: target.id.toString(),
+          details: {
+            reason: target.suspendedReason,
+            until: target.suspendedUntil,
+          },
+        });
         res.json(user);
       } catch (error) {
         res.status(500).json({ message: "Internal server error" });
@@ -385,30 +2675,143 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
-  app.patch(
-    "/api/users/:id",
+  app.post(
+    "/api/users/:id/reset-uploads",
     requireAuth,
     requireRole(["ADMIN", "SUPERADMIN"]),
     async (req, res) => {
       try {
         if (!req.user) return res.status(401).json({ message: "Unauthorized" });
-        const userId = parseInt(req.params.id);
-        const updates = req.body;
-
-        const user = await storage.updateUser(userId, updates);
+        const target = await storage.getUser(parseInt(req.params.id));
+        if (!target) {
+          return res.status(404).json({ message: "User not found" });
+        }
 
-        // Create audit log
+        const user = await storage.updateUser(target.id, {
+          fileUploadsUsed: 0,
+        });
         await storage.createAuditLog({
           userId: req.user.id,
-          action: "user_updated",
+          action: "user_uploads_reset",
           entityType: "user",
-          entityId: userId.toString(),
-          details: updates,
+          entityId: target.id.toString(),
+          details: { previous: target.fileUploadsUsed ?? 0 },
         });
-
         res.json(user);
       } catch (error) {
-        res.status(400).json({ message: "Failed to update user" });
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  // Staff role invitations, accepted when the invitee next signs in
+  const toInvitationView = async (
+    invitation: RoleInvitation
+  ): Promise<RoleInvitationView> => {
+    const inviter = await storage.getUser(invitation.invitedBy);
+    return {
+      ...invitation,
+      status: getInvitationStatus(invitation),
+      invitedByName: inviter?.displayName ?? null,
+    };
+  };
+
+  app.get(
+    "/api/role-invitations",
+    requireAuth,
+    requireRole(["SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        const invitations = await storage.getRoleInvitations();
+        res.json(await Promise.all(invitations.map(toInvitationView)));
+      } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  app.post(
+    "/api/role-invitations",
+    requireAuth,
+    requireRole(["SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const parsed = roleInvitationCreateSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: parsed.error.errors[0]?.message || "Invalid invitation",
+          });
+        }
+        const { email, role, expiresAt } = parsed.data;
+        if (email === req.user.email.toLowerCase()) {
+          return res
+            .status(403)
+            .json({ message: "You can't change your own role" });
+        }
+        const existing = await storage.getRoleInvitations({ email });
+        if (
+          existing.some(
+            (invitation) => getInvitationStatus(invitation) === "pending"
+          )
+        ) {
+          return res.status(409).json({
+            message: `${email} already has a pending invitation`,
+          });
+        }
+
+        const invitation = await storage.createRoleInvitation({
+          email,
+          role,
+          invitedBy: req.user.id,
+          expiresAt: expiresAt ?? null,
+        });
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "role_invitation_created",
+          entityType: "role_invitation",
+          entityId: invitation.id.toString(),
+          details: { email, role, expiresAt: invitation.expiresAt },
+        });
+        res.status(201).json(await toInvitationView(invitation));
+      } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  app.delete(
+    "/api/role-invitations/:id",
+    requireAuth,
+    requireRole(["SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const invitation = await storage.getRoleInvitation(
+          parseInt(req.params.id)
+        );
+        if (!invitation) {
+          return res.status(404).json({ message: "Invitation not found" });
+        }
+        if (getInvitationStatus(invitation) !== "pending") {
+          return res.status(409).json({
+            message: `This invitation is already ${getInvitationStatus(invitation)}`,
+          });
+        }
+
+        const revoked = await storage.updateRoleInvitation(invitation.id, {
+          revokedAt: new Date(),
+        });
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "role_invitation_revoked",
+          entityType: "role_invitation",
+          entityId: invitation.id.toString(),
+          details: { email: invitation.email, role: invitation.role },
+        });
+        res.json(await toInvitationView(revoked));
+      } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
       }
     }
   );
@@ -486,6 +2889,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
+  // Lists the files the retention job would warn about or delete next run
+  app.get(
+    "/api/system/file-retention/preview",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        const actions = await runFileRetention({ dryRun: true });
+        res.json(actions);
+      } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
   // System config routes
   app.get(
     "/api/system/config",
@@ -493,15 +2911,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     requireRole(["ADMIN", "SUPERADMIN"]),
     async (req, res) => {
       try {
-        const config = await storage.getAllSystemConfig();
-        res.json(config);
+        const configs = await storage.getAllSystemConfig();
+        const editors = new Map<number, User | undefined>();
+        const views: SystemConfigView[] = [];
+        for (const config of configs) {
+          if (config.updatedBy && !editors.has(config.updatedBy)) {
+            editors.set(config.updatedBy, await storage.getUser(config.updatedBy));
+          }
+          const editor = config.updatedBy ? editors.get(config.updatedBy) : undefined;
+          views.push({
+            key: config.key,
+            value: config.value,
+            description: config.description ?? null,
+            updatedAt: config.updatedAt ?? null,
+            updatedBy: editor
+              ? { id: editor.id, displayName: editor.displayName }
+              : null,
+          });
+        }
+        res.json(views);
       } catch (error) {
         res.status(500).json({ message: "Internal server error" });
       }
     }
   );
 
-  app.get("/api/system/config/:key", async (req, res) => {
+  // Public settings are open to everyone; the rest, such as the access
+  // allow-lists and email templates, only to staff
+  const requireConfigAccess = (req: any, res: any, next: any) => {
+    if (getConfigDefinition(req.params.key)?.public) return next();
+    requireAuth(req, res, () =>
+      requireRole(["ADMIN", "SUPERADMIN"])(req, res, next)
+    );
+  };
+
+  app.get("/api/system/config/:key", requireConfigAccess, async (req, res) => {
     try {
       const config = await storage.getSystemConfig(req.params.key);
       if (!config) {
@@ -513,25 +2957,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Every key must be in the registry, and its value must match the
+  // registry schema: the server reads these values without further checks
   app.post(
     "/api/system/config",
     requireAuth,
-    requireRole(["SUPERADMIN"]),
+    requireRole(["ADMIN", "SUPERADMIN"]),
     async (req, res) => {
       try {
         if (!req.user) return res.status(401).json({ message: "Unauthorized" });
-        const configData = req.body;
+        const update = systemConfigUpdateSchema.safeParse(req.body);
+        if (!update.success) {
+          return res.status(400).json({
+            message: update.error.errors[0]?.message || "Invalid config data",
+          });
+        }
+        const { key } = update.data;
+        const definition = getConfigDefinition(key)!;
+        if (!canEditConfig(definition, req.user.role)) {
+          return res.status(403).json({ message: "Insufficient permissions" });
+        }
+
+        const parsed = definition.schema.safeParse(update.data.value);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: `${definition.label}: ${
+              parsed.error.errors[0]?.message || "Invalid value"
+            }`,
+          });
+        }
 
-        // Create or update config
-        const config = await storage.setSystemConfig(configData);
+        const { config, revision } = await updateSystemConfig(key, parsed.data, {
+          userId: req.user.id,
+          reason: update.data.reason,
+        });
 
-        // Create audit log
         await storage.createAuditLog({
           userId: req.user.id,
           action: "system_config_updated",
           entityType: "system_config",
           entityId: config.key,
-          details: configData,
+          details: {
+            version: revision.version,
+            value: revision.value,
+            previousValue: revision.previousValue,
+          },
+          reason: revision.reason,
         });
 
         res.status(201).json(config);
@@ -541,6 +3012,116 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
+  app.get(
+    "/api/system/config/:key/history",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!getConfigDefinition(req.params.key)) {
+          return res.status(404).json({ message: "Config not found" });
+        }
+        const revisions = await storage.getSystemConfigRevisions(req.params.key);
+        const editors = new Map<number, User | undefined>();
+        const views: SystemConfigRevisionView[] = [];
+        for (const revision of revisions) {
+          if (revision.changedBy && !editors.has(revision.changedBy)) {
+            editors.set(
+              revision.changedBy,
+              await storage.getUser(revision.changedBy)
+            );
+          }
+          const editor = revision.changedBy
+            ? editors.get(revision.changedBy)
+            : undefined;
+          views.push({
+            version: revision.version,
+            previousValue: revision.previousValue,
+            value: revision.value,
+            changedBy: editor
+              ? { id: editor.id, displayName: editor.displayName }
+              : null,
+            reason: revision.reason,
+            revertedVersion: revision.revertedVersion,
+            createdAt: revision.createdAt,
+          });
+        }
+        res.json(views);
+      } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  // Rolling back is a change like any other: it restores the value an
+  // earlier revision replaced and is recorded as a new revision
+  app.post(
+    "/api/system/config/:key/rollback",
+    requireAuth,
+    requireRole(["ADMIN", "SUPERADMIN"]),
+    async (req, res) => {
+      try {
+        if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+        const { key } = req.params;
+        const definition = getConfigDefinition(key);
+        if (!definition || !isSystemConfigKey(key)) {
+          return res.status(404).json({ message: "Config not found" });
+        }
+        if (!canEditConfig(definition, req.user.role)) {
+          return res.status(403).json({ message: "Insufficient permissions" });
+        }
+
+        const rollback = systemConfigRollbackSchema.safeParse(req.body);
+        if (!rollback.success) {
+          return res.status(400).json({
+            message: rollback.error.errors[0]?.message || "Invalid rollback",
+          });
+        }
+        const { version, reason } = rollback.data;
+        const revision = await storage.getSystemConfigRevision(key, version);
+        if (!revision) {
+          return res.status(404).json({ message: "Revision not found" });
+        }
+
+        // A key first set in this revision goes back to its default
+        const parsed = definition.schema.safeParse(
+          revision.previousValue ?? definition.default
+        );
+        if (!parsed.success) {
+          return res.status(409).json({
+            message: `The earlier value is no longer valid: ${
+              parsed.error.errors[0]?.message || "Invalid value"
+            }`,
+          });
+        }
+
+        const { config, revision: created } = await updateSystemConfig(
+          key,
+          parsed.data,
+          { userId: req.user.id, reason, revertedVersion: version }
+        );
+
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "system_config_rolled_back",
+          entityType: "system_config",
+          entityId: key,
+          details: {
+            version: created.version,
+            revertedVersion: version,
+            value: created.value,
+            previousValue: created.previousValue,
+          },
+          reason,
+        });
+
+        res.status(201).json(config);
+      } catch (error) {
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,192 @@
+/** @format */
+
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { createDatabase, pushSchema } from "./db";
+import { DrizzleStorage, MemStorage, type User } from "./storage";
+
+// DrizzleStorage against an in-memory PGlite, with the schema pushed the same
+// way initStorage does
+let storage: DrizzleStorage;
+let student: User;
+let admin: User;
+
+beforeAll(async () => {
+  const db = createDatabase("pglite");
+  await pushSchema(db);
+  storage = new DrizzleStorage(db);
+  await storage.seedData();
+
+  student = await storage.createUser({
+    email: "student@smail.iitm.ac.in",
+    displayName: "Student",
+    role: "USER",
+  });
+  admin = await storage.createUser({
+    email: "admin@smail.iitm.ac.in",
+    displayName: "Admin",
+    role: "ADMIN",
+  });
+}, 60000);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const submit = (clubId: number | null, projectName = "Bracket") =>
+  storage.createOrder({
+    userId: student.id,
+    clubId,
+    projectName,
+    status: "submitted",
+  });
+
+describe("DrizzleStorage on PGlite", () => {
+  it("seeds the default clubs and system config", async () => {
+    const clubs = await storage.getAllClubs();
+    expect(clubs.length).toBeGreaterThan(0);
+    expect((await storage.getSystemConfig("file_upload_limit"))?.value).toBe(
+      10
+    );
+  });
+
+  it("creates, reads and updates users", async () => {
+    expect((await storage.getUserByEmail(student.email))?.id).toBe(student.id);
+
+    const updated = await storage.updateUser(student.id, {
+      fileUploadsUsed: 3,
+    });
+    expect(updated.fileUploadsUsed).toBe(3);
+    expect((await storage.getUser(student.id))?.fileUploadsUsed).toBe(3);
+  });
+
+  it("numbers orders per club", async () => {
+    const [robotics, electronics] = await storage.getAllClubs();
+    const year = new Date().getFullYear().toString().slice(-2);
+
+    const first = await submit(robotics.id);
+    const second = await submit(robotics.id);
+    const other = await submit(electronics.id);
+
+    expect(first.orderId).toBe(`#${robotics.code}${year}001`);
+    expect(second.orderId).toBe(`#${robotics.code}${year}002`);
+    expect(other.orderId).toBe(`#${electronics.code}${year}001`);
+  });
+
+  it("gives concurrent submissions distinct order numbers", async () => {
+    const club = await storage.createClub({ name: "Rush Club", code: "RU" });
+
+    const created = await Promise.all(
+      Array.from({ length: 12 }, (_, i) => submit(club.id, `Rush ${i}`))
+    );
+
+    const ids = created.map((order) => order.orderId).sort();
+    expect(new Set(ids).size).toBe(12);
+    expect(ids[11]).toMatch(/012$/);
+  });
+
+  it("reads and updates orders", async () => {
+    const order = await submit(null);
+    expect((await storage.getOrder(order.id))?.projectName).toBe("Bracket");
+    expect(
+      (await storage.getUserOrders(student.id)).some(
+        (mine) => mine.id === order.id
+      )
+    ).toBe(true);
+
+    const approved = await storage.updateOrder(order.id, {
+      status: "approved",
+      orderId: "#HIJACK",
+    });
+    expect(approved.status).toBe("approved");
+    expect(approved.orderId).toBe(order.orderId);
+    expect(
+      (await storage.getOrdersByStatus("approved")).map((found) => found.id)
+    ).toContain(order.id);
+  });
+
+  it("creates batches in the same millisecond", async () => {
+    vi.spyOn(Date, "now").mockReturnValue(1760000000000);
+
+    const [first, second] = await Promise.all([
+      storage.createBatch({ name: "A", createdById: admin.id }),
+      storage.createBatch({ name: "B", createdById: admin.id }),
+    ]);
+
+    expect(first.batchNumber).not.toBe(second.batchNumber);
+  });
+
+  it("reads and updates batches and their orders", async () => {
+    const batch = await storage.createBatch({
+      name: "Plate",
+      createdById: admin.id,
+    });
+    const order = await submit(null);
+    await storage.updateOrder(order.id, { batchId: batch.id });
+
+    expect(
+      (await storage.getBatchOrders(batch.id)).map((member) => member.id)
+    ).toEqual([order.id]);
+
+    const approved = await storage.updateBatch(batch.id, {
+      status: "approved",
+    });
+    expect(approved.status).toBe("approved");
+    expect((await storage.getBatch(batch.id))?.status).toBe("approved");
+  });
+});
+
+describe("DrizzleStorage notifications", () => {
+  const notify = (userId: number, title: string) =>
+    storage.createNotification({
+      userId,
+      type: "order_approved",
+      title,
+      body: "Bracket was approved and is in the queue.",
+    });
+
+  it("lists a user's notifications newest first and counts unread ones", async () => {
+    const first = await notify(student.id, "First");
+    const second = await notify(student.id, "Second");
+    await notify(admin.id, "Someone else's");
+
+    const listed = await storage.getUserNotifications(student.id);
+    expect(listed.map((notification) => notification.id)).toEqual([
+      second.id,
+      first.id,
+    ]);
+    expect(await storage.getUnreadNotificationCount(student.id)).toBe(2);
+  });
+
+  it("only marks the user's own notifications read", async () => {
+    const mine = await notify(student.id, "Mine");
+    const theirs = await notify(admin.id, "Theirs");
+
+    expect(await storage.markNotificationRead(theirs.id, student.id)).toBe(
+      undefined
+    );
+    const read = await storage.markNotificationRead(mine.id, student.id);
+    expect(read?.readAt).toBeInstanceOf(Date);
+    // Marking it again keeps the original time
+    expect(
+      (await storage.markNotificationRead(mine.id, student.id))?.readAt
+    ).toEqual(read?.readAt);
+
+    await storage.markAllNotificationsRead(student.id);
+    expect(await storage.getUnreadNotificationCount(student.id)).toBe(0);
+    expect(await storage.getUnreadNotificationCount(admin.id)).toBeGreaterThan(
+      0
+    );
+  });
+});
+
+describe("MemStorage", () => {
+  it("creates batches in the same millisecond", async () => {
+    vi.spyOn(Date, "now").mockReturnValue(1760000000000);
+    const memory = new MemStorage();
+
+    const first = await memory.createBatch({ name: "A", createdById: 1 });
+    const second = await memory.createBatch({ name: "B", createdById: 1 });
+
+    expect(first.batchNumber).not.toBe(second.batchNumber);
+  });
+});
@@ -5,23 +5,95 @@ import {
   clubs,
   orders,
   batches,
+  printers,
+  filamentSpools,
+  notifications,
+  orderComments,
+  supportTickets,
+  ticketReplies,
   auditLogs,
   systemConfig,
+  systemConfigRevisions,
+  roleInvitations,
+  pendingUploads,
   insertUserSchema,
   insertClubSchema,
   insertOrderSchema,
   insertBatchSchema,
   insertAuditLogSchema,
   insertSystemConfigSchema,
+  type Printer,
+  type InsertPrinter,
+  type FilamentSpool,
+  type InsertFilamentSpool,
+  type Notification,
+  type InsertNotification,
+  type OrderComment,
+  type InsertOrderComment,
+  type SupportTicket,
+  type InsertSupportTicket,
+  type TicketReply,
+  type InsertTicketReply,
+  type SystemConfigRevision,
+  type InsertSystemConfigRevision,
+  type RoleInvitation,
+  type InsertRoleInvitation,
+  type PendingUpload,
+  type InsertPendingUpload,
 } from "@shared/schema";
 import { z } from "zod";
 import { selectUserSchema } from "../shared/schema";
+import { systemConfigRegistry } from "../shared/systemConfig";
+import { isSuspended } from "../shared/users";
 import { createSelectSchema } from "drizzle-zod";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gt,
+  ilike,
+  inArray,
+  isNull,
+  like,
+  lt,
+  lte,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import {
+  createDatabase,
+  getStorageDriver,
+  pushSchema,
+  type Database,
+} from "./db";
 
 export type User = z.infer<typeof selectUserSchema>;
 export type Club = any;
 export type Order = any;
 export type Batch = any;
+export type {
+  Printer,
+  InsertPrinter,
+  FilamentSpool,
+  InsertFilamentSpool,
+  Notification,
+  InsertNotification,
+  OrderComment,
+  InsertOrderComment,
+  SupportTicket,
+  InsertSupportTicket,
+  TicketReply,
+  InsertTicketReply,
+  SystemConfigRevision,
+  InsertSystemConfigRevision,
+  RoleInvitation,
+  InsertRoleInvitation,
+  PendingUpload,
+  InsertPendingUpload,
+};
 export type AuditLog = any;
 export type SystemConfig = any;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -31,12 +103,89 @@ export type InsertBatch = z.infer<typeof insertBatchSchema>;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 export type InsertSystemConfig = z.infer<typeof insertSystemConfigSchema>;
 
+// Seed data shared by every storage backend
+const defaultClubs = [
+  {
+    name: "Robotics Club",
+    code: "RC",
+    contactEmail: "robotics@college.edu",
+    isActive: true,
+  },
+  {
+    name: "Engineering Club",
+    code: "EC",
+    contactEmail: "engineering@college.edu",
+    isActive: true,
+  },
+  {
+    name: "Maker Space",
+    code: "MS",
+    contactEmail: "makerspace@college.edu",
+    isActive: true,
+  },
+  {
+    name: "Computer Science Society",
+    code: "CSS",
+    contactEmail: "css@college.edu",
+    isActive: true,
+  },
+];
+
+// Order codes are #<ClubCode><AY><PrintNumber>, numbered from 1 per club and
+// year, e.g. #RC26001
+function orderIdPrefix(club: Club | null | undefined) {
+  const currentYear = new Date().getFullYear().toString().slice(-2);
+  return `#${club?.code || "XX"}${currentYear}`;
+}
+
+function formatOrderId(prefix: string, orderNumber: number) {
+  return `${prefix}${orderNumber.toString().padStart(3, "0")}`;
+}
+
+// Postgres (and PGlite) error code for a unique constraint violation
+const UNIQUE_VIOLATION = "23505";
+
+// Runs `insert` until it stops losing races on the unique `constraint`. Each
+// attempt must pick a fresh value; every round at least one racer wins, so
+// this ends after as many rounds as there were concurrent inserts.
+async function retryOnConflict<T>(
+  constraint: string,
+  insert: (attempt: number) => Promise<T>
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await insert(attempt);
+    } catch (error: any) {
+      const cause = error?.cause ?? error;
+      if (cause?.code !== UNIQUE_VIOLATION || cause?.constraint !== constraint) {
+        throw error;
+      }
+    }
+  }
+}
+
+const defaultSystemConfigs = Object.entries(systemConfigRegistry).map(
+  ([key, definition]) => ({
+    key,
+    value: definition.default,
+    description: definition.description,
+  })
+);
+
 export interface IStorage {
   // Users
   getUser(id: number): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, updates: Partial<User>): Promise<User>;
+  getAllUsers(): Promise<User[]>;
+  searchUsers(filters: {
+    search?: string;
+    roles?: string[];
+    status?: "active" | "suspended";
+    limit: number;
+    offset: number;
+  }): Promise<{ users: User[]; total: number }>;
 
   // Clubs
   getAllClubs(): Promise<Club[]>;
@@ -58,14 +207,64 @@ export interface IStorage {
   getBatch(id: number): Promise<Batch | undefined>;
   getAllBatches(): Promise<Batch[]>;
   getBatchesByStatus(status: string): Promise<Batch[]>;
+  getBatchOrders(batchId: number): Promise<Order[]>;
   createBatch(batch: InsertBatch): Promise<Batch>;
   updateBatch(id: number, updates: Partial<Batch>): Promise<Batch>;
 
+  // Printers
+  getPrinter(id: number): Promise<Printer | undefined>;
+  getAllPrinters(): Promise<Printer[]>;
+  createPrinter(printer: InsertPrinter): Promise<Printer>;
+  updatePrinter(id: number, updates: Partial<Printer>): Promise<Printer>;
+  deletePrinter(id: number): Promise<void>;
+
+  // Filament spools
+  getFilamentSpool(id: number): Promise<FilamentSpool | undefined>;
+  getAllFilamentSpools(): Promise<FilamentSpool[]>;
+  createFilamentSpool(spool: InsertFilamentSpool): Promise<FilamentSpool>;
+  updateFilamentSpool(
+    id: number,
+    updates: Partial<FilamentSpool>
+  ): Promise<FilamentSpool>;
+  deleteFilamentSpool(id: number): Promise<void>;
+
+  // Notifications
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getUserNotifications(userId: number, limit?: number): Promise<Notification[]>;
+  getUnreadNotificationCount(userId: number): Promise<number>;
+  markNotificationRead(id: number, userId: number): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: number): Promise<void>;
+
+  // Order comments
+  getOrderComments(orderId: number): Promise<OrderComment[]>;
+  getOrderComment(id: number): Promise<OrderComment | undefined>;
+  createOrderComment(comment: InsertOrderComment): Promise<OrderComment>;
+  updateOrderComment(
+    id: number,
+    updates: Partial<OrderComment>
+  ): Promise<OrderComment>;
+  deleteOrderComment(id: number): Promise<void>;
+
+  // Support tickets
+  getSupportTickets(filters?: {
+    userId?: number;
+    status?: string;
+  }): Promise<SupportTicket[]>;
+  getSupportTicket(id: number): Promise<SupportTicket | undefined>;
+  createSupportTicket(ticket: InsertSupportTicket): Promise<SupportTicket>;
+  updateSupportTicket(
+    id: number,
+    updates: Partial<SupportTicket>
+  ): Promise<SupportTicket>;
+  getTicketReplies(ticketId: number): Promise<TicketReply[]>;
+  createTicketReply(reply: InsertTicketReply): Promise<TicketReply>;
+
   // Audit Logs
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
   getAuditLogs(filters?: {
     userId?: number;
     entityType?: string;
+    entityId?: string;
     action?: string;
   }): Promise<AuditLog[]>;
 
@@ -73,6 +272,36 @@ export interface IStorage {
   getSystemConfig(key: string): Promise<SystemConfig | undefined>;
   setSystemConfig(config: InsertSystemConfig): Promise<SystemConfig>;
   getAllSystemConfig(): Promise<SystemConfig[]>;
+  getSystemConfigRevisions(key: string): Promise<SystemConfigRevision[]>;
+  getSystemConfigRevision(
+    key: string,
+    version: number
+  ): Promise<SystemConfigRevision | undefined>;
+  createSystemConfigRevision(
+    revision: InsertSystemConfigRevision
+  ): Promise<SystemConfigRevision>;
+
+  // Role invitations
+  getRoleInvitations(filters?: { email?: string }): Promise<RoleInvitation[]>;
+  getRoleInvitation(id: number): Promise<RoleInvitation | undefined>;
+  createRoleInvitation(
+    invitation: InsertRoleInvitation
+  ): Promise<RoleInvitation>;
+  updateRoleInvitation(
+    id: number,
+    updates: Partial<RoleInvitation>
+  ): Promise<RoleInvitation>;
+
+  // Uploads not yet attached to an order
+  getPendingUploads(filters?: {
+    userId?: number;
+    storageKeys?: string[];
+    createdBefore?: Date;
+  }): Promise<PendingUpload[]>;
+  createPendingUpload(upload: InsertPendingUpload): Promise<PendingUpload>;
+  // Returns the rows that were actually deleted, so concurrent callers can
+  // tell which of them claimed a given upload
+  deletePendingUploads(storageKeys: string[]): Promise<PendingUpload[]>;
 }
 
 export class MemStorage implements IStorage {
@@ -80,50 +309,42 @@ export class MemStorage implements IStorage {
   private clubs: Map<number, Club> = new Map();
   private orders: Map<number, Order> = new Map();
   private batches: Map<number, Batch> = new Map();
+  private printers: Map<number, Printer> = new Map();
+  private filamentSpools: Map<number, FilamentSpool> = new Map();
+  private notifications: Map<number, Notification> = new Map();
+  private orderComments: Map<number, OrderComment> = new Map();
+  private supportTickets: Map<number, SupportTicket> = new Map();
+  private ticketReplies: Map<number, TicketReply> = new Map();
   private auditLogs: Map<number, AuditLog> = new Map();
   private systemConfigs: Map<string, SystemConfig> = new Map();
+  private systemConfigRevisions: Map<number, SystemConfigRevision> = new Map();
+  private roleInvitations: Map<number, RoleInvitation> = new Map();
+  private pendingUploads: Map<string, PendingUpload> = new Map();
 
   private currentUserId = 1;
   private currentClubId = 1;
   private currentOrderId = 1;
   private currentBatchId = 1;
+  private currentPrinterId = 1;
+  private currentFilamentSpoolId = 1;
+  private currentNotificationId = 1;
+  private currentOrderCommentId = 1;
+  private currentSupportTicketId = 1;
+  private currentTicketReplyId = 1;
   private currentAuditLogId = 1;
   private currentSystemConfigId = 1;
-  private currentOrderNumber = 1;
+  private currentSystemConfigRevisionId = 1;
+  private currentRoleInvitationId = 1;
+  private currentPendingUploadId = 1;
+  private lastBatchStamp = 0;
+  // Next order number per order code prefix
+  private orderNumbers: Map<string, number> = new Map();
 
   constructor() {
     this.seedData();
   }
 
   private seedData() {
-    // Seed clubs
-    const defaultClubs = [
-      {
-        name: "Robotics Club",
-        code: "RC",
-        contactEmail: "robotics@college.edu",
-        isActive: true,
-      },
-      {
-        name: "Engineering Club",
-        code: "EC",
-        contactEmail: "engineering@college.edu",
-        isActive: true,
-      },
-      {
-        name: "Maker Space",
-        code: "MS",
-        contactEmail: "makerspace@college.edu",
-        isActive: true,
-      },
-      {
-        name: "Computer Science Society",
-        code: "CSS",
-        contactEmail: "css@college.edu",
-        isActive: true,
-      },
-    ];
-
     defaultClubs.forEach((club) => {
       const id = this.currentClubId++;
       this.clubs.set(id, {
@@ -133,31 +354,7 @@ export class MemStorage implements IStorage {
       });
     });
 
-    // Seed system config
-    const defaultConfigs = [
-      {
-        key: "file_upload_limit",
-        value: 10,
-        description: "Maximum files per user per period",
-      },
-      {
-        key: "file_retention_days",
-        value: 90,
-        description: "Days to retain uploaded files",
-      },
-      {
-        key: "max_file_size_mb",
-        value: 50,
-        description: "Maximum file size in MB",
-      },
-      {
-        key: "allowed_file_types",
-        value: [".stl", ".gcode"],
-        description: "Allowed file extensions",
-      },
-    ];
-
-    defaultConfigs.forEach((config) => {
+    defaultSystemConfigs.forEach((config) => {
       const id = this.currentSystemConfigId++;
       this.systemConfigs.set(config.key, {
         ...config,
@@ -187,6 +384,8 @@ export class MemStorage implements IStorage {
       photoURL: insertUser.photoURL ?? null,
       role: (insertUser.role ?? "USER").toUpperCase(),
       suspended: insertUser.suspended ?? null,
+      suspendedReason: insertUser.suspendedReason ?? null,
+      suspendedUntil: insertUser.suspendedUntil ?? null,
       fileUploadsUsed: insertUser.fileUploadsUsed ?? null,
       notificationPreferences: insertUser.notificationPreferences ?? {},
     };
@@ -207,6 +406,37 @@ export class MemStorage implements IStorage {
     return Array.from(this.users.values());
   }
 
+  async searchUsers(filters: {
+    search?: string;
+    roles?: string[];
+    status?: "active" | "suspended";
+    limit: number;
+    offset: number;
+  }): Promise<{ users: User[]; total: number }> {
+    let users = Array.from(this.users.values());
+
+    if (filters.search) {
+      const search = filters.search.toLowerCase();
+      users = users.filter(
+        (user) =>
+          user.email.toLowerCase().includes(search) ||
+          user.displayName.toLowerCase().includes(search)
+      );
+    }
+    if (filters.roles?.length)
+      users = users.filter((user) => filters.roles!.includes(user.role));
+    if (filters.status)
+      users = users.filter(
+        (user) => isSuspended(user) === (filters.status === "suspended")
+      );
+
+    users.sort((a, b) => a.displayName.localeCompare(b.displayName));
+    return {
+      users: users.slice(filters.offset, filters.offset + filters.limit),
+      total: users.length,
+    };
+  }
+
   // Clubs
   async getAllClubs(): Promise<Club[]> {
     return Array.from(this.clubs.values()).filter((club) => club.isActive);
@@ -271,14 +501,15 @@ export class MemStorage implements IStorage {
   async createOrder(insertOrder: InsertOrder): Promise<Order> {
     const id = this.currentOrderId++;
     const club = insertOrder.clubId ? this.clubs.get(insertOrder.clubId) : null;
-    const clubCode = club?.code || "XX";
-    const currentYear = new Date().getFullYear().toString().slice(-2);
-    const orderNumber = this.currentOrderNumber++;
-    const orderId = `#${clubCode}${currentYear}${orderNumber
-      .toString()
-      .padStart(3, "0")}`;
+    const prefix = orderIdPrefix(club);
+    const orderNumber = this.orderNumbers.get(prefix) ?? 1;
+    this.orderNumbers.set(prefix, orderNumber + 1);
+    const orderId = formatOrderId(prefix, orderNumber);
 
     const order: Order = {
+      manualPriority: 0,
+      pinned: false,
+      expedited: false,
       ...insertOrder,
       id,
       orderId,
@@ -313,6 +544,12 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getBatchOrders(batchId: number): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter((order) => order.batchId === batchId)
+      .sort((a, b) => a.submittedAt.getTime() - b.submittedAt.getTime());
+  }
+
   async getBatchesByStatus(status: string): Promise<Batch[]> {
     return Array.from(this.batches.values())
       .filter((batch) => batch.status === status)
@@ -321,7 +558,9 @@ export class MemStorage implements IStorage {
 
   async createBatch(insertBatch: InsertBatch): Promise<Batch> {
     const id = this.currentBatchId++;
-    const batchNumber = `BATCH${Date.now()}`;
+    // Batch numbers are timestamps, bumped when two land in the same millisecond
+    this.lastBatchStamp = Math.max(Date.now(), this.lastBatchStamp + 1);
+    const batchNumber = `BATCH${this.lastBatchStamp}`;
 
     const batch: Batch = {
       ...insertBatch,
@@ -342,6 +581,256 @@ export class MemStorage implements IStorage {
     return updatedBatch;
   }
 
+  // Printers
+  async getPrinter(id: number): Promise<Printer | undefined> {
+    return this.printers.get(id);
+  }
+
+  async getAllPrinters(): Promise<Printer[]> {
+    return Array.from(this.printers.values()).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }
+
+  async createPrinter(insertPrinter: InsertPrinter): Promise<Printer> {
+    const id = this.currentPrinterId++;
+    const printer: Printer = {
+      model: null,
+      supportedMaterials: ["PLA"],
+      nozzleSizeMm: 0.4,
+      status: "idle",
+      ...insertPrinter,
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.printers.set(id, printer);
+    return printer;
+  }
+
+  async updatePrinter(id: number, updates: Partial<Printer>): Promise<Printer> {
+    const printer = this.printers.get(id);
+    if (!printer) throw new Error("Printer not found");
+
+    const updatedPrinter = { ...printer, ...updates, id, updatedAt: new Date() };
+    this.printers.set(id, updatedPrinter);
+    return updatedPrinter;
+  }
+
+  async deletePrinter(id: number): Promise<void> {
+    this.printers.delete(id);
+  }
+
+  // Filament spools
+  async getFilamentSpool(id: number): Promise<FilamentSpool | undefined> {
+    return this.filamentSpools.get(id);
+  }
+
+  async getAllFilamentSpools(): Promise<FilamentSpool[]> {
+    return Array.from(this.filamentSpools.values()).sort(
+      (a, b) =>
+        a.material.localeCompare(b.material) || a.color.localeCompare(b.color)
+    );
+  }
+
+  async createFilamentSpool(
+    insertSpool: InsertFilamentSpool
+  ): Promise<FilamentSpool> {
+    const id = this.currentFilamentSpoolId++;
+    const spool: FilamentSpool = {
+      brand: null,
+      ownerClubId: null,
+      location: null,
+      ...insertSpool,
+      remainingGrams: insertSpool.remainingGrams ?? insertSpool.initialGrams,
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.filamentSpools.set(id, spool);
+    return spool;
+  }
+
+  async updateFilamentSpool(
+    id: number,
+    updates: Partial<FilamentSpool>
+  ): Promise<FilamentSpool> {
+    const spool = this.filamentSpools.get(id);
+    if (!spool) throw new Error("Filament spool not found");
+
+    const updatedSpool = { ...spool, ...updates, id, updatedAt: new Date() };
+    this.filamentSpools.set(id, updatedSpool);
+    return updatedSpool;
+  }
+
+  async deleteFilamentSpool(id: number): Promise<void> {
+    this.filamentSpools.delete(id);
+  }
+
+  // Notifications
+  async createNotification(
+    insertNotification: InsertNotification
+  ): Promise<Notification> {
+    const id = this.currentNotificationId++;
+    const notification: Notification = {
+      orderId: null,
+      ...insertNotification,
+      id,
+      readAt: null,
+      createdAt: new Date(),
+    };
+    this.notifications.set(id, notification);
+    return notification;
+  }
+
+  async getUserNotifications(
+    userId: number,
+    limit = 50
+  ): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter((notification) => notification.userId === userId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    return Array.from(this.notifications.values()).filter(
+      (notification) => notification.userId === userId && !notification.readAt
+    ).length;
+  }
+
+  async markNotificationRead(
+    id: number,
+    userId: number
+  ): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    if (!notification || notification.userId !== userId) return undefined;
+
+    const updated = { ...notification, readAt: notification.readAt ?? new Date() };
+    this.notifications.set(id, updated);
+    return updated;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<void> {
+    const now = new Date();
+    this.notifications.forEach((notification, id) => {
+      if (notification.userId === userId && !notification.readAt) {
+        this.notifications.set(id, { ...notification, readAt: now });
+      }
+    });
+  }
+
+  // Order comments
+  async getOrderComments(orderId: number): Promise<OrderComment[]> {
+    return Array.from(this.orderComments.values())
+      .filter((comment) => comment.orderId === orderId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getOrderComment(id: number): Promise<OrderComment | undefined> {
+    return this.orderComments.get(id);
+  }
+
+  async createOrderComment(
+    insertComment: InsertOrderComment
+  ): Promise<OrderComment> {
+    const id = this.currentOrderCommentId++;
+    const comment: OrderComment = {
+      body: "",
+      internal: false,
+      ...insertComment,
+      attachments: (insertComment.attachments ?? []) as OrderComment["attachments"],
+      id,
+      editedAt: null,
+      createdAt: new Date(),
+    };
+    this.orderComments.set(id, comment);
+    return comment;
+  }
+
+  async updateOrderComment(
+    id: number,
+    updates: Partial<OrderComment>
+  ): Promise<OrderComment> {
+    const comment = this.orderComments.get(id);
+    if (!comment) throw new Error("Comment not found");
+
+    const updated = { ...comment, ...updates };
+    this.orderComments.set(id, updated);
+    return updated;
+  }
+
+  async deleteOrderComment(id: number): Promise<void> {
+    this.orderComments.delete(id);
+  }
+
+  // Support tickets
+  async getSupportTickets(filters?: {
+    userId?: number;
+    status?: string;
+  }): Promise<SupportTicket[]> {
+    let tickets = Array.from(this.supportTickets.values());
+
+    if (filters) {
+      if (filters.userId)
+        tickets = tickets.filter((ticket) => ticket.userId === filters.userId);
+      if (filters.status)
+        tickets = tickets.filter((ticket) => ticket.status === filters.status);
+    }
+
+    return tickets.sort(
+      (a, b) => (b.updatedAt?.getTime() ?? 0) - (a.updatedAt?.getTime() ?? 0)
+    );
+  }
+
+  async getSupportTicket(id: number): Promise<SupportTicket | undefined> {
+    return this.supportTickets.get(id);
+  }
+
+  async createSupportTicket(
+    insertTicket: InsertSupportTicket
+  ): Promise<SupportTicket> {
+    const id = this.currentSupportTicketId++;
+    const now = new Date();
+    const ticket: SupportTicket = {
+      orderId: null,
+      ...insertTicket,
+      id,
+      status: "open",
+      assignedToId: null,
+      closedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.supportTickets.set(id, ticket);
+    return ticket;
+  }
+
+  async updateSupportTicket(
+    id: number,
+    updates: Partial<SupportTicket>
+  ): Promise<SupportTicket> {
+    const ticket = this.supportTickets.get(id);
+    if (!ticket) throw new Error("Ticket not found");
+
+    const updated = { ...ticket, ...updates, updatedAt: new Date() };
+    this.supportTickets.set(id, updated);
+    return updated;
+  }
+
+  async getTicketReplies(ticketId: number): Promise<TicketReply[]> {
+    return Array.from(this.ticketReplies.values())
+      .filter((reply) => reply.ticketId === ticketId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createTicketReply(insertReply: InsertTicketReply): Promise<TicketReply> {
+    const id = this.currentTicketReplyId++;
+    const reply: TicketReply = { ...insertReply, id, createdAt: new Date() };
+    this.ticketReplies.set(id, reply);
+    return reply;
+  }
+
   // Audit Logs
   async createAuditLog(insertLog: InsertAuditLog): Promise<AuditLog> {
     const id = this.currentAuditLogId++;
@@ -357,6 +846,7 @@ export class MemStorage implements IStorage {
   async getAuditLogs(filters?: {
     userId?: number;
     entityType?: string;
+    entityId?: string;
     action?: string;
   }): Promise<AuditLog[]> {
     let logs = Array.from(this.auditLogs.values());
@@ -366,6 +856,8 @@ export class MemStorage implements IStorage {
         logs = logs.filter((log) => log.userId === filters.userId);
       if (filters.entityType)
         logs = logs.filter((log) => log.entityType === filters.entityType);
+      if (filters.entityId)
+        logs = logs.filter((log) => log.entityId === filters.entityId);
       if (filters.action)
         logs = logs.filter((log) => log.action === filters.action);
     }
@@ -396,6 +888,828 @@ export class MemStorage implements IStorage {
   async getAllSystemConfig(): Promise<SystemConfig[]> {
     return Array.from(this.systemConfigs.values());
   }
+
+  // Newest first
+  async getSystemConfigRevisions(key: string): Promise<SystemConfigRevision[]> {
+    return Array.from(this.systemConfigRevisions.values())
+      .filter((revision) => revision.key === key)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getSystemConfigRevision(
+    key: string,
+    version: number
+  ): Promise<SystemConfigRevision | undefined> {
+    return Array.from(this.systemConfigRevisions.values()).find(
+      (revision) => revision.key === key && revision.version === version
+    );
+  }
+
+  async createSystemConfigRevision(
+    insertRevision: InsertSystemConfigRevision
+  ): Promise<SystemConfigRevision> {
+    const id = this.currentSystemConfigRevisionId++;
+    const revision: SystemConfigRevision = {
+      previousValue: null,
+      changedBy: null,
+      reason: null,
+      revertedVersion: null,
+      ...insertRevision,
+      id,
+      createdAt: new Date(),
+    };
+    this.systemConfigRevisions.set(id, revision);
+    return revision;
+  }
+
+  // Role invitations, newest first
+  async getRoleInvitations(filters?: {
+    email?: string;
+  }): Promise<RoleInvitation[]> {
+    let invitations = Array.from(this.roleInvitations.values());
+    if (filters?.email)
+      invitations = invitations.filter(
+        (invitation) => invitation.email === filters.email
+      );
+    return invitations.sort((a, b) => b.id - a.id);
+  }
+
+  async getRoleInvitation(id: number): Promise<RoleInvitation | undefined> {
+    return this.roleInvitations.get(id);
+  }
+
+  async createRoleInvitation(
+    insertInvitation: InsertRoleInvitation
+  ): Promise<RoleInvitation> {
+    const id = this.currentRoleInvitationId++;
+    const invitation: RoleInvitation = {
+      expiresAt: null,
+      ...insertInvitation,
+      id,
+      acceptedAt: null,
+      acceptedBy: null,
+      revokedAt: null,
+      createdAt: new Date(),
+    };
+    this.roleInvitations.set(id, invitation);
+    return invitation;
+  }
+
+  async updateRoleInvitation(
+    id: number,
+    updates: Partial<RoleInvitation>
+  ): Promise<RoleInvitation> {
+    const invitation = this.roleInvitations.get(id);
+    if (!invitation) throw new Error("Invitation not found");
+
+    const updated = { ...invitation, ...updates };
+    this.roleInvitations.set(id, updated);
+    return updated;
+  }
+
+  async getPendingUploads(filters?: {
+    userId?: number;
+    storageKeys?: string[];
+    createdBefore?: Date;
+  }): Promise<PendingUpload[]> {
+    let uploads = Array.from(this.pendingUploads.values());
+    if (filters?.userId !== undefined)
+      uploads = uploads.filter((upload) => upload.userId === filters.userId);
+    if (filters?.storageKeys)
+      uploads = uploads.filter((upload) =>
+        filters.storageKeys!.includes(upload.storageKey)
+      );
+    if (filters?.createdBefore)
+      uploads = uploads.filter(
+        (upload) => upload.createdAt < filters.createdBefore!
+      );
+    return uploads.sort((a, b) => a.id - b.id);
+  }
+
+  async createPendingUpload(
+    insertUpload: InsertPendingUpload
+  ): Promise<PendingUpload> {
+    if (this.pendingUploads.has(insertUpload.storageKey)) {
+      throw new Error("Upload already recorded");
+    }
+    const upload: PendingUpload = {
+      ...insertUpload,
+      analysis: (insertUpload.analysis ?? null) as PendingUpload["analysis"],
+      id: this.currentPendingUploadId++,
+      createdAt: new Date(),
+    };
+    this.pendingUploads.set(upload.storageKey, upload);
+    return upload;
+  }
+
+  async deletePendingUploads(storageKeys: string[]): Promise<PendingUpload[]> {
+    const deleted: PendingUpload[] = [];
+    storageKeys.forEach((key) => {
+      const upload = this.pendingUploads.get(key);
+      if (upload && this.pendingUploads.delete(key)) deleted.push(upload);
+    });
+    return deleted;
+  }
 }
 
-export const storage = new MemStorage();
+
+export class DrizzleStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // Inserts the default clubs and config keys that are missing, leaving
+  // anything an admin already changed untouched.
+  async seedData() {
+    await this.db.insert(clubs).values(defaultClubs).onConflictDoNothing();
+    await this.db
+      .insert(systemConfig)
+      .values(defaultSystemConfigs)
+      .onConflictDoNothing();
+  }
+
+  // Users
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user as User | undefined;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.email, email));
+    return user as User | undefined;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db
+      .insert(users)
+      .values({
+        ...insertUser,
+        role: (insertUser.role ?? "USER").toUpperCase(),
+        lastLogin: new Date(),
+      })
+      .returning();
+    return user as User;
+  }
+
+  async updateUser(id: number, updates: Partial<User>): Promise<User> {
+    const { id: _id, createdAt: _createdAt, ...values } = updates;
+    const [user] = await this.db
+      .update(users)
+      .set(values)
+      .where(eq(users.id, id))
+      .returning();
+    if (!user) throw new Error("User not found");
+    return user as User;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return (await this.db.select().from(users)) as User[];
+  }
+
+  async searchUsers(filters: {
+    search?: string;
+    roles?: string[];
+    status?: "active" | "suspended";
+    limit: number;
+    offset: number;
+  }): Promise<{ users: User[]; total: number }> {
+    const conditions: (SQL | undefined)[] = [];
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(
+        or(ilike(users.email, pattern), ilike(users.displayName, pattern))
+      );
+    }
+    if (filters.roles?.length) conditions.push(inArray(users.role, filters.roles));
+    if (filters.status) {
+      // Same rule as isSuspended: an expired suspension counts as active
+      const now = new Date();
+      const suspended = and(
+        eq(users.suspended, true),
+        or(isNull(users.suspendedUntil), gt(users.suspendedUntil, now))
+      );
+      conditions.push(
+        filters.status === "suspended"
+          ? suspended
+          : or(
+              isNull(users.suspended),
+              eq(users.suspended, false),
+              lte(users.suspendedUntil, now)
+            )
+      );
+    }
+    const where = and(...conditions);
+
+    const [page, [total]] = await Promise.all([
+      this.db
+        .select()
+        .from(users)
+        .where(where)
+        .orderBy(asc(users.displayName))
+        .limit(filters.limit)
+        .offset(filters.offset),
+      this.db.select({ value: count() }).from(users).where(where),
+    ]);
+    return { users: page as User[], total: total?.value ?? 0 };
+  }
+
+  // Clubs
+  async getAllClubs(): Promise<Club[]> {
+    return this.db.select().from(clubs).where(eq(clubs.isActive, true));
+  }
+
+  async getClub(id: number): Promise<Club | undefined> {
+    const [club] = await this.db.select().from(clubs).where(eq(clubs.id, id));
+    return club;
+  }
+
+  async getClubByCode(code: string): Promise<Club | undefined> {
+    const [club] = await this.db
+      .select()
+      .from(clubs)
+      .where(eq(clubs.code, code));
+    return club;
+  }
+
+  async createClub(insertClub: InsertClub): Promise<Club> {
+    const [club] = await this.db.insert(clubs).values(insertClub).returning();
+    return club;
+  }
+
+  async searchClubs(query: string): Promise<Club[]> {
+    return this.db
+      .select()
+      .from(clubs)
+      .where(and(eq(clubs.isActive, true), ilike(clubs.name, `%${query}%`)));
+  }
+
+  // Orders
+  async getOrder(id: number): Promise<Order | undefined> {
+    const [order] = await this.db
+      .select()
+      .from(orders)
+      .where(eq(orders.id, id));
+    return order;
+  }
+
+  async getOrderByOrderId(orderId: string): Promise<Order | undefined> {
+    const [order] = await this.db
+      .select()
+      .from(orders)
+      .where(eq(orders.orderId, orderId));
+    return order;
+  }
+
+  async getUserOrders(userId: number): Promise<Order[]> {
+    return this.db
+      .select()
+      .from(orders)
+      .where(eq(orders.userId, userId))
+      .orderBy(desc(orders.submittedAt));
+  }
+
+  async getAllOrders(): Promise<Order[]> {
+    return this.db.select().from(orders).orderBy(desc(orders.submittedAt));
+  }
+
+  async getOrdersByStatus(status: string): Promise<Order[]> {
+    return this.db
+      .select()
+      .from(orders)
+      .where(eq(orders.status, status))
+      .orderBy(desc(orders.submittedAt));
+  }
+
+  async createOrder(insertOrder: InsertOrder): Promise<Order> {
+    const club = insertOrder.clubId
+      ? await this.getClub(insertOrder.clubId)
+      : null;
+    const prefix = orderIdPrefix(club);
+
+    // Two submissions for the same club can pick the same number; the
+    // unique orderId makes the loser read the new highest number and retry
+    return retryOnConflict("orders_order_id_unique", async () => {
+      const [{ last }] = await this.db
+        .select({
+          last: sql<number | null>`max(substring(${orders.orderId} from ${
+            prefix.length + 1
+          }::int)::int)`,
+        })
+        .from(orders)
+        .where(like(orders.orderId, `${prefix}%`));
+      const [order] = await this.db
+        .insert(orders)
+        .values({
+          ...insertOrder,
+          orderId: formatOrderId(prefix, Number(last ?? 0) + 1),
+        })
+        .returning();
+      return order;
+    });
+  }
+
+  async updateOrder(id: number, updates: Partial<Order>): Promise<Order> {
+    const { id: _id, orderId: _orderId, ...values } = updates;
+    const [order] = await this.db
+      .update(orders)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(orders.id, id))
+      .returning();
+    if (!order) throw new Error("Order not found");
+    return order;
+  }
+
+  // Batches
+  async getBatch(id: number): Promise<Batch | undefined> {
+    const [batch] = await this.db
+      .select()
+      .from(batches)
+      .where(eq(batches.id, id));
+    return batch;
+  }
+
+  async getAllBatches(): Promise<Batch[]> {
+    return this.db.select().from(batches).orderBy(desc(batches.createdAt));
+  }
+
+  async getBatchOrders(batchId: number): Promise<Order[]> {
+    return this.db
+      .select()
+      .from(orders)
+      .where(eq(orders.batchId, batchId))
+      .orderBy(asc(orders.submittedAt));
+  }
+
+  async getBatchesByStatus(status: string): Promise<Batch[]> {
+    return this.db
+      .select()
+      .from(batches)
+      .where(eq(batches.status, status))
+      .orderBy(desc(batches.createdAt));
+  }
+
+  async createBatch(insertBatch: InsertBatch): Promise<Batch> {
+    // Batches created in the same millisecond take the next free number
+    const stamp = Date.now();
+    return retryOnConflict("batches_batch_number_unique", async (attempt) => {
+      const [batch] = await this.db
+        .insert(batches)
+        .values({ ...insertBatch, batchNumber: `BATCH${stamp + attempt}` })
+        .returning();
+      return batch;
+    });
+  }
+
+  async updateBatch(id: number, updates: Partial<Batch>): Promise<Batch> {
+    const { id: _id, batchNumber: _batchNumber, ...values } = updates;
+    const [batch] = await this.db
+      .update(batches)
+      .set(values)
+      .where(eq(batches.id, id))
+      .returning();
+    if (!batch) throw new Error("Batch not found");
+    return batch;
+  }
+
+  // Printers
+  async getPrinter(id: number): Promise<Printer | undefined> {
+    const [printer] = await this.db
+      .select()
+      .from(printers)
+      .where(eq(printers.id, id));
+    return printer;
+  }
+
+  async getAllPrinters(): Promise<Printer[]> {
+    return this.db.select().from(printers).orderBy(printers.name);
+  }
+
+  async createPrinter(insertPrinter: InsertPrinter): Promise<Printer> {
+    const [printer] = await this.db
+      .insert(printers)
+      .values(insertPrinter)
+      .returning();
+    return printer;
+  }
+
+  async updatePrinter(id: number, updates: Partial<Printer>): Promise<Printer> {
+    const { id: _id, createdAt: _createdAt, ...values } = updates;
+    const [printer] = await this.db
+      .update(printers)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(printers.id, id))
+      .returning();
+    if (!printer) throw new Error("Printer not found");
+    return printer;
+  }
+
+  async deletePrinter(id: number): Promise<void> {
+    await this.db.delete(printers).where(eq(printers.id, id));
+  }
+
+  // Filament spools
+  async getFilamentSpool(id: number): Promise<FilamentSpool | undefined> {
+    const [spool] = await this.db
+      .select()
+      .from(filamentSpools)
+      .where(eq(filamentSpools.id, id));
+    return spool;
+  }
+
+  async getAllFilamentSpools(): Promise<FilamentSpool[]> {
+    return this.db
+      .select()
+      .from(filamentSpools)
+      .orderBy(filamentSpools.material, filamentSpools.color);
+  }
+
+  async createFilamentSpool(
+    insertSpool: InsertFilamentSpool
+  ): Promise<FilamentSpool> {
+    const [spool] = await this.db
+      .insert(filamentSpools)
+      .values({
+        ...insertSpool,
+        remainingGrams: insertSpool.remainingGrams ?? insertSpool.initialGrams,
+      })
+      .returning();
+    return spool;
+  }
+
+  async updateFilamentSpool(
+    id: number,
+    updates: Partial<FilamentSpool>
+  ): Promise<FilamentSpool> {
+    const { id: _id, createdAt: _createdAt, ...values } = updates;
+    const [spool] = await this.db
+      .update(filamentSpools)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(filamentSpools.id, id))
+      .returning();
+    if (!spool) throw new Error("Filament spool not found");
+    return spool;
+  }
+
+  async deleteFilamentSpool(id: number): Promise<void> {
+    await this.db.delete(filamentSpools).where(eq(filamentSpools.id, id));
+  }
+
+  // Notifications
+  async createNotification(
+    insertNotification: InsertNotification
+  ): Promise<Notification> {
+    const [notification] = await this.db
+      .insert(notifications)
+      .values(insertNotification)
+      .returning();
+    return notification;
+  }
+
+  async getUserNotifications(
+    userId: number,
+    limit = 50
+  ): Promise<Notification[]> {
+    return this.db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.id))
+      .limit(limit);
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    const [result] = await this.db
+      .select({ value: count() })
+      .from(notifications)
+      .where(
+        and(eq(notifications.userId, userId), isNull(notifications.readAt))
+      );
+    return result?.value ?? 0;
+  }
+
+  async markNotificationRead(
+    id: number,
+    userId: number
+  ): Promise<Notification | undefined> {
+    const [existing] = await this.db
+      .select()
+      .from(notifications)
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)));
+    if (!existing || existing.readAt) return existing;
+
+    const [notification] = await this.db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(eq(notifications.id, id))
+      .returning();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<void> {
+    await this.db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(
+        and(eq(notifications.userId, userId), isNull(notifications.readAt))
+      );
+  }
+
+  // Order comments
+  async getOrderComments(orderId: number): Promise<OrderComment[]> {
+    return this.db
+      .select()
+      .from(orderComments)
+      .where(eq(orderComments.orderId, orderId))
+      .orderBy(asc(orderComments.id));
+  }
+
+  async getOrderComment(id: number): Promise<OrderComment | undefined> {
+    const [comment] = await this.db
+      .select()
+      .from(orderComments)
+      .where(eq(orderComments.id, id));
+    return comment;
+  }
+
+  async createOrderComment(
+    insertComment: InsertOrderComment
+  ): Promise<OrderComment> {
+    const [comment] = await this.db
+      .insert(orderComments)
+      .values(insertComment as typeof orderComments.$inferInsert)
+      .returning();
+    return comment;
+  }
+
+  async updateOrderComment(
+    id: number,
+    updates: Partial<OrderComment>
+  ): Promise<OrderComment> {
+    const { id: _id, createdAt: _createdAt, ...values } = updates;
+    const [comment] = await this.db
+      .update(orderComments)
+      .set(values)
+      .where(eq(orderComments.id, id))
+      .returning();
+    if (!comment) throw new Error("Comment not found");
+    return comment;
+  }
+
+  async deleteOrderComment(id: number): Promise<void> {
+    await this.db.delete(orderComments).where(eq(orderComments.id, id));
+  }
+
+  // Support tickets
+  async getSupportTickets(filters?: {
+    userId?: number;
+    status?: string;
+  }): Promise<SupportTicket[]> {
+    const conditions: SQL[] = [];
+    if (filters?.userId)
+      conditions.push(eq(supportTickets.userId, filters.userId));
+    if (filters?.status)
+      conditions.push(eq(supportTickets.status, filters.status));
+
+    return this.db
+      .select()
+      .from(supportTickets)
+      .where(and(...conditions))
+      .orderBy(desc(supportTickets.updatedAt));
+  }
+
+  async getSupportTicket(id: number): Promise<SupportTicket | undefined> {
+    const [ticket] = await this.db
+      .select()
+      .from(supportTickets)
+      .where(eq(supportTickets.id, id));
+    return ticket;
+  }
+
+  async createSupportTicket(
+    insertTicket: InsertSupportTicket
+  ): Promise<SupportTicket> {
+    const [ticket] = await this.db
+      .insert(supportTickets)
+      .values(insertTicket)
+      .returning();
+    return ticket;
+  }
+
+  async updateSupportTicket(
+    id: number,
+    updates: Partial<SupportTicket>
+  ): Promise<SupportTicket> {
+    const { id: _id, createdAt: _createdAt, ...values } = updates;
+    const [ticket] = await this.db
+      .update(supportTickets)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(supportTickets.id, id))
+      .returning();
+    if (!ticket) throw new Error("Ticket not found");
+    return ticket;
+  }
+
+  async getTicketReplies(ticketId: number): Promise<TicketReply[]> {
+    return this.db
+      .select()
+      .from(ticketReplies)
+      .where(eq(ticketReplies.ticketId, ticketId))
+      .orderBy(asc(ticketReplies.id));
+  }
+
+  async createTicketReply(insertReply: InsertTicketReply): Promise<TicketReply> {
+    const [reply] = await this.db
+      .insert(ticketReplies)
+      .values(insertReply)
+      .returning();
+    return reply;
+  }
+
+  // Audit Logs
+  async createAuditLog(insertLog: InsertAuditLog): Promise<AuditLog> {
+    const [log] = await this.db.insert(auditLogs).values(insertLog).returning();
+    return log;
+  }
+
+  async getAuditLogs(filters?: {
+    userId?: number;
+    entityType?: string;
+    entityId?: string;
+    action?: string;
+  }): Promise<AuditLog[]> {
+    const conditions: SQL[] = [];
+    if (filters?.userId) conditions.push(eq(auditLogs.userId, filters.userId));
+    if (filters?.entityType)
+      conditions.push(eq(auditLogs.entityType, filters.entityType));
+    if (filters?.entityId)
+      conditions.push(eq(auditLogs.entityId, filters.entityId));
+    if (filters?.action) conditions.push(eq(auditLogs.action, filters.action));
+
+    return this.db
+      .select()
+      .from(auditLogs)
+      .where(and(...conditions))
+      .orderBy(desc(auditLogs.timestamp));
+  }
+
+  // System Config
+  async getSystemConfig(key: string): Promise<SystemConfig | undefined> {
+    const [config] = await this.db
+      .select()
+      .from(systemConfig)
+      .where(eq(systemConfig.key, key));
+    return config;
+  }
+
+  async setSystemConfig(
+    insertConfig: InsertSystemConfig
+  ): Promise<SystemConfig> {
+    const [config] = await this.db
+      .insert(systemConfig)
+      .values(insertConfig)
+      .onConflictDoUpdate({
+        target: systemConfig.key,
+        set: { ...insertConfig, updatedAt: new Date() },
+      })
+      .returning();
+    return config;
+  }
+
+  async getAllSystemConfig(): Promise<SystemConfig[]> {
+    return this.db.select().from(systemConfig);
+  }
+
+  // Newest first
+  async getSystemConfigRevisions(key: string): Promise<SystemConfigRevision[]> {
+    return this.db
+      .select()
+      .from(systemConfigRevisions)
+      .where(eq(systemConfigRevisions.key, key))
+      .orderBy(desc(systemConfigRevisions.version));
+  }
+
+  async getSystemConfigRevision(
+    key: string,
+    version: number
+  ): Promise<SystemConfigRevision | undefined> {
+    const [revision] = await this.db
+      .select()
+      .from(systemConfigRevisions)
+      .where(
+        and(
+          eq(systemConfigRevisions.key, key),
+          eq(systemConfigRevisions.version, version)
+        )
+      );
+    return revision;
+  }
+
+  async createSystemConfigRevision(
+    insertRevision: InsertSystemConfigRevision
+  ): Promise<SystemConfigRevision> {
+    const [revision] = await this.db
+      .insert(systemConfigRevisions)
+      .values(insertRevision)
+      .returning();
+    return revision;
+  }
+
+  // Role invitations, newest first
+  async getRoleInvitations(filters?: {
+    email?: string;
+  }): Promise<RoleInvitation[]> {
+    return this.db
+      .select()
+      .from(roleInvitations)
+      .where(filters?.email ? eq(roleInvitations.email, filters.email) : undefined)
+      .orderBy(desc(roleInvitations.id));
+  }
+
+  async getRoleInvitation(id: number): Promise<RoleInvitation | undefined> {
+    const [invitation] = await this.db
+      .select()
+      .from(roleInvitations)
+      .where(eq(roleInvitations.id, id));
+    return invitation;
+  }
+
+  async createRoleInvitation(
+    insertInvitation: InsertRoleInvitation
+  ): Promise<RoleInvitation> {
+    const [invitation] = await this.db
+      .insert(roleInvitations)
+      .values(insertInvitation)
+      .returning();
+    return invitation;
+  }
+
+  async updateRoleInvitation(
+    id: number,
+    updates: Partial<RoleInvitation>
+  ): Promise<RoleInvitation> {
+    const { id: _id, createdAt: _createdAt, ...values } = updates;
+    const [invitation] = await this.db
+      .update(roleInvitations)
+      .set(values)
+      .where(eq(roleInvitations.id, id))
+      .returning();
+    if (!invitation) throw new Error("Invitation not found");
+    return invitation;
+  }
+
+  async getPendingUploads(filters?: {
+    userId?: number;
+    storageKeys?: string[];
+    createdBefore?: Date;
+  }): Promise<PendingUpload[]> {
+    if (filters?.storageKeys?.length === 0) return [];
+
+    const conditions: SQL[] = [];
+    if (filters?.userId !== undefined)
+      conditions.push(eq(pendingUploads.userId, filters.userId));
+    if (filters?.storageKeys)
+      conditions.push(inArray(pendingUploads.storageKey, filters.storageKeys));
+    if (filters?.createdBefore)
+      conditions.push(lt(pendingUploads.createdAt, filters.createdBefore));
+
+    return this.db
+      .select()
+      .from(pendingUploads)
+      .where(and(...conditions))
+      .orderBy(asc(pendingUploads.id));
+  }
+
+  async createPendingUpload(
+    insertUpload: InsertPendingUpload
+  ): Promise<PendingUpload> {
+    const [upload] = await this.db
+      .insert(pendingUploads)
+      .values(insertUpload as typeof pendingUploads.$inferInsert)
+      .returning();
+    return upload;
+  }
+
+  async deletePendingUploads(storageKeys: string[]): Promise<PendingUpload[]> {
+    if (storageKeys.length === 0) return [];
+    return this.db
+      .delete(pendingUploads)
+      .where(inArray(pendingUploads.storageKey, storageKeys))
+      .returning();
+  }
+}
+
+const storageDriver = getStorageDriver();
+const db = storageDriver === "memory" ? null : createDatabase(storageDriver);
+
+export const storage: IStorage = db ? new DrizzleStorage(db) : new MemStorage();
+
+// Must be awaited before serving requests: creates the embedded schema when
+// running on PGlite and seeds default clubs and config for database backends.
+export async function initStorage() {
+  if (!db) return;
+  if (storageDriver === "pglite") {
+    await pushSchema(db);
+  }
+  await (storage as DrizzleStorage).seedData();
+}
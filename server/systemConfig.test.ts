@@ -0,0 +1,70 @@
+/** @format */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getConfigValue, updateSystemConfig } from "./systemConfig";
+import { MemStorage } from "./storage";
+
+const current = vi.hoisted(() => ({ storage: undefined as any }));
+vi.mock("./storage", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./storage")>()),
+  get storage() {
+    return current.storage;
+  },
+}));
+
+let storage: MemStorage;
+
+beforeEach(() => {
+  storage = current.storage = new MemStorage();
+});
+
+describe("getConfigValue", () => {
+  it("falls back to the default for missing or invalid values", async () => {
+    await storage.setSystemConfig({ key: "file_upload_limit", value: 25 });
+    expect(await getConfigValue("file_upload_limit")).toBe(25);
+
+    await storage.setSystemConfig({ key: "file_upload_limit", value: "many" });
+    expect(await getConfigValue("file_upload_limit")).toBe(10);
+    expect(await getConfigValue("admin_emails")).toEqual([]);
+  });
+});
+
+describe("updateSystemConfig", () => {
+  it("records each change as the next revision", async () => {
+    const before = await storage.getSystemConfig("max_file_size_mb");
+
+    const first = await updateSystemConfig("max_file_size_mb", 80, {
+      userId: 1,
+      reason: "Bigger models",
+    });
+    expect(first.config).toMatchObject({ value: 80, updatedBy: 1 });
+    expect(first.revision).toMatchObject({
+      version: 1,
+      previousValue: before?.value ?? null,
+      value: 80,
+      changedBy: 1,
+      reason: "Bigger models",
+      revertedVersion: null,
+    });
+
+    const second = await updateSystemConfig("max_file_size_mb", 50, {
+      userId: 2,
+      revertedVersion: 1,
+    });
+    expect(second.revision).toMatchObject({
+      version: 2,
+      previousValue: 80,
+      value: 50,
+      reason: null,
+      revertedVersion: 1,
+    });
+    expect(
+      (await storage.getSystemConfigRevisions("max_file_size_mb")).map(
+        (revision) => revision.version
+      )
+    ).toEqual([2, 1]);
+    expect(await storage.getSystemConfigRevisions("file_upload_limit")).toEqual(
+      []
+    );
+  });
+});
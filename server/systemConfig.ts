@@ -0,0 +1,53 @@
+/** @format */
+
+import { storage, type InsertSystemConfig } from "./storage";
+import {
+  systemConfigRegistry,
+  type ConfigDefinition,
+  type SystemConfigKey,
+  type SystemConfigValue,
+} from "../shared/systemConfig";
+
+// The stored value of a setting, or its registry default when the value is
+// missing or no longer matches the schema
+export async function getConfigValue<K extends SystemConfigKey>(
+  key: K
+): Promise<SystemConfigValue<K>> {
+  const definition = systemConfigRegistry[key] as ConfigDefinition<
+    SystemConfigValue<K>
+  >;
+  const config = await storage.getSystemConfig(key);
+  const parsed = definition.schema.safeParse(config?.value);
+  return parsed.success ? parsed.data : definition.default;
+}
+
+// Saves a new value and records it as the key's next revision. Every change
+// to a setting should go through here so the history stays complete.
+export async function updateSystemConfig(
+  key: SystemConfigKey,
+  value: unknown,
+  change: { userId: number; reason?: string | null; revertedVersion?: number }
+) {
+  const definition = systemConfigRegistry[key] as ConfigDefinition;
+  const [previous, revisions] = await Promise.all([
+    storage.getSystemConfig(key),
+    storage.getSystemConfigRevisions(key),
+  ]);
+
+  const config = await storage.setSystemConfig({
+    key,
+    value: value as InsertSystemConfig["value"],
+    description: definition.description,
+    updatedBy: change.userId,
+  });
+  const revision = await storage.createSystemConfigRevision({
+    key,
+    version: (revisions[0]?.version ?? 0) + 1,
+    previousValue: previous?.value ?? null,
+    value: value as InsertSystemConfig["value"],
+    changedBy: change.userId,
+    reason: change.reason || null,
+    revertedVersion: change.revertedVersion ?? null,
+  });
+  return { config, revision };
+}
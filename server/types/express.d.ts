@@ -19,7 +19,13 @@ declare global {
         email: string;
         role: string;
         fileUploadsUsed?: number | null;
+        suspended?: boolean | null;
+        suspendedReason?: string | null;
+        suspendedUntil?: Date | null;
       };
+      // Email from a verified Firebase ID token, set even before the user
+      // has registered
+      authEmail?: string;
     }
   }
 }
@@ -0,0 +1,82 @@
+/** @format */
+
+import { describe, expect, it } from "vitest";
+import {
+  batchStatusUpdateSchema,
+  canEditBatchOrders,
+  canTransitionBatch,
+  getAllowedBatchTransitions,
+} from "./batchStatus";
+import { BatchStatus } from "./schema";
+
+describe("canTransitionBatch", () => {
+  it("follows the batch lifecycle", () => {
+    expect(canTransitionBatch(BatchStatus.CREATED, BatchStatus.APPROVED)).toBe(
+      true
+    );
+    expect(canTransitionBatch(BatchStatus.APPROVED, BatchStatus.STARTED)).toBe(
+      true
+    );
+    expect(canTransitionBatch(BatchStatus.STARTED, BatchStatus.FINISHED)).toBe(
+      true
+    );
+  });
+
+  it("lets an approval be withdrawn until the batch starts", () => {
+    expect(canTransitionBatch(BatchStatus.APPROVED, BatchStatus.CREATED)).toBe(
+      true
+    );
+    expect(canTransitionBatch(BatchStatus.STARTED, BatchStatus.CREATED)).toBe(
+      false
+    );
+  });
+
+  it("rejects skipped steps and unknown statuses", () => {
+    expect(canTransitionBatch(BatchStatus.CREATED, BatchStatus.STARTED)).toBe(
+      false
+    );
+    expect(canTransitionBatch(BatchStatus.CREATED, "printing")).toBe(false);
+    expect(getAllowedBatchTransitions(BatchStatus.FINISHED)).toEqual([]);
+    expect(getAllowedBatchTransitions("printing")).toEqual([]);
+  });
+});
+
+describe("canEditBatchOrders", () => {
+  it("only allows changing members before printing starts", () => {
+    expect(canEditBatchOrders({ status: BatchStatus.CREATED })).toBe(true);
+    expect(canEditBatchOrders({ status: BatchStatus.APPROVED })).toBe(true);
+    expect(canEditBatchOrders({ status: BatchStatus.STARTED })).toBe(false);
+  });
+});
+
+describe("batchStatusUpdateSchema", () => {
+  it("only takes failure reports when finishing", () => {
+    const failures = [{ orderId: 3, failureReason: "Warped" }];
+
+    expect(
+      batchStatusUpdateSchema.safeParse({
+        status: BatchStatus.FINISHED,
+        failures,
+      }).success
+    ).toBe(true);
+    expect(
+      batchStatusUpdateSchema.safeParse({
+        status: BatchStatus.STARTED,
+        failures,
+      }).error?.errors[0]?.message
+    ).toBe("Failures can only be reported when finishing a batch");
+  });
+
+  it("requires a reason for each failure", () => {
+    expect(
+      batchStatusUpdateSchema.safeParse({
+        status: BatchStatus.FINISHED,
+        failures: [{ orderId: 3, failureReason: " " }],
+      }).error?.errors[0]?.message
+    ).toBe("A failure reason is required");
+    expect(
+      batchStatusUpdateSchema.safeParse({ status: "printing" }).error
+        ?.errors[0]?.message
+    ).toBe("Invalid batch status");
+  });
+});
@@ -0,0 +1,80 @@
+/** @format */
+
+import { z } from "zod";
+import { BatchStatus, OrderStatus } from "./schema";
+
+export type BatchStatusValue = (typeof BatchStatus)[keyof typeof BatchStatus];
+
+// Legal moves for a batch. Starting and finishing a batch carry its member
+// orders along (server/batches.ts); an approval can be withdrawn until the
+// batch starts.
+export const batchStatusTransitions: Record<
+  BatchStatusValue,
+  readonly BatchStatusValue[]
+> = {
+  [BatchStatus.CREATED]: [BatchStatus.APPROVED],
+  [BatchStatus.APPROVED]: [BatchStatus.STARTED, BatchStatus.CREATED],
+  [BatchStatus.STARTED]: [BatchStatus.FINISHED],
+  [BatchStatus.FINISHED]: [],
+};
+
+export function isBatchStatus(value: unknown): value is BatchStatusValue {
+  return Object.values(BatchStatus).includes(value as BatchStatusValue);
+}
+
+export function getAllowedBatchTransitions(
+  status: string
+): readonly BatchStatusValue[] {
+  return isBatchStatus(status) ? batchStatusTransitions[status] : [];
+}
+
+export function canTransitionBatch(from: string, to: string): boolean {
+  return isBatchStatus(to) && getAllowedBatchTransitions(from).includes(to);
+}
+
+// Orders can only join or leave a batch before it starts printing
+export function canEditBatchOrders(batch: { status: string }) {
+  return (
+    batch.status === BatchStatus.CREATED || batch.status === BatchStatus.APPROVED
+  );
+}
+
+export const batchableOrderStatuses: readonly string[] = [
+  OrderStatus.SUBMITTED,
+  OrderStatus.APPROVED,
+];
+
+// A batch finishes as a whole, except for the orders listed here
+export const batchOrderFailureSchema = z.object({
+  orderId: z.number().int().positive(),
+  failureReason: z.string().trim().min(1, "A failure reason is required"),
+  filamentUsedGrams: z.number().min(0).optional(),
+});
+
+export type BatchOrderFailure = z.infer<typeof batchOrderFailureSchema>;
+
+export const batchStatusUpdateSchema = z
+  .object({
+    status: z.enum(Object.values(BatchStatus) as [BatchStatusValue], {
+      errorMap: () => ({ message: "Invalid batch status" }),
+    }),
+    failures: z.array(batchOrderFailureSchema).default([]),
+    reason: z.string().trim().optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.failures.length > 0 && data.status !== BatchStatus.FINISHED) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["failures"],
+        message: "Failures can only be reported when finishing a batch",
+      });
+    }
+  });
+
+export type BatchStatusUpdate = z.input<typeof batchStatusUpdateSchema>;
+
+export const batchOrdersSchema = z.object({
+  orderIds: z
+    .array(z.number().int().positive())
+    .min(1, "Select at least one order"),
+});
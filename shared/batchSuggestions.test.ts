@@ -0,0 +1,193 @@
+/** @format */
+
+import { describe, expect, it } from "vitest";
+import {
+  batchSuggestionQuerySchema,
+  getOrderPlateItems,
+  packPlate,
+  suggestBatches,
+} from "./batchSuggestions";
+import { PrinterStatus, type OrderFile, type Printer } from "./schema";
+
+const stl = (name: string, x: number, y: number): OrderFile =>
+  ({
+    name,
+    size: 1,
+    type: "model/stl",
+    storageKey: `1/${name}`,
+    checksum: "",
+    uploadedAt: new Date().toISOString(),
+    analysis: {
+      kind: "stl",
+      boundingBox: { size: { x, y, z: 10 } },
+      estimatedGrams: 10,
+      estimatedHours: 1,
+      fitsBuildVolume: true,
+    },
+  }) as OrderFile;
+
+const order = (
+  id: number,
+  files: OrderFile[],
+  material: string | null = "PLA",
+  color: string | null = "Red"
+) => ({ id, orderId: `#RC26${id}`, material, color, files });
+
+const printer = (
+  id: number,
+  size: number,
+  overrides: Partial<Printer> = {}
+): Printer => ({
+  id,
+  name: `Printer ${id}`,
+  model: null,
+  buildVolumeX: size,
+  buildVolumeY: size,
+  buildVolumeZ: 250,
+  supportedMaterials: ["PLA"],
+  nozzleSizeMm: 0.4,
+  status: PrinterStatus.IDLE,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const options = {
+  maxHours: 24,
+  getOrderHours: () => 2,
+  date: new Date("2026-10-19T09:00:00Z"),
+};
+
+describe("getOrderPlateItems", () => {
+  it("lists the footprint of each analysed mesh", () => {
+    expect(getOrderPlateItems(order(1, [stl("a.stl", 30, 40)]))).toEqual([
+      { orderId: 1, fileName: "a.stl", width: 30, depth: 40 },
+    ]);
+  });
+
+  it("can't place orders without files, analyses or with G-code", () => {
+    const unanalysed = { ...stl("a.stl", 30, 40), analysis: undefined };
+    const gcode = {
+      ...stl("a.gcode", 30, 40),
+      analysis: { kind: "gcode", boundingBox: { size: { x: 30, y: 40, z: 1 } } },
+    } as OrderFile;
+
+    expect(getOrderPlateItems(order(1, []))).toBeNull();
+    expect(getOrderPlateItems(order(1, [unanalysed]))).toBeNull();
+    expect(getOrderPlateItems(order(1, [gcode]))).toBeNull();
+  });
+});
+
+describe("packPlate", () => {
+  const item = (fileName: string, width: number, depth: number) => ({
+    orderId: 1,
+    fileName,
+    width,
+    depth,
+  });
+
+  it("lays parts lengthwise and opens a new row when one is full", () => {
+    expect(
+      packPlate([item("a", 90, 40), item("b", 40, 90)], { x: 100, y: 100 })
+    ).toEqual([
+      { ...item("a", 90, 40), x: 0, y: 0 },
+      { ...item("b", 90, 40), x: 0, y: 45 },
+    ]);
+  });
+
+  it("returns null when the parts don't all fit", () => {
+    const plate = { x: 100, y: 100 };
+    expect(packPlate([item("a", 30, 120)], plate)).toBeNull();
+    expect(
+      packPlate([item("a", 90, 40), item("b", 90, 40), item("c", 90, 40)], plate)
+    ).toBeNull();
+  });
+});
+
+describe("suggestBatches", () => {
+  it("groups orders by material and color, leaving single orders out", () => {
+    const suggestions = suggestBatches(
+      [
+        order(1, [stl("a.stl", 50, 50)]),
+        order(2, [stl("b.stl", 50, 50)], "pla", " red "),
+        order(3, [stl("c.stl", 50, 50)], "PETG"),
+      ],
+      [],
+      options
+    );
+
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0]).toMatchObject({
+      material: "PLA",
+      color: "Red",
+      name: "PLA Red 2026-10-19",
+      printerId: null,
+      plate: { x: 220, y: 220 },
+      orderIds: [1, 2],
+      orderCodes: ["#RC261", "#RC262"],
+      estimatedHours: 4,
+      estimatedGrams: 20,
+    });
+  });
+
+  it("keeps each proposal within the time limit", () => {
+    const orders = [1, 2, 3].map((id) => order(id, [stl("a.stl", 20, 20)]));
+    const suggestions = suggestBatches(orders, [], {
+      ...options,
+      maxHours: 4,
+    });
+    expect(suggestions.map((suggestion) => suggestion.orderIds)).toEqual([
+      [1, 2],
+    ]);
+  });
+
+  it("packs onto the largest available printer for the material", () => {
+    const orders = [1, 2].map((id) => order(id, [stl("a.stl", 150, 150)]));
+    const printers = [
+      printer(1, 220),
+      printer(2, 400),
+      printer(3, 500, { status: PrinterStatus.MAINTENANCE }),
+      printer(4, 500, { supportedMaterials: ["PETG"] }),
+    ];
+
+    const [suggestion] = suggestBatches(orders, printers, options);
+    expect(suggestion).toMatchObject({ printerId: 2, plate: { x: 400, y: 400 } });
+    expect(
+      suggestBatches(
+        [1, 2].map((id) => order(id, [stl("a.stl", 50, 50)], "ABS")),
+        printers,
+        options
+      )
+    ).toEqual([]);
+  });
+
+  it("only uses the requested printer, leaving out orders it can't take", () => {
+    const small = printer(1, 120);
+    const printers = [small, printer(2, 400)];
+    const big = [1, 2].map((id) => order(id, [stl("a.stl", 100, 100)]));
+    const fitting = [
+      order(3, [stl("a.stl", 50, 50)]),
+      order(4, [stl("b.stl", 150, 20)]),
+      order(5, [stl("c.stl", 50, 50)]),
+    ];
+
+    expect(suggestBatches(big, printers, { ...options, printer: small })).toEqual(
+      []
+    );
+    expect(
+      suggestBatches(fitting, printers, { ...options, printer: small })
+    ).toMatchObject([{ printerId: 1, plate: { x: 120, y: 120 }, orderIds: [3, 5] }]);
+  });
+});
+
+describe("batchSuggestionQuerySchema", () => {
+  it("reads the printer from the query string", () => {
+    expect(batchSuggestionQuerySchema.parse({})).toEqual({});
+    expect(batchSuggestionQuerySchema.parse({ printerId: "4" })).toEqual({
+      printerId: 4,
+    });
+    expect(batchSuggestionQuerySchema.safeParse({ printerId: "x" }).success).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,238 @@
+/** @format */
+
+import { z } from "zod";
+import { DEFAULT_BUILD_VOLUME } from "./stl";
+import { checkPrinterFit, isPrinterAvailable } from "./printers";
+import { getOrderPrintEstimate } from "./printEstimates";
+import type { Order, OrderFile, Printer } from "./schema";
+
+// Gap left between parts so the nozzle doesn't drag between them
+export const PLATE_SPACING_MM = 5;
+
+type SuggestionOrder = Pick<
+  Order,
+  "id" | "orderId" | "material" | "color" | "files"
+>;
+
+export interface PlateItem {
+  orderId: number;
+  fileName: string;
+  width: number; // mm along X
+  depth: number; // mm along Y
+}
+
+export interface PlatePlacement extends PlateItem {
+  x: number;
+  y: number;
+}
+
+export interface BatchSuggestion {
+  material: string;
+  color: string;
+  name: string;
+  // null when no printers are registered and the default plate was used
+  printerId: number | null;
+  printerName: string | null;
+  plate: { x: number; y: number }; // mm
+  orderIds: number[];
+  orderCodes: string[];
+  estimatedHours: number;
+  estimatedGrams: number;
+  // Share of the plate covered by part footprints, 0–1
+  plateUsage: number;
+  placements: PlatePlacement[];
+}
+
+// The parts an order puts on the plate, or null when it can't be packed:
+// files without an analysis have no known size, and sliced G-code already
+// has its own plate layout.
+export function getOrderPlateItems(order: SuggestionOrder): PlateItem[] | null {
+  const files = Array.isArray(order.files) ? (order.files as OrderFile[]) : [];
+  if (files.length === 0) return null;
+  const items: PlateItem[] = [];
+  for (const file of files) {
+    if (file.analysis?.kind !== "stl") return null;
+    const { size } = file.analysis.boundingBox;
+    items.push({ orderId: order.id, fileName: file.name, width: size.x, depth: size.y });
+  }
+  return items;
+}
+
+// Shelf packing: parts go left to right in rows as deep as the deepest part
+// in them, largest first. Parts may be turned 90° on the plate. Returns null
+// when they don't all fit.
+export function packPlate(
+  items: PlateItem[],
+  plate: { x: number; y: number },
+  spacing = PLATE_SPACING_MM
+): PlatePlacement[] | null {
+  const oriented: PlateItem[] = [];
+  for (const item of items) {
+    const long = Math.max(item.width, item.depth);
+    const short = Math.min(item.width, item.depth);
+    // Lying lengthwise keeps rows shallow
+    if (long <= plate.x && short <= plate.y) {
+      oriented.push({ ...item, width: long, depth: short });
+    } else if (short <= plate.x && long <= plate.y) {
+      oriented.push({ ...item, width: short, depth: long });
+    } else {
+      return null;
+    }
+  }
+  oriented.sort((a, b) => b.depth - a.depth || b.width - a.width);
+
+  const shelves: { y: number; depth: number; usedX: number }[] = [];
+  const placements: PlatePlacement[] = [];
+  for (const item of oriented) {
+    let shelf = shelves.find(
+      (candidate) =>
+        item.depth <= candidate.depth && candidate.usedX + item.width <= plate.x
+    );
+    if (!shelf) {
+      const last = shelves[shelves.length - 1];
+      const y = last ? last.y + last.depth + spacing : 0;
+      if (y + item.depth > plate.y) return null;
+      shelf = { y, depth: item.depth, usedX: 0 };
+      shelves.push(shelf);
+    }
+    placements.push({ ...item, x: shelf.usedX, y: shelf.y });
+    shelf.usedX += item.width + spacing;
+  }
+  return placements;
+}
+
+function groupKey(order: SuggestionOrder) {
+  return `${(order.material || "PLA").toUpperCase()}|${(order.color || "")
+    .trim()
+    .toLowerCase()}`;
+}
+
+// Printers able to take the group's material, biggest plate first
+function getGroupPrinters(material: string, printers: Printer[]) {
+  return printers
+    .filter(
+      (printer) =>
+        isPrinterAvailable(printer) &&
+        printer.supportedMaterials.some(
+          (supported) => supported.toUpperCase() === material
+        )
+    )
+    .sort(
+      (a, b) => b.buildVolumeX * b.buildVolumeY - a.buildVolumeX * a.buildVolumeY
+    );
+}
+
+interface OpenBatch {
+  orders: SuggestionOrder[];
+  items: PlateItem[];
+  placements: PlatePlacement[];
+  hours: number;
+}
+
+// Proposes batches of approved, unbatched orders that share a material and
+// color. `orders` should be in priority order: each order joins the first
+// proposal with room on the plate and in the time limit, so urgent orders
+// are grouped first. Only proposals of two or more orders are returned.
+// With `options.printer`, every group is packed onto that printer's plate
+// and orders it can't take are left out.
+export function suggestBatches(
+  orders: SuggestionOrder[],
+  printers: Printer[],
+  options: {
+    maxHours: number;
+    getOrderHours: (order: SuggestionOrder) => number;
+    printer?: Printer;
+    date?: Date;
+  }
+): BatchSuggestion[] {
+  const groups = new Map<string, SuggestionOrder[]>();
+  for (const order of orders) {
+    groups.set(groupKey(order), [...(groups.get(groupKey(order)) || []), order]);
+  }
+
+  const day = (options.date ?? new Date()).toISOString().split("T")[0];
+  const suggestions: BatchSuggestion[] = [];
+  for (const group of Array.from(groups.values())) {
+    const material = (group[0].material || "PLA").toUpperCase();
+    const color = (group[0].color || "").trim();
+    const printer =
+      options.printer ?? getGroupPrinters(material, printers)[0];
+    if (printers.length > 0 && !printer) continue;
+    const plate = printer
+      ? { x: printer.buildVolumeX, y: printer.buildVolumeY }
+      : { x: DEFAULT_BUILD_VOLUME.x, y: DEFAULT_BUILD_VOLUME.y };
+
+    const open: OpenBatch[] = [];
+    for (const order of group) {
+      const items = getOrderPlateItems(order);
+      const hours = options.getOrderHours(order);
+      if (!items || hours > options.maxHours) continue;
+      if (printer && checkPrinterFit(order, printer).length > 0) continue;
+
+      let placed = false;
+      for (const batch of open) {
+        if (batch.hours + hours > options.maxHours) continue;
+        const placements = packPlate([...batch.items, ...items], plate);
+        if (!placements) continue;
+        batch.orders.push(order);
+        batch.items.push(...items);
+        batch.placements = placements;
+        batch.hours += hours;
+        placed = true;
+        break;
+      }
+      if (placed) continue;
+      const placements = packPlate(items, plate);
+      if (placements) open.push({ orders: [order], items, placements, hours });
+    }
+
+    const plateArea = plate.x * plate.y;
+    open
+      .filter((batch) => batch.orders.length > 1)
+      .forEach((batch, index) => {
+        suggestions.push({
+          material,
+          color,
+          name: `${material} ${color} ${day}${index > 0 ? ` #${index + 1}` : ""}`.replace(/\s+/g, " "),
+          printerId: printer?.id ?? null,
+          printerName: printer?.name ?? null,
+          plate,
+          orderIds: batch.orders.map((order) => order.id),
+          orderCodes: batch.orders.map((order) => order.orderId),
+          estimatedHours: Math.round(batch.hours * 10) / 10,
+          estimatedGrams:
+            Math.round(
+              batch.orders.reduce(
+                (total, order) =>
+                  total + getOrderPrintEstimate(order.files).estimatedGrams,
+                0
+              ) * 10
+            ) / 10,
+          plateUsage:
+            Math.round(
+              (batch.items.reduce((area, item) => area + item.width * item.depth, 0) /
+                plateArea) *
+                100
+            ) / 100,
+          placements: batch.placements,
+        });
+      });
+  }
+  return suggestions;
+}
+
+export const batchSuggestionQuerySchema = z.object({
+  printerId: z.coerce.number().int().positive().optional(),
+});
+
+// Accepting names the proposal by its orders and the printer it was asked
+// for; the name may be edited
+export const batchSuggestionAcceptSchema = z.object({
+  name: z.string().trim().optional(),
+  printerId: z.number().int().positive().optional(),
+  orderIds: z
+    .array(z.number().int().positive())
+    .min(2, "A batch needs at least two orders"),
+});
+
+export type BatchSuggestionAccept = z.infer<typeof batchSuggestionAcceptSchema>;
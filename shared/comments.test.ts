@@ -0,0 +1,40 @@
+/** @format */
+
+import { describe, expect, it } from "vitest";
+import {
+  MAX_COMMENT_LENGTH,
+  orderCommentCreateSchema,
+  orderCommentUpdateSchema,
+} from "./comments";
+
+describe("orderCommentCreateSchema", () => {
+  it("reads the internal flag from form fields", () => {
+    expect(
+      orderCommentCreateSchema.parse({ body: " Hi ", internal: "true" })
+    ).toEqual({ body: "Hi", internal: true });
+    expect(orderCommentCreateSchema.parse({ internal: "false" })).toEqual({
+      body: "",
+      internal: false,
+    });
+    expect(orderCommentCreateSchema.parse({ internal: true }).internal).toBe(
+      true
+    );
+  });
+
+  it("limits the length of a comment", () => {
+    expect(
+      orderCommentCreateSchema.safeParse({
+        body: "x".repeat(MAX_COMMENT_LENGTH + 1),
+      }).success
+    ).toBe(false);
+  });
+});
+
+describe("orderCommentUpdateSchema", () => {
+  it("doesn't let an edit empty a comment", () => {
+    expect(
+      orderCommentUpdateSchema.safeParse({ body: "  " }).error?.errors[0]
+        ?.message
+    ).toBe("A comment can't be empty");
+  });
+});
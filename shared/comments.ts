@@ -0,0 +1,41 @@
+/** @format */
+
+import { z } from "zod";
+import type { OrderComment } from "./schema";
+import type { OrderTimelineActor } from "./orderTimeline";
+
+// Reference photos and documents, plus models for "print it like this"
+export const commentAttachmentTypes = [
+  ".png",
+  ".jpg",
+  ".jpeg",
+  ".webp",
+  ".gif",
+  ".pdf",
+  ".stl",
+];
+
+export const MAX_COMMENT_ATTACHMENTS = 5;
+export const MAX_COMMENT_LENGTH = 5000;
+
+// Comments are posted as multipart forms, so flags arrive as strings
+export const orderCommentCreateSchema = z.object({
+  body: z.string().trim().max(MAX_COMMENT_LENGTH).default(""),
+  internal: z
+    .preprocess((value) => value === true || value === "true", z.boolean())
+    .default(false),
+});
+
+export const orderCommentUpdateSchema = z.object({
+  body: z
+    .string()
+    .trim()
+    .min(1, "A comment can't be empty")
+    .max(MAX_COMMENT_LENGTH),
+});
+
+// A comment as returned by the API, with its author resolved for the viewer
+export type OrderCommentView = Omit<OrderComment, "authorId"> & {
+  author: OrderTimelineActor;
+  own: boolean;
+};
@@ -0,0 +1,76 @@
+/** @format */
+
+import { describe, expect, it } from "vitest";
+import { getMatchingSpools, isLowStock } from "./filament";
+import type { FilamentSpool } from "./schema";
+
+let nextId = 1;
+const spool = (overrides: Partial<FilamentSpool>): FilamentSpool => ({
+  id: nextId++,
+  material: "PLA",
+  color: "White",
+  brand: null,
+  initialGrams: 1000,
+  remainingGrams: 500,
+  ownerClubId: null,
+  location: null,
+  createdAt: null,
+  updatedAt: null,
+  ...overrides,
+});
+
+const order = {
+  material: "PLA",
+  color: "Black",
+  clubId: 3,
+  providingFilament: false,
+};
+
+describe("getMatchingSpools", () => {
+  it("matches material and color loosely, fullest spool first", () => {
+    const low = spool({ color: "black", remainingGrams: 100 });
+    const full = spool({
+      material: " pla",
+      color: "Black ",
+      remainingGrams: 900,
+    });
+    const other = spool({ color: "Red" });
+
+    expect(getMatchingSpools(order, [low, other, full])).toEqual([full, low]);
+  });
+
+  it("defaults to white PLA", () => {
+    const white = spool({});
+    expect(
+      getMatchingSpools(
+        { ...order, material: null, color: null },
+        [white, spool({ material: "ABS" })]
+      )
+    ).toEqual([white]);
+  });
+
+  it("uses the club's own spools only when the student brought filament", () => {
+    const lab = spool({ color: "Black" });
+    const clubs = spool({ color: "Black", ownerClubId: 3 });
+    const otherClubs = spool({ color: "Black", ownerClubId: 4 });
+    const spools = [lab, clubs, otherClubs];
+
+    expect(getMatchingSpools(order, spools)).toEqual([lab]);
+    expect(
+      getMatchingSpools({ ...order, providingFilament: true }, spools)
+    ).toEqual([clubs]);
+  });
+
+  it("skips empty spools", () => {
+    expect(
+      getMatchingSpools(order, [spool({ color: "Black", remainingGrams: 0 })])
+    ).toEqual([]);
+  });
+});
+
+describe("isLowStock", () => {
+  it("is low at or below the threshold", () => {
+    expect(isLowStock(spool({ remainingGrams: 250 }), 250)).toBe(true);
+    expect(isLowStock(spool({ remainingGrams: 251 }), 250)).toBe(false);
+  });
+});
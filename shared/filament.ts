@@ -0,0 +1,30 @@
+/** @format */
+
+import type { FilamentSpool, Order } from "./schema";
+
+function sameText(a: string | null | undefined, b: string | null | undefined) {
+  return (a || "").trim().toLowerCase() === (b || "").trim().toLowerCase();
+}
+
+// Spools an order can draw from: same material and color, owned by the
+// order's club when the student brought their own filament, lab stock
+// otherwise. Fullest spool first.
+export function getMatchingSpools(
+  order: Pick<Order, "material" | "color" | "clubId" | "providingFilament">,
+  spools: FilamentSpool[]
+): FilamentSpool[] {
+  const ownerClubId = order.providingFilament ? order.clubId ?? null : null;
+  return spools
+    .filter(
+      (spool) =>
+        sameText(spool.material, order.material || "PLA") &&
+        sameText(spool.color, order.color || "White") &&
+        (spool.ownerClubId ?? null) === ownerClubId &&
+        spool.remainingGrams > 0
+    )
+    .sort((a, b) => b.remainingGrams - a.remainingGrams);
+}
+
+export function isLowStock(spool: FilamentSpool, thresholdGrams: number) {
+  return spool.remainingGrams <= thresholdGrams;
+}
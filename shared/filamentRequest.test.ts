@@ -0,0 +1,98 @@
+/** @format */
+
+import { describe, expect, it } from "vitest";
+import {
+  canRequestFilament,
+  filamentRequestCreateSchema,
+  isAwaitingFilament,
+} from "./filamentRequest";
+import {
+  FilamentRequestStatus,
+  OrderStatus,
+  type FilamentRequest,
+} from "./schema";
+
+const request = (status: FilamentRequest["status"]): FilamentRequest => ({
+  status,
+  material: "PETG",
+  color: "Blue",
+  grams: 120,
+  requestedAt: "2026-03-02T09:00:00.000Z",
+  requestedBy: 2,
+});
+
+describe("isAwaitingFilament", () => {
+  it("waits until staff confirm receipt", () => {
+    expect(isAwaitingFilament({ filamentRequest: null })).toBe(false);
+    expect(
+      isAwaitingFilament({
+        filamentRequest: request(FilamentRequestStatus.REQUESTED),
+      })
+    ).toBe(true);
+    expect(
+      isAwaitingFilament({
+        filamentRequest: request(FilamentRequestStatus.DROPPED_OFF),
+      })
+    ).toBe(true);
+    expect(
+      isAwaitingFilament({
+        filamentRequest: request(FilamentRequestStatus.RECEIVED),
+      })
+    ).toBe(false);
+  });
+});
+
+describe("canRequestFilament", () => {
+  it("only allows one open request, before approval", () => {
+    expect(
+      canRequestFilament({
+        status: OrderStatus.SUBMITTED,
+        filamentRequest: null,
+      })
+    ).toBe(true);
+    expect(
+      canRequestFilament({
+        status: OrderStatus.SUBMITTED,
+        filamentRequest: request(FilamentRequestStatus.REQUESTED),
+      })
+    ).toBe(false);
+    expect(
+      canRequestFilament({
+        status: OrderStatus.SUBMITTED,
+        filamentRequest: request(FilamentRequestStatus.RECEIVED),
+      })
+    ).toBe(true);
+    expect(
+      canRequestFilament({
+        status: OrderStatus.APPROVED,
+        filamentRequest: null,
+      })
+    ).toBe(false);
+  });
+});
+
+describe("filamentRequestCreateSchema", () => {
+  it("normalises the material", () => {
+    expect(
+      filamentRequestCreateSchema.parse({
+        material: " petg ",
+        color: "Blue",
+        grams: 120,
+      })
+    ).toEqual({ material: "PETG", color: "Blue", grams: 120 });
+  });
+
+  it("requires a material, a color and a positive quantity", () => {
+    const message = (input: Record<string, unknown>) =>
+      filamentRequestCreateSchema.safeParse({
+        material: "PLA",
+        color: "Red",
+        grams: 50,
+        ...input,
+      }).error?.errors[0]?.message;
+
+    expect(message({ material: " " })).toBe("Material is required");
+    expect(message({ color: "" })).toBe("Color is required");
+    expect(message({ grams: 0 })).toBe("Quantity must be positive");
+  });
+});
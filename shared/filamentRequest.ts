@@ -0,0 +1,29 @@
+/** @format */
+
+import { z } from "zod";
+import { FilamentRequestStatus, OrderStatus, type Order } from "./schema";
+
+// Staff ask for filament before approving, the student marks it dropped off,
+// and staff confirm receipt. Approval is blocked until then.
+export const filamentRequestCreateSchema = z.object({
+  material: z.string().trim().toUpperCase().min(1, "Material is required"),
+  color: z.string().trim().min(1, "Color is required"),
+  grams: z.number().positive("Quantity must be positive"),
+  note: z.string().trim().optional(),
+});
+
+export type FilamentRequestCreate = z.infer<typeof filamentRequestCreateSchema>;
+
+export function isAwaitingFilament(order: Pick<Order, "filamentRequest">) {
+  return (
+    !!order.filamentRequest &&
+    order.filamentRequest.status !== FilamentRequestStatus.RECEIVED
+  );
+}
+
+// Filament can only be requested before an order is approved
+export function canRequestFilament(
+  order: Pick<Order, "status" | "filamentRequest">
+) {
+  return order.status === OrderStatus.SUBMITTED && !isAwaitingFilament(order);
+}
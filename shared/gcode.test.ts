@@ -0,0 +1,122 @@
+/** @format */
+
+import { describe, expect, it } from "vitest";
+import { analyzeGcode, parseDuration } from "./gcode";
+
+const gcode = (...lines: string[]) => lines.join("\n");
+
+describe("parseDuration", () => {
+  it("adds up day, hour, minute and second parts", () => {
+    expect(parseDuration("1d 2h 3m 4s")).toBe(93784);
+    expect(parseDuration("2h 5m")).toBe(7500);
+    expect(parseDuration("45m 10s")).toBe(2710);
+  });
+
+  it("returns undefined when there is no duration", () => {
+    expect(parseDuration("soon")).toBeUndefined();
+  });
+});
+
+describe("analyzeGcode", () => {
+  it("reads Cura's header comments", () => {
+    const analysis = analyzeGcode(
+      gcode(
+        ";FLAVOR:Marlin",
+        ";TIME:5400",
+        ";Filament used: 2.5m",
+        ";Layer height: 0.16",
+        "G1 X10 Y10 E1"
+      )
+    );
+
+    expect(analysis).toMatchObject({
+      kind: "gcode",
+      slicer: "cura",
+      estimateSource: "slicer",
+      estimatedHours: 1.5,
+      filamentLengthMm: 2500,
+      estimatedGrams: 7.5,
+      layerHeightMm: 0.16,
+    });
+  });
+
+  it("reads PrusaSlicer's settings block, using the first extruder", () => {
+    const analysis = analyzeGcode(
+      gcode(
+        "; generated by PrusaSlicer 2.7.1",
+        "G1 X10 Y10 E1",
+        "; filament used [mm] = 1234.5",
+        "; filament used [g] = 3.7",
+        "; estimated printing time (normal mode) = 1h 2m 3s",
+        "; layer_height = 0.2",
+        "; temperature = 215,220",
+        "; bed_temperature = 60",
+        "; filament_type = PETG;PLA"
+      )
+    );
+
+    expect(analysis).toMatchObject({
+      slicer: "prusaslicer",
+      estimateSource: "slicer",
+      estimatedHours: 1,
+      filamentLengthMm: 1235,
+      estimatedGrams: 3.7,
+      layerHeightMm: 0.2,
+      nozzleTempC: 215,
+      bedTempC: 60,
+      material: "PETG",
+    });
+  });
+
+  it("simulates the moves when there are no slicer comments", () => {
+    const analysis = analyzeGcode(
+      gcode(
+        "M104 S210",
+        "M140 S60",
+        "G28",
+        "G1 Z0.2 F3000",
+        "G1 X10 Y10 ; travel",
+        "G1 X50 Y10 E2 F1200",
+        "G1 X50 Y40 E4",
+        "G1 Z0.4",
+        "G1 X10 Y40 E6",
+        "G1 Z0.6",
+        "G1 X10 Y10 E8"
+      )
+    );
+
+    expect(analysis).toMatchObject({
+      slicer: "unknown",
+      estimateSource: "simulated",
+      filamentLengthMm: 8,
+      layerHeightMm: 0.2,
+      nozzleTempC: 210,
+      bedTempC: 60,
+      material: null,
+      boundingBox: { size: { x: 40, y: 30, z: 0.6 } },
+      fitsBuildVolume: true,
+    });
+  });
+
+  it("follows relative extrusion and G92 resets", () => {
+    const analysis = analyzeGcode(
+      gcode(
+        "M83",
+        "G1 X10 E3",
+        "G1 X20 E3",
+        "G92 E0",
+        "M82",
+        "G1 X30 E2"
+      )
+    );
+    expect(analysis.filamentLengthMm).toBe(8);
+  });
+
+  it("checks the print extents against the build volume", () => {
+    const analysis = analyzeGcode(gcode("G1 X0 Y0", "G1 X200 Y0 E10"), {
+      buildVolume: { x: 150, y: 150, z: 150 },
+    });
+    expect(analysis.boundingBox.size.x).toBe(200);
+    expect(analysis.fitsBuildVolume).toBe(false);
+  });
+});
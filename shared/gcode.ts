@@ -0,0 +1,278 @@
+/** @format */
+
+import type { GcodeAnalysis } from "./schema";
+import {
+  DEFAULT_BUILD_VOLUME,
+  MATERIAL_DENSITY,
+  type BuildVolume,
+} from "./stl";
+
+const DEFAULT_FILAMENT_DIAMETER_MM = 1.75;
+const DEFAULT_FEEDRATE_MM_PER_MIN = 1500;
+
+type Slicer = GcodeAnalysis["slicer"];
+
+interface SlicerHeader {
+  slicer: Slicer;
+  seconds?: number;
+  filamentLengthMm?: number;
+  grams?: number;
+  layerHeightMm?: number;
+  nozzleTempC?: number;
+  bedTempC?: number;
+  material?: string;
+  filamentDiameterMm?: number;
+}
+
+// "1d 2h 3m 4s", "2h 5m", "45m 10s"
+export function parseDuration(value: string): number | undefined {
+  const units: Record<string, number> = { d: 86400, h: 3600, m: 60, s: 1 };
+  let seconds = 0;
+  let matched = false;
+  for (const [, amount, unit] of Array.from(
+    value.matchAll(/(\d+(?:\.\d+)?)\s*([dhms])/gi)
+  )) {
+    seconds += Number(amount) * units[unit.toLowerCase()];
+    matched = true;
+  }
+  return matched ? seconds : undefined;
+}
+
+// Multi-extruder slicers write "PLA;PETG" or "215,215"; use the first extruder
+function firstValue(value: string) {
+  return value.split(/[;,]/)[0].trim();
+}
+
+function firstNumber(value: string) {
+  const number = parseFloat(firstValue(value));
+  return isNaN(number) ? undefined : number;
+}
+
+// Cura writes settings at the top (";TIME:", ";Filament used:"), PrusaSlicer
+// and OrcaSlicer write "; key = value" blocks at the bottom of the file.
+function readSlicerComments(lines: string[]): SlicerHeader {
+  const header: SlicerHeader = { slicer: "unknown" };
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line.startsWith(";")) continue;
+    const comment = line.slice(1).trim();
+
+    if (/generated with cura|^flavor:/i.test(comment)) {
+      header.slicer = "cura";
+    } else if (/generated by prusaslicer/i.test(comment)) {
+      header.slicer = "prusaslicer";
+    } else if (/orcaslicer|bambustudio/i.test(comment)) {
+      header.slicer = "orcaslicer";
+    }
+
+    let match: RegExpMatchArray | null;
+    if ((match = comment.match(/^(?:PRINT\.)?TIME:\s*(\d+)/))) {
+      header.seconds ??= Number(match[1]);
+    } else if ((match = comment.match(/^Filament used:\s*([\d.]+)\s*m/i))) {
+      header.filamentLengthMm ??= Number(match[1]) * 1000;
+    } else if ((match = comment.match(/^Layer height:\s*([\d.]+)/i))) {
+      header.layerHeightMm ??= Number(match[1]);
+    } else if ((match = comment.match(/^MATERIAL:\s*(\S+)/i))) {
+      header.material ??= match[1];
+    } else if (
+      (match = comment.match(
+        /(?:estimated printing time(?: \(normal mode\))?\s*=|total estimated time:)\s*([^;]+)/i
+      ))
+    ) {
+      header.seconds ??= parseDuration(match[1]);
+    } else if ((match = comment.match(/^([a-z_ \[\]]+?)\s*=\s*(.+)$/i))) {
+      const [, key, value] = match;
+      switch (key.trim().toLowerCase()) {
+        case "filament used [mm]":
+          header.filamentLengthMm ??= firstNumber(value);
+          break;
+        case "filament used [g]":
+        case "total filament used [g]":
+          header.grams ??= firstNumber(value);
+          break;
+        case "layer_height":
+          header.layerHeightMm ??= firstNumber(value);
+          break;
+        case "temperature":
+        case "nozzle_temperature":
+          header.nozzleTempC ??= firstNumber(value);
+          break;
+        case "bed_temperature":
+        case "hot_plate_temp":
+          header.bedTempC ??= firstNumber(value);
+          break;
+        case "filament_type":
+          header.material ??= firstValue(value);
+          break;
+        case "filament_diameter":
+          header.filamentDiameterMm ??= firstNumber(value);
+          break;
+      }
+    }
+  }
+
+  return header;
+}
+
+// Replays G0/G1 moves to estimate time, filament and print extents. Time
+// ignores acceleration, so it runs short of what the printer will take.
+function simulateMoves(lines: string[]) {
+  const position = { X: 0, Y: 0, Z: 0, E: 0 };
+  let absolute = true;
+  let absoluteExtrusion = true;
+  let feedrate = DEFAULT_FEEDRATE_MM_PER_MIN;
+  let seconds = 0;
+  let filamentLengthMm = 0;
+  let nozzleTempC: number | undefined;
+  let bedTempC: number | undefined;
+  const min = { X: Infinity, Y: Infinity, Z: Infinity };
+  const max = { X: -Infinity, Y: -Infinity, Z: -Infinity };
+  const layerZs: number[] = [];
+
+  for (const rawLine of lines) {
+    const line = rawLine.split(";")[0].trim().toUpperCase();
+    if (!line) continue;
+    const [command, ...words] = line.split(/\s+/);
+    const params: Record<string, number> = {};
+    for (const word of words) {
+      const value = parseFloat(word.slice(1));
+      if (!isNaN(value)) params[word[0]] = value;
+    }
+
+    switch (command) {
+      case "G0":
+      case "G1": {
+        if (params.F) feedrate = params.F;
+        const next = { ...position };
+        for (const axis of ["X", "Y", "Z"] as const) {
+          if (params[axis] !== undefined) {
+            next[axis] = absolute ? params[axis] : position[axis] + params[axis];
+          }
+        }
+        let extruded = 0;
+        if (params.E !== undefined) {
+          extruded = absoluteExtrusion ? params.E - position.E : params.E;
+          next.E = absoluteExtrusion ? params.E : position.E + params.E;
+        }
+
+        const distance = Math.hypot(
+          next.X - position.X,
+          next.Y - position.Y,
+          next.Z - position.Z
+        );
+        seconds += (distance || Math.abs(extruded)) / (feedrate / 60);
+
+        const moved = next.X !== position.X || next.Y !== position.Y;
+        if (extruded > 0) {
+          filamentLengthMm += extruded;
+          if (moved) {
+            for (const axis of ["X", "Y", "Z"] as const) {
+              min[axis] = Math.min(min[axis], position[axis], next[axis]);
+              max[axis] = Math.max(max[axis], position[axis], next[axis]);
+            }
+            if (layerZs[layerZs.length - 1] !== next.Z) layerZs.push(next.Z);
+          }
+        }
+        Object.assign(position, next);
+        break;
+      }
+      case "G4":
+        seconds += params.P !== undefined ? params.P / 1000 : params.S ?? 0;
+        break;
+      case "G28":
+        position.X = position.Y = position.Z = 0;
+        break;
+      case "G90":
+        absolute = absoluteExtrusion = true;
+        break;
+      case "G91":
+        absolute = absoluteExtrusion = false;
+        break;
+      case "M82":
+        absoluteExtrusion = true;
+        break;
+      case "M83":
+        absoluteExtrusion = false;
+        break;
+      case "G92":
+        for (const axis of ["X", "Y", "Z", "E"] as const) {
+          if (params[axis] !== undefined) position[axis] = params[axis];
+        }
+        break;
+      case "M104":
+      case "M109":
+        if (params.S) nozzleTempC = Math.max(nozzleTempC ?? 0, params.S);
+        break;
+      case "M140":
+      case "M190":
+        if (params.S) bedTempC = Math.max(bedTempC ?? 0, params.S);
+        break;
+    }
+  }
+
+  // Most common step between successive printed layers
+  const steps = new Map<string, number>();
+  for (let i = 1; i < layerZs.length; i++) {
+    const step = layerZs[i] - layerZs[i - 1];
+    if (step > 0) {
+      const key = step.toFixed(2);
+      steps.set(key, (steps.get(key) || 0) + 1);
+    }
+  }
+  const layerStep = Array.from(steps).sort((a, b) => b[1] - a[1])[0];
+
+  const printed = min.X !== Infinity;
+  return {
+    seconds,
+    filamentLengthMm,
+    nozzleTempC,
+    bedTempC,
+    layerHeightMm: layerStep ? Number(layerStep[0]) : undefined,
+    size: {
+      x: printed ? max.X - min.X : 0,
+      y: printed ? max.Y - min.Y : 0,
+      z: printed ? max.Z : 0,
+    },
+  };
+}
+
+export function analyzeGcode(
+  text: string,
+  options: { buildVolume?: BuildVolume } = {}
+): GcodeAnalysis {
+  const lines = text.split(/\r?\n/);
+  const header = readSlicerComments(lines);
+  const simulated = simulateMoves(lines);
+
+  const filamentLengthMm = header.filamentLengthMm ?? simulated.filamentLengthMm;
+  const material = header.material?.toUpperCase() ?? null;
+  const diameter = header.filamentDiameterMm ?? DEFAULT_FILAMENT_DIAMETER_MM;
+  const density =
+    (material && MATERIAL_DENSITY[material]) || MATERIAL_DENSITY.PLA;
+  const grams =
+    header.grams ??
+    (Math.PI * (diameter / 2) ** 2 * filamentLengthMm * density) / 1000;
+  const seconds = header.seconds ?? simulated.seconds;
+  // Sliced G-code is already oriented, so no rotating it to fit
+  const buildVolume = options.buildVolume ?? DEFAULT_BUILD_VOLUME;
+  const { size } = simulated;
+
+  return {
+    kind: "gcode",
+    slicer: header.slicer,
+    estimateSource: header.seconds !== undefined ? "slicer" : "simulated",
+    estimatedHours: Math.round((seconds / 3600) * 10) / 10,
+    filamentLengthMm: Math.round(filamentLengthMm),
+    estimatedGrams: Math.round(grams * 10) / 10,
+    layerHeightMm: header.layerHeightMm ?? simulated.layerHeightMm ?? null,
+    nozzleTempC: header.nozzleTempC ?? simulated.nozzleTempC ?? null,
+    bedTempC: header.bedTempC ?? simulated.bedTempC ?? null,
+    material,
+    boundingBox: { size },
+    fitsBuildVolume:
+      size.x <= buildVolume.x &&
+      size.y <= buildVolume.y &&
+      size.z <= buildVolume.z,
+  };
+}
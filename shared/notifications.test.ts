@@ -0,0 +1,121 @@
+/** @format */
+
+import { describe, expect, it } from "vitest";
+import {
+  defaultEmailTemplates,
+  emailTemplateKey,
+  emailTemplateSchema,
+  fillTemplate,
+  inAppTemplates,
+  isChannelEnabled,
+  NotificationType,
+  renderTemplate,
+  templateVariables,
+} from "./notifications";
+import { notificationPreferencesSchema } from "./schema";
+
+describe("fillTemplate", () => {
+  it("fills placeholders, with or without spaces inside the braces", () => {
+    expect(
+      fillTemplate("Hi {{name}}, {{ projectName }} is ready", {
+        name: "Asha",
+        projectName: "Bracket",
+      })
+    ).toBe("Hi Asha, Bracket is ready");
+  });
+
+  it("drops missing variables and the blank paragraphs they leave", () => {
+    expect(
+      fillTemplate("Cancelled:\n\n{{reason}}\n\nSorry {{nobody}}", {})
+    ).toBe("Cancelled:\n\nSorry");
+  });
+});
+
+describe("renderTemplate", () => {
+  it("renders the subject and body of a template", () => {
+    const rendered = renderTemplate(
+      defaultEmailTemplates[NotificationType.ORDER_FAILED],
+      {
+        name: "Asha",
+        orderId: "#RC26001",
+        projectName: "Bracket",
+        reason: "Nozzle clog",
+        orderUrl: "http://localhost:5000/orders/1",
+      }
+    );
+    expect(rendered.subject).toBe("[#RC26001] Your print failed");
+    expect(rendered.body).toContain("Nozzle clog");
+    expect(rendered.body).toContain("http://localhost:5000/orders/1");
+    expect(rendered.body).not.toContain("{{");
+  });
+});
+
+describe("default templates", () => {
+  it("cover every notification type with known placeholders only", () => {
+    for (const type of Object.values(NotificationType)) {
+      const template = defaultEmailTemplates[type];
+      expect(emailTemplateSchema.safeParse(template).success).toBe(true);
+
+      const text = template.subject + template.body + inAppTemplates[type];
+      for (const [, name] of Array.from(text.matchAll(/\{\{\s*(\w+)\s*\}\}/g))) {
+        expect(templateVariables).toContain(name);
+      }
+    }
+  });
+
+  it("are stored under one config key per type", () => {
+    expect(emailTemplateKey(NotificationType.ORDER_APPROVED)).toBe(
+      "email_template_order_approved"
+    );
+  });
+
+  it("need a subject and a body", () => {
+    expect(
+      emailTemplateSchema.safeParse({ subject: " ", body: "Hi" }).error
+        ?.errors[0]?.message
+    ).toBe("Subject is required");
+  });
+});
+
+describe("isChannelEnabled", () => {
+  it("keeps everything on until the user opts out", () => {
+    expect(isChannelEnabled(null, NotificationType.ORDER_STARTED, "email")).toBe(
+      true
+    );
+
+    const preferences = { email: { order_started: false }, inApp: {} };
+    expect(
+      isChannelEnabled(preferences, NotificationType.ORDER_STARTED, "email")
+    ).toBe(false);
+    expect(
+      isChannelEnabled(preferences, NotificationType.ORDER_STARTED, "inApp")
+    ).toBe(true);
+  });
+
+  it("always sends mandatory notifications", () => {
+    const preferences = { email: { order_failed: false }, inApp: {} };
+    expect(
+      isChannelEnabled(preferences, NotificationType.ORDER_FAILED, "email")
+    ).toBe(true);
+  });
+});
+
+describe("notificationPreferencesSchema", () => {
+  it("fills in missing channels", () => {
+    expect(
+      notificationPreferencesSchema.parse({ email: { order_started: false } })
+    ).toEqual({ email: { order_started: false }, inApp: {} });
+  });
+
+  it("rejects opting out of mandatory or unknown types", () => {
+    expect(
+      notificationPreferencesSchema.safeParse({
+        inApp: { order_cancelled: false },
+      }).error?.errors[0]?.message
+    ).toBe("Order cancelled notifications can't be turned off");
+    expect(
+      notificationPreferencesSchema.safeParse({ email: { party: false } })
+        .success
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,194 @@
+/** @format */
+
+import { z } from "zod";
+
+export const NotificationType = {
+  ORDER_SUBMITTED: "order_submitted",
+  ORDER_APPROVED: "order_approved",
+  ORDER_CANCELLED: "order_cancelled",
+  ORDER_STARTED: "order_started",
+  ORDER_FINISHED: "order_finished",
+  ORDER_FAILED: "order_failed",
+  ORDER_BATCHED: "order_batched",
+  FILAMENT_REQUESTED: "filament_requested",
+  ORDER_COMMENT: "order_comment",
+  TICKET_REPLY: "ticket_reply",
+} as const;
+
+export type NotificationTypeValue =
+  (typeof NotificationType)[keyof typeof NotificationType];
+
+// Mandatory notifications ask the student to act or explain why their order
+// stopped, so they are sent regardless of preferences.
+export const notificationTypes: Record<
+  NotificationTypeValue,
+  { label: string; mandatory: boolean }
+> = {
+  [NotificationType.ORDER_SUBMITTED]: { label: "Order received", mandatory: false },
+  [NotificationType.ORDER_APPROVED]: { label: "Order approved", mandatory: false },
+  [NotificationType.ORDER_CANCELLED]: { label: "Order cancelled", mandatory: true },
+  [NotificationType.ORDER_STARTED]: { label: "Print started", mandatory: false },
+  [NotificationType.ORDER_FINISHED]: { label: "Print finished", mandatory: false },
+  [NotificationType.ORDER_FAILED]: { label: "Print failed", mandatory: true },
+  [NotificationType.ORDER_BATCHED]: { label: "Order batched", mandatory: false },
+  [NotificationType.FILAMENT_REQUESTED]: { label: "Filament requested", mandatory: true },
+  [NotificationType.ORDER_COMMENT]: { label: "New comment", mandatory: false },
+  [NotificationType.TICKET_REPLY]: { label: "Support reply", mandatory: false },
+};
+
+export const emailTemplateSchema = z.object({
+  subject: z.string().trim().min(1, "Subject is required"),
+  body: z.string().trim().min(1, "Body is required"),
+});
+
+export type EmailTemplate = z.infer<typeof emailTemplateSchema>;
+
+// Stored in systemConfig under this key so super admins can edit them
+export type EmailTemplateKey = `email_template_${NotificationTypeValue}`;
+
+export function emailTemplateKey(type: NotificationTypeValue): EmailTemplateKey {
+  return `email_template_${type}`;
+}
+
+// Placeholders available to every template, written as {{name}}
+export const templateVariables = [
+  "name",
+  "orderId",
+  "projectName",
+  "reason",
+  "batchName",
+  "filament",
+  "author",
+  "comment",
+  "orderUrl",
+  "ticketId",
+  "ticketSubject",
+  "ticketUrl",
+] as const;
+
+export type TemplateVariables = Partial<
+  Record<(typeof templateVariables)[number], string>
+>;
+
+const signature = "\n\n— 3D Printing Club";
+
+export const defaultEmailTemplates: Record<NotificationTypeValue, EmailTemplate> = {
+  [NotificationType.ORDER_SUBMITTED]: {
+    subject: "[{{orderId}}] We received your print request",
+    body:
+      "Hi {{name}},\n\nThanks for submitting {{projectName}}. Staff will review it shortly; you can follow its progress at {{orderUrl}}." +
+      signature,
+  },
+  [NotificationType.ORDER_APPROVED]: {
+    subject: "[{{orderId}}] Your print request was approved",
+    body:
+      "Hi {{name}},\n\n{{projectName}} has been approved and is now in the print queue. Track it at {{orderUrl}}." +
+      signature,
+  },
+  [NotificationType.ORDER_CANCELLED]: {
+    subject: "[{{orderId}}] Your print request was cancelled",
+    body:
+      "Hi {{name}},\n\n{{projectName}} was cancelled for the following reason:\n\n{{reason}}\n\nYou are welcome to submit a revised request." +
+      signature,
+  },
+  [NotificationType.ORDER_STARTED]: {
+    subject: "[{{orderId}}] Your print has started",
+    body:
+      "Hi {{name}},\n\n{{projectName}} is now printing. We'll let you know when it's done." +
+      signature,
+  },
+  [NotificationType.ORDER_FINISHED]: {
+    subject: "[{{orderId}}] Your print is ready",
+    body:
+      "Hi {{name}},\n\n{{projectName}} has finished printing and is ready for pickup." +
+      signature,
+  },
+  [NotificationType.ORDER_FAILED]: {
+    subject: "[{{orderId}}] Your print failed",
+    body:
+      "Hi {{name}},\n\nUnfortunately {{projectName}} failed to print:\n\n{{reason}}\n\nStaff may requeue it, or you can submit an improved model. Details at {{orderUrl}}." +
+      signature,
+  },
+  [NotificationType.ORDER_BATCHED]: {
+    subject: "[{{orderId}}] Your print was added to a batch",
+    body:
+      "Hi {{name}},\n\n{{projectName}} will be printed together with other orders as part of {{batchName}}." +
+      signature,
+  },
+  [NotificationType.FILAMENT_REQUESTED]: {
+    subject: "[{{orderId}}] Action needed: please bring filament",
+    body:
+      "Hi {{name}},\n\nBefore {{projectName}} can be approved, please drop off {{filament}} at the club room.\n\n{{reason}}\n\nOnce you have, confirm the drop-off at {{orderUrl}}." +
+      signature,
+  },
+  [NotificationType.ORDER_COMMENT]: {
+    subject: "[{{orderId}}] New comment from {{author}}",
+    body:
+      "Hi {{name}},\n\n{{author}} commented on {{projectName}}:\n\n{{comment}}\n\nReply at {{orderUrl}}." +
+      signature,
+  },
+  [NotificationType.TICKET_REPLY]: {
+    subject: "[Ticket {{ticketId}}] Re: {{ticketSubject}}",
+    body:
+      "Hi {{name}},\n\nWe replied to your support request:\n\n{{comment}}\n\nSee the conversation at {{ticketUrl}}." +
+      signature,
+  },
+};
+
+// One-line messages for the in-app notification center
+export const inAppTemplates: Record<NotificationTypeValue, string> = {
+  [NotificationType.ORDER_SUBMITTED]: "{{projectName}} was submitted and is awaiting review.",
+  [NotificationType.ORDER_APPROVED]: "{{projectName}} was approved and is in the queue.",
+  [NotificationType.ORDER_CANCELLED]: "{{projectName}} was cancelled: {{reason}}",
+  [NotificationType.ORDER_STARTED]: "{{projectName}} is now printing.",
+  [NotificationType.ORDER_FINISHED]: "{{projectName}} is ready for pickup.",
+  [NotificationType.ORDER_FAILED]: "{{projectName}} failed to print: {{reason}}",
+  [NotificationType.ORDER_BATCHED]: "{{projectName}} was added to {{batchName}}.",
+  [NotificationType.FILAMENT_REQUESTED]:
+    "Please drop off {{filament}} so {{projectName}} can be approved.",
+  [NotificationType.ORDER_COMMENT]: "{{author}} commented on {{projectName}}: {{comment}}",
+  [NotificationType.TICKET_REPLY]: "Staff replied to your request about {{ticketSubject}}: {{comment}}",
+};
+
+export function fillTemplate(text: string, variables: TemplateVariables) {
+  return (
+    text
+      .replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) =>
+        (variables as Record<string, string | undefined>)[name] ?? ""
+      )
+      // Optional variables may leave blank paragraphs behind
+      .replace(/\n{3,}/g, "\n\n")
+      .trim()
+  );
+}
+
+export function renderTemplate(
+  template: EmailTemplate,
+  variables: TemplateVariables
+): EmailTemplate {
+  return {
+    subject: fillTemplate(template.subject, variables),
+    body: fillTemplate(template.body, variables),
+  };
+}
+
+export const notificationChannels = {
+  email: "Email",
+  inApp: "In-app",
+} as const;
+
+export type NotificationChannel = keyof typeof notificationChannels;
+
+// Preferences map notification types to false, per channel, to opt out.
+// Anything unset is on, and mandatory types ignore the preference.
+export function isChannelEnabled(
+  preferences: unknown,
+  type: NotificationTypeValue,
+  channel: NotificationChannel
+) {
+  if (notificationTypes[type].mandatory) return true;
+  const settings = (preferences as Record<string, Record<string, unknown>> | null)?.[
+    channel
+  ];
+  return settings?.[type] !== false;
+}
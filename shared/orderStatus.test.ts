@@ -0,0 +1,109 @@
+/** @format */
+
+import { describe, expect, it } from "vitest";
+import {
+  canTransitionOrder,
+  getAllowedTransitions,
+  getReasonField,
+  orderStatusUpdateSchema,
+} from "./orderStatus";
+import { OrderStatus, orderSubmitSchema, orderUpdateSchema } from "./schema";
+
+describe("canTransitionOrder", () => {
+  it("follows the order lifecycle", () => {
+    expect(canTransitionOrder(OrderStatus.SUBMITTED, OrderStatus.APPROVED)).toBe(
+      true
+    );
+    expect(canTransitionOrder(OrderStatus.APPROVED, OrderStatus.STARTED)).toBe(
+      true
+    );
+    expect(canTransitionOrder(OrderStatus.STARTED, OrderStatus.FINISHED)).toBe(
+      true
+    );
+    expect(canTransitionOrder(OrderStatus.STARTED, OrderStatus.FAILED)).toBe(
+      true
+    );
+  });
+
+  it("lets a failed print be requeued", () => {
+    expect(canTransitionOrder(OrderStatus.FAILED, OrderStatus.APPROVED)).toBe(
+      true
+    );
+  });
+
+  it("rejects skipped and backward moves", () => {
+    expect(canTransitionOrder(OrderStatus.SUBMITTED, OrderStatus.STARTED)).toBe(
+      false
+    );
+    expect(canTransitionOrder(OrderStatus.STARTED, OrderStatus.CANCELLED)).toBe(
+      false
+    );
+    expect(canTransitionOrder(OrderStatus.APPROVED, OrderStatus.SUBMITTED)).toBe(
+      false
+    );
+  });
+
+  it("treats finished and cancelled orders as final", () => {
+    expect(getAllowedTransitions(OrderStatus.FINISHED)).toEqual([]);
+    expect(getAllowedTransitions(OrderStatus.CANCELLED)).toEqual([]);
+  });
+
+  it("rejects unknown statuses on either side", () => {
+    expect(canTransitionOrder("printing", OrderStatus.FINISHED)).toBe(false);
+    expect(canTransitionOrder(OrderStatus.SUBMITTED, "printing")).toBe(false);
+    expect(getAllowedTransitions("printing")).toEqual([]);
+  });
+});
+
+describe("orderStatusUpdateSchema", () => {
+  it("requires a reason for cancelling and failing", () => {
+    expect(getReasonField(OrderStatus.CANCELLED)).toBe("cancellationReason");
+    expect(getReasonField(OrderStatus.APPROVED)).toBeUndefined();
+
+    const cancel = orderStatusUpdateSchema.safeParse({
+      status: OrderStatus.CANCELLED,
+      cancellationReason: "  ",
+    });
+    expect(cancel.success).toBe(false);
+    expect(cancel.error?.errors[0]?.message).toBe(
+      "A cancellation reason is required"
+    );
+
+    const fail = orderStatusUpdateSchema.safeParse({
+      status: OrderStatus.FAILED,
+      failureReason: "Spaghetti",
+    });
+    expect(fail.success).toBe(true);
+  });
+
+  it("rejects unknown statuses", () => {
+    const parsed = orderStatusUpdateSchema.safeParse({ status: "printing" });
+    expect(parsed.error?.errors[0]?.message).toBe("Invalid order status");
+  });
+});
+
+describe("order schemas", () => {
+  it("drops server-owned fields from submissions", () => {
+    const parsed = orderSubmitSchema.parse({
+      userId: 1,
+      projectName: "Bracket",
+      status: OrderStatus.FINISHED,
+      batchId: 4,
+      failureReason: "none",
+    });
+    expect(parsed).not.toHaveProperty("status");
+    expect(parsed).not.toHaveProperty("batchId");
+    expect(parsed).not.toHaveProperty("failureReason");
+  });
+
+  it("only accepts correctable details in admin edits", () => {
+    expect(
+      orderUpdateSchema.safeParse({ projectName: "Renamed", reason: "Typo" })
+        .success
+    ).toBe(true);
+    expect(orderUpdateSchema.safeParse({ userId: 2 }).success).toBe(false);
+    expect(orderUpdateSchema.safeParse({ orderId: "#XX26001" }).success).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,83 @@
+/** @format */
+
+import { z } from "zod";
+import { OrderStatus } from "./schema";
+
+export type OrderStatusValue = (typeof OrderStatus)[keyof typeof OrderStatus];
+
+// Nothing moves an order back to submitted
+export type OrderTransitionTarget = Exclude<
+  OrderStatusValue,
+  typeof OrderStatus.SUBMITTED
+>;
+
+// Legal moves for an order. Cancelling is only possible before printing
+// starts, and a failed print can be requeued by approving it again.
+export const orderStatusTransitions: Record<
+  OrderStatusValue,
+  readonly OrderTransitionTarget[]
+> = {
+  [OrderStatus.SUBMITTED]: [OrderStatus.APPROVED, OrderStatus.CANCELLED],
+  [OrderStatus.APPROVED]: [OrderStatus.STARTED, OrderStatus.CANCELLED],
+  [OrderStatus.STARTED]: [OrderStatus.FINISHED, OrderStatus.FAILED],
+  [OrderStatus.FAILED]: [OrderStatus.APPROVED],
+  [OrderStatus.FINISHED]: [],
+  [OrderStatus.CANCELLED]: [],
+};
+
+// Transitions that must carry a reason, keyed by target status
+export const statusReasonFields = {
+  [OrderStatus.CANCELLED]: "cancellationReason",
+  [OrderStatus.FAILED]: "failureReason",
+} as const satisfies Partial<Record<OrderStatusValue, string>>;
+
+export function isOrderStatus(value: unknown): value is OrderStatusValue {
+  return Object.values(OrderStatus).includes(value as OrderStatusValue);
+}
+
+export function getAllowedTransitions(
+  status: string
+): readonly OrderTransitionTarget[] {
+  return isOrderStatus(status) ? orderStatusTransitions[status] : [];
+}
+
+export function canTransitionOrder(from: string, to: string): boolean {
+  return (
+    isOrderStatus(to) &&
+    getAllowedTransitions(from).includes(to as OrderTransitionTarget)
+  );
+}
+
+export function getReasonField(status: string) {
+  return status in statusReasonFields
+    ? statusReasonFields[status as keyof typeof statusReasonFields]
+    : undefined;
+}
+
+export const orderStatusUpdateSchema = z
+  .object({
+    status: z.enum(Object.values(OrderStatus) as [OrderStatusValue], {
+      errorMap: () => ({ message: "Invalid order status" }),
+    }),
+    cancellationReason: z.string().trim().optional(),
+    failureReason: z.string().trim().optional(),
+    reason: z.string().trim().optional(),
+    // Finished and failed prints only; defaults to the file estimate and the
+    // fullest matching spool
+    filamentUsedGrams: z.number().min(0).optional(),
+    spoolId: z.number().int().positive().optional(),
+  })
+  .superRefine((data, ctx) => {
+    const field = getReasonField(data.status);
+    if (field && !data[field]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [field],
+        message: `A ${
+          field === "cancellationReason" ? "cancellation" : "failure"
+        } reason is required`,
+      });
+    }
+  });
+
+export type OrderStatusUpdate = z.infer<typeof orderStatusUpdateSchema>;
@@ -0,0 +1,55 @@
+/** @format */
+
+import { describe, expect, it } from "vitest";
+import {
+  describeTimelineEntry,
+  type OrderTimelineEntry,
+} from "./orderTimeline";
+
+const entry = (
+  action: string,
+  details: Record<string, unknown> = {}
+): OrderTimelineEntry => ({
+  id: 1,
+  action,
+  timestamp: new Date().toISOString(),
+  actor: null,
+  reason: null,
+  details,
+});
+
+describe("describeTimelineEntry", () => {
+  it("describes status changes with or without the previous status", () => {
+    expect(
+      describeTimelineEntry(
+        entry("order_status_updated", {
+          status: "approved",
+          previousStatus: "submitted",
+        })
+      )
+    ).toBe("Status changed from submitted to approved");
+    expect(
+      describeTimelineEntry(
+        entry("order_status_updated", { status: "approved" })
+      )
+    ).toBe("Status changed to approved");
+  });
+
+  it("counts purged files and names batches", () => {
+    expect(
+      describeTimelineEntry(entry("files_purged", { files: ["a.stl"] }))
+    ).toBe("1 file deleted after the retention period");
+    expect(
+      describeTimelineEntry(entry("files_purged", { files: ["a", "b"] }))
+    ).toBe("2 files deleted after the retention period");
+    expect(
+      describeTimelineEntry(entry("batch_order_removed", { batchNumber: "B-7" }))
+    ).toBe("Removed from batch B-7");
+  });
+
+  it("falls back to the action name", () => {
+    expect(describeTimelineEntry(entry("order_resubmitted"))).toBe(
+      "order resubmitted"
+    );
+  });
+});
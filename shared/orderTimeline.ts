@@ -0,0 +1,79 @@
+/** @format */
+
+export interface OrderTimelineActor {
+  // null when the actor is hidden from the viewer
+  id: number | null;
+  name: string;
+  staff: boolean;
+}
+
+// One audit log entry about an order, as shown on the order page
+export interface OrderTimelineEntry {
+  id: number;
+  action: string;
+  timestamp: string;
+  // null for scheduled jobs such as file retention
+  actor: OrderTimelineActor | null;
+  reason: string | null;
+  details: Record<string, unknown>;
+}
+
+// Actions that only matter to staff and are left out of students' timelines
+export const staffOnlyTimelineActions = [
+  "order_updated",
+  "order_priority_updated",
+  "order_printer_assigned",
+];
+
+// Details students may see; everything else (spools, printers, raw edits)
+// stays with staff
+export const studentTimelineDetails = [
+  "status",
+  "previousStatus",
+  "grams",
+  "material",
+  "color",
+  "note",
+  "batchNumber",
+  "files",
+];
+
+function count(value: unknown, noun: string) {
+  const n = Array.isArray(value) ? value.length : 0;
+  return `${n} ${noun}${n === 1 ? "" : "s"}`;
+}
+
+export function describeTimelineEntry(entry: OrderTimelineEntry): string {
+  const { details } = entry;
+  switch (entry.action) {
+    case "order_submitted":
+      return "Order submitted";
+    case "order_status_updated":
+      return details.previousStatus
+        ? `Status changed from ${details.previousStatus} to ${details.status}`
+        : `Status changed to ${details.status}`;
+    case "order_updated":
+      return `Order details edited (${Object.keys(details).join(", ")})`;
+    case "order_priority_updated":
+      return "Priority changed";
+    case "order_printer_assigned":
+      return details.printerId ? "Printer assigned" : "Printer unassigned";
+    case "filament_requested":
+      return `Filament requested: ${details.grams} g of ${details.color} ${details.material}`;
+    case "filament_dropped_off":
+      return "Filament dropped off";
+    case "filament_received":
+      return "Filament received";
+    case "filament_consumed":
+      return `${details.grams} g of filament used`;
+    case "files_purged":
+      return `${count(details.files, "file")} deleted after the retention period`;
+    case "batch_created":
+    case "batch_orders_added":
+      return `Added to batch ${details.batchNumber}`;
+    case "batch_order_removed":
+      return `Removed from batch ${details.batchNumber}`;
+    default:
+      return entry.action.replace(/_/g, " ");
+  }
+}
@@ -0,0 +1,43 @@
+/** @format */
+
+import type { OrderFile } from "./schema";
+
+export interface OrderPrintEstimate {
+  estimatedGrams: number;
+  estimatedHours: number;
+  analyzedFiles: number;
+  totalFiles: number;
+  exceedsBuildVolume: boolean;
+  // Materials the G-code files were sliced for
+  gcodeMaterials: string[];
+}
+
+// Totals the per-file estimates stored in an order's `files` jsonb. Files
+// without an analysis contribute nothing, so check `analyzedFiles`.
+export function getOrderPrintEstimate(files: unknown): OrderPrintEstimate {
+  const orderFiles = Array.isArray(files) ? (files as OrderFile[]) : [];
+  const estimate: OrderPrintEstimate = {
+    estimatedGrams: 0,
+    estimatedHours: 0,
+    analyzedFiles: 0,
+    totalFiles: orderFiles.length,
+    exceedsBuildVolume: false,
+    gcodeMaterials: [],
+  };
+
+  for (const file of orderFiles) {
+    if (!file.analysis) continue;
+    estimate.estimatedGrams += file.analysis.estimatedGrams;
+    estimate.estimatedHours += file.analysis.estimatedHours;
+    estimate.analyzedFiles++;
+    if (!file.analysis.fitsBuildVolume) estimate.exceedsBuildVolume = true;
+    const material = file.analysis.kind === "gcode" ? file.analysis.material : null;
+    if (material && !estimate.gcodeMaterials.includes(material)) {
+      estimate.gcodeMaterials.push(material);
+    }
+  }
+
+  estimate.estimatedGrams = Math.round(estimate.estimatedGrams * 10) / 10;
+  estimate.estimatedHours = Math.round(estimate.estimatedHours * 10) / 10;
+  return estimate;
+}
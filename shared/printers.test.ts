@@ -0,0 +1,151 @@
+/** @format */
+
+import { describe, expect, it } from "vitest";
+import {
+  checkPrinterFit,
+  getPrinterBuildVolume,
+  isPrinterAvailable,
+  printerAssignmentSchema,
+} from "./printers";
+import {
+  insertPrinterSchema,
+  PrinterStatus,
+  type FileAnalysis,
+  type OrderFile,
+  type Printer,
+} from "./schema";
+
+const printer: Printer = {
+  id: 1,
+  name: "Ender",
+  model: null,
+  buildVolumeX: 220,
+  buildVolumeY: 220,
+  buildVolumeZ: 250,
+  supportedMaterials: ["PLA", "PETG"],
+  nozzleSizeMm: 0.4,
+  status: PrinterStatus.IDLE,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const file = (
+  name: string,
+  size: { x: number; y: number; z: number },
+  analysis: Partial<FileAnalysis> = { kind: "stl" }
+): OrderFile =>
+  ({
+    name,
+    size: 1,
+    type: "model/stl",
+    storageKey: `1/${name}`,
+    checksum: "",
+    uploadedAt: new Date().toISOString(),
+    analysis: { ...analysis, boundingBox: { size } },
+  }) as OrderFile;
+
+describe("checkPrinterFit", () => {
+  it("accepts orders in a supported material that fit", () => {
+    expect(checkPrinterFit({ material: "petg", files: [] }, printer)).toEqual(
+      []
+    );
+    // No material means PLA, and unanalysed files are let through
+    const unanalysed = { ...file("a.stl", { x: 900, y: 1, z: 1 }) };
+    delete unanalysed.analysis;
+    expect(
+      checkPrinterFit({ material: null, files: [unanalysed] }, printer)
+    ).toEqual([]);
+  });
+
+  it("rejects unsupported materials", () => {
+    expect(checkPrinterFit({ material: "ABS", files: [] }, printer)).toEqual([
+      "Ender does not print ABS",
+    ]);
+  });
+
+  it("lets meshes turn to fit but not sliced G-code", () => {
+    const tall = { x: 240, y: 20, z: 20 };
+    expect(
+      checkPrinterFit(
+        { material: "PLA", files: [file("tall.stl", tall)] },
+        printer
+      )
+    ).toEqual([]);
+    expect(
+      checkPrinterFit(
+        {
+          material: "PLA",
+          files: [file("tall.gcode", tall, { kind: "gcode", material: null })],
+        },
+        printer
+      )
+    ).toEqual(["tall.gcode (240 × 20 × 20 mm) does not fit Ender"]);
+  });
+
+  it("flags G-code sliced for another material", () => {
+    expect(
+      checkPrinterFit(
+        {
+          material: "PLA",
+          files: [
+            file("part.gcode", { x: 10, y: 10, z: 10 }, {
+              kind: "gcode",
+              material: "ABS",
+            }),
+          ],
+        },
+        printer
+      )
+    ).toEqual(["part.gcode was sliced for ABS"]);
+  });
+});
+
+describe("isPrinterAvailable", () => {
+  it("only counts idle and printing printers", () => {
+    const withStatus = (status: string) => ({ ...printer, status });
+    expect(isPrinterAvailable(withStatus(PrinterStatus.IDLE))).toBe(true);
+    expect(isPrinterAvailable(withStatus(PrinterStatus.PRINTING))).toBe(true);
+    expect(isPrinterAvailable(withStatus(PrinterStatus.MAINTENANCE))).toBe(
+      false
+    );
+    expect(isPrinterAvailable(withStatus(PrinterStatus.OFFLINE))).toBe(false);
+  });
+});
+
+describe("printer schemas", () => {
+  it("reads the build volume from the printer", () => {
+    expect(getPrinterBuildVolume(printer)).toEqual({ x: 220, y: 220, z: 250 });
+  });
+
+  it("normalises materials and rejects empty ones", () => {
+    const parsed = insertPrinterSchema.parse({
+      name: " Prusa ",
+      buildVolumeX: 250,
+      buildVolumeY: 210,
+      buildVolumeZ: 210,
+      supportedMaterials: ["pla", " petg"],
+    });
+    expect(parsed.name).toBe("Prusa");
+    expect(parsed.supportedMaterials).toEqual(["PLA", "PETG"]);
+
+    const empty = insertPrinterSchema.safeParse({
+      name: "Prusa",
+      buildVolumeX: 250,
+      buildVolumeY: 210,
+      buildVolumeZ: 210,
+      supportedMaterials: [],
+    });
+    expect(empty.error?.errors[0]?.message).toBe(
+      "Select at least one material"
+    );
+  });
+
+  it("accepts a printer id or null for assignments", () => {
+    expect(printerAssignmentSchema.safeParse({ printerId: null }).success).toBe(
+      true
+    );
+    expect(printerAssignmentSchema.safeParse({ printerId: 0 }).success).toBe(
+      false
+    );
+  });
+});
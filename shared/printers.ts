@@ -0,0 +1,70 @@
+/** @format */
+
+import { z } from "zod";
+import { fitsBuildVolume, type BuildVolume } from "./stl";
+import { PrinterStatus, type Order, type OrderFile, type Printer } from "./schema";
+
+export function getPrinterBuildVolume(printer: Printer): BuildVolume {
+  return {
+    x: printer.buildVolumeX,
+    y: printer.buildVolumeY,
+    z: printer.buildVolumeZ,
+  };
+}
+
+// Reasons `order` can't run on `printer`; empty when it fits. Files without
+// an analysis can't be checked and are let through.
+export function checkPrinterFit(
+  order: Pick<Order, "material" | "files">,
+  printer: Printer
+): string[] {
+  const problems: string[] = [];
+  const supported = printer.supportedMaterials.map((material) =>
+    material.toUpperCase()
+  );
+  const material = (order.material || "PLA").toUpperCase();
+  if (!supported.includes(material)) {
+    problems.push(`${printer.name} does not print ${material}`);
+  }
+
+  const buildVolume = getPrinterBuildVolume(printer);
+  const files = Array.isArray(order.files) ? (order.files as OrderFile[]) : [];
+  for (const file of files) {
+    const { analysis } = file;
+    if (!analysis) continue;
+    const { size } = analysis.boundingBox;
+
+    // Meshes can be laid on any face; sliced G-code is already oriented
+    const fits =
+      analysis.kind === "stl"
+        ? fitsBuildVolume(size, buildVolume)
+        : size.x <= buildVolume.x &&
+          size.y <= buildVolume.y &&
+          size.z <= buildVolume.z;
+    if (!fits) {
+      problems.push(
+        `${file.name} (${size.x.toFixed(0)} × ${size.y.toFixed(0)} × ${size.z.toFixed(0)} mm) does not fit ${printer.name}`
+      );
+    }
+    if (
+      analysis.kind === "gcode" &&
+      analysis.material &&
+      !supported.includes(analysis.material)
+    ) {
+      problems.push(`${file.name} was sliced for ${analysis.material}`);
+    }
+  }
+  return problems;
+}
+
+// Printers that can take new work
+export function isPrinterAvailable(printer: Printer) {
+  return (
+    printer.status === PrinterStatus.IDLE ||
+    printer.status === PrinterStatus.PRINTING
+  );
+}
+
+export const printerAssignmentSchema = z.object({
+  printerId: z.number().int().positive().nullable(),
+});
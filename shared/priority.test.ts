@@ -0,0 +1,127 @@
+/** @format */
+
+import { describe, expect, it } from "vitest";
+import {
+  comparePriority,
+  computeOrderPriorities,
+  orderPriorityUpdateSchema,
+  type OrderPriority,
+} from "./priority";
+import { OrderStatus } from "./schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2026-03-02T09:00:00.000Z");
+const daysFromNow = (days: number) => new Date(now.getTime() + days * DAY_MS);
+
+let nextId = 1;
+const order = (overrides: Record<string, unknown> = {}) => ({
+  id: nextId++,
+  userId: 1,
+  clubId: null as number | null,
+  status: OrderStatus.APPROVED as string,
+  eventDeadline: null as Date | null,
+  submittedAt: now,
+  manualPriority: 0,
+  pinned: false,
+  expedited: false,
+  ...overrides,
+});
+
+const priorityOf = (target: ReturnType<typeof order>, others = [target]) =>
+  computeOrderPriorities(others, now).get(target.id)!;
+
+describe("computeOrderPriorities", () => {
+  it("ramps deadline points up as the deadline nears", () => {
+    expect(priorityOf(order()).deadlinePoints).toBe(0);
+    expect(
+      priorityOf(order({ eventDeadline: daysFromNow(20) })).deadlinePoints
+    ).toBe(0);
+    expect(priorityOf(order({ eventDeadline: daysFromNow(2) }))).toMatchObject(
+      { deadlinePoints: 40, daysToDeadline: 2 }
+    );
+    expect(
+      priorityOf(order({ eventDeadline: daysFromNow(-1) }))
+    ).toMatchObject({ deadlinePoints: 50, daysToDeadline: -1 });
+  });
+
+  it("adds points for waiting, up to a cap", () => {
+    expect(priorityOf(order({ submittedAt: daysFromNow(-5) })).waitPoints).toBe(
+      15
+    );
+    expect(
+      priorityOf(order({ submittedAt: daysFromNow(-30) })).waitPoints
+    ).toBe(30);
+  });
+
+  it("holds back clubs with many orders in flight", () => {
+    const club = [1, 2, 3].map(() => order({ clubId: 7 }));
+    const done = order({ clubId: 7, status: OrderStatus.FINISHED });
+    const solo = order({ clubId: 8 });
+    const all = [...club, done, solo];
+
+    expect(priorityOf(club[0], all).fairnessPoints).toBe(-10);
+    expect(priorityOf(solo, all).fairnessPoints).toBe(0);
+
+    const crowded = Array.from({ length: 8 }, () => order({ userId: 4 }));
+    expect(priorityOf(crowded[0], crowded).fairnessPoints).toBe(-20);
+  });
+
+  it("applies manual levels and expediting", () => {
+    expect(priorityOf(order({ manualPriority: 2 }))).toMatchObject({
+      manualPoints: 20,
+      score: 20,
+    });
+    expect(priorityOf(order({ expedited: true }))).toMatchObject({
+      expedited: true,
+      score: 100,
+    });
+  });
+});
+
+describe("comparePriority", () => {
+  const priority = (score: number, pinned = false) =>
+    ({ score, pinned }) as OrderPriority;
+
+  it("puts pinned orders first, then the highest score, then the oldest", () => {
+    const entries = [
+      { name: "late", priority: priority(10), submittedAt: daysFromNow(-1) },
+      { name: "early", priority: priority(10), submittedAt: daysFromNow(-2) },
+      { name: "urgent", priority: priority(40), submittedAt: now },
+      { name: "pinned", priority: priority(0, true), submittedAt: now },
+    ];
+    expect(entries.sort(comparePriority).map((entry) => entry.name)).toEqual([
+      "pinned",
+      "urgent",
+      "early",
+      "late",
+    ]);
+  });
+});
+
+describe("orderPriorityUpdateSchema", () => {
+  it("requires a reason and at least one change", () => {
+    expect(
+      orderPriorityUpdateSchema.safeParse({ pinned: true }).error?.errors[0]
+        ?.message
+    ).toBe("A reason is required for priority changes");
+    expect(
+      orderPriorityUpdateSchema.safeParse({ reason: "Exam" }).error?.errors[0]
+        ?.message
+    ).toBe("No priority changes given");
+    expect(
+      orderPriorityUpdateSchema.safeParse({ expedited: true, reason: "Exam" })
+        .success
+    ).toBe(true);
+  });
+
+  it("keeps manual levels within range", () => {
+    expect(
+      orderPriorityUpdateSchema.safeParse({ manualPriority: 6, reason: "x" })
+        .success
+    ).toBe(false);
+    expect(
+      orderPriorityUpdateSchema.safeParse({ manualPriority: -5, reason: "x" })
+        .success
+    ).toBe(true);
+  });
+});
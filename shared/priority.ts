@@ -0,0 +1,156 @@
+/** @format */
+
+import { z } from "zod";
+import { OrderStatus, type Order } from "./schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Score weights. Deadlines dominate, waiting slowly catches up, and clubs
+// with many orders in flight give way to those with few.
+const DEADLINE_MAX_POINTS = 50;
+const DEADLINE_POINTS_PER_DAY = 5;
+const WAIT_POINTS_PER_DAY = 3;
+const WAIT_MAX_POINTS = 30;
+const FAIRNESS_POINTS_PER_ORDER = 5;
+const FAIRNESS_MAX_PENALTY = 20;
+const MANUAL_POINTS_PER_LEVEL = 10;
+const EXPEDITE_POINTS = 100;
+
+export const MANUAL_PRIORITY_MIN = -5;
+export const MANUAL_PRIORITY_MAX = 5;
+
+// Orders still waiting for or in front of a printer
+const activeStatuses: string[] = [
+  OrderStatus.SUBMITTED,
+  OrderStatus.APPROVED,
+  OrderStatus.STARTED,
+];
+
+type PriorityOrder = Pick<
+  Order,
+  | "id"
+  | "userId"
+  | "clubId"
+  | "status"
+  | "eventDeadline"
+  | "submittedAt"
+  | "manualPriority"
+  | "pinned"
+  | "expedited"
+>;
+
+export interface OrderPriority {
+  score: number;
+  pinned: boolean;
+  expedited: boolean;
+  deadlinePoints: number;
+  waitPoints: number;
+  fairnessPoints: number;
+  manualPoints: number;
+  // Negative once the deadline has passed; null without a deadline
+  daysToDeadline: number | null;
+}
+
+function toTime(value: Date | string | null | undefined) {
+  return value ? new Date(value).getTime() : undefined;
+}
+
+// Orders without a club count against their submitter instead
+function fairnessKey(order: PriorityOrder) {
+  return order.clubId ? `club:${order.clubId}` : `user:${order.userId}`;
+}
+
+// Scores every order in `orders`. Pass the full order list so the fairness
+// term sees everything a club has in flight.
+export function computeOrderPriorities(
+  orders: PriorityOrder[],
+  now = new Date()
+): Map<number, OrderPriority> {
+  const activeCounts = new Map<string, number>();
+  for (const order of orders) {
+    if (!activeStatuses.includes(order.status)) continue;
+    const key = fairnessKey(order);
+    activeCounts.set(key, (activeCounts.get(key) || 0) + 1);
+  }
+
+  const priorities = new Map<number, OrderPriority>();
+  for (const order of orders) {
+    const deadline = toTime(order.eventDeadline);
+    const daysToDeadline =
+      deadline !== undefined ? (deadline - now.getTime()) / DAY_MS : null;
+    const deadlinePoints =
+      daysToDeadline === null
+        ? 0
+        : Math.min(
+            DEADLINE_MAX_POINTS,
+            Math.max(0, DEADLINE_MAX_POINTS - daysToDeadline * DEADLINE_POINTS_PER_DAY)
+          );
+
+    const submitted = toTime(order.submittedAt) ?? now.getTime();
+    const waitPoints = Math.min(
+      WAIT_MAX_POINTS,
+      (Math.max(0, now.getTime() - submitted) / DAY_MS) * WAIT_POINTS_PER_DAY
+    );
+
+    const othersInFlight = Math.max(0, (activeCounts.get(fairnessKey(order)) || 1) - 1);
+    const fairnessPoints = othersInFlight
+      ? -Math.min(FAIRNESS_MAX_PENALTY, othersInFlight * FAIRNESS_POINTS_PER_ORDER)
+      : 0;
+
+    const manualPoints = (order.manualPriority || 0) * MANUAL_POINTS_PER_LEVEL;
+    const score =
+      deadlinePoints +
+      waitPoints +
+      fairnessPoints +
+      manualPoints +
+      (order.expedited ? EXPEDITE_POINTS : 0);
+
+    priorities.set(order.id, {
+      score: Math.round(score * 10) / 10,
+      pinned: !!order.pinned,
+      expedited: !!order.expedited,
+      deadlinePoints: Math.round(deadlinePoints * 10) / 10,
+      waitPoints: Math.round(waitPoints * 10) / 10,
+      fairnessPoints,
+      manualPoints,
+      daysToDeadline:
+        daysToDeadline === null ? null : Math.round(daysToDeadline * 10) / 10,
+    });
+  }
+  return priorities;
+}
+
+// Pinned orders first, then highest score, then oldest submission
+export function comparePriority(
+  a: { priority: OrderPriority; submittedAt?: Date | string | null },
+  b: { priority: OrderPriority; submittedAt?: Date | string | null }
+) {
+  if (a.priority.pinned !== b.priority.pinned) return a.priority.pinned ? -1 : 1;
+  if (a.priority.score !== b.priority.score) return b.priority.score - a.priority.score;
+  return (toTime(a.submittedAt) ?? 0) - (toTime(b.submittedAt) ?? 0);
+}
+
+export const orderPriorityUpdateSchema = z
+  .object({
+    manualPriority: z
+      .number()
+      .int()
+      .min(MANUAL_PRIORITY_MIN)
+      .max(MANUAL_PRIORITY_MAX)
+      .optional(),
+    pinned: z.boolean().optional(),
+    expedited: z.boolean().optional(),
+    reason: z
+      .string({ required_error: "A reason is required for priority changes" })
+      .trim()
+      .min(1, "A reason is required for priority changes"),
+  })
+  .refine(
+    (data) =>
+      data.manualPriority !== undefined ||
+      data.pinned !== undefined ||
+      data.expedited !== undefined,
+    { message: "No priority changes given" }
+  );
+
+export type OrderPriorityUpdate = z.infer<typeof orderPriorityUpdateSchema>;
@@ -0,0 +1,28 @@
+/** @format */
+
+// Where an approved or printing order sits in the print queue. Dates are ISO
+// strings so the same shape works on both sides of the API.
+export interface QueueEntry {
+  orderId: number;
+  orderCode: string;
+  status: string;
+  batchId: number | null;
+  // Assigned printer, or the one the scheduler expects to use
+  printerId: number | null;
+  // 0 while printing, otherwise 1-based among jobs waiting for the same printer
+  position: number;
+  // Jobs that print on that printer first, including the one printing now
+  jobsAhead: number;
+  estimatedHours: number;
+  projectedStart: string;
+  projectedFinish: string;
+}
+
+export interface QueueSnapshot {
+  generatedAt: string;
+  // Available printers, or the configured count when none are registered
+  printerCount: number;
+  // Printing time left across the whole queue
+  backlogHours: number;
+  entries: QueueEntry[];
+}
@@ -8,9 +8,16 @@ import {
   boolean,
   timestamp,
   jsonb,
+  real,
+  unique,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
+import {
+  NotificationType,
+  notificationTypes,
+  type NotificationTypeValue,
+} from "./notifications";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -19,6 +26,9 @@ export const users = pgTable("users", {
   photoURL: text("photo_url"),
   role: text("role").notNull().default("USER"), // USER, ADMIN, SUPERADMIN, GUEST
   suspended: boolean("suspended").default(false),
+  suspendedReason: text("suspended_reason"),
+  // Null while suspended means until lifted by an admin
+  suspendedUntil: timestamp("suspended_until"),
   fileUploadsUsed: integer("file_uploads_used").default(0),
   notificationPreferences: jsonb("notification_preferences").default({}),
   lastLogin: timestamp("last_login"),
@@ -50,6 +60,17 @@ export const orders = pgTable("orders", {
   files: jsonb("files").default([]), // Array of file metadata
   status: text("status").notNull().default("submitted"), // submitted, approved, started, finished, failed, cancelled
   batchId: integer("batch_id").references(() => batches.id),
+  printerId: integer("printer_id").references(() => printers.id),
+  // Admin overrides on top of the computed priority score (shared/priority.ts)
+  manualPriority: integer("manual_priority").notNull().default(0),
+  pinned: boolean("pinned").notNull().default(false),
+  expedited: boolean("expedited").notNull().default(false),
+  // Filament deducted from inventory when the print finished or failed
+  spoolId: integer("spool_id").references(() => filamentSpools.id),
+  filamentUsedGrams: real("filament_used_grams"),
+  // Set while staff wait on the student for filament (shared/filamentRequest.ts)
+  filamentRequest: jsonb("filament_request").$type<FilamentRequest>(),
+  startedAt: timestamp("started_at"),
   estimatedCompletionTime: timestamp("estimated_completion_time"),
   actualCompletionTime: timestamp("actual_completion_time"),
   failureReason: text("failure_reason"),
@@ -58,6 +79,33 @@ export const orders = pgTable("orders", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const printers = pgTable("printers", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  model: text("model"),
+  buildVolumeX: integer("build_volume_x").notNull(), // mm
+  buildVolumeY: integer("build_volume_y").notNull(),
+  buildVolumeZ: integer("build_volume_z").notNull(),
+  supportedMaterials: jsonb("supported_materials").$type<string[]>().notNull().default(["PLA"]),
+  nozzleSizeMm: real("nozzle_size_mm").notNull().default(0.4),
+  status: text("status").notNull().default("idle"), // idle, printing, maintenance, offline
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const filamentSpools = pgTable("filament_spools", {
+  id: serial("id").primaryKey(),
+  material: text("material").notNull(),
+  color: text("color").notNull(),
+  brand: text("brand"),
+  initialGrams: real("initial_grams").notNull(),
+  remainingGrams: real("remaining_grams").notNull(),
+  ownerClubId: integer("owner_club_id").references(() => clubs.id), // null for lab stock
+  location: text("location"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const batches = pgTable("batches", {
   id: serial("id").primaryKey(),
   batchNumber: text("batch_number").notNull().unique(),
@@ -69,14 +117,69 @@ export const batches = pgTable("batches", {
   startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
   estimatedDuration: integer("estimated_duration_hours"),
+  printerId: integer("printer_id").references(() => printers.id),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const auditLogs = pgTable("audit_logs", {
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  type: text("type").notNull(), // see NotificationType in shared/notifications.ts
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  orderId: integer("order_id").references(() => orders.id),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const orderComments = pgTable("order_comments", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id")
+    .references(() => orders.id)
+    .notNull(),
+  authorId: integer("author_id")
+    .references(() => users.id)
+    .notNull(),
+  body: text("body").notNull().default(""),
+  // Internal notes are only shown to staff
+  internal: boolean("internal").notNull().default(false),
+  attachments: jsonb("attachments").$type<CommentAttachment[]>().notNull().default([]),
+  editedAt: timestamp("edited_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const supportTickets = pgTable("support_tickets", {
   id: serial("id").primaryKey(),
   userId: integer("user_id")
     .references(() => users.id)
     .notNull(),
+  subject: text("subject").notNull(), // see ticketSubjects in shared/tickets.ts
+  orderId: integer("order_id").references(() => orders.id),
+  message: text("message").notNull(),
+  status: text("status").notNull().default("open"), // open, answered, closed
+  assignedToId: integer("assigned_to_id").references(() => users.id),
+  closedAt: timestamp("closed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const ticketReplies = pgTable("ticket_replies", {
+  id: serial("id").primaryKey(),
+  ticketId: integer("ticket_id")
+    .references(() => supportTickets.id)
+    .notNull(),
+  authorId: integer("author_id")
+    .references(() => users.id)
+    .notNull(),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id), // null for scheduled jobs
   action: text("action").notNull(),
   entityType: text("entity_type").notNull(), // order, batch, user, system
   entityId: text("entity_id"),
@@ -94,6 +197,59 @@ export const systemConfig = pgTable("system_config", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// One row per change to a systemConfig value, numbered per key from 1
+export const systemConfigRevisions = pgTable(
+  "system_config_revisions",
+  {
+    id: serial("id").primaryKey(),
+    key: text("key").notNull(),
+    version: integer("version").notNull(),
+    previousValue: jsonb("previous_value"), // null when the key was first set
+    value: jsonb("value").notNull(),
+    changedBy: integer("changed_by").references(() => users.id),
+    reason: text("reason"),
+    // Set when this change reverted an earlier revision
+    revertedVersion: integer("reverted_version"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    keyVersion: unique().on(table.key, table.version),
+  })
+);
+
+// Grants a staff role to an email address the next time it signs in
+export const roleInvitations = pgTable("role_invitations", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull(), // stored lower-case
+  role: text("role").notNull(), // ADMIN or SUPERADMIN
+  invitedBy: integer("invited_by")
+    .references(() => users.id)
+    .notNull(),
+  expiresAt: timestamp("expires_at"),
+  acceptedAt: timestamp("accepted_at"),
+  acceptedBy: integer("accepted_by").references(() => users.id),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Files uploaded through POST /api/uploads that no order references yet.
+// Submitting an order claims them; unclaimed ones are swept after a day.
+export const pendingUploads = pgTable("pending_uploads", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  storageKey: text("storage_key").notNull().unique(),
+  name: text("name").notNull(),
+  size: integer("size").notNull(),
+  type: text("type").notNull(),
+  checksum: text("checksum").notNull(), // sha256, hex
+  // Worked out in a worker thread at upload time (see server/fileAnalysis.ts);
+  // null when the file isn't a model or couldn't be parsed
+  analysis: jsonb("analysis").$type<FileAnalysis>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -106,17 +262,115 @@ export const insertClubSchema = createInsertSchema(clubs).omit({
   createdAt: true,
 });
 
-export const insertOrderSchema = createInsertSchema(orders).omit({
-  id: true,
-  orderId: true,
-  submittedAt: true,
-  updatedAt: true,
+export const insertOrderSchema = createInsertSchema(orders)
+  .omit({
+    id: true,
+    orderId: true,
+    submittedAt: true,
+    updatedAt: true,
+    manualPriority: true,
+    pinned: true,
+    expedited: true,
+    printerId: true,
+    spoolId: true,
+    filamentUsedGrams: true,
+    filamentRequest: true,
+    startedAt: true,
+  })
+  .extend({
+    // The submit form sends a "yyyy-mm-dd" string, or "" when left blank
+    eventDeadline: z.preprocess(
+      (value) => (value === "" ? null : value),
+      z.coerce.date().nullable().optional()
+    ),
+  });
+
+// What a student may send when submitting an order. Status, batch, timing
+// and failure details are only ever set by the server.
+export const orderSubmitSchema = insertOrderSchema.omit({
+  status: true,
+  batchId: true,
+  estimatedCompletionTime: true,
+  actualCompletionTime: true,
+  failureReason: true,
+  cancellationReason: true,
 });
 
+// Details staff may correct on an existing order. Status, printer, batch,
+// priority and filament changes each have their own endpoint.
+export const orderUpdateSchema = orderSubmitSchema
+  .pick({
+    clubId: true,
+    projectName: true,
+    eventDeadline: true,
+    material: true,
+    color: true,
+    providingFilament: true,
+    specialInstructions: true,
+  })
+  .partial()
+  .extend({ reason: z.string().trim().max(500).optional() })
+  .strict();
+
 export const insertBatchSchema = createInsertSchema(batches).omit({
   id: true,
   batchNumber: true,
   createdAt: true,
+  printerId: true,
+});
+
+export const insertPrinterSchema = createInsertSchema(printers, {
+  name: (schema) => schema.trim().min(1, "Printer name is required"),
+  buildVolumeX: (schema) => schema.int().positive(),
+  buildVolumeY: (schema) => schema.int().positive(),
+  buildVolumeZ: (schema) => schema.int().positive(),
+  supportedMaterials: z
+    .array(z.string().trim().toUpperCase().min(1))
+    .min(1, "Select at least one material")
+    .optional(),
+  nozzleSizeMm: z.number().positive().optional(),
+  status: z.enum(["idle", "printing", "maintenance", "offline"]).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertFilamentSpoolSchema = createInsertSchema(filamentSpools, {
+  material: (schema) => schema.trim().toUpperCase().min(1, "Material is required"),
+  color: (schema) => schema.trim().min(1, "Color is required"),
+  initialGrams: (schema) => schema.positive(),
+  remainingGrams: z.number().min(0).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  readAt: true,
+  createdAt: true,
+});
+
+export const insertOrderCommentSchema = createInsertSchema(orderComments).omit({
+  id: true,
+  editedAt: true,
+  createdAt: true,
+});
+
+export const insertSupportTicketSchema = createInsertSchema(supportTickets).omit({
+  id: true,
+  status: true,
+  assignedToId: true,
+  closedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertTicketReplySchema = createInsertSchema(ticketReplies).omit({
+  id: true,
+  createdAt: true,
 });
 
 export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
@@ -129,8 +383,179 @@ export const insertSystemConfigSchema = createInsertSchema(systemConfig).omit({
   updatedAt: true,
 });
 
+export const insertSystemConfigRevisionSchema = createInsertSchema(
+  systemConfigRevisions
+).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRoleInvitationSchema = createInsertSchema(
+  roleInvitations
+).omit({
+  id: true,
+  acceptedAt: true,
+  acceptedBy: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+export const insertPendingUploadSchema = createInsertSchema(
+  pendingUploads
+).omit({
+  id: true,
+  createdAt: true,
+});
+
+const vec3Schema = z.tuple([z.number(), z.number(), z.number()]);
+
+// Computed from the uploaded mesh (see shared/stl.ts), in the browser for the
+// submit form preview and again on the server when the order is submitted
+export const stlAnalysisSchema = z.object({
+  kind: z.literal("stl"),
+  triangleCount: z.number().int().nonnegative(),
+  volumeCm3: z.number().nonnegative(),
+  surfaceAreaCm2: z.number().nonnegative(),
+  boundingBox: z.object({
+    min: vec3Schema,
+    max: vec3Schema,
+    size: z.object({ x: z.number(), y: z.number(), z: z.number() }), // mm
+  }),
+  fitsBuildVolume: z.boolean(),
+  estimatedGrams: z.number().nonnegative(),
+  estimatedHours: z.number().nonnegative(),
+});
+export type StlAnalysis = z.infer<typeof stlAnalysisSchema>;
+
+// Read from slicer comments or simulated from moves (see shared/gcode.ts)
+export const gcodeAnalysisSchema = z.object({
+  kind: z.literal("gcode"),
+  slicer: z.enum(["cura", "prusaslicer", "orcaslicer", "unknown"]),
+  estimateSource: z.enum(["slicer", "simulated"]),
+  estimatedHours: z.number().nonnegative(),
+  filamentLengthMm: z.number().nonnegative(),
+  estimatedGrams: z.number().nonnegative(),
+  layerHeightMm: z.number().positive().nullable(),
+  nozzleTempC: z.number().nullable(),
+  bedTempC: z.number().nullable(),
+  material: z.string().nullable(),
+  boundingBox: z.object({
+    size: z.object({ x: z.number(), y: z.number(), z: z.number() }), // mm
+  }),
+  fitsBuildVolume: z.boolean(),
+});
+export type GcodeAnalysis = z.infer<typeof gcodeAnalysisSchema>;
+
+export const fileAnalysisSchema = z.discriminatedUnion("kind", [
+  stlAnalysisSchema,
+  gcodeAnalysisSchema,
+]);
+export type FileAnalysis = z.infer<typeof fileAnalysisSchema>;
+
+// Metadata for each uploaded file, stored in orders.files
+export const orderFileSchema = z.object({
+  name: z.string().min(1),
+  size: z.number().int().nonnegative(),
+  type: z.string(),
+  storageKey: z.string().min(1),
+  checksum: z.string(), // sha256, hex
+  uploadedAt: z.string(), // ISO timestamp
+  expiresAt: z.string().optional(), // set once the expiry warning is shown
+  warnedAt: z.string().optional(), // when that warning was first shown
+  purgedAt: z.string().optional(), // set when the retention job deletes it
+  analysis: fileAnalysisSchema.optional(),
+});
+export type OrderFile = z.infer<typeof orderFileSchema>;
+
+// Files attached to order comments, e.g. reference photos
+export const commentAttachmentSchema = orderFileSchema.pick({
+  name: true,
+  size: true,
+  type: true,
+  storageKey: true,
+  checksum: true,
+  uploadedAt: true,
+});
+export type CommentAttachment = z.infer<typeof commentAttachmentSchema>;
+
+// users.notificationPreferences: per channel, the notification types the
+// user turned off. Unlisted types are on; see isChannelEnabled.
+const channelPreferencesSchema = z
+  .record(
+    z.enum(Object.values(NotificationType) as [NotificationTypeValue]),
+    z.boolean()
+  )
+  .default({});
+
+export const notificationPreferencesSchema = z
+  .object({
+    email: channelPreferencesSchema,
+    inApp: channelPreferencesSchema,
+  })
+  .superRefine((preferences, ctx) => {
+    for (const channel of ["email", "inApp"] as const) {
+      for (const [type, enabled] of Object.entries(preferences[channel])) {
+        if (enabled === false && notificationTypes[type as NotificationTypeValue].mandatory) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [channel, type],
+            message: `${notificationTypes[type as NotificationTypeValue].label} notifications can't be turned off`,
+          });
+        }
+      }
+    }
+  });
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
+
+export const FilamentRequestStatus = {
+  REQUESTED: "requested",
+  DROPPED_OFF: "dropped_off",
+  RECEIVED: "received",
+} as const;
+
+export const filamentRequestSchema = z.object({
+  status: z.enum([
+    FilamentRequestStatus.REQUESTED,
+    FilamentRequestStatus.DROPPED_OFF,
+    FilamentRequestStatus.RECEIVED,
+  ]),
+  material: z.string(),
+  color: z.string(),
+  grams: z.number().positive(),
+  note: z.string().optional(),
+  requestedAt: z.string(), // ISO timestamps
+  requestedBy: z.number().int(),
+  droppedOffAt: z.string().optional(),
+  receivedAt: z.string().optional(),
+});
+export type FilamentRequest = z.infer<typeof filamentRequestSchema>;
+
 export const selectUserSchema = createSelectSchema(users);
 export type User = z.infer<typeof selectUserSchema>;
+export type Club = typeof clubs.$inferSelect;
+export type Order = typeof orders.$inferSelect;
+export type Batch = typeof batches.$inferSelect;
+export type Printer = typeof printers.$inferSelect;
+export type InsertPrinter = z.infer<typeof insertPrinterSchema>;
+export type OrderComment = typeof orderComments.$inferSelect;
+export type InsertOrderComment = z.infer<typeof insertOrderCommentSchema>;
+export type SupportTicket = typeof supportTickets.$inferSelect;
+export type InsertSupportTicket = z.infer<typeof insertSupportTicketSchema>;
+export type TicketReply = typeof ticketReplies.$inferSelect;
+export type InsertTicketReply = z.infer<typeof insertTicketReplySchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type FilamentSpool = typeof filamentSpools.$inferSelect;
+export type InsertFilamentSpool = z.infer<typeof insertFilamentSpoolSchema>;
+export type SystemConfig = typeof systemConfig.$inferSelect;
+export type SystemConfigRevision = typeof systemConfigRevisions.$inferSelect;
+export type InsertSystemConfigRevision = z.infer<
+  typeof insertSystemConfigRevisionSchema
+>;
+export type RoleInvitation = typeof roleInvitations.$inferSelect;
+export type InsertRoleInvitation = z.infer<typeof insertRoleInvitationSchema>;
+export type PendingUpload = typeof pendingUploads.$inferSelect;
+export type InsertPendingUpload = z.infer<typeof insertPendingUploadSchema>;
 
 // Enums for type safety
 export const UserRole = z.enum(["USER", "ADMIN", "SUPERADMIN", "GUEST"]);
@@ -145,9 +570,23 @@ export const OrderStatus = {
   CANCELLED: "cancelled",
 } as const;
 
+export const PrinterStatus = {
+  IDLE: "idle",
+  PRINTING: "printing",
+  MAINTENANCE: "maintenance",
+  OFFLINE: "offline",
+} as const;
+
 export const BatchStatus = {
   CREATED: "created",
   APPROVED: "approved",
   STARTED: "started",
   FINISHED: "finished",
 } as const;
+
+// Answered means staff replied last; a reply from the student reopens it
+export const TicketStatus = {
+  OPEN: "open",
+  ANSWERED: "answered",
+  CLOSED: "closed",
+} as const;
@@ -0,0 +1,140 @@
+/** @format */
+
+import { describe, expect, it } from "vitest";
+import {
+  analyzeStl,
+  estimatePrint,
+  fitsBuildVolume,
+  parseStl,
+  withMaterial,
+  type Vec3,
+} from "./stl";
+
+// A right-angled tetrahedron with 10 mm legs along each axis
+const tetrahedron: Vec3[][] = [
+  [
+    [0, 0, 0],
+    [0, 10, 0],
+    [10, 0, 0],
+  ],
+  [
+    [0, 0, 0],
+    [10, 0, 0],
+    [0, 0, 10],
+  ],
+  [
+    [0, 0, 0],
+    [0, 0, 10],
+    [0, 10, 0],
+  ],
+  [
+    [10, 0, 0],
+    [0, 10, 0],
+    [0, 0, 10],
+  ],
+];
+
+function binaryStl(facets: Vec3[][], header = "") {
+  const data = new ArrayBuffer(84 + facets.length * 50);
+  const view = new DataView(data);
+  new Uint8Array(data).set(new TextEncoder().encode(header).slice(0, 80));
+  view.setUint32(80, facets.length, true);
+  facets.forEach((facet, i) => {
+    facet.flat().forEach((value, j) => {
+      view.setFloat32(84 + i * 50 + 12 + j * 4, value, true);
+    });
+  });
+  return data;
+}
+
+function asciiStl(facets: Vec3[][]) {
+  const body = facets
+    .map(
+      (facet) =>
+        `  facet normal 0 0 0\n    outer loop\n${facet
+          .map((vertex) => `      vertex ${vertex.join(" ")}`)
+          .join("\n")}\n    endloop\n  endfacet`
+    )
+    .join("\n");
+  return new TextEncoder().encode(`solid part\n${body}\nendsolid part\n`)
+    .buffer as ArrayBuffer;
+}
+
+describe("parseStl", () => {
+  it("reads binary files, even with \"solid\" in the header", () => {
+    const mesh = parseStl(binaryStl(tetrahedron, "solid exported"));
+    expect(mesh.triangleCount).toBe(4);
+    expect(Array.from(mesh.positions.slice(3, 6))).toEqual([0, 10, 0]);
+  });
+
+  it("reads ASCII files", () => {
+    const mesh = parseStl(asciiStl(tetrahedron));
+    expect(mesh.triangleCount).toBe(4);
+    expect(Array.from(mesh.positions.slice(-3))).toEqual([0, 0, 10]);
+  });
+
+  it("rejects truncated and empty files", () => {
+    const data = binaryStl(tetrahedron);
+    new DataView(data).setUint32(80, 5, true);
+    expect(() => parseStl(data)).toThrow("STL file is truncated");
+    expect(() =>
+      parseStl(new TextEncoder().encode("solid empty\nendsolid").buffer)
+    ).toThrow("STL file has no readable facets");
+  });
+});
+
+describe("analyzeStl", () => {
+  it("measures volume, surface area and bounding box", () => {
+    const analysis = analyzeStl(parseStl(binaryStl(tetrahedron)));
+    expect(analysis).toMatchObject({
+      kind: "stl",
+      triangleCount: 4,
+      volumeCm3: 0.17,
+      surfaceAreaCm2: 2.37,
+      boundingBox: {
+        min: [0, 0, 0],
+        max: [10, 10, 10],
+        size: { x: 10, y: 10, z: 10 },
+      },
+      fitsBuildVolume: true,
+    });
+  });
+
+  it("checks the part against the given build volume", () => {
+    const mesh = parseStl(asciiStl(tetrahedron));
+    expect(
+      analyzeStl(mesh, { buildVolume: { x: 5, y: 100, z: 100 } })
+        .fitsBuildVolume
+    ).toBe(false);
+  });
+
+  it("lets a part fit on its side", () => {
+    expect(
+      fitsBuildVolume({ x: 10, y: 300, z: 20 }, { x: 250, y: 30, z: 310 })
+    ).toBe(true);
+    expect(
+      fitsBuildVolume({ x: 10, y: 300, z: 20 }, { x: 250, y: 15, z: 290 })
+    ).toBe(false);
+  });
+});
+
+describe("withMaterial", () => {
+  it("re-estimates for the new material without changing the geometry", () => {
+    const large = tetrahedron.map((facet) =>
+      facet.map((vertex) => vertex.map((value) => value * 5) as Vec3)
+    );
+    const pla = analyzeStl(parseStl(asciiStl(large)));
+    const abs = withMaterial(pla, "ABS");
+
+    expect(abs.volumeCm3).toBe(pla.volumeCm3);
+    expect(abs.boundingBox).toEqual(pla.boundingBox);
+    expect(abs.estimatedGrams).toBeLessThan(pla.estimatedGrams);
+    expect(abs.estimatedHours).toBe(pla.estimatedHours);
+  });
+
+  it("prices unknown materials as PLA", () => {
+    expect(estimatePrint(8000, 2400, "NYLON")).toEqual(
+      estimatePrint(8000, 2400, "PLA")
+    );
+  });
+});
@@ -0,0 +1,204 @@
+/** @format */
+
+import type { StlAnalysis } from "./schema";
+
+export interface StlMesh {
+  // Flat xyz triples, three vertices per triangle, in millimetres
+  positions: Float32Array;
+  triangleCount: number;
+}
+
+export type Vec3 = [number, number, number];
+
+export interface BuildVolume {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Used until an order is assigned to a specific printer
+export const DEFAULT_BUILD_VOLUME: BuildVolume = { x: 220, y: 220, z: 250 };
+
+// g/cm³
+export const MATERIAL_DENSITY: Record<string, number> = {
+  PLA: 1.24,
+  ABS: 1.04,
+  PETG: 1.27,
+  TPU: 1.21,
+};
+
+// Slicing assumptions behind the filament and time estimates
+const WALL_THICKNESS_MM = 1.2;
+const INFILL_RATIO = 0.2;
+const EXTRUSION_RATE_MM3_PER_S = 6;
+const SETUP_HOURS = 0.25;
+
+const BINARY_HEADER_BYTES = 84;
+const BINARY_TRIANGLE_BYTES = 50;
+
+function isBinaryStl(data: ArrayBuffer) {
+  if (data.byteLength < BINARY_HEADER_BYTES) return false;
+  const triangleCount = new DataView(data).getUint32(80, true);
+  if (
+    BINARY_HEADER_BYTES + triangleCount * BINARY_TRIANGLE_BYTES ===
+    data.byteLength
+  ) {
+    return true;
+  }
+  // Some exporters write "solid" into binary headers, so only trust the
+  // keyword when the size check above fails
+  const head = new TextDecoder().decode(data.slice(0, 5));
+  return head.toLowerCase() !== "solid";
+}
+
+function parseBinaryStl(data: ArrayBuffer): StlMesh {
+  const view = new DataView(data);
+  const triangleCount = view.getUint32(80, true);
+  if (
+    data.byteLength <
+    BINARY_HEADER_BYTES + triangleCount * BINARY_TRIANGLE_BYTES
+  ) {
+    throw new Error("STL file is truncated");
+  }
+
+  const positions = new Float32Array(triangleCount * 9);
+  for (let i = 0; i < triangleCount; i++) {
+    // Skip the 12-byte facet normal; it is recomputed when needed
+    const offset = BINARY_HEADER_BYTES + i * BINARY_TRIANGLE_BYTES + 12;
+    for (let j = 0; j < 9; j++) {
+      positions[i * 9 + j] = view.getFloat32(offset + j * 4, true);
+    }
+  }
+  return { positions, triangleCount };
+}
+
+function parseAsciiStl(data: ArrayBuffer): StlMesh {
+  const text = new TextDecoder().decode(data);
+  const pattern =
+    /vertex\s+([-+\d.eE]+)\s+([-+\d.eE]+)\s+([-+\d.eE]+)/g;
+  const values: number[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    values.push(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+  if (values.length === 0 || values.length % 9 !== 0 || values.some(isNaN)) {
+    throw new Error("STL file has no readable facets");
+  }
+  return {
+    positions: Float32Array.from(values),
+    triangleCount: values.length / 9,
+  };
+}
+
+export function parseStl(data: ArrayBuffer): StlMesh {
+  return isBinaryStl(data) ? parseBinaryStl(data) : parseAsciiStl(data);
+}
+
+export function getBoundingBox(mesh: StlMesh) {
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  const { positions } = mesh;
+  for (let i = 0; i < positions.length; i += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], positions[i + axis]);
+      max[axis] = Math.max(max[axis], positions[i + axis]);
+    }
+  }
+  if (positions.length === 0) {
+    return { min: [0, 0, 0] as Vec3, max: [0, 0, 0] as Vec3 };
+  }
+  return { min, max };
+}
+
+// A part fits if some axis-aligned orientation of it fits, since the
+// slicer can lay it on any face.
+export function fitsBuildVolume(
+  size: BuildVolume,
+  buildVolume: BuildVolume = DEFAULT_BUILD_VOLUME
+) {
+  const part = [size.x, size.y, size.z].sort((a, b) => a - b);
+  const printer = [buildVolume.x, buildVolume.y, buildVolume.z].sort(
+    (a, b) => a - b
+  );
+  return part.every((dimension, i) => dimension <= printer[i]);
+}
+
+// Estimated filament and time for printing `volumeMm3` of solid model with
+// the usual walls-plus-infill slicing assumptions.
+export function estimatePrint(
+  volumeMm3: number,
+  surfaceAreaMm2: number,
+  material = "PLA"
+) {
+  const shellMm3 = Math.min(volumeMm3, surfaceAreaMm2 * WALL_THICKNESS_MM);
+  const printedMm3 = shellMm3 + (volumeMm3 - shellMm3) * INFILL_RATIO;
+  const density = MATERIAL_DENSITY[material] ?? MATERIAL_DENSITY.PLA;
+
+  return {
+    estimatedGrams: Math.round((printedMm3 / 1000) * density * 10) / 10,
+    estimatedHours:
+      Math.round(
+        (printedMm3 / EXTRUSION_RATE_MM3_PER_S / 3600 + SETUP_HOURS) * 10
+      ) / 10,
+  };
+}
+
+// Re-runs the filament/time estimate of an existing analysis for another material
+export function withMaterial(
+  analysis: StlAnalysis,
+  material: string
+): StlAnalysis {
+  return {
+    ...analysis,
+    ...estimatePrint(
+      analysis.volumeCm3 * 1000,
+      analysis.surfaceAreaCm2 * 100,
+      material
+    ),
+  };
+}
+
+export function analyzeStl(
+  mesh: StlMesh,
+  options: { material?: string; buildVolume?: BuildVolume } = {}
+): StlAnalysis {
+  const { positions } = mesh;
+  let signedVolume = 0;
+  let surfaceArea = 0;
+
+  for (let i = 0; i < positions.length; i += 9) {
+    const [ax, ay, az] = [positions[i], positions[i + 1], positions[i + 2]];
+    const [bx, by, bz] = [positions[i + 3], positions[i + 4], positions[i + 5]];
+    const [cx, cy, cz] = [positions[i + 6], positions[i + 7], positions[i + 8]];
+
+    // Signed volume of the tetrahedron formed with the origin
+    signedVolume +=
+      (ax * (by * cz - bz * cy) -
+        ay * (bx * cz - bz * cx) +
+        az * (bx * cy - by * cx)) /
+      6;
+
+    const [ux, uy, uz] = [bx - ax, by - ay, bz - az];
+    const [vx, vy, vz] = [cx - ax, cy - ay, cz - az];
+    surfaceArea +=
+      Math.hypot(uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx) / 2;
+  }
+
+  const { min, max } = getBoundingBox(mesh);
+  const size = { x: max[0] - min[0], y: max[1] - min[1], z: max[2] - min[2] };
+  const volumeMm3 = Math.abs(signedVolume);
+
+  return {
+    kind: "stl",
+    triangleCount: mesh.triangleCount,
+    volumeCm3: Math.round(volumeMm3 / 10) / 100,
+    surfaceAreaCm2: Math.round(surfaceArea) / 100,
+    boundingBox: {
+      min,
+      max,
+      size,
+    },
+    fitsBuildVolume: fitsBuildVolume(size, options.buildVolume),
+    ...estimatePrint(volumeMm3, surfaceArea, options.material),
+  };
+}
@@ -0,0 +1,118 @@
+/** @format */
+
+import { describe, expect, it } from "vitest";
+import {
+  canEditConfig,
+  diffLines,
+  formatConfigValue,
+  getConfigDefinition,
+  isSystemConfigKey,
+  systemConfigRegistry,
+  systemConfigRollbackSchema,
+  systemConfigUpdateSchema,
+  type ConfigDefinition,
+} from "./systemConfig";
+
+describe("systemConfigRegistry", () => {
+  it("has defaults that pass their own schemas", () => {
+    for (const [key, definition] of Object.entries(systemConfigRegistry)) {
+      const { schema, default: value } = definition as ConfigDefinition;
+      expect(schema.safeParse(value).success, key).toBe(true);
+    }
+  });
+
+  it("keeps the original settings", () => {
+    for (const key of [
+      "file_upload_limit",
+      "file_retention_days",
+      "max_file_size_mb",
+      "allowed_file_types",
+    ]) {
+      expect(isSystemConfigKey(key)).toBe(true);
+    }
+    expect(isSystemConfigKey("toString")).toBe(false);
+    expect(getConfigDefinition("nope")).toBeUndefined();
+  });
+
+  it("checks values against the setting's schema", () => {
+    const { schema: limit } = systemConfigRegistry.file_upload_limit;
+    expect(limit.safeParse(2.5).error?.errors[0]?.message).toBe(
+      "Must be a whole number"
+    );
+    expect(limit.safeParse(0).success).toBe(false);
+
+    const { schema: types } = systemConfigRegistry.allowed_file_types;
+    expect(types.parse([" .STL", ".gcode"])).toEqual([".stl", ".gcode"]);
+    expect(types.safeParse(["stl"]).error?.errors[0]?.message).toBe(
+      "Extensions look like .stl"
+    );
+    expect(types.safeParse([]).error?.errors[0]?.message).toBe(
+      "Allow at least one file type"
+    );
+
+    const { schema: admins } = systemConfigRegistry.admin_emails;
+    expect(admins.parse([" Lab@Smail.iitm.ac.in"])).toEqual([
+      "lab@smail.iitm.ac.in",
+    ]);
+    expect(admins.safeParse(["lab"]).success).toBe(false);
+  });
+});
+
+describe("canEditConfig", () => {
+  it("follows the setting's roles", () => {
+    const definition = systemConfigRegistry.max_file_size_mb;
+    expect(canEditConfig(definition, "superadmin")).toBe(true);
+    expect(canEditConfig(definition, "ADMIN")).toBe(false);
+  });
+});
+
+describe("systemConfigUpdateSchema", () => {
+  it("only takes registered keys", () => {
+    expect(
+      systemConfigUpdateSchema.safeParse({ key: "max_file_size_mb", value: 5 })
+        .success
+    ).toBe(true);
+    expect(
+      systemConfigUpdateSchema.safeParse({ key: "anything", value: 5 }).error
+        ?.errors[0]?.message
+    ).toBe("Unknown setting");
+  });
+});
+
+describe("systemConfigRollbackSchema", () => {
+  it("needs a reason", () => {
+    expect(
+      systemConfigRollbackSchema.safeParse({ version: 2, reason: " " }).error
+        ?.errors[0]?.message
+    ).toBe("Say why the change is being rolled back");
+  });
+});
+
+describe("formatConfigValue", () => {
+  it("puts one list item or template part per line", () => {
+    const { allowed_file_types, max_file_size_mb } = systemConfigRegistry;
+    expect(formatConfigValue(max_file_size_mb, 50)).toBe("50");
+    expect(formatConfigValue(allowed_file_types, [".stl", ".gcode"])).toBe(
+      ".stl\n.gcode"
+    );
+    expect(formatConfigValue(allowed_file_types, null)).toBe("");
+    expect(
+      formatConfigValue(systemConfigRegistry.email_template_order_started, {
+        subject: "Started",
+        body: "On the printer",
+      })
+    ).toBe("Subject: Started\n\nOn the printer");
+  });
+});
+
+describe("diffLines", () => {
+  it("marks removed and added lines around the common ones", () => {
+    expect(diffLines(".stl\n.gcode", ".stl\n.obj")).toEqual([
+      { type: "same", text: ".stl" },
+      { type: "removed", text: ".gcode" },
+      { type: "added", text: ".obj" },
+    ]);
+    expect(diffLines("", "50")).toEqual([{ type: "added", text: "50" }]);
+    expect(diffLines("50", "50")).toEqual([{ type: "same", text: "50" }]);
+  });
+});
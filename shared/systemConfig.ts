@@ -0,0 +1,302 @@
+/** @format */
+
+import { z } from "zod";
+import {
+  defaultEmailTemplates,
+  emailTemplateKey,
+  emailTemplateSchema,
+  notificationTypes,
+  type EmailTemplate,
+  type EmailTemplateKey,
+  type NotificationTypeValue,
+} from "./notifications";
+
+export type ConfigRole = "ADMIN" | "SUPERADMIN";
+
+// How the super admin panel edits a value
+export type ConfigInput = "number" | "list" | "template";
+
+export interface ConfigDefinition<T = unknown> {
+  label: string;
+  description: string;
+  category: "Files" | "Queue" | "Inventory" | "Access" | "Email templates";
+  input: ConfigInput;
+  schema: z.ZodType<T>;
+  default: T;
+  // Who may change the value; everyone with access to the panel can read it
+  roles: ConfigRole[];
+  // Readable by anyone, signed in or not, e.g. limits the submit form shows
+  public?: boolean;
+  // Shown next to number inputs
+  unit?: string;
+  // Example value for list inputs
+  placeholder?: string;
+}
+
+function define<T>(definition: ConfigDefinition<T>): ConfigDefinition<T> {
+  return definition;
+}
+
+const wholeNumber = (min: number, max: number) =>
+  z.number().int("Must be a whole number").min(min).max(max);
+
+const fileExtensions = z
+  .array(
+    z
+      .string()
+      .trim()
+      .toLowerCase()
+      .regex(/^\.[a-z0-9]+$/, "Extensions look like .stl")
+  )
+  .min(1, "Allow at least one file type");
+
+const emailList = z.array(
+  z.string().trim().toLowerCase().email("Enter full email addresses")
+);
+
+// Every system setting the app reads, with its default. Values stored in
+// systemConfig are checked against these schemas before they are saved.
+export const systemConfigRegistry = {
+  file_upload_limit: define({
+    label: "Upload limit",
+    description: "Maximum files per user per period",
+    category: "Files",
+    input: "number",
+    schema: wholeNumber(1, 1000),
+    default: 10,
+    roles: ["SUPERADMIN"],
+    public: true,
+    unit: "files",
+  }),
+  file_retention_days: define({
+    label: "File retention",
+    description: "Days to retain uploaded files",
+    category: "Files",
+    input: "number",
+    schema: wholeNumber(1, 3650),
+    default: 90,
+    roles: ["SUPERADMIN"],
+    public: true,
+    unit: "days",
+  }),
+  file_expiry_warning_days: define({
+    label: "Expiry warning",
+    description: "Days before deletion that students are warned",
+    category: "Files",
+    input: "number",
+    schema: wholeNumber(0, 365),
+    default: 7,
+    roles: ["SUPERADMIN"],
+    public: true,
+    unit: "days",
+  }),
+  max_file_size_mb: define({
+    label: "Maximum file size",
+    description: "Maximum file size in MB",
+    category: "Files",
+    input: "number",
+    schema: wholeNumber(1, 1024),
+    default: 50,
+    roles: ["SUPERADMIN"],
+    public: true,
+    unit: "MB",
+  }),
+  allowed_file_types: define({
+    label: "Allowed file types",
+    description: "Allowed file extensions",
+    category: "Files",
+    input: "list",
+    schema: fileExtensions,
+    default: [".stl", ".gcode"],
+    roles: ["SUPERADMIN"],
+    public: true,
+    placeholder: ".stl, .gcode",
+  }),
+  queue_printer_count: define({
+    label: "Assumed printers",
+    description: "Printers assumed by the queue until printers are registered",
+    category: "Queue",
+    input: "number",
+    schema: wholeNumber(1, 100),
+    default: 1,
+    roles: ["SUPERADMIN"],
+    unit: "printers",
+  }),
+  queue_default_print_hours: define({
+    label: "Default print time",
+    description: "Print time assumed for orders without a file estimate",
+    category: "Queue",
+    input: "number",
+    schema: z.number().positive("Must be more than zero").max(240),
+    default: 3,
+    roles: ["SUPERADMIN"],
+    unit: "hours",
+  }),
+  batch_max_print_hours: define({
+    label: "Batch time limit",
+    description: "Longest total print time for a suggested batch",
+    category: "Queue",
+    input: "number",
+    schema: z.number().positive("Must be more than zero").max(240),
+    default: 12,
+    roles: ["SUPERADMIN"],
+    unit: "hours",
+  }),
+  filament_low_stock_grams: define({
+    label: "Low stock threshold",
+    description: "Spools at or below this many grams are flagged as low stock",
+    category: "Inventory",
+    input: "number",
+    schema: wholeNumber(0, 100000),
+    default: 250,
+    roles: ["SUPERADMIN"],
+    unit: "g",
+  }),
+  superadmin_emails: define({
+    label: "Super admins",
+    description: "Accounts made super admins when they sign in",
+    category: "Access",
+    input: "list",
+    schema: emailList,
+    default: [],
+    roles: ["SUPERADMIN"],
+    placeholder: "name@smail.iitm.ac.in",
+  }),
+  admin_emails: define({
+    label: "Admins",
+    description: "Accounts made admins when they sign in",
+    category: "Access",
+    input: "list",
+    schema: emailList,
+    default: [],
+    roles: ["SUPERADMIN"],
+    placeholder: "name@smail.iitm.ac.in",
+  }),
+  ...(Object.fromEntries(
+    (Object.keys(defaultEmailTemplates) as NotificationTypeValue[]).map(
+      (type) => [
+        emailTemplateKey(type),
+        define({
+          label: notificationTypes[type].label,
+          description: `Email sent for: ${notificationTypes[type].label}`,
+          category: "Email templates",
+          input: "template",
+          schema: emailTemplateSchema,
+          default: defaultEmailTemplates[type],
+          roles: ["SUPERADMIN"],
+        }),
+      ]
+    )
+  ) as Record<EmailTemplateKey, ConfigDefinition<EmailTemplate>>),
+};
+
+export type SystemConfigKey = keyof typeof systemConfigRegistry;
+
+export type SystemConfigValue<K extends SystemConfigKey> =
+  (typeof systemConfigRegistry)[K]["default"];
+
+export function isSystemConfigKey(key: string): key is SystemConfigKey {
+  return Object.prototype.hasOwnProperty.call(systemConfigRegistry, key);
+}
+
+export function getConfigDefinition(key: string): ConfigDefinition | undefined {
+  return isSystemConfigKey(key)
+    ? (systemConfigRegistry[key] as ConfigDefinition)
+    : undefined;
+}
+
+export function canEditConfig(definition: ConfigDefinition, role: string) {
+  return definition.roles.includes(role.toUpperCase() as ConfigRole);
+}
+
+const changeReason = z.string().trim().max(500);
+
+export const systemConfigUpdateSchema = z.object({
+  key: z.string().refine(isSystemConfigKey, "Unknown setting"),
+  value: z.unknown(),
+  reason: changeReason.optional(),
+});
+
+// Reverts the change made in `version`, restoring the value it replaced
+export const systemConfigRollbackSchema = z.object({
+  version: z.number().int().positive(),
+  reason: changeReason.min(1, "Say why the change is being rolled back"),
+});
+
+// A stored setting as returned by the API, with the editor's name
+export interface SystemConfigView {
+  key: string;
+  value: unknown;
+  description: string | null;
+  updatedAt: string | Date | null;
+  updatedBy: { id: number; displayName: string } | null;
+}
+
+export interface SystemConfigRevisionView {
+  version: number;
+  previousValue: unknown;
+  value: unknown;
+  changedBy: { id: number; displayName: string } | null;
+  reason: string | null;
+  revertedVersion: number | null;
+  createdAt: string | Date | null;
+}
+
+// A value as text for the diff view: one list item or template part per line
+export function formatConfigValue(
+  definition: ConfigDefinition,
+  value: unknown
+): string {
+  if (value === null || value === undefined) return "";
+  switch (definition.input) {
+    case "number":
+      return String(value);
+    case "list":
+      return Array.isArray(value) ? value.join("\n") : String(value);
+    case "template": {
+      const template = value as Partial<EmailTemplate>;
+      return `Subject: ${template.subject ?? ""}\n\n${template.body ?? ""}`;
+    }
+  }
+}
+
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+// Line diff from the longest common subsequence. Config values are a few
+// lines long, so the quadratic table is fine.
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ type: "added", text: b[j++] });
+  return lines;
+}
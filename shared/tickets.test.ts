@@ -0,0 +1,56 @@
+/** @format */
+
+import { describe, expect, it } from "vitest";
+import {
+  contactSchema,
+  getTicketSubjectLabel,
+  normalizeOrderCode,
+  ticketAssignSchema,
+  ticketReplySchema,
+} from "./tickets";
+
+describe("normalizeOrderCode", () => {
+  it("adds the leading # people leave out", () => {
+    expect(normalizeOrderCode(" rc24001 ")).toBe("#RC24001");
+    expect(normalizeOrderCode("#RC24001")).toBe("#RC24001");
+  });
+});
+
+describe("getTicketSubjectLabel", () => {
+  it("labels known subjects and passes others through", () => {
+    expect(getTicketSubjectLabel("print-quality")).toBe("Print Quality Issue");
+    expect(getTicketSubjectLabel("Lost and found")).toBe("Lost and found");
+  });
+});
+
+describe("contactSchema", () => {
+  it("needs a subject and a real message", () => {
+    expect(
+      contactSchema.safeParse({ subject: "general", message: "Hello there!" })
+        .success
+    ).toBe(true);
+    expect(
+      contactSchema.safeParse({ subject: "general", message: "Hi" }).error
+        ?.errors[0]?.message
+    ).toBe("Message must be at least 10 characters");
+  });
+});
+
+describe("ticketReplySchema", () => {
+  it("rejects blank replies", () => {
+    expect(
+      ticketReplySchema.safeParse({ body: "   " }).error?.errors[0]?.message
+    ).toBe("Reply can't be empty");
+  });
+});
+
+describe("ticketAssignSchema", () => {
+  it("takes a user id or null to unassign", () => {
+    expect(ticketAssignSchema.parse({ assignedToId: null })).toEqual({
+      assignedToId: null,
+    });
+    expect(ticketAssignSchema.safeParse({ assignedToId: 0 }).success).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,59 @@
+/** @format */
+
+import { z } from "zod";
+import type { Order, SupportTicket, TicketReply, User } from "./schema";
+import type { OrderTimelineActor } from "./orderTimeline";
+
+// The topics offered on the Contact page
+export const ticketSubjects = {
+  general: "General Question",
+  "print-quality": "Print Quality Issue",
+  "file-upload": "File Upload Problem",
+  account: "Account Access",
+  cancellation: "Cancel Print Request",
+  rush: "Rush Order Request",
+  other: "Other",
+} as const;
+
+export type TicketSubject = keyof typeof ticketSubjects;
+
+export function getTicketSubjectLabel(subject: string) {
+  return ticketSubjects[subject as TicketSubject] ?? subject;
+}
+
+// The Contact form. orderId is the order code students see, e.g. #RC24001.
+export const contactSchema = z.object({
+  subject: z.string().min(1, "Subject is required"),
+  orderId: z.string().optional(),
+  message: z.string().min(10, "Message must be at least 10 characters"),
+});
+
+export type ContactForm = z.infer<typeof contactSchema>;
+
+// Order codes are stored with a leading "#", which people often leave out
+export function normalizeOrderCode(code: string) {
+  const trimmed = code.trim().toUpperCase();
+  return trimmed.startsWith("#") ? trimmed : `#${trimmed}`;
+}
+
+export const ticketReplySchema = z.object({
+  body: z.string().trim().min(1, "Reply can't be empty").max(5000),
+});
+
+export const ticketAssignSchema = z.object({
+  // null unassigns the ticket
+  assignedToId: z.number().int().positive().nullable(),
+});
+
+export type TicketReplyView = Omit<TicketReply, "authorId"> & {
+  author: OrderTimelineActor;
+};
+
+// A ticket as returned by the API. The requester and assignee are only
+// included for staff.
+export type TicketView = SupportTicket & {
+  order: Pick<Order, "id" | "orderId" | "projectName"> | null;
+  user?: Pick<User, "id" | "displayName" | "email">;
+  assignedTo?: Pick<User, "id" | "displayName"> | null;
+  replies?: TicketReplyView[];
+};
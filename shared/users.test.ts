@@ -0,0 +1,107 @@
+/** @format */
+
+import { describe, expect, it } from "vitest";
+import {
+  bulkUserSuspendSchema,
+  describeSuspension,
+  getRoleRank,
+  hasRole,
+  isStaff,
+  isSuspended,
+  userListQuerySchema,
+  userRoleUpdateSchema,
+  userSuspendSchema,
+} from "./users";
+
+describe("roles", () => {
+  it("ranks roles from guest to super admin", () => {
+    expect(getRoleRank("guest")).toBe(0);
+    expect(getRoleRank("SUPERADMIN")).toBe(3);
+    expect(getRoleRank("owner")).toBe(-1);
+  });
+
+  it("lets higher roles do what lower ones can", () => {
+    expect(hasRole({ role: "SUPERADMIN" }, "ADMIN")).toBe(true);
+    expect(hasRole({ role: "USER" }, "ADMIN")).toBe(false);
+    expect(hasRole(null, "GUEST")).toBe(false);
+    expect(isStaff({ role: "admin" })).toBe(true);
+    expect(isStaff({ role: "USER" })).toBe(false);
+  });
+});
+
+describe("isSuspended", () => {
+  const now = new Date("2026-06-01T00:00:00.000Z");
+
+  it("lifts suspensions once their end date passes", () => {
+    expect(isSuspended({ suspended: false }, now)).toBe(false);
+    expect(isSuspended({ suspended: true, suspendedUntil: null }, now)).toBe(
+      true
+    );
+    expect(
+      isSuspended(
+        { suspended: true, suspendedUntil: "2026-06-02T00:00:00.000Z" },
+        now
+      )
+    ).toBe(true);
+    expect(
+      isSuspended(
+        { suspended: true, suspendedUntil: "2026-05-31T00:00:00.000Z" },
+        now
+      )
+    ).toBe(false);
+  });
+
+  it("is described with its reason", () => {
+    expect(describeSuspension({ suspendedReason: "Spam" })).toBe(
+      "Account suspended: Spam"
+    );
+  });
+});
+
+describe("userListQuerySchema", () => {
+  it("reads filters and paging from the query string", () => {
+    expect(
+      userListQuerySchema.parse({ role: "admin,superadmin", page: "2" })
+    ).toEqual({ role: ["ADMIN", "SUPERADMIN"], page: 2, pageSize: 25 });
+    expect(userListQuerySchema.safeParse({ role: "owner" }).success).toBe(
+      false
+    );
+    expect(userListQuerySchema.safeParse({ pageSize: "500" }).success).toBe(
+      false
+    );
+  });
+});
+
+describe("userRoleUpdateSchema", () => {
+  it("only takes known roles", () => {
+    expect(userRoleUpdateSchema.safeParse({ role: "ADMIN" }).success).toBe(
+      true
+    );
+    expect(userRoleUpdateSchema.safeParse({ role: "OWNER" }).success).toBe(
+      false
+    );
+  });
+});
+
+describe("userSuspendSchema", () => {
+  it("needs a reason and an end date in the future", () => {
+    expect(
+      userSuspendSchema.safeParse({ reason: " " }).error?.errors[0]?.message
+    ).toBe("Say why the account is being suspended");
+    expect(
+      userSuspendSchema.safeParse({ reason: "Spam", until: "2000-01-01" })
+        .error?.errors[0]?.message
+    ).toBe("The end date must be in the future");
+    expect(userSuspendSchema.parse({ reason: "Spam", until: null })).toEqual({
+      reason: "Spam",
+      until: null,
+    });
+  });
+
+  it("needs someone to suspend in bulk", () => {
+    expect(
+      bulkUserSuspendSchema.safeParse({ reason: "Spam", userIds: [] }).error
+        ?.errors[0]?.message
+    ).toBe("Select at least one user");
+  });
+});
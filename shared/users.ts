@@ -0,0 +1,144 @@
+/** @format */
+
+import { z } from "zod";
+import {
+  UserRole,
+  insertUserSchema,
+  type RoleInvitation,
+  type User,
+} from "./schema";
+
+export const USERS_PAGE_SIZE = 25;
+
+// Least to most privileged. Each role can do everything the ones before it can.
+export const roleRank: readonly UserRole[] = ["GUEST", "USER", "ADMIN", "SUPERADMIN"];
+
+// -1 for anything that isn't a role
+export function getRoleRank(role: string) {
+  return roleRank.indexOf(role.toUpperCase() as UserRole);
+}
+
+export function hasRole(
+  user: { role: string } | null | undefined,
+  minimum: UserRole
+) {
+  return !!user && getRoleRank(user.role) >= getRoleRank(minimum);
+}
+
+// Admins and super admins, who run the print lab
+export function isStaff(user: { role: string } | null | undefined) {
+  return hasRole(user, "ADMIN");
+}
+
+// Suspensions with an expiry lift themselves once it passes
+export function isSuspended(
+  user: { suspended?: boolean | null; suspendedUntil?: Date | string | null },
+  now = new Date()
+) {
+  if (!user.suspended) return false;
+  return !user.suspendedUntil || new Date(user.suspendedUntil) > now;
+}
+
+export function describeSuspension(user: {
+  suspendedReason?: string | null;
+  suspendedUntil?: Date | string | null;
+}) {
+  const until = user.suspendedUntil
+    ? ` until ${new Date(user.suspendedUntil).toLocaleDateString()}`
+    : "";
+  const reason = user.suspendedReason ? `: ${user.suspendedReason}` : "";
+  return `Account suspended${until}${reason}`;
+}
+
+export const userListQuerySchema = z.object({
+  search: z.string().trim().optional(),
+  // One role or a comma-separated list, e.g. ADMIN,SUPERADMIN
+  role: z
+    .string()
+    .transform((value) => value.toUpperCase().split(",").filter(Boolean))
+    .pipe(z.array(UserRole))
+    .optional(),
+  status: z.enum(["active", "suspended"]).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(USERS_PAGE_SIZE),
+});
+
+export type UserListQuery = z.infer<typeof userListQuerySchema>;
+
+export interface UserListResponse {
+  users: User[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export const userRoleUpdateSchema = z.object({
+  role: UserRole,
+  reason: z.string().trim().max(500).optional(),
+});
+
+const suspension = {
+  reason: z
+    .string()
+    .trim()
+    .min(1, "Say why the account is being suspended")
+    .max(500),
+  // Leave empty to suspend until an admin lifts it
+  until: z.coerce
+    .date()
+    .refine((date) => date > new Date(), "The end date must be in the future")
+    .nullable()
+    .optional(),
+};
+
+export const userSuspendSchema = z.object(suspension);
+
+export const bulkUserSuspendSchema = z.object({
+  ...suspension,
+  userIds: z
+    .array(z.number().int().positive())
+    .min(1, "Select at least one user")
+    .max(100),
+});
+
+export interface BulkSuspendResult {
+  suspended: User[];
+  // Users left alone, e.g. the caller themselves, with the reason why
+  skipped: { id: number; message: string }[];
+}
+
+// Profile fields a client may send on sign-in. The email comes from the
+// verified Firebase token and the role is decided by the server.
+export const registerUserSchema = insertUserSchema.pick({
+  displayName: true,
+  photoURL: true,
+});
+
+export const roleInvitationCreateSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a full email address"),
+  role: z.enum(["ADMIN", "SUPERADMIN"]),
+  expiresAt: z.coerce
+    .date()
+    .refine((date) => date > new Date(), "The expiry must be in the future")
+    .nullable()
+    .optional(),
+});
+
+export type RoleInvitationStatus = "pending" | "accepted" | "revoked" | "expired";
+
+export function getInvitationStatus(
+  invitation: Pick<RoleInvitation, "acceptedAt" | "revokedAt" | "expiresAt">,
+  now = new Date()
+): RoleInvitationStatus {
+  if (invitation.acceptedAt) return "accepted";
+  if (invitation.revokedAt) return "revoked";
+  if (invitation.expiresAt && new Date(invitation.expiresAt) <= now) {
+    return "expired";
+  }
+  return "pending";
+}
+
+export interface RoleInvitationView extends RoleInvitation {
+  status: RoleInvitationStatus;
+  invitedByName: string | null;
+}
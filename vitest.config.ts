@@ -0,0 +1,26 @@
+import { defineConfig } from "vitest/config";
+import { fileURLToPath } from "url";
+import path from "path";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Server tests run against MemStorage; vite.config.ts is for the client build.
+// Client tests cover plain modules only, so everything runs under node.
+export default defineConfig({
+  test: {
+    include: [
+      "server/**/*.test.ts",
+      "shared/**/*.test.ts",
+      "client/src/**/*.test.ts",
+    ],
+    environment: "node",
+    env: { STORAGE_DRIVER: "memory" },
+  },
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./client/src"),
+      "@shared": path.resolve(__dirname, "./shared"),
+    },
+  },
+});